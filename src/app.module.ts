@@ -1,11 +1,13 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { ScheduleModule } from '@nestjs/schedule';
 import { MetadataModule } from './modules/metadata/metadata.module';
 import { DatabaseConfig } from './config/database.config';
 
 @Module({
   imports: [
     MongooseModule.forRoot(DatabaseConfig.getMongoUri()),
+    ScheduleModule.forRoot(),
     MetadataModule,
   ],
 })
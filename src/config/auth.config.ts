@@ -0,0 +1,92 @@
+export class AuthConfig {
+  /**
+   * Authentication of API requests, via `AUTH_ENABLED`. On unless set to
+   * `false`; with it on, the service does not start without credentials.
+   */
+  static isEnabled(): boolean {
+    return process.env.AUTH_ENABLED !== 'false';
+  }
+
+  /**
+   * API keys as comma-separated `name:role:key` entries, via
+   * `AUTH_API_KEYS`. The name identifies the key in logs and rate limits.
+   */
+  static getApiKeys(): string | undefined {
+    return this.optional('AUTH_API_KEYS');
+  }
+
+  /**
+   * Shared secret of HS256 tokens, via `AUTH_JWT_SECRET`.
+   */
+  static getJwtSecret(): string | undefined {
+    return this.optional('AUTH_JWT_SECRET');
+  }
+
+  /**
+   * PEM file with the public key of RS256 tokens, via
+   * `AUTH_JWT_PUBLIC_KEY_FILE`.
+   */
+  static getJwtPublicKeyFile(): string | undefined {
+    return this.optional('AUTH_JWT_PUBLIC_KEY_FILE');
+  }
+
+  /**
+   * Required `iss` of tokens, via `AUTH_JWT_ISSUER`. Not checked when unset.
+   */
+  static getJwtIssuer(): string | undefined {
+    return this.optional('AUTH_JWT_ISSUER');
+  }
+
+  /**
+   * Required `aud` of tokens, via `AUTH_JWT_AUDIENCE`. Not checked when unset.
+   */
+  static getJwtAudience(): string | undefined {
+    return this.optional('AUTH_JWT_AUDIENCE');
+  }
+
+  /**
+   * Claim holding the role, or a list of roles, of a token, via
+   * `AUTH_JWT_ROLE_CLAIM` (default `role`).
+   */
+  static getJwtRoleClaim(): string {
+    return this.optional('AUTH_JWT_ROLE_CLAIM') ?? 'role';
+  }
+
+  /**
+   * Leeway for the `exp` and `nbf` of tokens, via
+   * `AUTH_JWT_CLOCK_TOLERANCE_SECONDS` (default 30).
+   */
+  static getJwtClockToleranceSeconds(): number {
+    const seconds = parseInt(
+      process.env.AUTH_JWT_CLOCK_TOLERANCE_SECONDS ?? '',
+      10,
+    );
+    return seconds >= 0 ? seconds : 30;
+  }
+
+  /**
+   * Requests each API key or token subject may make to trigger endpoints per
+   * window, via `AUTH_TRIGGER_RATE_LIMIT` (default 5).
+   */
+  static getTriggerRateLimit(): number {
+    return this.positiveInt('AUTH_TRIGGER_RATE_LIMIT', 5);
+  }
+
+  /**
+   * Length of the trigger rate limit window, via
+   * `AUTH_TRIGGER_RATE_WINDOW_SECONDS` (default 60).
+   */
+  static getTriggerRateWindowSeconds(): number {
+    return this.positiveInt('AUTH_TRIGGER_RATE_WINDOW_SECONDS', 60);
+  }
+
+  private static optional(name: string): string | undefined {
+    const value = process.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  private static positiveInt(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] ?? '', 10);
+    return value > 0 ? value : fallback;
+  }
+}
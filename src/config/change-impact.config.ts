@@ -0,0 +1,10 @@
+export class ChangeImpactConfig {
+  /**
+   * JSON file of change impact rules checked before the built-in ones, via
+   * `CHANGE_IMPACT_RULES_FILE`. Only the built-in rules apply when unset.
+   */
+  static getRulesFile(): string | undefined {
+    const file = process.env.CHANGE_IMPACT_RULES_FILE?.trim();
+    return file ? file : undefined;
+  }
+}
@@ -0,0 +1,10 @@
+export class ClassificationConfig {
+  /**
+   * JSON file of classification rules replacing the built-in ones, via
+   * `CLASSIFICATION_RULES_FILE`. The built-in rules apply when unset.
+   */
+  static getRulesFile(): string | undefined {
+    const file = process.env.CLASSIFICATION_RULES_FILE?.trim();
+    return file ? file : undefined;
+  }
+}
@@ -0,0 +1,47 @@
+export class ProfileConfig {
+  /**
+   * Rows sampled when a profile request does not say, via
+   * `PROFILE_SAMPLE_ROWS` (default 10000).
+   */
+  static getDefaultSampleRows(): number {
+    return this.positiveInt('PROFILE_SAMPLE_ROWS', 10000);
+  }
+
+  /**
+   * Largest sample a request may ask for, via `PROFILE_MAX_SAMPLE_ROWS`
+   * (default 1000000).
+   */
+  static getMaxSampleRows(): number {
+    return this.positiveInt('PROFILE_MAX_SAMPLE_ROWS', 1000000);
+  }
+
+  /**
+   * Snowflake statement timeout of profiling queries, via
+   * `PROFILE_TIMEOUT_SECONDS` (default 60). Longer queries are cancelled.
+   */
+  static getTimeoutSeconds(): number {
+    return this.positiveInt('PROFILE_TIMEOUT_SECONDS', 60);
+  }
+
+  /**
+   * Columns profiled per table, in column order, via `PROFILE_MAX_COLUMNS`
+   * (default 200).
+   */
+  static getMaxColumns(): number {
+    return this.positiveInt('PROFILE_MAX_COLUMNS', 200);
+  }
+
+  /**
+   * Minutes before a table can be profiled again, via
+   * `PROFILE_COOLDOWN_MINUTES` (default 60, 0 to allow it any time).
+   */
+  static getCooldownMinutes(): number {
+    const minutes = parseInt(process.env.PROFILE_COOLDOWN_MINUTES ?? '', 10);
+    return minutes >= 0 ? minutes : 60;
+  }
+
+  private static positiveInt(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] ?? '', 10);
+    return value > 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,33 @@
+import { SyncMode } from '../modules/metadata/dto/sync-response.dto';
+
+export class SchedulerConfig {
+  /**
+   * Schedules seeded on first start. Once stored in MongoDB they are managed
+   * through the API and these values are no longer read.
+   */
+  static getDefaultSchedules(): Array<{
+    name: string;
+    mode: SyncMode;
+    cron: string;
+    enabled: boolean;
+  }> {
+    return [
+      {
+        name: 'incremental',
+        mode: 'incremental',
+        cron: process.env.SYNC_INCREMENTAL_CRON || '0 * * * *',
+        enabled: process.env.SYNC_INCREMENTAL_ENABLED === 'true',
+      },
+      {
+        name: 'full',
+        mode: 'full',
+        cron: process.env.SYNC_FULL_CRON || '0 3 * * 0',
+        enabled: process.env.SYNC_FULL_ENABLED === 'true',
+      },
+    ];
+  }
+
+  static getTimezone(): string {
+    return process.env.SYNC_SCHEDULE_TIMEZONE || 'UTC';
+  }
+}
@@ -0,0 +1,33 @@
+export class SourceConfig {
+  /**
+   * SQLite files to catalog, from `SQLITE_SOURCES=name=/path/to/file.db,...`.
+   * Each name becomes a source and the database name of its tables.
+   */
+  static getSqliteSources(): Array<{ name: string; path: string }> {
+    return (process.env.SQLITE_SOURCES ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .map((entry) => {
+        const separator = entry.indexOf('=');
+        if (separator <= 0 || separator === entry.length - 1) {
+          throw new Error(
+            `Invalid SQLITE_SOURCES entry "${entry}", expected name=path`,
+          );
+        }
+        return {
+          name: entry.slice(0, separator).trim(),
+          path: entry.slice(separator + 1).trim(),
+        };
+      });
+  }
+
+  /**
+   * Directory that `POST /metadata/import/ddl/directory` may read DDL files
+   * from, via `DDL_IMPORT_ROOT`. Directory imports are disabled when unset.
+   */
+  static getDdlImportRoot(): string | undefined {
+    const root = process.env.DDL_IMPORT_ROOT?.trim();
+    return root ? root : undefined;
+  }
+}
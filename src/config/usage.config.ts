@@ -0,0 +1,17 @@
+export class UsageConfig {
+  /**
+   * Usage collection after unscoped syncs, via `USAGE_COLLECTION_ENABLED`.
+   * Off by default, as it scans ACCESS_HISTORY on every sync.
+   */
+  static isEnabled(): boolean {
+    return process.env.USAGE_COLLECTION_ENABLED === 'true';
+  }
+
+  /**
+   * Days of query history counted, via `USAGE_WINDOW_DAYS` (default 90).
+   */
+  static getWindowDays(): number {
+    const days = parseInt(process.env.USAGE_WINDOW_DAYS ?? '', 10);
+    return days > 0 ? days : 90;
+  }
+}
@@ -0,0 +1,37 @@
+export class WebhookConfig {
+  /**
+   * Attempts per delivery before it is dead-lettered, via
+   * `WEBHOOK_MAX_ATTEMPTS` (default 6).
+   */
+  static getMaxAttempts(): number {
+    return this.positiveInt('WEBHOOK_MAX_ATTEMPTS', 6);
+  }
+
+  /**
+   * Delay before the first retry, doubled after every further failure, via
+   * `WEBHOOK_RETRY_BASE_SECONDS` (default 30).
+   */
+  static getRetryBaseSeconds(): number {
+    return this.positiveInt('WEBHOOK_RETRY_BASE_SECONDS', 30);
+  }
+
+  /**
+   * Time a receiver has to answer, via `WEBHOOK_TIMEOUT_SECONDS` (default 10).
+   */
+  static getTimeoutSeconds(): number {
+    return this.positiveInt('WEBHOOK_TIMEOUT_SECONDS', 10);
+  }
+
+  /**
+   * How often due retries are looked for, via
+   * `WEBHOOK_DISPATCH_INTERVAL_SECONDS` (default 15).
+   */
+  static getDispatchIntervalSeconds(): number {
+    return this.positiveInt('WEBHOOK_DISPATCH_INTERVAL_SECONDS', 15);
+  }
+
+  private static positiveInt(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] ?? '', 10);
+    return value > 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { createHmac } from 'crypto';
+import { AuthModule } from '../auth.module';
+import { AuthGuard } from '../guards/auth.guard';
+import { RateLimitGuard } from '../guards/rate-limit.guard';
+import { RateLimited, RequireRole } from '../auth.decorators';
+
+const ADMIN_KEY = 'admin-key-0123456789';
+const VIEWER_KEY = 'viewer-key-0123456789';
+const SECRET = 'a-shared-secret-for-tests';
+
+@Controller('things')
+@UseGuards(AuthGuard, RateLimitGuard)
+class ThingsController {
+  @Get()
+  list() {
+    return [];
+  }
+
+  @Post('sync')
+  @RequireRole('admin')
+  @RateLimited()
+  sync() {
+    return { started: true };
+  }
+}
+
+const hs256 = (claims: object) => {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signed = `${encode({ alg: 'HS256' })}.${encode(claims)}`;
+  return `${signed}.${createHmac('sha256', SECRET).update(signed).digest('base64url')}`;
+};
+
+describe('AuthGuard and RateLimitGuard', () => {
+  let app: INestApplication;
+
+  const createApp = async () => {
+    const module = await Test.createTestingModule({
+      imports: [AuthModule],
+      controllers: [ThingsController],
+    }).compile();
+    const created = module.createNestApplication();
+    await created.init();
+    return created;
+  };
+
+  beforeEach(async () => {
+    process.env.AUTH_API_KEYS = `ci:admin:${ADMIN_KEY},dashboard:viewer:${VIEWER_KEY}`;
+    process.env.AUTH_JWT_SECRET = SECRET;
+    process.env.AUTH_TRIGGER_RATE_LIMIT = '2';
+    app = await createApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    delete process.env.AUTH_ENABLED;
+    delete process.env.AUTH_API_KEYS;
+    delete process.env.AUTH_JWT_SECRET;
+    delete process.env.AUTH_TRIGGER_RATE_LIMIT;
+  });
+
+  it('should require credentials', async () => {
+    await request(app.getHttpServer()).get('/things').expect(401);
+    await request(app.getHttpServer())
+      .get('/things')
+      .set('X-API-Key', 'wrong-key-0123456789')
+      .expect(401);
+    await request(app.getHttpServer())
+      .get('/things')
+      .set('X-API-Key', VIEWER_KEY)
+      .expect(200);
+  });
+
+  it('should check the role a handler requires', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/things/sync')
+      .set('X-API-Key', VIEWER_KEY)
+      .expect(403);
+    expect(response.body.message).toBe(
+      'dashboard is a viewer; this requires the admin role',
+    );
+
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    await request(app.getHttpServer())
+      .post('/things/sync')
+      .set(
+        'Authorization',
+        `Bearer ${hs256({ sub: 'ana', role: 'admin', exp })}`,
+      )
+      .expect(201);
+  });
+
+  it('should only let anonymous callers read while disabled', async () => {
+    await app.close();
+    process.env.AUTH_ENABLED = 'false';
+    app = await createApp();
+
+    await request(app.getHttpServer()).get('/things').expect(200);
+    await request(app.getHttpServer()).post('/things/sync').expect(403);
+  });
+
+  it('should rate-limit trigger endpoints per caller', async () => {
+    const sync = (key: string) =>
+      request(app.getHttpServer()).post('/things/sync').set('X-API-Key', key);
+    const token = hs256({
+      sub: 'ana',
+      role: 'admin',
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+
+    await sync(ADMIN_KEY).expect(201);
+    await sync(ADMIN_KEY).expect(201);
+    const limited = await sync(ADMIN_KEY).expect(429);
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Other callers have their own budget; reads are not limited
+    await request(app.getHttpServer())
+      .post('/things/sync')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(201);
+    await request(app.getHttpServer())
+      .get('/things')
+      .set('X-API-Key', ADMIN_KEY)
+      .expect(200);
+  });
+});
@@ -0,0 +1,239 @@
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthService } from '../services/auth.service';
+import { RateLimiterService } from '../services/rate-limiter.service';
+import { verifyJwt } from '../utils/jwt';
+import { highestRole } from '../utils/roles';
+
+const SECRET = 'a-shared-secret-for-tests';
+const API_KEY = 'k3y-for-the-ci-pipeline';
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Expires in an hour unless the claims say otherwise
+function signJwt(
+  claims: Record<string, unknown>,
+  alg: 'HS256' | 'RS256' | 'none' = 'HS256',
+): string {
+  const signed = `${encode({ alg, typ: 'JWT' })}.${encode({
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims,
+  })}`;
+  const signature =
+    alg === 'HS256'
+      ? createHmac('sha256', SECRET).update(signed).digest()
+      : alg === 'RS256'
+        ? sign('RSA-SHA256', Buffer.from(signed), privateKey)
+        : Buffer.alloc(0);
+  return `${signed}.${signature.toString('base64url')}`;
+}
+
+const AUTH_ENV = [
+  'AUTH_ENABLED',
+  'AUTH_API_KEYS',
+  'AUTH_JWT_SECRET',
+  'AUTH_JWT_PUBLIC_KEY_FILE',
+  'AUTH_JWT_ISSUER',
+  'AUTH_JWT_AUDIENCE',
+  'AUTH_JWT_ROLE_CLAIM',
+  'AUTH_TRIGGER_RATE_LIMIT',
+];
+
+describe('verifyJwt', () => {
+  const options = { clockToleranceSeconds: 30 };
+
+  it('should verify HS256 and RS256 tokens', () => {
+    expect(
+      verifyJwt(signJwt({ sub: 'ana' }), { secret: SECRET }, options).sub,
+    ).toBe('ana');
+    expect(
+      verifyJwt(signJwt({ sub: 'bo' }, 'RS256'), { publicKey }, options).sub,
+    ).toBe('bo');
+  });
+
+  it('should only accept algorithms with a configured key', () => {
+    expect(() =>
+      verifyJwt(signJwt({ sub: 'ana' }, 'RS256'), { secret: SECRET }, options),
+    ).toThrow('RS256 tokens are not accepted');
+    expect(() =>
+      verifyJwt(signJwt({ sub: 'ana' }, 'none'), { secret: SECRET }, options),
+    ).toThrow('unsupported algorithm none');
+  });
+
+  it('should reject tampered, expired and foreign tokens', () => {
+    const [header, , signature] = signJwt({ sub: 'ana' }).split('.');
+    const forged = `${header}.${encode({ sub: 'root', exp: 9999999999 })}.${signature}`;
+    expect(() => verifyJwt(forged, { secret: SECRET }, options)).toThrow(
+      'invalid signature',
+    );
+
+    const now = Math.floor(Date.now() / 1000);
+    expect(() =>
+      verifyJwt(signJwt({ exp: now - 60 }), { secret: SECRET }, options),
+    ).toThrow('token has expired');
+    expect(
+      verifyJwt(signJwt({ exp: now - 10 }), { secret: SECRET }, options),
+    ).toBeDefined();
+    expect(() =>
+      verifyJwt(signJwt({ exp: undefined }), { secret: SECRET }, options),
+    ).toThrow('token has no expiry');
+    expect(() =>
+      verifyJwt(
+        signJwt({ iss: 'other', aud: ['x'] }),
+        { secret: SECRET },
+        {
+          ...options,
+          issuer: 'catalog',
+        },
+      ),
+    ).toThrow('unexpected issuer');
+    expect(() =>
+      verifyJwt(
+        signJwt({ aud: ['x'] }),
+        { secret: SECRET },
+        {
+          ...options,
+          audience: 'catalog',
+        },
+      ),
+    ).toThrow('unexpected audience');
+    expect(() => verifyJwt('abc', { secret: SECRET }, options)).toThrow(
+      'malformed token',
+    );
+  });
+});
+
+describe('highestRole', () => {
+  it('should pick the highest known role', () => {
+    expect(highestRole(['viewer', 'admin', 'owner'])).toBe('admin');
+    expect(highestRole('editor')).toBe('editor');
+    expect(highestRole(['owner'])).toBeNull();
+    expect(highestRole(undefined)).toBeNull();
+  });
+});
+
+describe('AuthService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'auth-'));
+  });
+
+  afterEach(() => {
+    AUTH_ENV.forEach((name) => delete process.env[name]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should identify API keys by name', () => {
+    process.env.AUTH_API_KEYS = `ci:admin:${API_KEY}, dash:viewer:another:key:with-colons`;
+    const service = new AuthService();
+
+    expect(service.authenticate(API_KEY)).toEqual({
+      id: 'ci',
+      kind: 'api_key',
+      role: 'admin',
+    });
+    expect(service.authenticate('another:key:with-colons').role).toBe('viewer');
+    expect(() => service.authenticate('nope')).toThrow('Invalid API key');
+    expect(() => service.authenticate()).toThrow('Authentication required');
+  });
+
+  it('should take the subject and role of a token', () => {
+    process.env.AUTH_JWT_SECRET = SECRET;
+    process.env.AUTH_JWT_ROLE_CLAIM = 'roles';
+    const service = new AuthService();
+
+    expect(
+      service.authenticate(
+        undefined,
+        `Bearer ${signJwt({ sub: 'ana', roles: ['viewer', 'editor'] })}`,
+      ),
+    ).toEqual({ id: 'ana', kind: 'jwt', role: 'editor' });
+    expect(() =>
+      service.authenticate(undefined, `Bearer ${signJwt({ sub: 'ana' })}`),
+    ).toThrow('Token of ana grants no role');
+    expect(() =>
+      service.authenticate(undefined, `Bearer ${signJwt({ roles: 'admin' })}`),
+    ).toThrow('Invalid token: token has no subject');
+  });
+
+  it('should read the RS256 public key from a file', () => {
+    const file = join(dir, 'key.pem');
+    writeFileSync(file, publicKey.export({ type: 'spki', format: 'pem' }));
+    process.env.AUTH_JWT_PUBLIC_KEY_FILE = file;
+    const service = new AuthService();
+
+    expect(
+      service.authenticate(
+        undefined,
+        `Bearer ${signJwt({ sub: 'bo', role: 'admin' }, 'RS256')}`,
+      ).role,
+    ).toBe('admin');
+    expect(() =>
+      service.authenticate(
+        undefined,
+        `Bearer ${signJwt({ sub: 'bo', role: 'admin' })}`,
+      ),
+    ).toThrow('Invalid token: HS256 tokens are not accepted');
+  });
+
+  it('should treat every caller as an anonymous viewer when disabled', () => {
+    process.env.AUTH_ENABLED = 'false';
+    expect(new AuthService().authenticate()).toEqual({
+      id: 'anonymous',
+      kind: 'anonymous',
+      role: 'viewer',
+    });
+  });
+
+  it('should fail to start without credentials unless disabled', () => {
+    expect(() => new AuthService()).toThrow(
+      'No API keys or JWT keys are configured',
+    );
+    process.env.AUTH_ENABLED = 'true';
+    expect(() => new AuthService()).toThrow(
+      'No API keys or JWT keys are configured',
+    );
+  });
+
+  it('should fail to start with invalid credentials', () => {
+    process.env.AUTH_API_KEYS = 'ci:owner:' + API_KEY;
+    expect(() => new AuthService()).toThrow(
+      'AUTH_API_KEYS entry 1: role must be one of: viewer, editor, admin',
+    );
+    process.env.AUTH_API_KEYS = 'ci:admin:short';
+    expect(() => new AuthService()).toThrow('key must be at least 16');
+    process.env.AUTH_API_KEYS = `ci:admin:${API_KEY},ci:viewer:${API_KEY}x`;
+    expect(() => new AuthService()).toThrow(
+      'AUTH_API_KEYS entry 2 repeats the name ci',
+    );
+    delete process.env.AUTH_API_KEYS;
+    process.env.AUTH_JWT_PUBLIC_KEY_FILE = join(dir, 'missing.pem');
+    expect(() => new AuthService()).toThrow('Cannot read JWT public key');
+  });
+});
+
+describe('RateLimiterService', () => {
+  afterEach(() => {
+    AUTH_ENV.forEach((name) => delete process.env[name]);
+  });
+
+  it('should limit each caller within a sliding window', () => {
+    process.env.AUTH_TRIGGER_RATE_LIMIT = '2';
+    const limiter = new RateLimiterService();
+
+    expect(limiter.consume('ci', 0)).toBe(0);
+    expect(limiter.consume('ci', 10_000)).toBe(0);
+    expect(limiter.consume('ci', 20_000)).toBe(40);
+    expect(limiter.consume('other', 20_000)).toBe(0);
+    // The first request has left the window
+    expect(limiter.consume('ci', 60_001)).toBe(0);
+    expect(limiter.consume('ci', 60_002)).toBe(10);
+  });
+});
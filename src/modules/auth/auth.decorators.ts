@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Role } from './utils/roles';
+
+export const REQUIRED_ROLE_KEY = 'auth:requiredRole';
+export const RATE_LIMITED_KEY = 'auth:rateLimited';
+
+/**
+ * Lowest role allowed to call a handler, or every handler of a controller.
+ * Handlers without one are open to viewers.
+ */
+export const RequireRole = (role: Role) => SetMetadata(REQUIRED_ROLE_KEY, role);
+
+/**
+ * Limits how often each API key or token subject may call a handler, see
+ * `AUTH_TRIGGER_RATE_LIMIT`.
+ */
+export const RateLimited = () => SetMetadata(RATE_LIMITED_KEY, true);
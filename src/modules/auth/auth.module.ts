@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AuthService } from './services/auth.service';
+import { RateLimiterService } from './services/rate-limiter.service';
+import { AuthGuard } from './guards/auth.guard';
+import { RateLimitGuard } from './guards/rate-limit.guard';
+
+@Module({
+  providers: [AuthService, RateLimiterService, AuthGuard, RateLimitGuard],
+  exports: [AuthService, RateLimiterService, AuthGuard, RateLimitGuard],
+})
+export class AuthModule {}
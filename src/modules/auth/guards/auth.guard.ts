@@ -0,0 +1,47 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AuthService, Principal } from '../services/auth.service';
+import { REQUIRED_ROLE_KEY } from '../auth.decorators';
+import { Role, hasRole } from '../utils/roles';
+
+export type AuthenticatedRequest = Request & { principal?: Principal };
+
+/**
+ * Authenticates every request and checks the caller's role against the one
+ * the handler requires (viewer unless set with `@RequireRole`).
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = this.authService.authenticate(
+      request.header('x-api-key'),
+      request.header('authorization'),
+    );
+
+    const required =
+      this.reflector.getAllAndOverride<Role | undefined>(REQUIRED_ROLE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'viewer';
+    if (!hasRole(principal.role, required)) {
+      throw new ForbiddenException(
+        `${principal.id} is a ${principal.role}; this requires the ${required} role`,
+      );
+    }
+
+    request.principal = principal;
+    return true;
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { RateLimiterService } from '../services/rate-limiter.service';
+import { RATE_LIMITED_KEY } from '../auth.decorators';
+import type { AuthenticatedRequest } from './auth.guard';
+
+/**
+ * Answers `429 Too Many Requests` with a `Retry-After` header once a caller
+ * exceeds the rate limit of a `@RateLimited` handler. Runs after `AuthGuard`,
+ * which identifies the caller.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.reflector.get<boolean>(RATE_LIMITED_KEY, context.getHandler())) {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const principal = http.getRequest<AuthenticatedRequest>().principal;
+    const caller = principal ? `${principal.kind}:${principal.id}` : 'unknown';
+    const retryAfter = this.rateLimiter.consume(caller);
+    if (retryAfter > 0) {
+      http.getResponse<Response>().setHeader('Retry-After', String(retryAfter));
+      throw new HttpException(
+        `Rate limit exceeded; retry in ${retryAfter}s`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    return true;
+  }
+}
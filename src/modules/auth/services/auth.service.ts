@@ -0,0 +1,161 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, createPublicKey, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { JwtKeys, verifyJwt } from '../utils/jwt';
+import { ROLES, Role, highestRole } from '../utils/roles';
+import { AuthConfig } from '../../../config/auth.config';
+
+// Shorter keys are rejected at startup, like webhook secrets
+const MIN_API_KEY_LENGTH = 16;
+
+export interface Principal {
+  // API key name or token subject
+  id: string;
+  kind: 'api_key' | 'jwt' | 'anonymous';
+  role: Role;
+}
+
+interface ApiKey {
+  name: string;
+  role: Role;
+  digest: Buffer;
+}
+
+// Every caller while authentication is off; it may read but not write
+const ANONYMOUS: Principal = {
+  id: 'anonymous',
+  kind: 'anonymous',
+  role: 'viewer',
+};
+
+/**
+ * Identifies API callers by API key or by a JWT signed with a locally
+ * configured key. Credentials are read once at startup; invalid or missing
+ * ones keep the service from starting.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly enabled = AuthConfig.isEnabled();
+  private readonly apiKeys: ApiKey[];
+  private readonly jwtKeys: JwtKeys;
+
+  constructor() {
+    this.apiKeys = this.loadApiKeys();
+    this.jwtKeys = this.loadJwtKeys();
+    if (!this.enabled) {
+      this.logger.warn(
+        'Authentication is disabled by AUTH_ENABLED=false; every request is treated as an anonymous viewer',
+      );
+    } else if (
+      this.apiKeys.length === 0 &&
+      !this.jwtKeys.secret &&
+      !this.jwtKeys.publicKey
+    ) {
+      throw new Error(
+        'No API keys or JWT keys are configured: set AUTH_API_KEYS, AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY_FILE, or disable authentication with AUTH_ENABLED=false',
+      );
+    }
+  }
+
+  /**
+   * Identify the caller from the `X-API-Key` header or, without one, from an
+   * `Authorization: Bearer` token.
+   */
+  authenticate(apiKey?: string, authorization?: string): Principal {
+    if (!this.enabled) return ANONYMOUS;
+
+    if (apiKey !== undefined) {
+      const digest = this.digest(apiKey);
+      const found = this.apiKeys.find((key) =>
+        timingSafeEqual(key.digest, digest),
+      );
+      if (!found) throw new UnauthorizedException('Invalid API key');
+      return { id: found.name, kind: 'api_key', role: found.role };
+    }
+
+    const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token) {
+      throw new UnauthorizedException(
+        'Authentication required: send an X-API-Key header or a bearer token',
+      );
+    }
+
+    let claims: Record<string, unknown>;
+    try {
+      claims = verifyJwt(token, this.jwtKeys, {
+        issuer: AuthConfig.getJwtIssuer(),
+        audience: AuthConfig.getJwtAudience(),
+        clockToleranceSeconds: AuthConfig.getJwtClockToleranceSeconds(),
+      });
+    } catch (error) {
+      throw new UnauthorizedException(`Invalid token: ${error.message}`);
+    }
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+      throw new UnauthorizedException('Invalid token: token has no subject');
+    }
+    const role = highestRole(claims[AuthConfig.getJwtRoleClaim()]);
+    if (!role) {
+      throw new ForbiddenException(`Token of ${claims.sub} grants no role`);
+    }
+    return { id: claims.sub, kind: 'jwt', role };
+  }
+
+  // Entries are name:role:key; the key itself may contain colons
+  private loadApiKeys(): ApiKey[] {
+    const value = AuthConfig.getApiKeys();
+    if (!value) return [];
+
+    const names = new Set<string>();
+    return value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .map((entry, index) => {
+        const [name, role, ...rest] = entry.split(':');
+        const key = rest.join(':');
+        const where = `AUTH_API_KEYS entry ${index + 1}`;
+        if (!name || !role || !key) {
+          throw new Error(`${where} must be name:role:key`);
+        }
+        if (!ROLES.includes(role as Role)) {
+          throw new Error(`${where}: role must be one of: ${ROLES.join(', ')}`);
+        }
+        if (key.length < MIN_API_KEY_LENGTH) {
+          throw new Error(
+            `${where}: key must be at least ${MIN_API_KEY_LENGTH} characters`,
+          );
+        }
+        if (names.has(name)) {
+          throw new Error(`${where} repeats the name ${name}`);
+        }
+        names.add(name);
+        return { name, role: role as Role, digest: this.digest(key) };
+      });
+  }
+
+  private loadJwtKeys(): JwtKeys {
+    const keys: JwtKeys = { secret: AuthConfig.getJwtSecret() };
+    const file = AuthConfig.getJwtPublicKeyFile();
+    if (file) {
+      try {
+        keys.publicKey = createPublicKey(readFileSync(file, 'utf8'));
+      } catch (error) {
+        throw new Error(
+          `Cannot read JWT public key from ${file}: ${error.message}`,
+        );
+      }
+    }
+    return keys;
+  }
+
+  // Fixed-length digests compare in constant time whatever the key length
+  private digest(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+  }
+}
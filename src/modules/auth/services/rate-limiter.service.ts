@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AuthConfig } from '../../../config/auth.config';
+
+/**
+ * Sliding-window request counts per caller. Counts are kept in memory, so each
+ * instance of the service limits on its own.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly limit = AuthConfig.getTriggerRateLimit();
+  private readonly windowMs = AuthConfig.getTriggerRateWindowSeconds() * 1000;
+  private readonly requests = new Map<string, number[]>();
+
+  /**
+   * Count a request of `key`. Returns 0 when it is allowed, otherwise the
+   * seconds until it would be.
+   */
+  consume(key: string, now: number = Date.now()): number {
+    const since = now - this.windowMs;
+    // Forget callers that have been quiet for a whole window
+    for (const [caller, times] of this.requests) {
+      if (times[times.length - 1] <= since) this.requests.delete(caller);
+    }
+
+    const times = (this.requests.get(key) ?? []).filter((time) => time > since);
+    if (times.length >= this.limit) {
+      this.requests.set(key, times);
+      return Math.ceil((times[0] + this.windowMs - now) / 1000);
+    }
+    times.push(now);
+    this.requests.set(key, times);
+    return 0;
+  }
+}
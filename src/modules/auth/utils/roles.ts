@@ -0,0 +1,18 @@
+export type Role = 'viewer' | 'editor' | 'admin';
+
+// Each role may do everything the roles before it may
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export function hasRole(granted: Role, required: Role): boolean {
+  return ROLES.indexOf(granted) >= ROLES.indexOf(required);
+}
+
+/**
+ * The highest known role of a claim holding one role or a list of them, or
+ * null when it names none.
+ */
+export function highestRole(claim: unknown): Role | null {
+  const names = Array.isArray(claim) ? claim : [claim];
+  const roles = ROLES.filter((role) => names.includes(role));
+  return roles.length > 0 ? roles[roles.length - 1] : null;
+}
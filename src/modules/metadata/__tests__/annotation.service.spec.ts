@@ -0,0 +1,296 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AnnotationService } from '../services/annotation.service';
+import { MongodbService, TableChange } from '../services/mongodb.service';
+import { Annotation } from '../schemas/annotation.schema';
+import { emptySchemaDiff } from '../utils/schema-diff';
+
+const ref = { database: 'DB', schema: 'S', table: 'ORDERS' };
+const columns = [
+  { name: 'ID', type: 'NUMBER', nullable: false },
+  { name: 'EMAIL', type: 'TEXT', nullable: true },
+];
+
+describe('AnnotationService', () => {
+  let service: AnnotationService;
+  let annotationModel: any;
+  let mongodbService: { findTable: jest.Mock };
+
+  const mockQuery = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const annotation = (overrides: Record<string, any> = {}) => {
+    const _id = new Types.ObjectId();
+    return {
+      _id,
+      id: _id.toHexString(),
+      ...ref,
+      column: null,
+      description: null,
+      owner: null,
+      tags: [],
+      certified: false,
+      updatedBy: null,
+      orphaned: false,
+      orphanReason: null,
+      orphanedAt: null,
+      ...overrides,
+    };
+  };
+
+  const change = (overrides: Partial<TableChange> = {}): TableChange => ({
+    ...ref,
+    changeType: 'updated',
+    version: 2,
+    checksum: 'b',
+    columns,
+    diff: emptySchemaDiff(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    annotationModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      findById: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      findByIdAndUpdate: jest.fn(),
+      deleteOne: jest.fn().mockReturnValue(mockQuery({ deletedCount: 1 })),
+      countDocuments: jest.fn().mockReturnValue(mockQuery(0)),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+    };
+    mongodbService = {
+      findTable: jest
+        .fn()
+        .mockResolvedValue({ ...ref, columns, deletedAt: null }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnnotationService,
+        { provide: getModelToken(Annotation.name), useValue: annotationModel },
+        { provide: MongodbService, useValue: mongodbService },
+      ],
+    }).compile();
+
+    service = module.get<AnnotationService>(AnnotationService);
+  });
+
+  describe('annotate', () => {
+    it('should upsert only the given fields of a column annotation', async () => {
+      annotationModel.findOneAndUpdate.mockReturnValue(
+        mockQuery(annotation({ column: 'EMAIL', tags: ['pii'] })),
+      );
+
+      const result = await service.annotate(ref, 'EMAIL', {
+        description: ' Contact address ',
+        tags: ['pii', ' pii', 'customer'],
+        certified: true,
+      });
+
+      expect(annotationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { ...ref, column: 'EMAIL' },
+        {
+          $set: {
+            description: 'Contact address',
+            tags: ['pii', 'customer'],
+            certified: true,
+            orphaned: false,
+            orphanReason: null,
+            orphanedAt: null,
+          },
+        },
+        { upsert: true, new: true },
+      );
+      expect(result).toMatchObject({ column: 'EMAIL', tags: ['pii'] });
+    });
+
+    it('should only annotate live tables and their columns', async () => {
+      await expect(service.annotate(ref, 'PHONE', {})).rejects.toThrow(
+        'Column PHONE not found in DB.S.ORDERS',
+      );
+      mongodbService.findTable.mockResolvedValue({
+        ...ref,
+        columns,
+        deletedAt: new Date(),
+      });
+      await expect(service.annotate(ref, null, {})).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(annotationModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid fields', async () => {
+      await expect(service.annotate(ref, null, { tags: [''] })).rejects.toThrow(
+        'tags must be a list of non-empty strings',
+      );
+      await expect(
+        service.annotate(ref, null, { certified: 'yes' as any }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  it('should 404 when deleting a missing annotation', async () => {
+    annotationModel.deleteOne.mockReturnValue(mockQuery({ deletedCount: 0 }));
+
+    await expect(service.deleteAnnotation(ref, 'EMAIL')).rejects.toThrow(
+      'Column DB.S.ORDERS.EMAIL has no annotation',
+    );
+  });
+
+  describe('reconcile', () => {
+    it('should flag annotations of dropped columns and tables as orphans', async () => {
+      const dropped = annotation({ column: 'PHONE' });
+      const live = annotation({ column: 'EMAIL' });
+      const table = annotation({ table: 'LEGACY' });
+      annotationModel.find.mockReturnValue(mockQuery([dropped, live, table]));
+
+      const result = await service.reconcile([
+        change(),
+        change({ table: 'LEGACY', changeType: 'deleted' }),
+      ]);
+
+      expect(result).toEqual({ orphaned: 2, restored: 0 });
+      const [updates] = annotationModel.bulkWrite.mock.calls[0];
+      expect(updates.map((update: any) => update.updateOne)).toEqual([
+        {
+          filter: { _id: dropped._id },
+          update: {
+            $set: {
+              orphaned: true,
+              orphanReason: 'column_dropped',
+              orphanedAt: expect.any(Date),
+            },
+          },
+        },
+        {
+          filter: { _id: table._id },
+          update: {
+            $set: {
+              orphaned: true,
+              orphanReason: 'table_dropped',
+              orphanedAt: expect.any(Date),
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should restore orphans whose column is back', async () => {
+      annotationModel.find.mockReturnValue(
+        mockQuery([
+          annotation({
+            column: 'EMAIL',
+            orphaned: true,
+            orphanReason: 'column_dropped',
+            orphanedAt: new Date(),
+          }),
+          annotation({
+            column: 'PHONE',
+            orphaned: true,
+            orphanReason: 'column_dropped',
+            orphanedAt: new Date(),
+          }),
+        ]),
+      );
+
+      const result = await service.reconcile([change()]);
+
+      expect(result).toEqual({ orphaned: 0, restored: 1 });
+      expect(annotationModel.bulkWrite.mock.calls[0][0]).toHaveLength(1);
+    });
+
+    it('should skip writes when nothing changed', async () => {
+      expect(await service.reconcile([])).toEqual({ orphaned: 0, restored: 0 });
+      annotationModel.find.mockReturnValue(
+        mockQuery([annotation({ column: 'ID' })]),
+      );
+      await service.reconcile([change()]);
+      expect(annotationModel.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reattach', () => {
+    it('should move an orphan to a column of its table', async () => {
+      const orphan = annotation({
+        column: 'MAIL',
+        orphaned: true,
+        orphanReason: 'column_dropped',
+      });
+      annotationModel.findById.mockReturnValue(mockQuery(orphan));
+      annotationModel.findByIdAndUpdate.mockReturnValue(
+        mockQuery({ ...orphan, column: 'EMAIL', orphaned: false }),
+      );
+
+      const result = await service.reattach(orphan.id, 'EMAIL');
+
+      expect(annotationModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        orphan.id,
+        {
+          $set: {
+            column: 'EMAIL',
+            orphaned: false,
+            orphanReason: null,
+            orphanedAt: null,
+          },
+        },
+        { new: true },
+      );
+      expect(result).toMatchObject({ column: 'EMAIL', orphaned: false });
+    });
+
+    it('should not overwrite the annotation of the target column', async () => {
+      annotationModel.findById.mockReturnValue(
+        mockQuery(annotation({ column: 'MAIL' })),
+      );
+      annotationModel.findByIdAndUpdate.mockReturnValue({
+        exec: jest.fn().mockRejectedValue({ code: 11000 }),
+      });
+
+      await expect(
+        service.reattach(new Types.ObjectId().toHexString(), 'EMAIL'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should only reattach column annotations', async () => {
+      annotationModel.findById.mockReturnValue(mockQuery(annotation()));
+
+      await expect(
+        service.reattach(new Types.ObjectId().toHexString(), 'EMAIL'),
+      ).rejects.toThrow('Only column annotations can be reattached');
+    });
+  });
+
+  it('should merge annotations into tables', async () => {
+    const tableAnnotation = annotation({ owner: 'sales' });
+    const emailAnnotation = annotation({ column: 'EMAIL', tags: ['pii'] });
+    const orphan = annotation({ column: 'PHONE', orphaned: true });
+    annotationModel.find.mockReturnValue(
+      mockQuery([tableAnnotation, emailAnnotation, orphan]),
+    );
+
+    const [table, other] = await service.mergeAnnotations([
+      { ...ref, columns } as any,
+      { ...ref, table: 'ITEMS', columns } as any,
+    ]);
+
+    expect(table.annotation).toMatchObject({ owner: 'sales' });
+    expect(table.columns.map((column) => column.annotation?.tags)).toEqual([
+      undefined,
+      ['pii'],
+    ]);
+    expect(table.orphanedAnnotations).toEqual([
+      expect.objectContaining({ column: 'PHONE' }),
+    ]);
+    expect(other).toMatchObject({ annotation: null, orphanedAnnotations: [] });
+  });
+});
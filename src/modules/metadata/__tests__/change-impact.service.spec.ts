@@ -0,0 +1,307 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChangeImpactService } from '../services/change-impact.service';
+import { SchemaChange } from '../schemas/schema-change.schema';
+import { TableChange } from '../services/mongodb.service';
+import {
+  DEFAULT_CHANGE_IMPACT_RULES,
+  assessTableChange,
+  compileChangeImpactRules,
+} from '../utils/change-impact';
+import { SchemaDiff, emptySchemaDiff } from '../utils/schema-diff';
+
+const diff = (changes: Partial<SchemaDiff>): SchemaDiff => ({
+  ...emptySchemaDiff(),
+  ...changes,
+});
+
+describe('assessTableChange', () => {
+  const rules = compileChangeImpactRules(DEFAULT_CHANGE_IMPACT_RULES);
+
+  it('should rank a new nullable column as non-breaking', () => {
+    const result = assessTableChange(
+      {
+        changeType: 'updated',
+        diff: diff({
+          added: [{ name: 'NOTE', type: 'TEXT', nullable: true }],
+          commentChanged: [{ column: 'ID', from: null, to: 'Key' }],
+        }),
+      },
+      rules,
+    );
+
+    expect(result).toEqual({
+      impact: 'non_breaking',
+      changes: [
+        { kind: 'column_added', column: 'NOTE', impact: 'non_breaking' },
+        {
+          kind: 'comment_changed',
+          column: 'ID',
+          impact: 'non_breaking',
+          from: null,
+          to: 'Key',
+        },
+      ],
+    });
+  });
+
+  it('should rank drops, narrowing and NOT NULL flips as breaking', () => {
+    const result = assessTableChange(
+      {
+        changeType: 'updated',
+        diff: diff({
+          removed: [{ name: 'LEGACY', type: 'TEXT', nullable: true }],
+          nullabilityChanged: [
+            { column: 'EMAIL', from: true, to: false },
+            { column: 'PHONE', from: false, to: true },
+          ],
+          lengthChanged: [
+            { column: 'EMAIL', from: 255, to: 64 },
+            { column: 'NAME', from: 64, to: 255 },
+          ],
+          precisionChanged: [{ column: 'AMOUNT', from: 10, to: 12 }],
+        }),
+      },
+      rules,
+    );
+
+    expect(result.impact).toBe('breaking');
+    expect(
+      result.changes.map(({ kind, column, impact }) => [kind, column, impact]),
+    ).toEqual([
+      ['column_removed', 'LEGACY', 'breaking'],
+      ['made_not_null', 'EMAIL', 'breaking'],
+      ['made_nullable', 'PHONE', 'potentially_breaking'],
+      ['length_decreased', 'EMAIL', 'breaking'],
+      ['length_increased', 'NAME', 'non_breaking'],
+      ['precision_increased', 'AMOUNT', 'non_breaking'],
+    ]);
+  });
+
+  it('should rank required columns as potentially breaking', () => {
+    const result = assessTableChange(
+      {
+        changeType: 'updated',
+        diff: diff({
+          added: [
+            { name: 'TENANT', type: 'NUMBER', nullable: false },
+            {
+              name: 'STATUS',
+              type: 'TEXT',
+              nullable: false,
+              defaultValue: "'new'",
+            },
+          ],
+        }),
+      },
+      rules,
+    );
+
+    expect(result.impact).toBe('potentially_breaking');
+    expect(result.changes.map((change) => change.kind)).toEqual([
+      'required_column_added',
+      'column_added',
+    ]);
+  });
+
+  it('should treat new and dropped tables as one change', () => {
+    const columns = [{ name: 'ID', type: 'NUMBER', nullable: false }];
+
+    expect(
+      assessTableChange(
+        { changeType: 'deleted', diff: diff({ removed: columns }) },
+        rules,
+      ),
+    ).toEqual({
+      impact: 'breaking',
+      changes: [{ kind: 'table_deleted', column: null, impact: 'breaking' }],
+    });
+    expect(
+      assessTableChange(
+        { changeType: 'created', diff: diff({ added: columns }) },
+        rules,
+      ).impact,
+    ).toBe('non_breaking');
+  });
+
+  it('should let earlier rules override later ones by type', () => {
+    const custom = compileChangeImpactRules([
+      {
+        change: 'type_changed',
+        impact: 'potentially_breaking',
+        fromTypes: ['INTEGER'],
+        toTypes: ['DOUBLE'],
+      },
+      ...DEFAULT_CHANGE_IMPACT_RULES,
+    ]);
+    const typeChange = (from: string, to: string) =>
+      assessTableChange(
+        {
+          changeType: 'updated',
+          diff: diff({ typeChanged: [{ column: 'X', from, to }] }),
+        },
+        custom,
+      ).impact;
+
+    expect(typeChange('NUMBER', 'FLOAT')).toBe('potentially_breaking');
+    expect(typeChange('NUMBER', 'TEXT')).toBe('breaking');
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => compileChangeImpactRules({})).toThrow('must be an array');
+    expect(() =>
+      compileChangeImpactRules([{ change: 'renamed', impact: 'breaking' }]),
+    ).toThrow('Change impact rule 1: change must be one of');
+    expect(() =>
+      compileChangeImpactRules([{ change: 'column_added', impact: 'fatal' }]),
+    ).toThrow('impact must be one of');
+    expect(() =>
+      compileChangeImpactRules([
+        { change: 'column_added', impact: 'breaking', toTypes: ['TEXT'] },
+      ]),
+    ).toThrow('fromTypes and toTypes only apply to type_changed');
+  });
+});
+
+describe('ChangeImpactService', () => {
+  let service: ChangeImpactService;
+  let schemaChangeModel: any;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChangeImpactService,
+        {
+          provide: getModelToken(SchemaChange.name),
+          useValue: schemaChangeModel,
+        },
+      ],
+    }).compile();
+    return module.get<ChangeImpactService>(ChangeImpactService);
+  };
+
+  const mockQuery = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const change = (overrides: Partial<TableChange>): TableChange => ({
+    database: 'DB',
+    schema: 'S',
+    table: 'ORDERS',
+    changeType: 'updated',
+    version: 2,
+    checksum: 'b',
+    columns: [],
+    diff: emptySchemaDiff(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    schemaChangeModel = {
+      insertMany: jest.fn().mockResolvedValue([]),
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      countDocuments: jest.fn().mockReturnValue(mockQuery(0)),
+    };
+    service = await createService();
+  });
+
+  afterEach(() => {
+    delete process.env.CHANGE_IMPACT_RULES_FILE;
+  });
+
+  it('should store every change and return the breaking ones', async () => {
+    const breaking = await service.recordChanges(
+      [
+        change({
+          diff: diff({
+            removed: [{ name: 'TOTAL', type: 'NUMBER', nullable: true }],
+          }),
+        }),
+        change({ table: 'NEW_TABLE', changeType: 'created', version: 1 }),
+      ],
+      'snowflake',
+    );
+
+    const [stored] = schemaChangeModel.insertMany.mock.calls[0];
+    expect(stored).toHaveLength(2);
+    expect(stored[1]).toMatchObject({
+      table: 'NEW_TABLE',
+      impact: 'non_breaking',
+      source: 'snowflake',
+    });
+    expect(breaking).toEqual([
+      expect.objectContaining({
+        table: 'ORDERS',
+        version: 2,
+        impact: 'breaking',
+        changes: [
+          { kind: 'column_removed', column: 'TOTAL', impact: 'breaking' },
+        ],
+      }),
+    ]);
+  });
+
+  it('should list breaking changes in a time window', async () => {
+    const since = new Date('2026-05-01T00:00:00Z');
+    const until = new Date('2026-05-08T00:00:00Z');
+
+    const page = await service.listBreakingChanges({
+      since,
+      until,
+      schema: 'MART*',
+      limit: 10,
+    });
+
+    expect(schemaChangeModel.find).toHaveBeenCalledWith({
+      impact: 'breaking',
+      detectedAt: { $gte: since, $lt: until },
+      schema: /^MART.*$/i,
+    });
+    expect(page).toEqual({ items: [], total: 0, limit: 10, offset: 0 });
+  });
+
+  it('should apply rules from CHANGE_IMPACT_RULES_FILE before the built-in ones', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'change-impact-'));
+    try {
+      const file = join(dir, 'rules.json');
+      writeFileSync(
+        file,
+        JSON.stringify([{ change: 'column_removed', impact: 'non_breaking' }]),
+      );
+      process.env.CHANGE_IMPACT_RULES_FILE = file;
+      service = await createService();
+
+      const breaking = await service.recordChanges(
+        [
+          change({
+            diff: diff({
+              removed: [{ name: 'TOTAL', type: 'NUMBER', nullable: true }],
+              typeChanged: [{ column: 'ID', from: 'NUMBER', to: 'TEXT' }],
+            }),
+          }),
+        ],
+        'snowflake',
+      );
+
+      expect(breaking[0].changes).toEqual([
+        { kind: 'column_removed', column: 'TOTAL', impact: 'non_breaking' },
+        expect.objectContaining({ kind: 'type_changed', impact: 'breaking' }),
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail to start with unreadable rules', async () => {
+    process.env.CHANGE_IMPACT_RULES_FILE = '/nonexistent/rules.json';
+    await expect(createService()).rejects.toThrow(
+      'Cannot read change impact rules from /nonexistent/rules.json',
+    );
+  });
+});
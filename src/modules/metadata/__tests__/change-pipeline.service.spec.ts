@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChangePipelineService } from '../services/change-pipeline.service';
+import { TableChange } from '../services/mongodb.service';
+import { AnnotationService } from '../services/annotation.service';
+import { ChangeImpactService } from '../services/change-impact.service';
+import { WebhookService } from '../services/webhook.service';
+import { ClassificationService } from '../services/classification.service';
+import { emptySchemaDiff } from '../utils/schema-diff';
+
+describe('ChangePipelineService', () => {
+  let service: ChangePipelineService;
+  let annotationService: { reconcile: jest.Mock };
+  let changeImpactService: { recordChanges: jest.Mock };
+  let webhookService: { notifyChanges: jest.Mock };
+  let classificationService: { classifyTables: jest.Mock };
+
+  const changes: TableChange[] = [
+    {
+      database: 'DB',
+      schema: 'S',
+      table: 'ORDERS',
+      changeType: 'updated',
+      version: 2,
+      checksum: 'b',
+      columns: [],
+      diff: emptySchemaDiff(),
+    },
+  ];
+  const tables = [
+    { database: 'DB', schema: 'S', table: 'ORDERS', columns: [] },
+    { database: 'DB', schema: 'S', table: 'ITEMS', columns: [] },
+  ];
+  const breaking = { table: 'ORDERS', breaking: true };
+
+  beforeEach(async () => {
+    annotationService = {
+      reconcile: jest.fn().mockResolvedValue({ orphaned: 0, restored: 0 }),
+    };
+    changeImpactService = {
+      recordChanges: jest.fn().mockResolvedValue([breaking]),
+    };
+    webhookService = { notifyChanges: jest.fn().mockResolvedValue(1) };
+    classificationService = {
+      classifyTables: jest
+        .fn()
+        .mockResolvedValue({ detected: 0, withdrawn: 0 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChangePipelineService,
+        { provide: AnnotationService, useValue: annotationService },
+        { provide: ChangeImpactService, useValue: changeImpactService },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: ClassificationService, useValue: classificationService },
+      ],
+    }).compile();
+    service = module.get<ChangePipelineService>(ChangePipelineService);
+  });
+
+  it('should run every step and return the breaking changes', async () => {
+    const errors: string[] = [];
+
+    const result = await service.processBatch(
+      { tables, changes },
+      'snowflake',
+      errors,
+    );
+
+    expect(result).toEqual([breaking]);
+    expect(errors).toEqual([]);
+    expect(annotationService.reconcile).toHaveBeenCalledWith(changes);
+    expect(changeImpactService.recordChanges).toHaveBeenCalledWith(
+      changes,
+      'snowflake',
+    );
+    expect(webhookService.notifyChanges).toHaveBeenCalledWith(
+      changes,
+      'snowflake',
+    );
+    // Unchanged tables of the batch are classified too
+    expect(classificationService.classifyTables).toHaveBeenCalledWith(
+      tables,
+      'snowflake',
+    );
+  });
+
+  it('should collect the errors of failing steps and run the others', async () => {
+    annotationService.reconcile.mockRejectedValue(new Error('boom'));
+    changeImpactService.recordChanges.mockRejectedValue(new Error('bad rule'));
+    const errors: string[] = [];
+
+    const result = await service.processBatch(
+      { tables, changes },
+      'snowflake',
+      errors,
+    );
+
+    expect(result).toEqual([]);
+    expect(errors).toEqual([
+      'Failed to reconcile annotations: boom',
+      'Failed to classify schema changes: bad rule',
+    ]);
+    expect(webhookService.notifyChanges).toHaveBeenCalled();
+    expect(classificationService.classifyTables).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,281 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ClassificationService } from '../services/classification.service';
+import { ColumnClassification } from '../schemas/column-classification.schema';
+import {
+  DEFAULT_CLASSIFICATION_RULES,
+  classifyColumn,
+  compileClassificationRules,
+} from '../utils/classification';
+
+describe('ClassificationService', () => {
+  let service: ClassificationService;
+  let columnClassificationModel: any;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClassificationService,
+        {
+          provide: getModelToken(ColumnClassification.name),
+          useValue: columnClassificationModel,
+        },
+      ],
+    }).compile();
+    return module.get<ClassificationService>(ClassificationService);
+  };
+
+  const mockQuery = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    columnClassificationModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      countDocuments: jest.fn().mockReturnValue(mockQuery(0)),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockReturnValue(mockQuery({ deletedCount: 1 })),
+      findByIdAndUpdate: jest.fn(),
+    };
+    service = await createService();
+  });
+
+  afterEach(() => {
+    delete process.env.CLASSIFICATION_RULES_FILE;
+  });
+
+  describe('classifyTables', () => {
+    const table = {
+      database: 'DB',
+      schema: 'S',
+      table: 'CUSTOMERS',
+      columns: [
+        { name: 'ID', type: 'NUMBER', nullable: false },
+        {
+          name: 'CONTACT_EMAIL',
+          type: 'TEXT',
+          nullable: true,
+          comment: 'Primary e-mail',
+        },
+        { name: 'EMAIL_COUNT', type: 'NUMBER', nullable: true },
+      ],
+    };
+
+    it('should refresh suggestions without touching their review status', async () => {
+      const result = await service.classifyTables([table], 'snowflake');
+
+      expect(result).toEqual({ detected: 1, withdrawn: 1 });
+      const [operations] = columnClassificationModel.bulkWrite.mock.calls[0];
+      expect(operations).toHaveLength(1);
+      const { filter, update, upsert } = operations[0].updateOne;
+      expect(filter).toEqual({
+        database: 'DB',
+        schema: 'S',
+        table: 'CUSTOMERS',
+        column: 'CONTACT_EMAIL',
+        label: 'email',
+      });
+      expect(upsert).toBe(true);
+      expect(update.$set).toMatchObject({
+        confidence: 1,
+        signals: ['name', 'comment', 'type'],
+        source: 'snowflake',
+      });
+      expect(update.$set).not.toHaveProperty('status');
+
+      expect(columnClassificationModel.deleteMany).toHaveBeenCalledWith({
+        $or: [{ database: 'DB', schema: 'S', table: 'CUSTOMERS' }],
+        status: 'pending',
+        detectedAt: { $lt: update.$set.detectedAt },
+      });
+    });
+
+    it('should do nothing without tables', async () => {
+      await expect(service.classifyTables([], 'snowflake')).resolves.toEqual({
+        detected: 0,
+        withdrawn: 0,
+      });
+      expect(columnClassificationModel.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listClassifications', () => {
+    it('should filter and page suggestions', async () => {
+      const query = mockQuery([]);
+      columnClassificationModel.find.mockReturnValue(query);
+      columnClassificationModel.countDocuments.mockReturnValue(mockQuery(3));
+
+      const page = await service.listClassifications({
+        status: 'pending',
+        label: 'email',
+        schema: 'PUB*',
+        minConfidence: 0.7,
+        limit: 1000,
+      });
+
+      const filter = columnClassificationModel.find.mock.calls[0][0];
+      expect(filter).toMatchObject({
+        status: 'pending',
+        label: 'email',
+        confidence: { $gte: 0.7 },
+      });
+      expect(filter.schema.test('public')).toBe(true);
+      expect(query.skip).toHaveBeenCalledWith(0);
+      expect(query.limit).toHaveBeenCalledWith(500);
+      expect(page).toEqual({ items: [], total: 3, limit: 500, offset: 0 });
+    });
+  });
+
+  describe('review', () => {
+    const id = '507f1f77bcf86cd799439011';
+
+    it('should record the decision', async () => {
+      columnClassificationModel.findByIdAndUpdate.mockReturnValue(
+        mockQuery({ id, label: 'email', status: 'accepted' }),
+      );
+
+      await service.review(id, { status: 'accepted', reviewer: ' ana ' });
+
+      const [, update] =
+        columnClassificationModel.findByIdAndUpdate.mock.calls[0];
+      expect(update.$set).toMatchObject({
+        status: 'accepted',
+        reviewer: 'ana',
+        note: null,
+      });
+      expect(update.$set.reviewedAt).toBeInstanceOf(Date);
+    });
+
+    it('should clear the review when sent back to pending', async () => {
+      columnClassificationModel.findByIdAndUpdate.mockReturnValue(
+        mockQuery({ id, status: 'pending' }),
+      );
+
+      await service.review(id, { status: 'pending', reviewer: 'ana' });
+
+      const [, update] =
+        columnClassificationModel.findByIdAndUpdate.mock.calls[0];
+      expect(update.$set).toMatchObject({ reviewedAt: null, reviewer: null });
+    });
+
+    it('should reject unknown statuses and ids', async () => {
+      await expect(
+        service.review(id, { status: 'approved' as any }),
+      ).rejects.toThrow('status must be pending, accepted or rejected');
+
+      await expect(
+        service.review('nope', { status: 'accepted' }),
+      ).rejects.toThrow('Classification nope not found');
+      expect(
+        columnClassificationModel.findByIdAndUpdate,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rules file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'classification-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should replace the built-in rules', async () => {
+      const file = join(dir, 'rules.json');
+      writeFileSync(
+        file,
+        JSON.stringify([{ label: 'employee_id', namePatterns: ['^emp_?id$'] }]),
+      );
+      process.env.CLASSIFICATION_RULES_FILE = file;
+      service = await createService();
+
+      const result = await service.classifyTables(
+        [
+          {
+            database: 'DB',
+            schema: 'S',
+            table: 'STAFF',
+            columns: [
+              { name: 'EMP_ID', type: 'NUMBER', nullable: false },
+              { name: 'EMAIL', type: 'TEXT', nullable: true },
+            ],
+          },
+        ],
+        'snowflake',
+      );
+
+      expect(result.detected).toBe(1);
+      const [operations] = columnClassificationModel.bulkWrite.mock.calls[0];
+      expect(operations[0].updateOne.filter.label).toBe('employee_id');
+      expect(operations[0].updateOne.update.$set.confidence).toBe(0.6);
+    });
+
+    it('should fail to start with an unreadable file', async () => {
+      process.env.CLASSIFICATION_RULES_FILE = join(dir, 'missing.json');
+      await expect(createService()).rejects.toThrow(
+        'Cannot read classification rules',
+      );
+    });
+  });
+});
+
+describe('classification rules', () => {
+  const rules = compileClassificationRules(DEFAULT_CLASSIFICATION_RULES);
+  const labels = (name: string, type = 'TEXT', comment?: string) =>
+    classifyColumn({ name, type, comment }, rules).map((match) => match.label);
+
+  it('should flag common sensitive columns by name', () => {
+    expect(labels('CUSTOMER_EMAIL')).toEqual(['email']);
+    expect(labels('PHONE_NUMBER', 'NUMBER')).toEqual(['phone']);
+    expect(labels('SSN')).toEqual(['ssn']);
+    expect(labels('CREDIT_CARD_NUMBER')).toEqual(['credit_card']);
+    expect(labels('BILLING_ADDRESS_LINE_1')).toEqual(['address']);
+    expect(labels('DATE_OF_BIRTH', 'DATE')).toEqual(['date_of_birth']);
+    expect(labels('last_name', 'VARCHAR(255)')).toEqual(['person_name']);
+  });
+
+  it('should not flag lookalikes or other data types', () => {
+    expect(labels('EMAIL_COUNT', 'NUMBER')).toEqual([]);
+    expect(labels('TABLE_NAME')).toEqual([]);
+    expect(labels('SHIPPED_AT', 'TIMESTAMP_NTZ')).toEqual([]);
+  });
+
+  it('should score the matched signals', () => {
+    expect(classifyColumn({ name: 'EMAIL', type: 'TEXT' }, rules)).toEqual([
+      { label: 'email', confidence: 0.7, signals: ['name', 'type'] },
+    ]);
+    expect(
+      classifyColumn(
+        { name: 'CONTACT', type: 'TEXT', comment: 'Customer phone' },
+        rules,
+      ),
+    ).toEqual([
+      { label: 'phone', confidence: 0.4, signals: ['comment', 'type'] },
+    ]);
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => compileClassificationRules({})).toThrow('must be an array');
+    expect(() => compileClassificationRules([{ label: 'x' }])).toThrow(
+      'Classification rule 1 needs namePatterns or commentKeywords',
+    );
+    expect(() =>
+      compileClassificationRules([{ label: 'x', namePatterns: ['('] }]),
+    ).toThrow('invalid name pattern "("');
+    expect(() =>
+      compileClassificationRules([
+        { label: 'x', commentKeywords: ['a'] },
+        { label: 'x', commentKeywords: ['b'] },
+      ]),
+    ).toThrow('Classification rule 2 repeats the label "x"');
+  });
+});
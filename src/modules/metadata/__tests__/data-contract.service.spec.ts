@@ -0,0 +1,336 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { DataContractService } from '../services/data-contract.service';
+import { MongodbService } from '../services/mongodb.service';
+import { DataContract } from '../schemas/data-contract.schema';
+import { ContractResult } from '../schemas/contract-result.schema';
+import { parseContractColumns, validateContract } from '../utils/data-contract';
+
+const ordersTable = {
+  database: 'DB',
+  schema: 'S',
+  table: 'ORDERS',
+  deletedAt: null,
+  columns: [
+    { name: 'ID', type: 'NUMBER', nullable: false },
+    { name: 'EMAIL', type: 'TEXT', nullable: true },
+    { name: 'NOTE', type: 'TEXT', nullable: true },
+  ],
+};
+
+describe('validateContract', () => {
+  it('should pass a table that matches the contract', () => {
+    expect(
+      validateContract(
+        {
+          columns: [
+            { name: 'ID', types: ['NUMBER'], nullable: false },
+            { name: 'EMAIL' },
+          ],
+          allowExtraColumns: true,
+        },
+        ordersTable,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should report each violation', () => {
+    const violations = validateContract(
+      {
+        columns: [
+          { name: 'ID', types: ['TEXT'] },
+          { name: 'EMAIL', nullable: false },
+          { name: 'CREATED_AT' },
+        ],
+        allowExtraColumns: false,
+      },
+      ordersTable,
+    );
+
+    expect(violations).toEqual([
+      {
+        kind: 'type_mismatch',
+        column: 'ID',
+        message: 'Column ID is NUMBER, expected TEXT',
+      },
+      {
+        kind: 'nullability_mismatch',
+        column: 'EMAIL',
+        message: 'Column EMAIL is nullable, expected NOT NULL',
+      },
+      {
+        kind: 'column_missing',
+        column: 'CREATED_AT',
+        message: 'Required column CREATED_AT is missing',
+      },
+      {
+        kind: 'unexpected_column',
+        column: 'NOTE',
+        message: 'Column NOTE is not part of the contract',
+      },
+    ]);
+  });
+
+  it('should report missing and dropped tables', () => {
+    const contract = { columns: [{ name: 'ID' }], allowExtraColumns: true };
+
+    expect(validateContract(contract, null)).toEqual([
+      {
+        kind: 'table_missing',
+        column: null,
+        message: 'Table is not in the catalog',
+      },
+    ]);
+    expect(
+      validateContract(contract, {
+        ...ordersTable,
+        deletedAt: new Date('2026-03-01T00:00:00Z'),
+      })[0].message,
+    ).toBe('Table was dropped on 2026-03-01T00:00:00.000Z');
+  });
+
+  it('should normalize contract columns', () => {
+    expect(
+      parseContractColumns([
+        { name: ' ID ', types: ['integer', 'NUMBER(38,0)'], nullable: false },
+        { name: 'EMAIL', types: ['varchar'] },
+      ]),
+    ).toEqual([
+      { name: 'ID', types: ['NUMBER'], nullable: false },
+      { name: 'EMAIL', types: ['TEXT'] },
+    ]);
+    expect(() => parseContractColumns([])).toThrow(
+      'columns must be a non-empty list',
+    );
+    expect(() => parseContractColumns([{ name: 'A' }, { name: 'A' }])).toThrow(
+      'columns[1] repeats the column A',
+    );
+    expect(() => parseContractColumns([{ name: 'A', types: [] }])).toThrow(
+      'columns[0].types must be a non-empty list of types',
+    );
+    expect(() => parseContractColumns([{ name: 'A', nullable: 'no' }])).toThrow(
+      'columns[0].nullable must be a boolean',
+    );
+  });
+});
+
+describe('DataContractService', () => {
+  let service: DataContractService;
+  let dataContractModel: any;
+  let contractResultModel: any;
+  let mongodbService: { findTablesByRefs: jest.Mock };
+
+  const mockQuery = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const contract = (overrides: Record<string, any> = {}) => {
+    const _id = new Types.ObjectId();
+    return {
+      _id,
+      id: _id.toHexString(),
+      database: 'DB',
+      schema: 'S',
+      table: 'ORDERS',
+      columns: [{ name: 'ID', types: ['NUMBER'] }],
+      allowExtraColumns: true,
+      active: true,
+      owner: null,
+      description: null,
+      status: 'pending',
+      violations: [],
+      checkedAt: null,
+      ...overrides,
+    };
+  };
+
+  beforeEach(async () => {
+    dataContractModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      findById: jest.fn(),
+      findByIdAndUpdate: jest.fn(),
+      create: jest.fn(),
+      deleteOne: jest.fn().mockReturnValue(mockQuery({})),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+    };
+    contractResultModel = {
+      insertMany: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn().mockReturnValue(mockQuery({})),
+    };
+    mongodbService = {
+      findTablesByRefs: jest.fn().mockResolvedValue([ordersTable]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataContractService,
+        {
+          provide: getModelToken(DataContract.name),
+          useValue: dataContractModel,
+        },
+        {
+          provide: getModelToken(ContractResult.name),
+          useValue: contractResultModel,
+        },
+        { provide: MongodbService, useValue: mongodbService },
+      ],
+    }).compile();
+
+    service = module.get<DataContractService>(DataContractService);
+  });
+
+  describe('createContract', () => {
+    it('should store the contract and validate it right away', async () => {
+      dataContractModel.create.mockImplementation((doc: any) => contract(doc));
+
+      const result = await service.createContract({
+        database: 'DB',
+        schema: 'S',
+        table: 'ORDERS',
+        columns: [{ name: 'ID', types: ['INTEGER'] }, { name: 'MISSING' }],
+        allowExtraColumns: true,
+        owner: ' orders-team ',
+      });
+
+      expect(dataContractModel.create).toHaveBeenCalledWith({
+        database: 'DB',
+        schema: 'S',
+        table: 'ORDERS',
+        columns: [{ name: 'ID', types: ['NUMBER'] }, { name: 'MISSING' }],
+        allowExtraColumns: true,
+        owner: 'orders-team',
+      });
+      expect(result.status).toBe('fail');
+      expect(result.violations).toEqual([
+        expect.objectContaining({ kind: 'column_missing', column: 'MISSING' }),
+      ]);
+      const [[stored]] = contractResultModel.insertMany.mock.calls[0];
+      expect(stored).toMatchObject({ status: 'fail' });
+    });
+
+    it('should reject invalid and duplicate contracts', async () => {
+      await expect(
+        service.createContract({
+          database: 'DB',
+          schema: 'S',
+          table: '',
+          columns: [{ name: 'ID' }],
+        }),
+      ).rejects.toThrow('table is required');
+      await expect(
+        service.createContract({
+          database: 'DB',
+          schema: 'S',
+          table: 'ORDERS',
+          columns: [],
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      dataContractModel.create.mockRejectedValue({ code: 11000 });
+      await expect(
+        service.createContract({
+          database: 'DB',
+          schema: 'S',
+          table: 'ORDERS',
+          columns: [{ name: 'ID' }],
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  it('should only update the given fields', async () => {
+    const existing = contract();
+    dataContractModel.findById.mockReturnValue(mockQuery(existing));
+    dataContractModel.findByIdAndUpdate.mockReturnValue(
+      mockQuery({ ...existing, active: false }),
+    );
+
+    const result = await service.updateContract(existing.id, {
+      active: false,
+      description: null,
+    });
+
+    expect(dataContractModel.findByIdAndUpdate).toHaveBeenCalledWith(
+      existing.id,
+      { $set: { active: false, description: null } },
+      { new: true },
+    );
+    // Inactive contracts are not validated
+    expect(result.status).toBe('pending');
+    expect(contractResultModel.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('should 404 for unknown contracts', async () => {
+    dataContractModel.findById.mockReturnValue(mockQuery(null));
+
+    await expect(
+      service.getContract(new Types.ObjectId().toHexString()),
+    ).rejects.toThrow(NotFoundException);
+    await expect(service.deleteContract('nope')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  describe('validateAll', () => {
+    it('should store a result for every active contract', async () => {
+      const passing = contract();
+      const broken = contract({ table: 'GONE' });
+      dataContractModel.find.mockReturnValue(mockQuery([passing, broken]));
+
+      const result = await service.validateAll();
+
+      expect(result).toEqual({ validated: 2, failed: 1 });
+      expect(dataContractModel.find).toHaveBeenCalledWith({ active: true });
+      const [results] = contractResultModel.insertMany.mock.calls[0];
+      expect(results.map((r: any) => [r.contractId, r.status])).toEqual([
+        [passing._id, 'pass'],
+        [broken._id, 'fail'],
+      ]);
+      const [updates] = dataContractModel.bulkWrite.mock.calls[0];
+      expect(updates[1].updateOne).toEqual({
+        filter: { _id: broken._id },
+        update: {
+          $set: {
+            status: 'fail',
+            violations: [expect.objectContaining({ kind: 'table_missing' })],
+            checkedAt: expect.any(Date),
+          },
+        },
+      });
+    });
+
+    it('should do nothing without active contracts', async () => {
+      expect(await service.validateAll()).toEqual({ validated: 0, failed: 0 });
+      expect(mongodbService.findTablesByRefs).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should summarize active contracts and list the broken ones', async () => {
+    dataContractModel.find.mockReturnValue(
+      mockQuery([
+        contract({ status: 'pass' }),
+        contract({ table: 'GONE', status: 'fail' }),
+        contract({ table: 'NEW', status: 'pending' }),
+      ]),
+    );
+
+    const status = await service.getStatus();
+
+    expect(status).toMatchObject({
+      total: 3,
+      passing: 1,
+      failing: 1,
+      pending: 1,
+    });
+    expect(status.broken.map((broken) => broken.table)).toEqual(['GONE']);
+  });
+});
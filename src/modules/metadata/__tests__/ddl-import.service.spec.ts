@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DDL_IMPORT_SOURCE,
+  DdlImportService,
+} from '../services/ddl-import.service';
+import { MongodbService } from '../services/mongodb.service';
+import { ChangePipelineService } from '../services/change-pipeline.service';
+
+describe('DdlImportService', () => {
+  let service: DdlImportService;
+  let mongodbService: { upsertMetadata: jest.Mock };
+  let changePipelineService: { processBatch: jest.Mock };
+
+  beforeEach(async () => {
+    mongodbService = {
+      upsertMetadata: jest.fn().mockImplementation(async (tables) => ({
+        newTables: tables.length,
+        updatedTables: 0,
+        skippedTables: 0,
+        changes: [],
+        conflicts: [],
+      })),
+    };
+    changePipelineService = {
+      processBatch: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DdlImportService,
+        { provide: MongodbService, useValue: mongodbService },
+        { provide: ChangePipelineService, useValue: changePipelineService },
+      ],
+    }).compile();
+    service = module.get<DdlImportService>(DdlImportService);
+  });
+
+  describe('importDdl', () => {
+    it('should upsert parsed tables under the import source and report errors per file', async () => {
+      const result = await service.importDdl(
+        [
+          { name: '001.sql', content: 'CREATE TABLE orders (id INT);' },
+          {
+            name: '002.sql',
+            content:
+              'CREATE TABLE orders (id INT, note TEXT);\nCREATE TABLE broken (id INT, id INT);',
+          },
+        ],
+        { database: 'analytics', schema: 'public' },
+      );
+
+      expect(mongodbService.upsertMetadata).toHaveBeenCalledTimes(1);
+      const [tables, source] = mongodbService.upsertMetadata.mock.calls[0];
+      expect(source).toBe(DDL_IMPORT_SOURCE);
+      // The later definition of a table wins
+      expect(tables).toEqual([
+        {
+          database: 'ANALYTICS',
+          schema: 'PUBLIC',
+          table: 'ORDERS',
+          objectType: 'base_table',
+          columns: [
+            {
+              name: 'ID',
+              type: 'NUMBER',
+              nullable: true,
+              precision: 38,
+              scale: 0,
+              ordinalPosition: 1,
+            },
+            {
+              name: 'NOTE',
+              type: 'TEXT',
+              nullable: true,
+              maxLength: 16777216,
+              ordinalPosition: 2,
+            },
+          ],
+        },
+      ]);
+      // Imported columns are classified with the rest of the batch
+      expect(changePipelineService.processBatch).toHaveBeenCalledWith(
+        { tables, changes: [] },
+        DDL_IMPORT_SOURCE,
+        [],
+      );
+      expect(result).toMatchObject({
+        success: false,
+        source: DDL_IMPORT_SOURCE,
+        files: 2,
+        statements: 3,
+        tables: 1,
+        newTables: 1,
+      });
+      expect(result.errors).toEqual([
+        expect.objectContaining({ file: '002.sql', statement: 2, line: 2 }),
+      ]);
+    });
+
+    it('should import into the requested source', async () => {
+      const result = await service.importDdl(
+        [{ name: 'a.sql', content: 'CREATE TABLE db.s.t (id INT)' }],
+        { source: 'legacy-warehouse' },
+      );
+      expect(mongodbService.upsertMetadata).toHaveBeenCalledWith(
+        expect.any(Array),
+        'legacy-warehouse',
+      );
+      expect(result.success).toBe(true);
+    });
+
+    it('should not import over tables a live source has', async () => {
+      const owned = { database: 'DB', schema: 'S', table: 'ORDERS' };
+      mongodbService.upsertMetadata.mockResolvedValue({
+        newTables: 1,
+        updatedTables: 0,
+        skippedTables: 0,
+        changes: [],
+        conflicts: [{ ...owned, owner: 'snowflake' }],
+      });
+
+      const result = await service.importDdl([
+        {
+          name: 'a.sql',
+          content:
+            'CREATE TABLE db.s.orders (id INT);\nCREATE TABLE db.s.items (id INT);',
+        },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts).toEqual([{ ...owned, owner: 'snowflake' }]);
+      // Only the imported table goes through the pipeline
+      expect(changePipelineService.processBatch).toHaveBeenCalledWith(
+        { tables: [expect.objectContaining({ table: 'ITEMS' })], changes: [] },
+        DDL_IMPORT_SOURCE,
+        [],
+      );
+    });
+
+    it('should report breaking changes without failing on pipeline errors', async () => {
+      changePipelineService.processBatch.mockImplementation(
+        (batch, source, errors: string[]) => {
+          errors.push('Failed to record schema history: boom');
+          return Promise.resolve([{ table: 'T', breaking: true }]);
+        },
+      );
+      const result = await service.importDdl([
+        { name: 'a.sql', content: 'CREATE TABLE db.s.t (id INT)' },
+      ]);
+      expect(result).toMatchObject({
+        success: true,
+        newTables: 1,
+        breakingChanges: 1,
+      });
+    });
+
+    it('should reject a default schema without a database', async () => {
+      await expect(service.importDdl([], { schema: 'public' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('importDirectory', () => {
+    const originalRoot = process.env.DDL_IMPORT_ROOT;
+    let root: string;
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), 'ddl-import-'));
+      process.env.DDL_IMPORT_ROOT = root;
+    });
+
+    afterEach(async () => {
+      if (originalRoot === undefined) {
+        delete process.env.DDL_IMPORT_ROOT;
+      } else {
+        process.env.DDL_IMPORT_ROOT = originalRoot;
+      }
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should import sql files recursively in path order', async () => {
+      await mkdir(join(root, 'repo', 'migrations'), { recursive: true });
+      await writeFile(
+        join(root, 'repo', 'migrations', 'V2.sql'),
+        'CREATE OR REPLACE TABLE db.s.t (id INT, name TEXT);',
+      );
+      await writeFile(
+        join(root, 'repo', 'migrations', 'V1.sql'),
+        'CREATE TABLE db.s.t (id INT);',
+      );
+      await writeFile(join(root, 'repo', 'README.md'), 'not sql');
+
+      const result = await service.importDirectory('repo');
+
+      expect(result.files).toBe(2);
+      const [tables] = mongodbService.upsertMetadata.mock.calls[0];
+      expect(tables[0].columns.map((column) => column.name)).toEqual([
+        'ID',
+        'NAME',
+      ]);
+    });
+
+    it('should report file names relative to the import root', async () => {
+      await mkdir(join(root, 'repo'));
+      await writeFile(join(root, 'repo', 'bad.sql'), 'CREATE TABLE t (id INT)');
+
+      const result = await service.importDirectory('repo');
+
+      expect(result.errors[0].file).toBe('repo/bad.sql');
+    });
+
+    it('should refuse paths outside the import root', async () => {
+      await expect(service.importDirectory('../etc')).rejects.toThrow(
+        'path must be inside DDL_IMPORT_ROOT',
+      );
+    });
+
+    it('should report a missing directory', async () => {
+      await expect(service.importDirectory('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should be disabled without an import root', async () => {
+      delete process.env.DDL_IMPORT_ROOT;
+      await expect(service.importDirectory('repo')).rejects.toThrow(
+        'Directory imports are disabled',
+      );
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { normalizeSnowflakeType, parseSnowflakeDdl } from '../utils/ddl-parser';
+
+describe('parseSnowflakeDdl', () => {
+  it('should parse column types, nullability, defaults and comments', () => {
+    const result = parseSnowflakeDdl(`
+      create or replace TABLE ANALYTICS.PUBLIC.ORDERS (
+        ID NUMBER(38,0) NOT NULL autoincrement start 1 increment 1,
+        "customer name" VARCHAR(255) COMMENT 'Customer''s name',
+        STATUS STRING DEFAULT 'new',
+        CREATED_AT TIMESTAMP_NTZ(9) DEFAULT CURRENT_TIMESTAMP() NOT NULL,
+        AMOUNT DECIMAL(10, 2) NULL,
+        PRICE DOUBLE PRECISION,
+        SEEN_AT TIMESTAMP WITH TIME ZONE,
+        constraint PK_ORDERS primary key (ID)
+      ) COMMENT = 'All orders';
+    `);
+
+    expect(result.errors).toEqual([]);
+    expect(result.tables).toEqual([
+      {
+        database: 'ANALYTICS',
+        schema: 'PUBLIC',
+        table: 'ORDERS',
+        objectType: 'base_table',
+        columns: [
+          {
+            name: 'ID',
+            type: 'NUMBER',
+            nullable: false,
+            precision: 38,
+            scale: 0,
+            identity: true,
+            identityStart: 1,
+            identityIncrement: 1,
+            ordinalPosition: 1,
+          },
+          {
+            name: 'customer name',
+            type: 'TEXT',
+            nullable: true,
+            maxLength: 255,
+            comment: "Customer's name",
+            ordinalPosition: 2,
+          },
+          {
+            name: 'STATUS',
+            type: 'TEXT',
+            nullable: true,
+            maxLength: 16777216,
+            defaultValue: "'new'",
+            ordinalPosition: 3,
+          },
+          {
+            name: 'CREATED_AT',
+            type: 'TIMESTAMP_NTZ',
+            nullable: false,
+            defaultValue: 'CURRENT_TIMESTAMP()',
+            ordinalPosition: 4,
+          },
+          {
+            name: 'AMOUNT',
+            type: 'NUMBER',
+            nullable: true,
+            precision: 10,
+            scale: 2,
+            ordinalPosition: 5,
+          },
+          { name: 'PRICE', type: 'FLOAT', nullable: true, ordinalPosition: 6 },
+          {
+            name: 'SEEN_AT',
+            type: 'TIMESTAMP_TZ',
+            nullable: true,
+            ordinalPosition: 7,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should resolve unqualified names from USE and CREATE SCHEMA statements', () => {
+    const result = parseSnowflakeDdl(`
+      USE DATABASE raw;
+      CREATE TABLE events (id INT);
+      CREATE SCHEMA IF NOT EXISTS staging;
+      CREATE TRANSIENT TABLE IF NOT EXISTS events (id INT);
+      USE SCHEMA other_db.marts;
+      CREATE TABLE facts (id INT);
+    `);
+
+    expect(
+      result.tables.map((t) => `${t.database}.${t.schema}.${t.table}`),
+    ).toEqual([
+      'RAW.PUBLIC.EVENTS',
+      'RAW.STAGING.EVENTS',
+      'OTHER_DB.MARTS.FACTS',
+    ]);
+  });
+
+  it('should use the defaults for unqualified names', () => {
+    const result = parseSnowflakeDdl('CREATE TABLE t (id INT)', {
+      database: 'DB',
+      schema: 'S',
+    });
+    expect(result.tables[0]).toMatchObject({
+      database: 'DB',
+      schema: 'S',
+      table: 'T',
+    });
+  });
+
+  it('should derive view columns from the column list or the select list', () => {
+    const result = parseSnowflakeDdl(`
+      CREATE OR REPLACE SECURE VIEW db.s.v1 (a COMMENT 'first', b) AS SELECT x, y FROM t;
+      CREATE MATERIALIZED VIEW db.s.v2 COMMENT = 'v2' AS
+        WITH cte AS (SELECT 1 AS z)
+        SELECT t.id, upper(name) AS "Name", count(*) total FROM t JOIN cte;
+    `);
+
+    expect(result.errors).toEqual([]);
+    expect(result.tables[0].columns).toEqual([
+      {
+        name: 'A',
+        type: 'UNKNOWN',
+        nullable: true,
+        comment: 'first',
+        ordinalPosition: 1,
+      },
+      { name: 'B', type: 'UNKNOWN', nullable: true, ordinalPosition: 2 },
+    ]);
+    expect(result.tables[1].columns.map((c) => c.name)).toEqual([
+      'ID',
+      'Name',
+      'TOTAL',
+    ]);
+  });
+
+  it('should record object types, view definitions and stage locations', () => {
+    const result = parseSnowflakeDdl(`
+      CREATE TRANSIENT TABLE db.s.staging (id INT);
+      CREATE OR REPLACE DYNAMIC TABLE db.s.daily (day, total NUMBER)
+        TARGET_LAG = '1 hour' WAREHOUSE = wh
+        AS SELECT day, sum(amount) FROM db.s.staging GROUP BY day;
+      CREATE EXTERNAL TABLE db.s.events (
+        ts TIMESTAMP_NTZ AS (value:ts::timestamp_ntz)
+      ) LOCATION = @db.s.raw_stage/events/ FILE_FORMAT = (TYPE = PARQUET);
+      CREATE VIEW db.s.recent AS SELECT id FROM db.s.staging;
+      CREATE MATERIALIZED VIEW db.s.mv AS SELECT id FROM db.s.staging;
+    `);
+
+    expect(result.errors).toEqual([]);
+    const [staging, daily, events, recent, mv] = result.tables;
+    expect(staging.objectType).toBe('transient_table');
+    expect(daily.objectType).toBe('dynamic_table');
+    expect(daily.columns).toEqual([
+      { name: 'DAY', type: 'UNKNOWN', nullable: true, ordinalPosition: 1 },
+      {
+        name: 'TOTAL',
+        type: 'NUMBER',
+        nullable: true,
+        precision: 38,
+        scale: 0,
+        ordinalPosition: 2,
+      },
+    ]);
+    expect(events).toMatchObject({
+      objectType: 'external_table',
+      stageLocation: '@db.s.raw_stage/events/',
+    });
+    expect(events.columns.map((c) => c.name)).toEqual(['VALUE', 'TS']);
+    expect(events.columns[0].type).toBe('VARIANT');
+    expect(recent).toMatchObject({
+      objectType: 'view',
+      definition: 'CREATE VIEW db.s.recent AS SELECT id FROM db.s.staging',
+    });
+    expect(mv.objectType).toBe('materialized_view');
+  });
+
+  it('should report errors per statement and keep parsing the rest', () => {
+    const result = parseSnowflakeDdl(`
+      CREATE TABLE db.s.good (id INT);
+      CREATE TABLE unqualified (id INT);
+      CREATE VIEW db.s.star AS SELECT * FROM t;
+      CREATE TABLE db.s.dup (id INT, ID TEXT);
+      CREATE TABLE db.s.copy CLONE db.s.good;
+      GRANT SELECT ON ALL TABLES IN SCHEMA db.s TO ROLE r;
+      CREATE TABLE db.s.also_good (id INT);
+    `);
+
+    expect(result.tables.map((table) => table.table)).toEqual([
+      'GOOD',
+      'ALSO_GOOD',
+    ]);
+    expect(result.statements).toBe(7);
+    expect(result.skippedStatements).toBe(1);
+    expect(result.errors).toHaveLength(4);
+    expect(result.errors[0]).toMatchObject({
+      statement: 2,
+      line: 3,
+      excerpt: 'CREATE TABLE unqualified (id INT)',
+    });
+    expect(result.errors[0].message).toContain('Cannot resolve');
+    expect(result.errors[1].message).toContain('SELECT *');
+    expect(result.errors[2].message).toContain('Duplicate column ID');
+    expect(result.errors[3].statement).toBe(5);
+  });
+
+  it('should ignore semicolons in comments and literals', () => {
+    const result = parseSnowflakeDdl(`
+      -- a comment; with a semicolon
+      /* another; one */
+      CREATE TABLE db.s.t (
+        a TEXT DEFAULT 'x;y', // trailing comment;
+        b TEXT COMMENT $$it's; fine$$
+      );
+    `);
+
+    expect(result.errors).toEqual([]);
+    expect(result.statements).toBe(1);
+    expect(result.tables[0].columns).toEqual([
+      expect.objectContaining({ name: 'A', defaultValue: "'x;y'" }),
+      expect.objectContaining({ name: 'B', comment: "it's; fine" }),
+    ]);
+  });
+
+  it('should record lengths, identities and collations like INFORMATION_SCHEMA', () => {
+    const result = parseSnowflakeDdl(`
+      CREATE TABLE db.s.t (
+        id INT IDENTITY(100, -1) ORDER,
+        code CHAR COLLATE 'en-ci',
+        label NVARCHAR(16),
+        payload VARBINARY,
+        ratio NUMBER(5)
+      );
+    `);
+
+    expect(result.errors).toEqual([]);
+    const [id, code, label, payload, ratio] = result.tables[0].columns;
+    expect(id).toMatchObject({
+      identity: true,
+      identityStart: 100,
+      identityIncrement: -1,
+    });
+    expect(code).toMatchObject({ maxLength: 1, collation: 'en-ci' });
+    expect(label.maxLength).toBe(16);
+    expect(payload.maxLength).toBe(8388608);
+    expect(ratio).toMatchObject({ precision: 5, scale: 0 });
+  });
+
+  it('should report an unterminated literal', () => {
+    const result = parseSnowflakeDdl(
+      "CREATE TABLE db.s.t (a TEXT COMMENT 'oops)",
+    );
+    expect(result.tables).toEqual([]);
+    expect(result.errors[0].message).toContain('Unterminated literal');
+  });
+});
+
+describe('normalizeSnowflakeType', () => {
+  it('should map synonyms to INFORMATION_SCHEMA types', () => {
+    expect(normalizeSnowflakeType('varchar(16777216)')).toBe('TEXT');
+    expect(normalizeSnowflakeType('INTEGER')).toBe('NUMBER');
+    expect(normalizeSnowflakeType('timestamp with  local time zone')).toBe(
+      'TIMESTAMP_LTZ',
+    );
+    expect(normalizeSnowflakeType('VARIANT')).toBe('VARIANT');
+    expect(normalizeSnowflakeType('MY_CUSTOM_TYPE')).toBe('MY_CUSTOM_TYPE');
+  });
+});
@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ExportService } from '../services/export.service';
+import { MongodbService } from '../services/mongodb.service';
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let mongodbService: { findTable: jest.Mock; findSchemaTables: jest.Mock };
+
+  const orders = {
+    database: 'ANALYTICS',
+    schema: 'PUBLIC',
+    table: 'ORDERS',
+    columns: [
+      {
+        name: 'ID',
+        type: 'NUMBER',
+        nullable: false,
+        defaultValue: null,
+        comment: 'Order id',
+      },
+      {
+        name: 'STATUS',
+        type: 'TEXT',
+        nullable: true,
+        defaultValue: "'new'",
+        comment: null,
+      },
+      {
+        name: 'CREATED_AT',
+        type: 'TIMESTAMP_NTZ',
+        nullable: false,
+        defaultValue: null,
+        comment: null,
+      },
+      {
+        name: 'PAYLOAD',
+        type: 'VARIANT',
+        nullable: true,
+        defaultValue: null,
+        comment: null,
+      },
+    ],
+  };
+  const customers = {
+    database: 'ANALYTICS',
+    schema: 'PUBLIC',
+    table: 'CUSTOMERS',
+    columns: [
+      {
+        name: 'Customer Name',
+        type: 'TEXT',
+        nullable: true,
+        comment: 'Full name: "first last"',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    mongodbService = {
+      findTable: jest.fn().mockResolvedValue(orders),
+      findSchemaTables: jest.fn().mockResolvedValue([customers, orders]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportService,
+        { provide: MongodbService, useValue: mongodbService },
+      ],
+    }).compile();
+    service = module.get<ExportService>(ExportService);
+  });
+
+  const ref = { database: 'ANALYTICS', schema: 'PUBLIC', table: 'ORDERS' };
+
+  it('should render a table as JSON Schema', async () => {
+    const document = await service.exportTable(ref, 'json-schema');
+
+    expect(document.fileName).toBe('ANALYTICS.PUBLIC.ORDERS.schema.json');
+    expect(JSON.parse(document.content)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'ANALYTICS.PUBLIC.ORDERS',
+      type: 'object',
+      properties: {
+        ID: { type: 'number', description: 'Order id' },
+        STATUS: { type: ['string', 'null'] },
+        CREATED_AT: { type: 'string', format: 'date-time' },
+        PAYLOAD: {},
+      },
+      required: ['ID', 'CREATED_AT'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should render a table as an Avro record', async () => {
+    const document = await service.exportTable(ref, 'avro');
+
+    expect(JSON.parse(document.content)).toEqual({
+      type: 'record',
+      name: 'ORDERS',
+      namespace: 'analytics.public',
+      doc: 'Columns of ANALYTICS.PUBLIC.ORDERS',
+      fields: [
+        { name: 'ID', type: 'double', doc: 'Order id' },
+        { name: 'STATUS', type: ['null', 'string'], default: null },
+        {
+          name: 'CREATED_AT',
+          type: { type: 'long', logicalType: 'local-timestamp-micros' },
+        },
+        { name: 'PAYLOAD', type: ['null', 'string'], default: null },
+      ],
+    });
+  });
+
+  it('should render a table as a Protobuf message', async () => {
+    const document = await service.exportTable(ref, 'protobuf');
+
+    expect(document.content).toBe(
+      [
+        'syntax = "proto3";',
+        '',
+        'package analytics.public;',
+        '',
+        'import "google/protobuf/struct.proto";',
+        'import "google/protobuf/timestamp.proto";',
+        '',
+        '// ANALYTICS.PUBLIC.ORDERS',
+        'message Orders {',
+        '  // Order id',
+        '  double id = 1;',
+        '  optional string status = 2;',
+        '  google.protobuf.Timestamp created_at = 3;',
+        '  google.protobuf.Value payload = 4;',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should keep the precision of numbers in Avro and Protobuf', async () => {
+    const number = (name: string, precision: number, scale: number) => ({
+      name,
+      type: 'NUMBER',
+      nullable: false,
+      precision,
+      scale,
+    });
+    mongodbService.findTable.mockResolvedValue({
+      ...orders,
+      columns: [
+        number('ID', 38, 0),
+        number('QUANTITY', 9, 0),
+        number('AMOUNT', 12, 2),
+      ],
+    });
+
+    const avro = JSON.parse(
+      (await service.exportTable(ref, 'avro')).content,
+    ) as { fields: { type: unknown }[] };
+    const protobuf = (await service.exportTable(ref, 'protobuf')).content;
+
+    expect(avro.fields.map((field) => field.type)).toEqual([
+      { type: 'bytes', logicalType: 'decimal', precision: 38, scale: 0 },
+      'long',
+      { type: 'bytes', logicalType: 'decimal', precision: 12, scale: 2 },
+    ]);
+    expect(protobuf).toContain(
+      ['  int64 id = 1;', '  int64 quantity = 2;', '  string amount = 3;'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should render a dbt source with not_null tests for required columns', async () => {
+    const document = await service.exportTable(ref, 'dbt');
+
+    expect(document.contentType).toBe('application/yaml');
+    expect(document.content).toContain(
+      [
+        'sources:',
+        '  - name: public',
+        '    database: ANALYTICS',
+        '    schema: PUBLIC',
+        '    tables:',
+        '      - name: ORDERS',
+        '        columns:',
+        '          - name: ID',
+        '            data_type: NUMBER',
+        '            description: Order id',
+        '            tests:',
+        '              - not_null',
+      ].join('\n'),
+    );
+  });
+
+  it('should export every table of a schema into one document', async () => {
+    const avro = JSON.parse(
+      (await service.exportSchema('ANALYTICS', 'PUBLIC', 'avro')).content,
+    );
+    expect(avro.map((record) => record.name)).toEqual(['CUSTOMERS', 'ORDERS']);
+    expect(avro[0].fields[0].name).toBe('Customer_Name');
+
+    const jsonSchema = JSON.parse(
+      (await service.exportSchema('ANALYTICS', 'PUBLIC', 'json-schema'))
+        .content,
+    );
+    expect(Object.keys(jsonSchema.$defs)).toEqual(['CUSTOMERS', 'ORDERS']);
+
+    const dbt = (await service.exportSchema('ANALYTICS', 'PUBLIC', 'dbt'))
+      .content;
+    expect(dbt.match(/- name: public/g)).toHaveLength(1);
+    expect(dbt).toContain(
+      '          - name: Customer Name\n            data_type: TEXT\n            quote: true\n',
+    );
+    expect(dbt).toContain('description: "Full name: \\"first last\\""');
+
+    const proto = (
+      await service.exportSchema('ANALYTICS', 'PUBLIC', 'protobuf')
+    ).content;
+    expect(proto).toContain('message Customers {');
+    expect(proto).toContain('optional string customer_name = 1;');
+    expect(mongodbService.findSchemaTables).toHaveBeenCalledWith(
+      'ANALYTICS',
+      'PUBLIC',
+    );
+  });
+
+  it('should report missing tables and empty schemas', async () => {
+    mongodbService.findTable.mockResolvedValue(null);
+    mongodbService.findSchemaTables.mockResolvedValue([]);
+
+    await expect(service.exportTable(ref, 'avro')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(
+      service.exportSchema('ANALYTICS', 'EMPTY', 'avro'),
+    ).rejects.toThrow('No tables found in ANALYTICS.EMPTY');
+  });
+});
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GovernanceService } from '../services/governance.service';
+import { MongodbService } from '../services/mongodb.service';
+import { parseTagFilter, tagCondition } from '../utils/governance';
+
+describe('GovernanceService', () => {
+  let service: GovernanceService;
+  let mongodbService: { findTaggedTables: jest.Mock };
+
+  const users = {
+    database: 'ANALYTICS',
+    schema: 'PUBLIC',
+    table: 'USERS',
+    tags: [
+      { column: null, tag: 'GOV.TAGS.PII', value: 'EMAIL' },
+      { column: 'EMAIL', tag: 'GOV.TAGS.PII', value: 'EMAIL' },
+      { column: 'PHONE', tag: 'GOV.TAGS.PII', value: 'PHONE' },
+      { column: 'EMAIL', tag: 'GOV.TAGS.PII_REVIEWED', value: 'EMAIL' },
+    ],
+  };
+
+  beforeEach(async () => {
+    mongodbService = {
+      findTaggedTables: jest.fn().mockResolvedValue([users]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GovernanceService,
+        { provide: MongodbService, useValue: mongodbService },
+      ],
+    }).compile();
+    service = module.get<GovernanceService>(GovernanceService);
+  });
+
+  it('should list the columns carrying a tag value', async () => {
+    const query = { tag: { tag: 'pii', value: 'EMAIL' }, schema: 'PUBLIC' };
+
+    const columns = await service.findTaggedColumns(query);
+
+    expect(mongodbService.findTaggedTables).toHaveBeenCalledWith(query);
+    expect(columns).toEqual([
+      {
+        database: 'ANALYTICS',
+        schema: 'PUBLIC',
+        table: 'USERS',
+        column: 'EMAIL',
+        tag: 'GOV.TAGS.PII',
+        value: 'EMAIL',
+      },
+    ]);
+  });
+
+  it('should match any value and fully-qualified names', async () => {
+    const columns = await service.findTaggedColumns({
+      tag: { tag: 'GOV.TAGS.PII' },
+    });
+    expect(columns.map((column) => column.column)).toEqual(['EMAIL', 'PHONE']);
+
+    await expect(
+      service.findTaggedColumns({ tag: { tag: 'OTHER.TAGS.PII' } }),
+    ).resolves.toEqual([]);
+  });
+});
+
+describe('tag filters', () => {
+  it('should parse NAME and NAME=VALUE', () => {
+    expect(parseTagFilter('PII')).toEqual({ tag: 'PII' });
+    expect(parseTagFilter('PII=EMAIL')).toEqual({ tag: 'PII', value: 'EMAIL' });
+    expect(parseTagFilter('PII=')).toEqual({ tag: 'PII', value: '' });
+    expect(parseTagFilter('=EMAIL')).toBeNull();
+  });
+
+  it('should build an $elemMatch condition on the tag name', () => {
+    const condition = tagCondition({ tag: 'PII', value: 'EMAIL' }, true);
+    const name = condition.$elemMatch.tag as RegExp;
+
+    expect(name.test('GOV.TAGS.PII')).toBe(true);
+    expect(name.test('pii')).toBe(true);
+    expect(name.test('GOV.TAGS.NOT_PII')).toBe(false);
+    expect(condition.$elemMatch).toMatchObject({
+      value: 'EMAIL',
+      column: { $ne: null },
+    });
+  });
+});
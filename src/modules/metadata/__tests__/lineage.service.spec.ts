@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { LineageService } from '../services/lineage.service';
+import { LineageEdge } from '../schemas/lineage-edge.schema';
+import { SourceConnector } from '../connectors/source-connector';
+
+describe('LineageService', () => {
+  let service: LineageService;
+  let lineageEdgeModel: any;
+
+  const ref = (table: string) => ({ database: 'DB', schema: 'S', table });
+  const edge = (
+    upstream: string,
+    downstream: string,
+    kind = 'access',
+    lastSeen = new Date('2024-01-01T00:00:00Z'),
+  ) => ({
+    upstream: ref(upstream),
+    downstream: ref(downstream),
+    kind,
+    lastSeen,
+  });
+
+  const mockQuery = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    lineageEdgeModel = {
+      find: jest.fn(),
+      findOne: jest.fn().mockReturnValue(mockQuery(null)),
+      exists: jest.fn().mockResolvedValue(null),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ deletedCount: 0 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LineageService,
+        {
+          provide: getModelToken(LineageEdge.name),
+          useValue: lineageEdgeModel,
+        },
+      ],
+    }).compile();
+    service = module.get<LineageService>(LineageService);
+  });
+
+  describe('ingest', () => {
+    const connector = (lineage: any): SourceConnector => ({
+      name: 'snowflake',
+      type: 'snowflake',
+      getAllTables: jest.fn(),
+      getLineage: jest.fn().mockResolvedValue(lineage),
+    });
+
+    it('should replace dependencies and merge accesses', async () => {
+      const source = connector({
+        dependencies: [
+          {
+            upstream: ref('ORDERS'),
+            downstream: ref('V_ORDERS'),
+            kind: 'dependency',
+          },
+        ],
+        accesses: [
+          {
+            upstream: ref('RAW'),
+            downstream: ref('ORDERS'),
+            kind: 'access',
+            firstSeen: new Date('2024-01-01T00:00:00Z'),
+            lastSeen: new Date('2024-01-02T00:00:00Z'),
+          },
+        ],
+      });
+
+      const result = await service.ingest(source);
+
+      expect(result).toEqual({ dependencies: 1, accesses: 1 });
+      const [dependencyOps] = lineageEdgeModel.bulkWrite.mock.calls[0];
+      expect(dependencyOps[0].updateOne).toMatchObject({
+        filter: {
+          'upstream.table': 'ORDERS',
+          'downstream.table': 'V_ORDERS',
+          kind: 'dependency',
+        },
+        upsert: true,
+      });
+      const ingestTime = dependencyOps[0].updateOne.update.$max.lastSeen;
+      expect(lineageEdgeModel.deleteMany).toHaveBeenCalledWith({
+        source: 'snowflake',
+        kind: 'dependency',
+        lastSeen: { $lt: ingestTime },
+      });
+      const [accessOps] = lineageEdgeModel.bulkWrite.mock.calls[1];
+      expect(accessOps[0].updateOne.update).toEqual({
+        $set: { source: 'snowflake' },
+        $min: { firstSeen: new Date('2024-01-01T00:00:00Z') },
+        $max: { lastSeen: new Date('2024-01-02T00:00:00Z') },
+      });
+    });
+
+    it('should read accesses from the newest stored one minus the latency', async () => {
+      lineageEdgeModel.findOne.mockReturnValue(
+        mockQuery({ lastSeen: new Date('2024-01-02T03:00:00Z') }),
+      );
+      const source = connector({});
+
+      await service.ingest(source);
+
+      expect(source.getLineage).toHaveBeenCalledWith(
+        new Date('2024-01-02T00:00:00Z'),
+        undefined,
+      );
+    });
+
+    it('should keep stored dependencies when the source reports none', async () => {
+      const result = await service.ingest(connector({ accesses: [] }));
+
+      expect(result).toEqual({ dependencies: null, accesses: 0 });
+      expect(lineageEdgeModel.deleteMany).not.toHaveBeenCalled();
+      expect(lineageEdgeModel.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLineage', () => {
+    it('should walk upstream level by level and merge edge kinds', async () => {
+      lineageEdgeModel.find
+        .mockReturnValueOnce(
+          mockQuery([
+            edge('ORDERS', 'REPORT', 'dependency'),
+            edge(
+              'ORDERS',
+              'REPORT',
+              'access',
+              new Date('2024-02-01T00:00:00Z'),
+            ),
+            edge('CUSTOMERS', 'REPORT'),
+          ]),
+        )
+        .mockReturnValueOnce(mockQuery([edge('RAW', 'ORDERS')]));
+
+      const graph = await service.getLineage(ref('REPORT'), 'upstream', 2);
+
+      expect(lineageEdgeModel.find.mock.calls[0][0]).toEqual({
+        $or: [
+          {
+            'downstream.database': 'DB',
+            'downstream.schema': 'S',
+            'downstream.table': 'REPORT',
+          },
+        ],
+      });
+      expect(graph.nodes.map((node) => [node.table, node.distance])).toEqual([
+        ['REPORT', 0],
+        ['ORDERS', 1],
+        ['CUSTOMERS', 1],
+        ['RAW', 2],
+      ]);
+      expect(graph.edges[0]).toEqual({
+        from: 'DB.S.ORDERS',
+        to: 'DB.S.REPORT',
+        kinds: ['dependency', 'access'],
+        lastSeen: new Date('2024-02-01T00:00:00Z'),
+      });
+      expect(graph.edges).toHaveLength(3);
+      expect(graph.truncated).toBe(false);
+      expect(lineageEdgeModel.exists.mock.calls[0][0].$or).toEqual([
+        {
+          'downstream.database': 'DB',
+          'downstream.schema': 'S',
+          'downstream.table': 'RAW',
+        },
+      ]);
+    });
+
+    it('should stop at the depth limit and report truncation', async () => {
+      lineageEdgeModel.find.mockReturnValue(
+        mockQuery([edge('REPORT', 'DASHBOARD')]),
+      );
+      lineageEdgeModel.exists.mockResolvedValue({ _id: 'next' });
+
+      const graph = await service.getLineage(ref('REPORT'), 'downstream', 1);
+
+      expect(lineageEdgeModel.find).toHaveBeenCalledTimes(1);
+      expect(
+        Object.keys(lineageEdgeModel.find.mock.calls[0][0].$or[0]),
+      ).toEqual(['upstream.database', 'upstream.schema', 'upstream.table']);
+      expect(graph.nodes.map((node) => node.id)).toEqual([
+        'DB.S.REPORT',
+        'DB.S.DASHBOARD',
+      ]);
+      expect(graph.truncated).toBe(true);
+    });
+
+    it('should not revisit tables in cycles', async () => {
+      lineageEdgeModel.find
+        .mockReturnValueOnce(mockQuery([edge('A', 'B')]))
+        .mockReturnValueOnce(mockQuery([edge('B', 'A')]));
+
+      const graph = await service.getLineage(ref('A'), 'downstream', 5);
+
+      expect(lineageEdgeModel.find).toHaveBeenCalledTimes(2);
+      expect(graph.nodes).toHaveLength(2);
+      expect(graph.edges).toHaveLength(2);
+      expect(lineageEdgeModel.exists).not.toHaveBeenCalled();
+    });
+  });
+});
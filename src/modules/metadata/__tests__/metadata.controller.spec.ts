@@ -1,85 +1,978 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { MetadataController } from '../metadata.controller';
 import { MetadataService } from '../metadata.service';
-import { SyncResponseDto } from '../dto/sync-response.dto';
+import { ConflictException } from '@nestjs/common';
+import request from 'supertest';
+import { SyncSchedulerService } from '../services/sync-scheduler.service';
+import { SyncJobService } from '../services/sync-job.service';
+import { WebhookService } from '../services/webhook.service';
+import { DataContractService } from '../services/data-contract.service';
+import { AnnotationService } from '../services/annotation.service';
+import { AuthGuard } from '../../auth/guards/auth.guard';
+import { RateLimitGuard } from '../../auth/guards/rate-limit.guard';
+import { SyncJobDto } from '../dto/sync-job.dto';
 
 describe('MetadataController', () => {
   let controller: MetadataController;
   let service: MetadataService;
+  let schedulerService: SyncSchedulerService;
+  let jobService: SyncJobService;
+  let webhookService: WebhookService;
+  let contractService: DataContractService;
+  let annotationService: AnnotationService;
+  let module: TestingModule;
 
   beforeEach(async () => {
     const mockService = {
-      syncMetadata: jest.fn(),
+      listTables: jest.fn(),
+      getTable: jest.fn(),
+      getTablesBatch: jest.fn(),
+      search: jest.fn(),
+      importDdl: jest.fn(),
+      importDdlDirectory: jest.fn(),
+      exportTable: jest.fn(),
+      exportSchema: jest.fn(),
+      getTableRelationships: jest.fn(),
+      getSchemaGraph: jest.fn(),
+      findTaggedColumns: jest.fn(),
+      getLineage: jest.fn(),
+      getMostUsedTables: jest.fn(),
+      getUnusedTables: jest.fn(),
+      listClassifications: jest.fn(),
+      getTableClassifications: jest.fn(),
+      reviewClassification: jest.fn(),
+      profileTable: jest.fn(),
+      getTableProfile: jest.fn(),
+      listBreakingChanges: jest.fn(),
     };
 
-    const module: TestingModule = await Test.createTestingModule({
+    const mockSchedulerService = {
+      getSchedules: jest.fn(),
+      updateSchedule: jest.fn(),
+      pauseSchedule: jest.fn(),
+      resumeSchedule: jest.fn(),
+    };
+
+    const mockJobService = {
+      startJob: jest.fn(),
+      getJob: jest.fn(),
+      listJobs: jest.fn(),
+      cancelJob: jest.fn(),
+    };
+
+    const mockContractService = {
+      createContract: jest.fn(),
+      listContracts: jest.fn(),
+      getStatus: jest.fn(),
+      getContract: jest.fn(),
+      updateContract: jest.fn(),
+      deleteContract: jest.fn(),
+      listResults: jest.fn(),
+    };
+
+    const mockAnnotationService = {
+      listAnnotations: jest.fn(),
+      getTableAnnotations: jest.fn(),
+      annotate: jest.fn(),
+      deleteAnnotation: jest.fn(),
+      reattach: jest.fn(),
+    };
+
+    const mockWebhookService = {
+      createSubscription: jest.fn(),
+      listSubscriptions: jest.fn(),
+      deleteSubscription: jest.fn(),
+      listDeliveries: jest.fn(),
+      getDelivery: jest.fn(),
+      replayDelivery: jest.fn(),
+    };
+
+    module = await Test.createTestingModule({
       controllers: [MetadataController],
       providers: [
         {
           provide: MetadataService,
           useValue: mockService,
         },
+        {
+          provide: SyncSchedulerService,
+          useValue: mockSchedulerService,
+        },
+        {
+          provide: SyncJobService,
+          useValue: mockJobService,
+        },
+        {
+          provide: WebhookService,
+          useValue: mockWebhookService,
+        },
+        {
+          provide: DataContractService,
+          useValue: mockContractService,
+        },
+        {
+          provide: AnnotationService,
+          useValue: mockAnnotationService,
+        },
       ],
-    }).compile();
+    })
+      // Guards are covered by the auth specs
+      .overrideGuard(AuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RateLimitGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<MetadataController>(MetadataController);
     service = module.get<MetadataService>(MetadataService);
+    schedulerService = module.get<SyncSchedulerService>(SyncSchedulerService);
+    jobService = module.get<SyncJobService>(SyncJobService);
+    webhookService = module.get<WebhookService>(WebhookService);
+    contractService = module.get<DataContractService>(DataContractService);
+    annotationService = module.get<AnnotationService>(AnnotationService);
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
 
-  it('should return success response when sync completes successfully', async () => {
-    const mockResponse: SyncResponseDto = {
-      success: true,
-      message: 'Metadata sync completed successfully',
-      stats: {
-        totalTables: 10,
-        newTables: 2,
-        updatedTables: 1,
-        skippedTables: 7,
-        processingTimeMs: 5000,
+  describe('sync jobs', () => {
+    const queuedJob: SyncJobDto = {
+      id: '507f1f77bcf86cd799439011',
+      status: 'queued',
+      mode: 'incremental',
+      trigger: 'user',
+      scope: null,
+      source: 'snowflake',
+      progress: {
+        phase: 'queued',
+        databasesTotal: 0,
+        databasesDone: 0,
+        tablesFound: 0,
+        tablesProcessed: 0,
       },
+      cancelRequested: false,
+      result: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
     };
 
-    jest.spyOn(service, 'syncMetadata').mockResolvedValue(mockResponse);
+    it('should start a sync job and return it without waiting for the sync', async () => {
+      jest.spyOn(jobService, 'startJob').mockResolvedValue({
+        job: queuedJob,
+        completion: new Promise(() => undefined),
+      });
+
+      const result = await controller.syncMetadata();
+
+      expect(result).toEqual(queuedJob);
+      expect(jobService.startJob).toHaveBeenCalledWith({});
+    });
+
+    it('should not leak a failed background sync as an unhandled rejection', async () => {
+      const completion = Promise.reject(new Error('Sync failed'));
+      jest
+        .spyOn(jobService, 'startJob')
+        .mockResolvedValue({ job: queuedJob, completion });
+
+      await controller.syncMetadata();
+
+      await expect(completion).rejects.toThrow('Sync failed');
+    });
+
+    it('should surface a conflict while another sync is running', async () => {
+      jest
+        .spyOn(jobService, 'startJob')
+        .mockRejectedValue(
+          new ConflictException('A metadata sync is already running (job 1)'),
+        );
+
+      await expect(controller.syncMetadata()).rejects.toThrow(
+        'already running',
+      );
+    });
+
+    it('should fetch and cancel jobs by id', async () => {
+      jest.spyOn(jobService, 'getJob').mockResolvedValue(queuedJob);
+      jest
+        .spyOn(jobService, 'cancelJob')
+        .mockResolvedValue({ ...queuedJob, cancelRequested: true });
+
+      await expect(controller.getSyncJob(queuedJob.id)).resolves.toEqual(
+        queuedJob,
+      );
+      const cancelled = await controller.cancelSyncJob(queuedJob.id);
+
+      expect(cancelled.cancelRequested).toBe(true);
+      expect(jobService.cancelJob).toHaveBeenCalledWith(queuedJob.id);
+    });
 
-    const result = await controller.syncMetadata();
+    it('should list recent jobs with a parsed limit', async () => {
+      jest.spyOn(jobService, 'listJobs').mockResolvedValue([queuedJob]);
 
-    expect(result).toEqual(mockResponse);
-    expect(service.syncMetadata).toHaveBeenCalled();
+      await controller.listSyncJobs('5');
+
+      expect(jobService.listJobs).toHaveBeenCalledWith(5);
+    });
   });
 
-  it('should return error response when sync fails', async () => {
-    const mockResponse: SyncResponseDto = {
-      success: false,
-      message: 'Metadata sync failed',
-      stats: {
-        totalTables: 0,
-        newTables: 0,
-        updatedTables: 0,
-        skippedTables: 0,
-        processingTimeMs: 1000,
-      },
-      errors: ['Connection failed'],
+  describe('tables', () => {
+    it('should pass parsed query parameters to the service', async () => {
+      const page = { items: [], nextCursor: null, limit: 25 };
+      jest.spyOn(service, 'listTables').mockResolvedValue(page);
+
+      const result = await controller.listTables(
+        'DB',
+        undefined,
+        'ORD*',
+        'abc',
+        '25',
+        'lastSynced',
+        'desc',
+      );
+
+      expect(result).toEqual(page);
+      expect(service.listTables).toHaveBeenCalledWith({
+        database: 'DB',
+        schema: undefined,
+        table: 'ORD*',
+        cursor: 'abc',
+        limit: 25,
+        sortBy: 'lastSynced',
+        sortOrder: 'desc',
+        includeDeleted: false,
+      });
+    });
+
+    it('should reject unknown sort fields', async () => {
+      await expect(
+        controller.listTables(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          'columns',
+        ),
+      ).rejects.toThrow('sortBy must be one of');
+      expect(service.listTables).not.toHaveBeenCalled();
+    });
+
+    it('should split object type filters', async () => {
+      jest
+        .spyOn(service, 'listTables')
+        .mockResolvedValue({ items: [], nextCursor: null, limit: 50 });
+
+      await controller.listTables(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        'view, materialized_view',
+      );
+
+      expect(service.listTables).toHaveBeenCalledWith(
+        expect.objectContaining({ objectTypes: ['view', 'materialized_view'] }),
+      );
+    });
+
+    it('should parse tag and missing policy filters', async () => {
+      jest
+        .spyOn(service, 'listTables')
+        .mockResolvedValue({ items: [], nextCursor: null, limit: 50 });
+
+      await controller.listTables(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        'PII',
+        'ROW_ACCESS_POLICY',
+      );
+
+      expect(service.listTables).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tag: { tag: 'PII' },
+          withoutPolicy: 'row_access_policy',
+        }),
+      );
+    });
+
+    it('should reject unknown object types', async () => {
+      await expect(
+        controller.listTables(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          'table',
+        ),
+      ).rejects.toThrow('objectType must be one of');
+      await expect(
+        controller.search(
+          'orders',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          'stage',
+        ),
+      ).rejects.toThrow('objectType must be one of');
+    });
+
+    it('should fetch a single table by identity', async () => {
+      const table = {
+        database: 'DB',
+        schema: 'S',
+        table: 'T',
+        columns: [],
+      } as any;
+      jest.spyOn(service, 'getTable').mockResolvedValue(table);
+
+      await expect(controller.getTable('DB', 'S', 'T')).resolves.toEqual(table);
+      expect(service.getTable).toHaveBeenCalledWith({
+        database: 'DB',
+        schema: 'S',
+        table: 'T',
+      });
+    });
+
+    it('should require a tables array for batch lookups', async () => {
+      await expect(controller.getTablesBatch({} as any)).rejects.toThrow(
+        '"tables" array',
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should split type filters and parse paging parameters', async () => {
+      const response = { query: 'customer email', total: 0, hits: [] };
+      jest.spyOn(service, 'search').mockResolvedValue(response);
+
+      await expect(
+        controller.search(
+          'customer email',
+          undefined,
+          undefined,
+          'TIMESTAMP_NTZ, DATE',
+          'column',
+          '10',
+          '20',
+        ),
+      ).resolves.toEqual(response);
+      expect(service.search).toHaveBeenCalledWith({
+        q: 'customer email',
+        database: undefined,
+        schema: undefined,
+        types: ['TIMESTAMP_NTZ', 'DATE'],
+        kind: 'column',
+        limit: 10,
+        offset: 20,
+      });
+    });
+
+    it('should require a query', async () => {
+      await expect(controller.search('')).rejects.toThrow('"q" is required');
+    });
+  });
+
+  describe('export', () => {
+    const document = {
+      fileName: 'ANALYTICS.PUBLIC.ORDERS.avsc',
+      contentType: 'application/json',
+      content: '{}',
+    };
+
+    it('should export a table by fully-qualified name as a file', async () => {
+      jest.spyOn(service, 'exportTable').mockResolvedValue(document);
+      const file = await controller.exportTable(
+        'ANALYTICS.PUBLIC.ORDERS',
+        'avro',
+      );
+      expect(service.exportTable).toHaveBeenCalledWith(
+        { database: 'ANALYTICS', schema: 'PUBLIC', table: 'ORDERS' },
+        'avro',
+      );
+      expect(file.getHeaders()).toMatchObject({
+        type: 'application/json; charset=utf-8',
+        disposition: 'attachment; filename="ANALYTICS.PUBLIC.ORDERS.avsc"',
+      });
+    });
+
+    it('should export a schema', async () => {
+      jest.spyOn(service, 'exportSchema').mockResolvedValue(document);
+      await controller.exportSchema('ANALYTICS', 'PUBLIC', 'dbt');
+      expect(service.exportSchema).toHaveBeenCalledWith(
+        'ANALYTICS',
+        'PUBLIC',
+        'dbt',
+      );
+    });
+
+    it('should reject unknown formats and malformed names', async () => {
+      await expect(
+        controller.exportTable('ANALYTICS.PUBLIC.ORDERS', 'xml'),
+      ).rejects.toThrow('format must be one of');
+      await expect(controller.exportTable('ORDERS', 'avro')).rejects.toThrow(
+        'expected DATABASE.SCHEMA.TABLE',
+      );
+      await expect(
+        controller.exportSchema('ANALYTICS', 'PUBLIC'),
+      ).rejects.toThrow('format must be one of');
+      expect(service.exportTable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relationships', () => {
+    it('should look up relationships by fully-qualified name', async () => {
+      const relationships = {
+        table: 'ANALYTICS.PUBLIC.ORDERS',
+        primaryKey: null,
+        uniqueKeys: [],
+        outbound: [],
+        inbound: [],
+      };
+      jest
+        .spyOn(service, 'getTableRelationships')
+        .mockResolvedValue(relationships);
+      await expect(
+        controller.getTableRelationships('ANALYTICS.PUBLIC.ORDERS'),
+      ).resolves.toBe(relationships);
+      expect(service.getTableRelationships).toHaveBeenCalledWith({
+        database: 'ANALYTICS',
+        schema: 'PUBLIC',
+        table: 'ORDERS',
+      });
+      await expect(controller.getTableRelationships('ORDERS')).rejects.toThrow(
+        'expected DATABASE.SCHEMA.TABLE',
+      );
+    });
+
+    it('should return the graph of a schema', async () => {
+      const graph = {
+        database: 'ANALYTICS',
+        schema: 'PUBLIC',
+        nodes: [],
+        edges: [],
+      };
+      jest.spyOn(service, 'getSchemaGraph').mockResolvedValue(graph);
+      await expect(
+        controller.getSchemaGraph('ANALYTICS', 'PUBLIC'),
+      ).resolves.toBe(graph);
+      expect(service.getSchemaGraph).toHaveBeenCalledWith(
+        'ANALYTICS',
+        'PUBLIC',
+      );
+    });
+  });
+
+  describe('lineage', () => {
+    const graph = {
+      table: 'DB.S.T',
+      direction: 'upstream' as const,
+      depth: 3,
+      nodes: [],
+      edges: [],
+      truncated: false,
     };
 
-    jest.spyOn(service, 'syncMetadata').mockResolvedValue(mockResponse);
+    it('should traverse upstream and downstream with an optional depth', async () => {
+      jest.spyOn(service, 'getLineage').mockResolvedValue(graph);
+      await controller.getUpstreamLineage('DB.S.T');
+      await controller.getDownstreamLineage('DB.S.T', '5');
+      expect(service.getLineage).toHaveBeenNthCalledWith(
+        1,
+        { database: 'DB', schema: 'S', table: 'T' },
+        'upstream',
+        undefined,
+      );
+      expect(service.getLineage).toHaveBeenNthCalledWith(
+        2,
+        { database: 'DB', schema: 'S', table: 'T' },
+        'downstream',
+        5,
+      );
+    });
+
+    it('should route lineage paths to lineage rather than to the table', async () => {
+      jest.spyOn(service, 'getLineage').mockResolvedValue(graph);
+      const app = module.createNestApplication();
+      await app.init();
+      try {
+        await request(app.getHttpServer())
+          .get('/metadata/tables/DB.S.T/lineage/upstream?depth=2')
+          .expect(200);
+        await request(app.getHttpServer())
+          .get('/metadata/tables/DB.S.T/lineage/downstream')
+          .expect(200);
+      } finally {
+        await app.close();
+      }
+      expect(service.getLineage).toHaveBeenNthCalledWith(
+        1,
+        { database: 'DB', schema: 'S', table: 'T' },
+        'upstream',
+        2,
+      );
+      expect(service.getLineage).toHaveBeenNthCalledWith(
+        2,
+        { database: 'DB', schema: 'S', table: 'T' },
+        'downstream',
+        undefined,
+      );
+      expect(service.getTable).not.toHaveBeenCalled();
+    });
+
+    it('should reject depths outside the limit', async () => {
+      await expect(
+        controller.getUpstreamLineage('DB.S.T', '0'),
+      ).rejects.toThrow('depth must be an integer between 1 and 10');
+      await expect(
+        controller.getUpstreamLineage('DB.S.T', '11'),
+      ).rejects.toThrow('depth must be');
+      await expect(
+        controller.getDownstreamLineage('DB.S.T', 'two'),
+      ).rejects.toThrow('depth must be');
+      expect(service.getLineage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('profiles', () => {
+    it('should profile a table by its fully-qualified name', async () => {
+      jest.spyOn(service, 'profileTable').mockResolvedValue({} as any);
+      jest.spyOn(service, 'getTableProfile').mockResolvedValue({} as any);
+
+      await controller.profileTable('DB.S.ORDERS', { sampleRows: 5000 });
+      await controller.profileTable('DB.S.ORDERS');
+      await controller.getTableProfile('DB.S.ORDERS');
+
+      const ref = { database: 'DB', schema: 'S', table: 'ORDERS' };
+      expect(service.profileTable).toHaveBeenNthCalledWith(1, ref, {
+        sampleRows: 5000,
+      });
+      expect(service.profileTable).toHaveBeenNthCalledWith(2, ref, {});
+      expect(service.getTableProfile).toHaveBeenCalledWith(ref);
+    });
+  });
+
+  describe('classifications', () => {
+    it('should pass classification filters', async () => {
+      const page = { items: [], total: 0, limit: 50, offset: 0 };
+      jest.spyOn(service, 'listClassifications').mockResolvedValue(page);
+
+      await controller.listClassifications(
+        'pending',
+        'email',
+        'DB',
+        undefined,
+        'CUST*',
+        '0.7',
+        '10',
+      );
+
+      expect(service.listClassifications).toHaveBeenCalledWith({
+        status: 'pending',
+        label: 'email',
+        database: 'DB',
+        schema: undefined,
+        table: 'CUST*',
+        minConfidence: 0.7,
+        limit: 10,
+        offset: undefined,
+      });
+    });
+
+    it('should reject invalid statuses and confidences', async () => {
+      await expect(controller.listClassifications('approved')).rejects.toThrow(
+        'status must be one of: pending, accepted, rejected',
+      );
+      await expect(
+        controller.listClassifications(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          '2',
+        ),
+      ).rejects.toThrow('minConfidence must be a number between 0 and 1');
+      await expect(
+        controller.listClassifications(
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          'high',
+        ),
+      ).rejects.toThrow('minConfidence must be a number between 0 and 1');
+      expect(service.listClassifications).not.toHaveBeenCalled();
+    });
+
+    it('should look classifications up by table and review them', async () => {
+      jest.spyOn(service, 'getTableClassifications').mockResolvedValue([]);
+      jest.spyOn(service, 'reviewClassification').mockResolvedValue({} as any);
+
+      await controller.getTableClassifications('DB.S.CUSTOMERS');
+      await controller.reviewClassification('abc', {
+        status: 'accepted',
+        note: 'confirmed',
+      });
+
+      expect(service.getTableClassifications).toHaveBeenCalledWith({
+        database: 'DB',
+        schema: 'S',
+        table: 'CUSTOMERS',
+      });
+      expect(service.reviewClassification).toHaveBeenCalledWith('abc', {
+        status: 'accepted',
+        note: 'confirmed',
+      });
+    });
+  });
+
+  describe('breaking changes', () => {
+    it('should pass the time window and filters', async () => {
+      const page = { items: [], total: 0, limit: 50, offset: 0 };
+      jest.spyOn(service, 'listBreakingChanges').mockResolvedValue(page);
 
-    const result = await controller.syncMetadata();
+      await controller.listBreakingChanges(
+        '2026-05-01',
+        '2026-05-08T12:00:00Z',
+        'DB',
+        undefined,
+        undefined,
+        '10',
+      );
 
-    expect(result).toEqual(mockResponse);
-    expect(result.success).toBe(false);
-    expect(result.errors).toBeDefined();
-    expect(service.syncMetadata).toHaveBeenCalled();
+      expect(service.listBreakingChanges).toHaveBeenCalledWith({
+        since: new Date('2026-05-01T00:00:00Z'),
+        until: new Date('2026-05-08T12:00:00Z'),
+        database: 'DB',
+        schema: undefined,
+        table: undefined,
+        limit: 10,
+        offset: undefined,
+      });
+    });
+
+    it('should reject invalid windows', async () => {
+      await expect(controller.listBreakingChanges('yesterday')).rejects.toThrow(
+        'since must be an ISO 8601 date',
+      );
+      await expect(
+        controller.listBreakingChanges('2026-05-08', '2026-05-01'),
+      ).rejects.toThrow('since must be before until');
+      expect(service.listBreakingChanges).not.toHaveBeenCalled();
+    });
   });
 
-  it('should handle service exceptions gracefully', async () => {
-    const error = new Error('Service error');
-    jest.spyOn(service, 'syncMetadata').mockRejectedValue(error);
+  describe('data contracts', () => {
+    it('should filter contracts by status and activity', async () => {
+      jest.spyOn(contractService, 'listContracts').mockResolvedValue([]);
+
+      await controller.listContracts('fail', 'true');
+
+      expect(contractService.listContracts).toHaveBeenCalledWith({
+        status: 'fail',
+        active: true,
+      });
+    });
+
+    it('should reject invalid contract filters', async () => {
+      await expect(controller.listContracts('broken')).rejects.toThrow(
+        'status must be one of: pass, fail, pending',
+      );
+      await expect(controller.listContracts(undefined, 'yes')).rejects.toThrow(
+        'active must be true or false',
+      );
+      expect(contractService.listContracts).not.toHaveBeenCalled();
+    });
+
+    it('should page contract results', async () => {
+      await controller.listContractResults('abc', '10', '20');
+      expect(contractService.listResults).toHaveBeenCalledWith('abc', 10, 20);
+    });
+  });
+
+  describe('annotations', () => {
+    it('should annotate tables and columns by name', async () => {
+      await controller.annotateTable('DB.S.T', { owner: 'finance' });
+      await controller.annotateColumn('DB.S.T', 'EMAIL', { tags: ['pii'] });
+      await controller.deleteColumnAnnotation('DB.S.T', 'EMAIL');
+
+      const ref = { database: 'DB', schema: 'S', table: 'T' };
+      expect(annotationService.annotate).toHaveBeenCalledWith(ref, null, {
+        owner: 'finance',
+      });
+      expect(annotationService.annotate).toHaveBeenCalledWith(ref, 'EMAIL', {
+        tags: ['pii'],
+      });
+      expect(annotationService.deleteAnnotation).toHaveBeenCalledWith(
+        ref,
+        'EMAIL',
+      );
+    });
+
+    it('should filter annotations', async () => {
+      await controller.listAnnotations(
+        'true',
+        undefined,
+        undefined,
+        'pii',
+        'DB',
+        undefined,
+        undefined,
+        '10',
+      );
+
+      expect(annotationService.listAnnotations).toHaveBeenCalledWith({
+        orphaned: true,
+        certified: undefined,
+        owner: undefined,
+        tag: 'pii',
+        database: 'DB',
+        schema: undefined,
+        table: undefined,
+        limit: 10,
+        offset: undefined,
+      });
+      await expect(
+        controller.listAnnotations(undefined, 'yes'),
+      ).rejects.toThrow('certified must be true or false');
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should pass delivery filters', async () => {
+      const page = { items: [], total: 0, limit: 50, offset: 0 };
+      jest.spyOn(webhookService, 'listDeliveries').mockResolvedValue(page);
+
+      await controller.listWebhookDeliveries(
+        'dead',
+        '507f1f77bcf86cd799439011',
+        '20',
+        '40',
+      );
+
+      expect(webhookService.listDeliveries).toHaveBeenCalledWith({
+        status: 'dead',
+        subscriptionId: '507f1f77bcf86cd799439011',
+        limit: 20,
+        offset: 40,
+      });
+    });
+
+    it('should reject unknown delivery statuses', async () => {
+      await expect(controller.listWebhookDeliveries('failed')).rejects.toThrow(
+        'status must be one of: pending, retrying, delivered, dead',
+      );
+      expect(webhookService.listDeliveries).not.toHaveBeenCalled();
+    });
+
+    it('should subscribe and replay deliveries', async () => {
+      await controller.createWebhook({
+        url: 'http://localhost:9000/hook',
+        schema: 'MART*',
+      });
+      await controller.replayWebhookDelivery('abc');
+
+      expect(webhookService.createSubscription).toHaveBeenCalledWith({
+        url: 'http://localhost:9000/hook',
+        schema: 'MART*',
+      });
+      expect(webhookService.replayDelivery).toHaveBeenCalledWith('abc');
+    });
+  });
+
+  describe('usage', () => {
+    const ranking = { items: [], limit: 50, offset: 0 };
+
+    it('should pass ranking filters and pages', async () => {
+      jest.spyOn(service, 'getMostUsedTables').mockResolvedValue(ranking);
+      jest.spyOn(service, 'getUnusedTables').mockResolvedValue(ranking);
+
+      await controller.getMostUsedTables('DB', undefined, '10', '20');
+      await controller.getUnusedTables('30', undefined, 'PUBLIC');
+
+      expect(service.getMostUsedTables).toHaveBeenCalledWith({
+        database: 'DB',
+        schema: undefined,
+        limit: 10,
+        offset: 20,
+      });
+      expect(service.getUnusedTables).toHaveBeenCalledWith(
+        {
+          database: undefined,
+          schema: 'PUBLIC',
+          limit: undefined,
+          offset: undefined,
+        },
+        30,
+      );
+    });
+
+    it('should reject invalid day counts', async () => {
+      await expect(controller.getUnusedTables('0')).rejects.toThrow(
+        'days must be a positive integer',
+      );
+      await expect(controller.getUnusedTables('1.5')).rejects.toThrow(
+        'days must be a positive integer',
+      );
+      expect(service.getUnusedTables).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('governance', () => {
+    it('should look up tagged columns', async () => {
+      jest.spyOn(service, 'findTaggedColumns').mockResolvedValue([]);
+      await controller.findTaggedColumns('PII=EMAIL', 'ANALYTICS');
+      expect(service.findTaggedColumns).toHaveBeenCalledWith({
+        tag: { tag: 'PII', value: 'EMAIL' },
+        database: 'ANALYTICS',
+        schema: undefined,
+      });
+    });
+
+    it('should reject missing and empty tag names', async () => {
+      await expect(controller.findTaggedColumns()).rejects.toThrow(
+        'tag is required',
+      );
+      await expect(controller.findTaggedColumns('=EMAIL')).rejects.toThrow(
+        'tag must be NAME or NAME=VALUE',
+      );
+      expect(service.findTaggedColumns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ddl import', () => {
+    it('should pass uploaded files as text to the service', async () => {
+      const file = {
+        originalname: 'tables.sql',
+        buffer: Buffer.from('CREATE TABLE t (id INT);'),
+      } as Express.Multer.File;
+      await controller.importDdl([file], {
+        database: 'ANALYTICS',
+        schema: 'PUBLIC',
+      });
+      expect(service.importDdl).toHaveBeenCalledWith(
+        [{ name: 'tables.sql', content: 'CREATE TABLE t (id INT);' }],
+        {
+          database: 'ANALYTICS',
+          schema: 'PUBLIC',
+          source: undefined,
+        },
+      );
+    });
+
+    it('should require at least one file', async () => {
+      await expect(controller.importDdl([], {})).rejects.toThrow(
+        'Upload at least one DDL file',
+      );
+      expect(service.importDdl).not.toHaveBeenCalled();
+    });
+
+    it('should import a directory', async () => {
+      await controller.importDdlDirectory({
+        path: 'repo/migrations',
+        source: 'legacy',
+      });
+      expect(service.importDdlDirectory).toHaveBeenCalledWith(
+        'repo/migrations',
+        {
+          database: undefined,
+          schema: undefined,
+          source: 'legacy',
+        },
+      );
+    });
+  });
+
+  describe('sync modes and schedules', () => {
+    it('should start a forced full sync job', async () => {
+      jest.spyOn(jobService, 'startJob').mockResolvedValue({
+        job: {} as SyncJobDto,
+        completion: Promise.resolve({} as any),
+      });
+      await controller.syncMetadata('full');
+      expect(jobService.startJob).toHaveBeenCalledWith({ mode: 'full' });
+    });
+
+    it('should start a sync scoped to the requested schema', async () => {
+      jest.spyOn(jobService, 'startJob').mockResolvedValue({
+        job: {} as SyncJobDto,
+        completion: Promise.resolve({} as any),
+      });
+      await controller.syncMetadata(undefined, {
+        database: ' ANALYTICS ',
+        schema: 'PUBLIC',
+        mode: 'incremental',
+      });
+      expect(jobService.startJob).toHaveBeenCalledWith({
+        mode: 'incremental',
+        scope: { database: 'ANALYTICS', schema: 'PUBLIC' },
+      });
+    });
+
+    it('should reject a scope that skips a level', async () => {
+      await expect(
+        controller.syncMetadata(undefined, {
+          database: 'ANALYTICS',
+          table: 'USERS',
+        }),
+      ).rejects.toThrow('table requires database and schema');
+      await expect(
+        controller.syncMetadata(undefined, { schema: 'PUBLIC' }),
+      ).rejects.toThrow('schema requires database');
+      expect(jobService.startJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown sync modes', async () => {
+      await expect(controller.syncMetadata('partial')).rejects.toThrow(
+        'mode must be',
+      );
+      expect(jobService.startJob).not.toHaveBeenCalled();
+    });
+
+    it('should update a schedule', async () => {
+      await controller.updateSchedule('full', {
+        cron: '0 4 * * *',
+        enabled: true,
+      });
+      expect(schedulerService.updateSchedule).toHaveBeenCalledWith('full', {
+        cron: '0 4 * * *',
+        enabled: true,
+      });
+    });
 
-    await expect(controller.syncMetadata()).rejects.toThrow('Service error');
-    expect(service.syncMetadata).toHaveBeenCalled();
+    it('should pause and resume schedules', async () => {
+      await controller.pauseSchedule('incremental');
+      await controller.resumeSchedule('incremental');
+      expect(schedulerService.pauseSchedule).toHaveBeenCalledWith(
+        'incremental',
+      );
+      expect(schedulerService.resumeSchedule).toHaveBeenCalledWith(
+        'incremental',
+      );
+    });
   });
-}); 
\ No newline at end of file
+});
@@ -4,11 +4,15 @@ import { getModelToken } from '@nestjs/mongoose';
 import { Metadata } from '../schemas/metadata.schema';
 import { SyncStats } from '../schemas/sync.schema';
 import { SnowflakeTable } from '../services/snowflake.service';
+import { Types } from 'mongoose';
+import { SyncFilter } from '../utils/sync-filter';
+import { SchemaHistoryService } from '../services/schema-history.service';
 
 describe('MongodbService', () => {
   let service: MongodbService;
   let metadataModel: any;
   let syncStatsModel: any;
+  let schemaHistoryService: { recordChanges: jest.Mock };
 
   beforeEach(async () => {
     metadataModel = {
@@ -17,6 +21,7 @@ describe('MongodbService', () => {
       findOne: jest.fn(),
       create: jest.fn(),
       updateOne: jest.fn(),
+      updateMany: jest.fn(),
       countDocuments: jest.fn(),
       findOneAndUpdate: jest.fn(),
     };
@@ -28,11 +33,14 @@ describe('MongodbService', () => {
       findById: jest.fn(),
     };
 
+    schemaHistoryService = { recordChanges: jest.fn().mockResolvedValue(0) };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         MongodbService,
         { provide: getModelToken(Metadata.name), useValue: metadataModel },
         { provide: getModelToken(SyncStats.name), useValue: syncStatsModel },
+        { provide: SchemaHistoryService, useValue: schemaHistoryService },
       ],
     }).compile();
     service = module.get<MongodbService>(MongodbService);
@@ -48,7 +56,9 @@ describe('MongodbService', () => {
       expect(result).toEqual({
         newTables: 0,
         updatedTables: 0,
-        skippedTables: 0
+        skippedTables: 0,
+        changes: [],
+        conflicts: [],
       });
     });
 
@@ -86,6 +96,115 @@ describe('MongodbService', () => {
       );
     });
 
+    it('should record the source of inserted tables', async () => {
+      metadataModel.find.mockResolvedValue([]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 1,
+        modifiedCount: 0,
+      });
+
+      await service.upsertMetadata(
+        [{ database: 'local', schema: 'main', table: 'users', columns: [] }],
+        'local',
+      );
+
+      const [[operations]] = metadataModel.bulkWrite.mock.calls;
+      expect(operations[0].insertOne.document.source).toBe('local');
+    });
+
+    it('should store versions before writing the tables', async () => {
+      metadataModel.find.mockResolvedValue([]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 1,
+        modifiedCount: 0,
+      });
+
+      const result = await service.upsertMetadata([
+        { database: 'db', schema: 'sch', table: 'tbl', columns: [] },
+      ]);
+
+      expect(schemaHistoryService.recordChanges).toHaveBeenCalledWith(
+        result.changes,
+      );
+      expect(
+        schemaHistoryService.recordChanges.mock.invocationCallOrder[0],
+      ).toBeLessThan(metadataModel.bulkWrite.mock.invocationCallOrder[0]);
+    });
+
+    it('should not write the tables when storing their versions fails', async () => {
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum: 'old-checksum',
+          version: 1,
+        },
+      ]);
+      schemaHistoryService.recordChanges.mockRejectedValue(
+        new Error('history unavailable'),
+      );
+
+      await expect(
+        service.upsertMetadata([
+          { database: 'db', schema: 'sch', table: 'tbl', columns: [] },
+        ]),
+      ).rejects.toThrow('history unavailable');
+      // The stored checksum is unchanged, so the next sync records the version again
+      expect(metadataModel.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should leave tables of another source to it', async () => {
+      const columns = [{ name: 'id', type: 'NUMBER', nullable: false }];
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'orders',
+          source: 'snowflake',
+          checksum: 'snowflake-checksum',
+          version: 3,
+          deletedAt: null,
+        },
+        // Dropped by its source, so the name is free again
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'archive',
+          source: 'snowflake',
+          checksum: 'snowflake-checksum',
+          version: 1,
+          deletedAt: new Date('2024-01-01T00:00:00Z'),
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata(
+        [
+          { database: 'db', schema: 'sch', table: 'orders', columns },
+          { database: 'db', schema: 'sch', table: 'archive', columns },
+        ],
+        'postgres',
+      );
+
+      expect(result.conflicts).toEqual([
+        { database: 'db', schema: 'sch', table: 'orders', owner: 'snowflake' },
+      ]);
+      expect(result.changes.map((change) => change.table)).toEqual(['archive']);
+      expect(result).toMatchObject({
+        newTables: 0,
+        updatedTables: 1,
+        skippedTables: 0,
+      });
+      const [[operations]] = metadataModel.bulkWrite.mock.calls;
+      expect(operations).toHaveLength(1);
+      expect(operations[0].updateOne.filter.table).toBe('archive');
+      expect(operations[0].updateOne.update.$set.source).toBe('postgres');
+    });
+
     it('should update record if checksum differs', async () => {
       const table: SnowflakeTable = {
         database: 'db',
@@ -127,6 +246,87 @@ describe('MongodbService', () => {
       );
     });
 
+    it('should report the version and column diff of updated tables', async () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [
+          { name: 'id', type: 'NUMBER', nullable: false },
+          { name: 'email', type: 'VARCHAR', nullable: true },
+        ],
+      };
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum: 'old-checksum',
+          version: 3,
+          columns: [{ name: 'id', type: 'NUMBER', nullable: true }],
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({
+          changeType: 'updated',
+          version: 4,
+          previousChecksum: 'old-checksum',
+          diff: expect.objectContaining({
+            added: [{ name: 'email', type: 'VARCHAR', nullable: true }],
+            nullabilityChanged: [{ column: 'id', from: true, to: false }],
+          }),
+        }),
+      ]);
+      expect(
+        metadataModel.bulkWrite.mock.calls[0][0][0].updateOne.update.$set
+          .version,
+      ).toBe(4);
+    });
+
+    it('should restore a tombstoned table even when its checksum matches', async () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [],
+      };
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum: service['generateChecksum'](table),
+          version: 2,
+          columns: [],
+          deletedAt: new Date('2024-01-01'),
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result.updatedTables).toBe(1);
+      expect(result.changes).toEqual([
+        expect.objectContaining({ changeType: 'restored', version: 2 }),
+      ]);
+      expect(
+        metadataModel.bulkWrite.mock.calls[0][0][0].updateOne.update.$set
+          .deletedAt,
+      ).toBeNull();
+    });
+
     it('should skip record if checksum matches', async () => {
       const table: SnowflakeTable = {
         database: 'db',
@@ -155,6 +355,298 @@ describe('MongodbService', () => {
       expect(result.skippedTables).toBe(1);
     });
 
+    it('should refresh changed table properties without a new version', async () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [{ name: 'id', type: 'NUMBER', nullable: false }],
+        owner: 'SYSADMIN',
+        rowCount: 1200,
+        bytes: 40960,
+        lastAltered: new Date('2024-02-01T00:00:00Z'),
+      };
+      const checksum = service['generateChecksum']({
+        ...table,
+        rowCount: 10,
+        bytes: 512,
+      });
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum,
+          checksumVersion: 2,
+          version: 2,
+          owner: 'SYSADMIN',
+          rowCount: 10,
+          bytes: 512,
+          comment: 'kept',
+          lastAltered: new Date('2024-01-01T00:00:00Z'),
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result).toEqual({
+        newTables: 0,
+        updatedTables: 0,
+        skippedTables: 1,
+        changes: [],
+        conflicts: [],
+      });
+      const update =
+        metadataModel.bulkWrite.mock.calls[0][0][0].updateOne.update;
+      expect(update).toEqual({
+        $set: {
+          owner: 'SYSADMIN',
+          rowCount: 1200,
+          bytes: 40960,
+          lastAltered: new Date('2024-02-01T00:00:00Z'),
+        },
+      });
+    });
+
+    it('should count updates when a refresh writes identical values', async () => {
+      const columns = [{ name: 'id', type: 'NUMBER', nullable: false }];
+      const refreshed: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'stats',
+        columns,
+        rowCount: 1200,
+      };
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'orders',
+          checksum: 'old-checksum',
+          checksumVersion: 2,
+          version: 1,
+        },
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'stats',
+          checksum: service['generateChecksum'](refreshed),
+          checksumVersion: 2,
+          version: 1,
+          rowCount: 10,
+        },
+      ]);
+      // Another sync already wrote the refreshed row count
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([
+        { database: 'db', schema: 'sch', table: 'orders', columns },
+        refreshed,
+      ]);
+
+      expect(result).toMatchObject({
+        newTables: 0,
+        updatedTables: 1,
+        skippedTables: 1,
+      });
+    });
+
+    it('should refresh declared keys without a new version', async () => {
+      const primaryKey = { name: 'PK_ORDERS', columns: ['ID'] };
+      const foreignKey = {
+        name: 'FK_CUSTOMER',
+        columns: ['CUSTOMER_ID'],
+        referencedDatabase: 'db',
+        referencedSchema: 'sch',
+        referencedTable: 'customers',
+        referencedColumns: ['ID'],
+      };
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'orders',
+        columns: [{ name: 'ID', type: 'NUMBER', nullable: false }],
+        primaryKey,
+        uniqueKeys: [],
+        foreignKeys: [foreignKey],
+      };
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'orders',
+          checksum: service['generateChecksum'](table),
+          checksumVersion: 2,
+          primaryKey,
+          uniqueKeys: [],
+          foreignKeys: [],
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result).toEqual({
+        newTables: 0,
+        updatedTables: 0,
+        skippedTables: 1,
+        changes: [],
+        conflicts: [],
+      });
+      expect(
+        metadataModel.bulkWrite.mock.calls[0][0][0].updateOne.update,
+      ).toEqual({
+        $set: { primaryKey, uniqueKeys: [], foreignKeys: [foreignKey] },
+      });
+    });
+
+    it('should not write when the reported table properties are unchanged', async () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [],
+        rowCount: 0,
+        created: new Date('2024-01-01T00:00:00Z'),
+      };
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum: service['generateChecksum'](table),
+          checksumVersion: 2,
+          rowCount: 0,
+          created: new Date('2024-01-01T00:00:00Z'),
+          lastAltered: new Date('2024-01-02T00:00:00Z'),
+        },
+      ]);
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result.skippedTables).toBe(1);
+      expect(metadataModel.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should migrate documents with an older checksum without a new version', async () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [
+          {
+            name: 'id',
+            type: 'NUMBER',
+            nullable: false,
+            ordinalPosition: 1,
+            precision: 38,
+            scale: 0,
+          },
+          {
+            name: 'email',
+            type: 'TEXT',
+            nullable: true,
+            ordinalPosition: 2,
+            maxLength: 255,
+          },
+        ],
+      };
+      // Version 1 hashed columns sorted by name, without positions or sizes
+      const legacyChecksum = service['generateLegacyChecksum'](table);
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum: legacyChecksum,
+          version: 3,
+          columns: [
+            { name: 'email', type: 'TEXT', nullable: true },
+            { name: 'id', type: 'NUMBER', nullable: false },
+          ],
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result).toEqual({
+        newTables: 0,
+        updatedTables: 0,
+        skippedTables: 1,
+        changes: [],
+        conflicts: [],
+      });
+      const { $set } =
+        metadataModel.bulkWrite.mock.calls[0][0][0].updateOne.update;
+      expect($set).toEqual({
+        columns: table.columns,
+        checksum: service['generateChecksum'](table),
+        checksumVersion: 2,
+      });
+      expect(table.columns.map((column) => column.name)).toEqual([
+        'id',
+        'email',
+      ]);
+    });
+
+    it('should report a change to a document with an older checksum as an update', async () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [
+          { name: 'id', type: 'NUMBER', nullable: true, ordinalPosition: 1 },
+        ],
+      };
+
+      metadataModel.find.mockResolvedValue([
+        {
+          database: 'db',
+          schema: 'sch',
+          table: 'tbl',
+          checksum: service['generateLegacyChecksum']({
+            ...table,
+            columns: [{ name: 'id', type: 'NUMBER', nullable: false }],
+          }),
+          version: 1,
+          columns: [{ name: 'id', type: 'NUMBER', nullable: false }],
+        },
+      ]);
+      metadataModel.bulkWrite.mockResolvedValue({
+        insertedCount: 0,
+        modifiedCount: 1,
+      });
+
+      const result = await service.upsertMetadata([table]);
+
+      expect(result.updatedTables).toBe(1);
+      expect(result.changes).toEqual([
+        expect.objectContaining({ changeType: 'updated', version: 2 }),
+      ]);
+      expect(
+        metadataModel.bulkWrite.mock.calls[0][0][0].updateOne.update.$set
+          .checksumVersion,
+      ).toBe(2);
+    });
+
     it('should handle multiple tables correctly', async () => {
       const tables: SnowflakeTable[] = [
         {
@@ -197,6 +689,123 @@ describe('MongodbService', () => {
     });
   });
 
+  describe('tombstoneMissingTables', () => {
+    const mockSelect = (documents: any[]) => ({
+      select: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(documents),
+      }),
+    });
+
+    it('should mark active tables missing from the source as deleted', async () => {
+      const keptId = new Types.ObjectId();
+      const droppedId = new Types.ObjectId();
+      metadataModel.updateMany.mockResolvedValue({ modifiedCount: 1 });
+      metadataModel.find
+        .mockReturnValueOnce(
+          mockSelect([
+            { _id: keptId, database: 'db', schema: 'sch', table: 'kept' },
+            { _id: droppedId, database: 'db', schema: 'sch', table: 'dropped' },
+          ]),
+        )
+        .mockReturnValueOnce(
+          mockSelect([
+            {
+              _id: droppedId,
+              database: 'db',
+              schema: 'sch',
+              table: 'dropped',
+              checksum: 'abc',
+              version: 3,
+              columns: [{ name: 'id', type: 'NUMBER', nullable: false }],
+            },
+          ]),
+        );
+
+      const changes = await service.tombstoneMissingTables([
+        { database: 'db', schema: 'sch', table: 'kept' },
+      ]);
+
+      expect(metadataModel.find).toHaveBeenNthCalledWith(1, {
+        deletedAt: null,
+        source: { $in: ['snowflake', null] },
+      });
+      expect(metadataModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [droppedId] } },
+        { $set: { deletedAt: expect.any(Date) } },
+      );
+      expect(changes).toEqual([
+        expect.objectContaining({
+          table: 'dropped',
+          changeType: 'deleted',
+          version: 3,
+          diff: expect.objectContaining({
+            removed: [{ name: 'id', type: 'NUMBER', nullable: false }],
+          }),
+        }),
+      ]);
+    });
+
+    it('should not write anything when every table is still present', async () => {
+      metadataModel.find.mockReturnValueOnce(
+        mockSelect([
+          {
+            _id: new Types.ObjectId(),
+            database: 'db',
+            schema: 'sch',
+            table: 'kept',
+          },
+        ]),
+      );
+
+      const changes = await service.tombstoneMissingTables([
+        { database: 'db', schema: 'sch', table: 'kept' },
+      ]);
+
+      expect(changes).toEqual([]);
+      expect(metadataModel.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should leave tables outside the filter alone', async () => {
+      const outsideId = new Types.ObjectId();
+      const droppedId = new Types.ObjectId();
+      metadataModel.updateMany.mockResolvedValue({ modifiedCount: 1 });
+      metadataModel.find
+        .mockReturnValueOnce(
+          mockSelect([
+            {
+              _id: outsideId,
+              database: 'other',
+              schema: 'sch',
+              table: 'untouched',
+            },
+            { _id: droppedId, database: 'db', schema: 'sch', table: 'dropped' },
+          ]),
+        )
+        .mockReturnValueOnce(
+          mockSelect([
+            {
+              _id: droppedId,
+              database: 'db',
+              schema: 'sch',
+              table: 'dropped',
+              checksum: 'abc',
+              columns: [],
+            },
+          ]),
+        );
+
+      await service.tombstoneMissingTables(
+        [],
+        new SyncFilter({ database: 'DB' }),
+      );
+
+      expect(metadataModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: [droppedId] } },
+        { $set: { deletedAt: expect.any(Date) } },
+      );
+    });
+  });
+
   describe('generateChecksum', () => {
     it('should generate consistent checksums for same data', () => {
       const table: SnowflakeTable = {
@@ -237,6 +846,403 @@ describe('MongodbService', () => {
 
       expect(checksum1).not.toBe(checksum2);
     });
+
+    it('should detect reordered and resized columns without reordering the input', () => {
+      const columns = [
+        { name: 'b', type: 'TEXT', nullable: true, maxLength: 16 },
+        { name: 'a', type: 'TEXT', nullable: true, maxLength: 16 },
+      ];
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns,
+      };
+
+      const checksum = service['generateChecksum'](table);
+
+      expect(columns.map((column) => column.name)).toEqual(['b', 'a']);
+      expect(
+        service['generateChecksum']({
+          ...table,
+          columns: [columns[1], columns[0]],
+        }),
+      ).not.toBe(checksum);
+      expect(
+        service['generateChecksum']({
+          ...table,
+          columns: [{ ...columns[0], maxLength: 255 }, columns[1]],
+        }),
+      ).not.toBe(checksum);
+      expect(
+        service['generateChecksum']({
+          ...table,
+          columns: [{ ...columns[0], comment: null as any }, columns[1]],
+        }),
+      ).toBe(checksum);
+    });
+
+    it('should ignore table properties', () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [{ name: 'col1', type: 'string', nullable: true }],
+      };
+
+      expect(
+        service['generateChecksum']({
+          ...table,
+          owner: 'SYSADMIN',
+          rowCount: 5,
+          bytes: 1024,
+          lastAltered: new Date(),
+        }),
+      ).toBe(service['generateChecksum'](table));
+    });
+
+    it('should keep base table checksums and tell other object types apart', () => {
+      const table: SnowflakeTable = {
+        database: 'db',
+        schema: 'sch',
+        table: 'tbl',
+        columns: [{ name: 'col1', type: 'string', nullable: true }],
+      };
+
+      const checksum = service['generateChecksum'](table);
+
+      expect(
+        service['generateChecksum']({ ...table, objectType: 'base_table' }),
+      ).toBe(checksum);
+      expect(
+        service['generateChecksum']({ ...table, objectType: 'view' }),
+      ).not.toBe(checksum);
+      expect(
+        service['generateChecksum']({
+          ...table,
+          objectType: 'view',
+          definition: 'create view tbl as select 1 as col1',
+        }),
+      ).not.toBe(
+        service['generateChecksum']({
+          ...table,
+          objectType: 'view',
+          definition: 'create view tbl as select 2 as col1',
+        }),
+      );
+    });
+  });
+
+  describe('findTables', () => {
+    const mockFindChain = (documents: any[]) => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(documents),
+      };
+      metadataModel.find.mockReturnValue(chain);
+      return chain;
+    };
+
+    it('should apply name patterns as case-insensitive filters', async () => {
+      const chain = mockFindChain([]);
+
+      await service.findTables({ database: 'ANALYTICS', table: 'ORDER*' });
+
+      const filter = metadataModel.find.mock.calls[0][0];
+      expect(filter.database.test('analytics')).toBe(true);
+      expect(filter.table.test('ORDER_ITEMS')).toBe(true);
+      expect(filter.table.test('CUSTOMER_ORDERS')).toBe(false);
+      expect(chain.sort).toHaveBeenCalledWith({
+        database: 1,
+        schema: 1,
+        table: 1,
+        _id: 1,
+      });
+    });
+
+    it('should filter by object type, counting untyped tables as base tables', async () => {
+      mockFindChain([]);
+
+      await service.findTables({ objectTypes: ['view'] });
+      await service.findTables({
+        objectTypes: ['base_table', 'external_table'],
+      });
+
+      expect(metadataModel.find.mock.calls[0][0].objectType).toEqual({
+        $in: ['view'],
+      });
+      expect(metadataModel.find.mock.calls[1][0].objectType).toEqual({
+        $in: ['base_table', 'external_table', null],
+      });
+    });
+
+    it('should filter by tag and by a missing kind of policy', async () => {
+      mockFindChain([]);
+
+      await service.findTables({
+        tag: { tag: 'PII', value: 'EMAIL' },
+        withoutPolicy: 'row_access_policy',
+      });
+
+      const filter = metadataModel.find.mock.calls[0][0];
+      expect(filter.tags.$elemMatch.tag.test('GOV.TAGS.PII')).toBe(true);
+      expect(filter.tags.$elemMatch.value).toBe('EMAIL');
+      expect(filter['policies.kind']).toEqual({ $ne: 'row_access_policy' });
+    });
+
+    it('should return a cursor when more documents are available', async () => {
+      const documents = [
+        { _id: new Types.ObjectId(), database: 'DB', schema: 'S', table: 'A' },
+        { _id: new Types.ObjectId(), database: 'DB', schema: 'S', table: 'B' },
+        { _id: new Types.ObjectId(), database: 'DB', schema: 'S', table: 'C' },
+      ];
+      const chain = mockFindChain(documents);
+
+      const page = await service.findTables({ limit: 2 });
+
+      expect(chain.limit).toHaveBeenCalledWith(3);
+      expect(page.items).toHaveLength(2);
+      expect(page.nextCursor).toEqual(expect.any(String));
+
+      mockFindChain([]);
+      await service.findTables({ limit: 2, cursor: page.nextCursor! });
+
+      const filter = metadataModel.find.mock.calls[1][0];
+      expect(filter.$and[1].$or[0]).toEqual({ database: { $gt: 'DB' } });
+      expect(filter.$and[1].$or[3]).toEqual({
+        database: 'DB',
+        schema: 'S',
+        table: 'B',
+        _id: { $gt: documents[1]._id },
+      });
+    });
+
+    it('should return null cursor on the last page', async () => {
+      mockFindChain([
+        { _id: new Types.ObjectId(), database: 'DB', schema: 'S', table: 'A' },
+      ]);
+
+      const page = await service.findTables({});
+      expect(page.nextCursor).toBeNull();
+      expect(page.limit).toBe(50);
+    });
+
+    it('should reject malformed cursors', async () => {
+      mockFindChain([]);
+      await expect(
+        service.findTables({ cursor: 'not-a-cursor' }),
+      ).rejects.toThrow('Invalid pagination cursor');
+    });
+  });
+
+  describe('findReferencingTables', () => {
+    it('should find live tables with a foreign key to the table', async () => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      };
+      metadataModel.find.mockReturnValue(chain);
+
+      await service.findReferencingTables({
+        database: 'DB',
+        schema: 'S',
+        table: 'CUSTOMERS',
+      });
+
+      expect(metadataModel.find).toHaveBeenCalledWith({
+        deletedAt: null,
+        foreignKeys: {
+          $elemMatch: {
+            referencedDatabase: 'DB',
+            referencedSchema: 'S',
+            referencedTable: 'CUSTOMERS',
+          },
+        },
+      });
+      expect(chain.sort).toHaveBeenCalledWith({
+        database: 1,
+        schema: 1,
+        table: 1,
+      });
+    });
+  });
+
+  describe('findTaggedTables', () => {
+    it('should find live tables with a matching column tag', async () => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      };
+      metadataModel.find.mockReturnValue(chain);
+
+      await service.findTaggedTables({
+        tag: { tag: 'PII' },
+        database: 'ANALYTICS',
+      });
+
+      const filter = metadataModel.find.mock.calls[0][0];
+      expect(filter.deletedAt).toBeNull();
+      expect(filter.database.test('analytics')).toBe(true);
+      expect(filter.tags.$elemMatch.column).toEqual({ $ne: null });
+      expect(filter.tags.$elemMatch).not.toHaveProperty('value');
+    });
+  });
+
+  describe('saveTableUsage', () => {
+    const collectedAt = new Date('2024-03-31T00:00:00Z');
+
+    it('should store usage and reset tables without queries', async () => {
+      metadataModel.bulkWrite.mockResolvedValue({ matchedCount: 1 });
+      metadataModel.updateMany.mockResolvedValue({ modifiedCount: 4 });
+
+      const tables = await service.saveTableUsage(
+        'snowflake',
+        [
+          {
+            database: 'DB',
+            schema: 'S',
+            table: 'ORDERS',
+            queryCount: 12,
+            distinctUsers: 3,
+            lastQueried: new Date('2024-03-30T00:00:00Z'),
+          },
+          {
+            database: 'DB',
+            schema: 'S',
+            table: 'GONE',
+            queryCount: 1,
+            distinctUsers: 1,
+            lastQueried: null,
+          },
+        ],
+        90,
+        collectedAt,
+      );
+
+      expect(tables).toBe(1);
+      const [operations] = metadataModel.bulkWrite.mock.calls[0];
+      expect(operations[0].updateOne).toEqual({
+        filter: { database: 'DB', schema: 'S', table: 'ORDERS' },
+        update: {
+          $set: {
+            'usage.queryCount': 12,
+            'usage.distinctUsers': 3,
+            'usage.lastQueried': new Date('2024-03-30T00:00:00Z'),
+            'usage.windowDays': 90,
+            'usage.collectedAt': collectedAt,
+          },
+        },
+      });
+      expect(operations[1].updateOne.update.$set).not.toHaveProperty(
+        'usage.lastQueried',
+      );
+      expect(metadataModel.updateMany).toHaveBeenCalledWith(
+        {
+          source: { $in: ['snowflake', null] },
+          deletedAt: null,
+          'usage.collectedAt': { $ne: collectedAt },
+        },
+        {
+          $set: {
+            'usage.queryCount': 0,
+            'usage.distinctUsers': 0,
+            'usage.windowDays': 90,
+            'usage.collectedAt': collectedAt,
+          },
+        },
+      );
+    });
+
+    it('should only reset when nothing was queried', async () => {
+      metadataModel.updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+      await expect(
+        service.saveTableUsage('snowflake', [], 90, collectedAt),
+      ).resolves.toBe(0);
+      expect(metadataModel.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should store a profile next to the table', async () => {
+    metadataModel.updateOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({}),
+    });
+    const profile = {
+      profiledAt: new Date(),
+      durationMs: 10,
+      sampleRows: 100,
+      sampling: 'full' as const,
+      rowsSampled: 42,
+      columnsTruncated: false,
+      columns: [],
+    };
+
+    await service.saveTableProfile(
+      { database: 'DB', schema: 'S', table: 'ORDERS' },
+      profile,
+    );
+
+    expect(metadataModel.updateOne).toHaveBeenCalledWith(
+      { database: 'DB', schema: 'S', table: 'ORDERS' },
+      { $set: { profile } },
+    );
+  });
+
+  describe('usage rankings', () => {
+    const mockRankingChain = () => {
+      const chain = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      };
+      metadataModel.find.mockReturnValue(chain);
+      return chain;
+    };
+
+    it('should rank live tables with queries by query count', async () => {
+      const chain = mockRankingChain();
+
+      await service.findMostUsedTables({
+        schema: 'PUB*',
+        limit: 10,
+        offset: 20,
+      });
+
+      const filter = metadataModel.find.mock.calls[0][0];
+      expect(filter.deletedAt).toBeNull();
+      expect(filter.schema.test('public')).toBe(true);
+      expect(filter['usage.queryCount']).toEqual({ $gt: 0 });
+      expect(chain.sort).toHaveBeenCalledWith({
+        'usage.queryCount': -1,
+        'usage.distinctUsers': -1,
+        database: 1,
+        schema: 1,
+        table: 1,
+      });
+      expect(chain.skip).toHaveBeenCalledWith(20);
+      expect(chain.limit).toHaveBeenCalledWith(10);
+    });
+
+    it('should find collected tables not queried since the cutoff', async () => {
+      const chain = mockRankingChain();
+      const since = new Date('2024-01-01T00:00:00Z');
+
+      await service.findUnusedTables({}, since);
+
+      expect(metadataModel.find).toHaveBeenCalledWith({
+        deletedAt: null,
+        'usage.collectedAt': { $ne: null },
+        'usage.lastQueried': { $not: { $gte: since } },
+      });
+      expect(chain.sort).toHaveBeenCalledWith({
+        'usage.lastQueried': 1,
+        database: 1,
+        schema: 1,
+        table: 1,
+      });
+    });
   });
 
   describe('getSyncStats', () => {
@@ -253,6 +1259,12 @@ describe('MongodbService', () => {
 
       const result = await service.getSyncStats();
       expect(result.lastSyncTime).toEqual(mockLastSync.syncEndTime);
+      // Scoped syncs never count as the watermark
+      expect(syncStatsModel.findOne).toHaveBeenCalledWith({
+        success: true,
+        scope: null,
+        source: { $in: ['snowflake', null] },
+      });
     });
 
     it('should return null when no sync stats available', async () => {
@@ -277,6 +1289,7 @@ describe('MongodbService', () => {
           newTables: 2,
           updatedTables: 3,
           skippedTables: 5,
+          deletedTables: 1,
           processingTimeMs: 1000
         }
       };
@@ -296,9 +1309,15 @@ describe('MongodbService', () => {
         newTables: 2,
         updatedTables: 3,
         skippedTables: 5,
+        deletedTables: 1,
+        breakingChanges: 0,
         processingTimeMs: 1000,
         errors: [],
-        message: 'Sync completed'
+        message: 'Sync completed',
+        mode: 'incremental',
+        trigger: 'user',
+        scope: null,
+        source: 'snowflake',
       });
     });
 
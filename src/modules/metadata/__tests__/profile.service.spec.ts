@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ProfileService } from '../services/profile.service';
+import { MongodbService } from '../services/mongodb.service';
+import { SourceRegistryService } from '../services/source-registry.service';
+
+describe('ProfileService', () => {
+  let service: ProfileService;
+  let mongodbService: { findTable: jest.Mock; saveTableProfile: jest.Mock };
+  let connector: { name: string; profileTable?: jest.Mock };
+
+  const ref = { database: 'DB', schema: 'S', table: 'ORDERS' };
+  const result = {
+    sampling: 'system',
+    rowsSampled: 10000,
+    columns: [
+      {
+        column: 'ID',
+        nullCount: 0,
+        nullPercent: 0,
+        distinctCount: 10000,
+        min: '1',
+        max: '99999',
+        topValues: null,
+      },
+    ],
+  };
+  const storedTable = (overrides: any = {}) => ({
+    ...ref,
+    source: 'snowflake',
+    objectType: 'base_table',
+    rowCount: 5000000,
+    columns: [
+      { name: 'ID', type: 'NUMBER', nullable: false },
+      { name: 'STATUS', type: 'TEXT', nullable: true },
+    ],
+    deletedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mongodbService = {
+      findTable: jest.fn().mockResolvedValue(storedTable()),
+      saveTableProfile: jest.fn().mockResolvedValue(undefined),
+    };
+    connector = {
+      name: 'snowflake',
+      profileTable: jest.fn().mockResolvedValue(result),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfileService,
+        { provide: MongodbService, useValue: mongodbService },
+        {
+          provide: SourceRegistryService,
+          useValue: { get: jest.fn().mockReturnValue(connector) },
+        },
+      ],
+    }).compile();
+    service = module.get<ProfileService>(ProfileService);
+  });
+
+  afterEach(() => {
+    delete process.env.PROFILE_MAX_SAMPLE_ROWS;
+    delete process.env.PROFILE_MAX_COLUMNS;
+    delete process.env.PROFILE_COOLDOWN_MINUTES;
+  });
+
+  it('should profile a table within the configured limits and store the profile', async () => {
+    process.env.PROFILE_MAX_COLUMNS = '1';
+
+    const profile = await service.profileTable(ref, { sampleRows: 10000 });
+
+    expect(connector.profileTable).toHaveBeenCalledWith(
+      {
+        ...ref,
+        objectType: 'base_table',
+        rowCount: 5000000,
+        columns: [{ name: 'ID', type: 'NUMBER', nullable: false }],
+      },
+      {
+        sampleRows: 10000,
+        timeoutSeconds: 60,
+        topValues: 10,
+        lowCardinality: 50,
+      },
+    );
+    expect(profile).toMatchObject({
+      ...ref,
+      profile: {
+        sampleRows: 10000,
+        sampling: 'system',
+        rowsSampled: 10000,
+        columnsTruncated: true,
+        columns: result.columns,
+      },
+    });
+    expect(profile.profile.profiledAt).toBeInstanceOf(Date);
+    expect(mongodbService.saveTableProfile).toHaveBeenCalledWith(
+      ref,
+      profile.profile,
+    );
+  });
+
+  it('should use the default sample size', async () => {
+    await service.profileTable(ref);
+
+    expect(connector.profileTable!.mock.calls[0][1].sampleRows).toBe(10000);
+  });
+
+  it('should reject samples above the maximum', async () => {
+    process.env.PROFILE_MAX_SAMPLE_ROWS = '50000';
+
+    await expect(
+      service.profileTable(ref, { sampleRows: 50001 }),
+    ).rejects.toThrow('sampleRows must be at most 50000');
+    await expect(service.profileTable(ref, { sampleRows: 0 })).rejects.toThrow(
+      'sampleRows must be a positive integer',
+    );
+    expect(connector.profileTable).not.toHaveBeenCalled();
+  });
+
+  it('should not profile a table again within the cooldown', async () => {
+    mongodbService.findTable.mockResolvedValue(
+      storedTable({
+        profile: { profiledAt: new Date(Date.now() - 10 * 60 * 1000) },
+      }),
+    );
+
+    await expect(service.profileTable(ref)).rejects.toThrow(
+      'it can be profiled again after',
+    );
+    expect(connector.profileTable).not.toHaveBeenCalled();
+
+    process.env.PROFILE_COOLDOWN_MINUTES = '0';
+    await expect(service.profileTable(ref)).resolves.toBeDefined();
+  });
+
+  it('should reject unknown, dropped and unsupported tables', async () => {
+    mongodbService.findTable.mockResolvedValueOnce(null);
+    await expect(service.profileTable(ref)).rejects.toThrow(
+      'Table DB.S.ORDERS not found',
+    );
+
+    mongodbService.findTable.mockResolvedValueOnce(
+      storedTable({ deletedAt: new Date() }),
+    );
+    await expect(service.profileTable(ref)).rejects.toThrow(
+      'was dropped from its source',
+    );
+
+    delete connector.profileTable;
+    await expect(service.profileTable(ref)).rejects.toThrow(
+      'Source "snowflake" does not support profiling',
+    );
+  });
+
+  it('should return the stored profile', async () => {
+    const profile = { profiledAt: new Date(), columns: [] };
+    mongodbService.findTable.mockResolvedValue(storedTable({ profile }));
+
+    await expect(service.getProfile(ref)).resolves.toEqual({
+      ...ref,
+      profile,
+    });
+
+    mongodbService.findTable.mockResolvedValue(storedTable());
+    await expect(service.getProfile(ref)).rejects.toThrow(
+      'No profile of table DB.S.ORDERS',
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { RelationshipService } from '../services/relationship.service';
+import { MongodbService } from '../services/mongodb.service';
+
+describe('RelationshipService', () => {
+  let service: RelationshipService;
+  let mongodbService: {
+    findTable: jest.Mock;
+    findReferencingTables: jest.Mock;
+    findSchemaTables: jest.Mock;
+  };
+
+  const customers = {
+    database: 'ANALYTICS',
+    schema: 'PUBLIC',
+    table: 'CUSTOMERS',
+    objectType: 'base_table',
+    primaryKey: { name: 'PK_CUSTOMERS', columns: ['ID'] },
+    uniqueKeys: [{ name: 'UQ_EMAIL', columns: ['EMAIL'] }],
+    foreignKeys: [
+      {
+        name: 'FK_REGION',
+        columns: ['REGION_ID'],
+        referencedDatabase: 'ANALYTICS',
+        referencedSchema: 'REF',
+        referencedTable: 'REGIONS',
+        referencedColumns: ['ID'],
+      },
+    ],
+  };
+  const orders = {
+    database: 'ANALYTICS',
+    schema: 'PUBLIC',
+    table: 'ORDERS',
+    objectType: 'base_table',
+    primaryKey: { name: 'PK_ORDERS', columns: ['ID'] },
+    uniqueKeys: [],
+    foreignKeys: [
+      {
+        name: 'FK_CUSTOMER',
+        columns: ['CUSTOMER_ID'],
+        referencedDatabase: 'ANALYTICS',
+        referencedSchema: 'PUBLIC',
+        referencedTable: 'CUSTOMERS',
+        referencedColumns: ['ID'],
+      },
+      {
+        name: 'FK_REGION',
+        columns: ['REGION_ID'],
+        referencedDatabase: 'ANALYTICS',
+        referencedSchema: 'REF',
+        referencedTable: 'REGIONS',
+        referencedColumns: ['ID'],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    mongodbService = {
+      findTable: jest.fn().mockResolvedValue(customers),
+      findReferencingTables: jest.fn().mockResolvedValue([orders]),
+      findSchemaTables: jest.fn().mockResolvedValue([customers, orders]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RelationshipService,
+        { provide: MongodbService, useValue: mongodbService },
+      ],
+    }).compile();
+    service = module.get<RelationshipService>(RelationshipService);
+  });
+
+  const ref = { database: 'ANALYTICS', schema: 'PUBLIC', table: 'CUSTOMERS' };
+
+  it('should return keys with outbound and inbound foreign keys', async () => {
+    const relationships = await service.getRelationships(ref);
+
+    expect(mongodbService.findReferencingTables).toHaveBeenCalledWith(ref);
+    expect(relationships).toEqual({
+      table: 'ANALYTICS.PUBLIC.CUSTOMERS',
+      primaryKey: { name: 'PK_CUSTOMERS', columns: ['ID'] },
+      uniqueKeys: [{ name: 'UQ_EMAIL', columns: ['EMAIL'] }],
+      outbound: [
+        {
+          name: 'FK_REGION',
+          fromTable: 'ANALYTICS.PUBLIC.CUSTOMERS',
+          fromColumns: ['REGION_ID'],
+          toTable: 'ANALYTICS.REF.REGIONS',
+          toColumns: ['ID'],
+        },
+      ],
+      // FK_REGION of ORDERS points elsewhere
+      inbound: [
+        {
+          name: 'FK_CUSTOMER',
+          fromTable: 'ANALYTICS.PUBLIC.ORDERS',
+          fromColumns: ['CUSTOMER_ID'],
+          toTable: 'ANALYTICS.PUBLIC.CUSTOMERS',
+          toColumns: ['ID'],
+        },
+      ],
+    });
+  });
+
+  it('should default keys of tables synced without them', async () => {
+    mongodbService.findTable.mockResolvedValue({
+      database: 'ANALYTICS',
+      schema: 'PUBLIC',
+      table: 'CUSTOMERS',
+    });
+    mongodbService.findReferencingTables.mockResolvedValue([]);
+
+    await expect(service.getRelationships(ref)).resolves.toMatchObject({
+      primaryKey: null,
+      uniqueKeys: [],
+      outbound: [],
+      inbound: [],
+    });
+  });
+
+  it('should throw NotFoundException for unknown tables', async () => {
+    mongodbService.findTable.mockResolvedValue(null);
+    await expect(service.getRelationships(ref)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(mongodbService.findReferencingTables).not.toHaveBeenCalled();
+  });
+
+  it('should build a schema graph with external nodes for other schemas', async () => {
+    const graph = await service.getSchemaGraph('ANALYTICS', 'PUBLIC');
+
+    expect(graph.nodes).toEqual([
+      {
+        id: 'ANALYTICS.PUBLIC.CUSTOMERS',
+        database: 'ANALYTICS',
+        schema: 'PUBLIC',
+        table: 'CUSTOMERS',
+        objectType: 'base_table',
+        primaryKey: ['ID'],
+        external: false,
+      },
+      expect.objectContaining({
+        id: 'ANALYTICS.PUBLIC.ORDERS',
+        external: false,
+      }),
+      {
+        id: 'ANALYTICS.REF.REGIONS',
+        database: 'ANALYTICS',
+        schema: 'REF',
+        table: 'REGIONS',
+        objectType: null,
+        primaryKey: [],
+        external: true,
+      },
+    ]);
+    expect(
+      graph.edges.map((edge) => `${edge.fromTable}->${edge.toTable}`),
+    ).toEqual([
+      'ANALYTICS.PUBLIC.CUSTOMERS->ANALYTICS.REF.REGIONS',
+      'ANALYTICS.PUBLIC.ORDERS->ANALYTICS.PUBLIC.CUSTOMERS',
+      'ANALYTICS.PUBLIC.ORDERS->ANALYTICS.REF.REGIONS',
+    ]);
+  });
+
+  it('should throw NotFoundException for empty schemas', async () => {
+    mongodbService.findSchemaTables.mockResolvedValue([]);
+    await expect(service.getSchemaGraph('ANALYTICS', 'NONE')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
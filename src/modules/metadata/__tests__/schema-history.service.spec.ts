@@ -0,0 +1,297 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { SchemaHistoryService } from '../services/schema-history.service';
+import { MetadataVersion } from '../schemas/metadata-version.schema';
+import { TableChange } from '../services/mongodb.service';
+import { diffColumns, isEmptySchemaDiff } from '../utils/schema-diff';
+
+describe('SchemaHistoryService', () => {
+  let service: SchemaHistoryService;
+  let metadataVersionModel: any;
+
+  const ref = { database: 'DB', schema: 'S', table: 'T' };
+
+  const mockQuery = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    metadataVersionModel = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchemaHistoryService,
+        {
+          provide: getModelToken(MetadataVersion.name),
+          useValue: metadataVersionModel,
+        },
+      ],
+    }).compile();
+    service = module.get<SchemaHistoryService>(SchemaHistoryService);
+  });
+
+  describe('diffColumns', () => {
+    it('should detect every kind of column change', () => {
+      const diff = diffColumns(
+        [
+          { name: 'ID', type: 'NUMBER', nullable: true },
+          { name: 'NAME', type: 'VARCHAR', nullable: true, comment: 'old' },
+          { name: 'LEGACY', type: 'VARCHAR', nullable: true },
+        ],
+        [
+          { name: 'ID', type: 'VARCHAR', nullable: false, defaultValue: '0' },
+          { name: 'NAME', type: 'VARCHAR', nullable: true, comment: 'new' },
+          { name: 'EMAIL', type: 'VARCHAR', nullable: true },
+        ],
+      );
+
+      expect(diff).toEqual({
+        added: [{ name: 'EMAIL', type: 'VARCHAR', nullable: true }],
+        removed: [{ name: 'LEGACY', type: 'VARCHAR', nullable: true }],
+        typeChanged: [{ column: 'ID', from: 'NUMBER', to: 'VARCHAR' }],
+        nullabilityChanged: [{ column: 'ID', from: true, to: false }],
+        defaultChanged: [{ column: 'ID', from: null, to: '0' }],
+        commentChanged: [{ column: 'NAME', from: 'old', to: 'new' }],
+        positionChanged: [],
+        lengthChanged: [],
+        precisionChanged: [],
+        scaleChanged: [],
+        identityChanged: [],
+        collationChanged: [],
+      });
+    });
+
+    it('should detect moved, resized, identity and re-collated columns', () => {
+      const diff = diffColumns(
+        [
+          {
+            name: 'ID',
+            type: 'NUMBER',
+            nullable: false,
+            ordinalPosition: 1,
+            precision: 10,
+            scale: 0,
+          },
+          {
+            name: 'NAME',
+            type: 'TEXT',
+            nullable: true,
+            ordinalPosition: 2,
+            maxLength: 16,
+          },
+          { name: 'CODE', type: 'TEXT', nullable: true, ordinalPosition: 3 },
+          { name: 'DROPPED', type: 'TEXT', nullable: true, ordinalPosition: 4 },
+        ],
+        [
+          {
+            name: 'ID',
+            type: 'NUMBER',
+            nullable: false,
+            ordinalPosition: 1,
+            precision: 12,
+            scale: 2,
+            identity: true,
+          },
+          {
+            name: 'CODE',
+            type: 'TEXT',
+            nullable: true,
+            ordinalPosition: 2,
+            collation: 'en-ci',
+          },
+          {
+            name: 'NAME',
+            type: 'TEXT',
+            nullable: true,
+            ordinalPosition: 3,
+            maxLength: 100,
+          },
+        ],
+      );
+
+      expect(diff.positionChanged).toEqual([
+        { column: 'CODE', from: 3, to: 2 },
+        { column: 'NAME', from: 2, to: 3 },
+      ]);
+      expect(diff.lengthChanged).toEqual([
+        { column: 'NAME', from: 16, to: 100 },
+      ]);
+      expect(diff.precisionChanged).toEqual([
+        { column: 'ID', from: 10, to: 12 },
+      ]);
+      expect(diff.scaleChanged).toEqual([{ column: 'ID', from: 0, to: 2 }]);
+      expect(diff.identityChanged).toEqual([
+        { column: 'ID', from: false, to: true },
+      ]);
+      expect(diff.collationChanged).toEqual([
+        { column: 'CODE', from: null, to: 'en-ci' },
+      ]);
+    });
+
+    it('should not report columns shifted by an added or dropped column as moved', () => {
+      const diff = diffColumns(
+        [
+          { name: 'A', type: 'TEXT', nullable: true, ordinalPosition: 1 },
+          { name: 'B', type: 'TEXT', nullable: true, ordinalPosition: 2 },
+        ],
+        [
+          { name: 'NEW', type: 'TEXT', nullable: true, ordinalPosition: 1 },
+          { name: 'A', type: 'TEXT', nullable: true, ordinalPosition: 2 },
+          { name: 'B', type: 'TEXT', nullable: true, ordinalPosition: 3 },
+        ],
+      );
+      expect(diff.positionChanged).toEqual([]);
+      expect(diff.added.map((column) => column.name)).toEqual(['NEW']);
+    });
+
+    it('should not compare positions of versions stored without them', () => {
+      const diff = diffColumns(
+        [
+          { name: 'A', type: 'TEXT', nullable: true },
+          { name: 'B', type: 'TEXT', nullable: true },
+        ],
+        [
+          { name: 'B', type: 'TEXT', nullable: true, ordinalPosition: 1 },
+          { name: 'A', type: 'TEXT', nullable: true, ordinalPosition: 2 },
+        ],
+      );
+      expect(isEmptySchemaDiff(diff)).toBe(true);
+    });
+
+    it('should treat missing and null optional values as equal', () => {
+      const diff = diffColumns(
+        [{ name: 'ID', type: 'NUMBER', nullable: true, comment: null as any }],
+        [{ name: 'ID', type: 'NUMBER', nullable: true }],
+      );
+      expect(isEmptySchemaDiff(diff)).toBe(true);
+    });
+  });
+
+  describe('recordChanges', () => {
+    const update: TableChange = {
+      ...ref,
+      changeType: 'updated',
+      version: 2,
+      checksum: 'new',
+      columns: [{ name: 'ID', type: 'VARCHAR', nullable: true }],
+      previousChecksum: 'old',
+      previousColumns: [{ name: 'ID', type: 'NUMBER', nullable: true }],
+      diff: diffColumns(
+        [{ name: 'ID', type: 'NUMBER', nullable: true }],
+        [{ name: 'ID', type: 'VARCHAR', nullable: true }],
+      ),
+    };
+
+    it('should do nothing without changes', async () => {
+      await expect(service.recordChanges([])).resolves.toBe(0);
+      expect(metadataVersionModel.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should not version tombstones or restores without column changes', async () => {
+      const unchanged = {
+        ...update,
+        checksum: 'old',
+        diff: diffColumns([], []),
+      };
+
+      await expect(
+        service.recordChanges([
+          { ...unchanged, changeType: 'deleted' },
+          { ...unchanged, changeType: 'restored' },
+        ]),
+      ).resolves.toBe(0);
+      expect(metadataVersionModel.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should store a baseline when the previous version is unknown', async () => {
+      metadataVersionModel.find.mockReturnValue(mockQuery([]));
+
+      await expect(service.recordChanges([update])).resolves.toBe(2);
+
+      const [operations] = metadataVersionModel.bulkWrite.mock.calls[0];
+      expect(
+        operations.map((operation) => operation.replaceOne.replacement),
+      ).toEqual([
+        expect.objectContaining({
+          version: 1,
+          changeType: 'baseline',
+          checksum: 'old',
+          columns: update.previousColumns,
+          diff: null,
+        }),
+        expect.objectContaining({
+          version: 2,
+          changeType: 'updated',
+          checksum: 'new',
+          diff: update.diff,
+        }),
+      ]);
+    });
+
+    it('should not duplicate an existing previous version', async () => {
+      metadataVersionModel.find.mockReturnValue(
+        mockQuery([{ ...ref, version: 1 }]),
+      );
+
+      await expect(service.recordChanges([update])).resolves.toBe(1);
+      expect(metadataVersionModel.bulkWrite.mock.calls[0][0]).toHaveLength(1);
+    });
+
+    // A sync whose catalog write failed records the same version number again
+    it('should replace a version that is recorded again', async () => {
+      metadataVersionModel.find.mockReturnValue(
+        mockQuery([{ ...ref, version: 1 }]),
+      );
+
+      await service.recordChanges([update]);
+
+      const [[operation], options] =
+        metadataVersionModel.bulkWrite.mock.calls[0];
+      expect(operation.replaceOne).toMatchObject({
+        filter: { ...ref, version: 2 },
+        upsert: true,
+      });
+      expect(options).toEqual({ ordered: false });
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('should diff two stored versions', async () => {
+      metadataVersionModel.findOne
+        .mockReturnValueOnce(
+          mockQuery({
+            version: 1,
+            columns: [{ name: 'ID', type: 'NUMBER', nullable: true }],
+          }),
+        )
+        .mockReturnValueOnce(
+          mockQuery({
+            version: 3,
+            columns: [{ name: 'ID', type: 'NUMBER', nullable: false }],
+          }),
+        );
+
+      const result = await service.diffVersions(ref, 1, 3);
+
+      expect(result.fromVersion).toBe(1);
+      expect(result.toVersion).toBe(3);
+      expect(result.diff.nullabilityChanged).toEqual([
+        { column: 'ID', from: true, to: false },
+      ]);
+    });
+
+    it('should throw when a version does not exist', async () => {
+      metadataVersionModel.findOne.mockReturnValue(mockQuery(null));
+
+      await expect(service.diffVersions(ref, 7)).rejects.toThrow(
+        'Version 7 of DB.S.T not found',
+      );
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { SearchService } from '../services/search.service';
+import { Metadata } from '../schemas/metadata.schema';
+import { buildSearchTokens, tokenize } from '../utils/search-tokens';
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let metadataModel: any;
+
+  const customers = {
+    database: 'SALES',
+    schema: 'PUBLIC',
+    table: 'CUSTOMERS',
+    columns: [
+      { name: 'ID', type: 'NUMBER', nullable: false },
+      {
+        name: 'CUSTOMER_EMAIL',
+        type: 'VARCHAR',
+        nullable: true,
+        comment: 'Primary contact address',
+      },
+      {
+        name: 'CREATED_AT',
+        type: 'TIMESTAMP_NTZ',
+        nullable: true,
+        comment: 'When the customer signed up',
+      },
+    ],
+  };
+  const orders = {
+    database: 'SALES',
+    schema: 'PUBLIC',
+    table: 'ORDERS',
+    columns: [
+      { name: 'ORDER_ID', type: 'NUMBER', nullable: false },
+      {
+        name: 'EMAIL',
+        type: 'VARCHAR',
+        nullable: true,
+        comment: 'Billing email of the customer',
+      },
+      { name: 'ORDERED_AT', type: 'TIMESTAMP_NTZ', nullable: true },
+    ],
+  };
+
+  const mockCandidates = (documents: any[]) => {
+    const chain = {
+      limit: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(documents),
+    };
+    metadataModel.find.mockReturnValue(chain);
+    return chain;
+  };
+
+  beforeEach(async () => {
+    metadataModel = {
+      find: jest.fn(),
+      bulkWrite: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: getModelToken(Metadata.name), useValue: metadataModel },
+      ],
+    }).compile();
+    service = module.get<SearchService>(SearchService);
+  });
+
+  describe('tokenize', () => {
+    it('should split snake case, camel case and free text', () => {
+      expect(tokenize('CUSTOMER_EMAIL')).toEqual(['customer', 'email']);
+      expect(tokenize('customerEmail2')).toEqual(['customer', 'email', '2']);
+      expect(tokenize('HTTPStatus')).toEqual(['http', 'status']);
+      expect(tokenize('The e-mail, for billing.')).toEqual([
+        'the',
+        'e',
+        'mail',
+        'for',
+        'billing',
+      ]);
+    });
+
+    it('should collect unique tokens for a table', () => {
+      expect(buildSearchTokens(orders).sort()).toEqual(
+        [
+          'at',
+          'billing',
+          'customer',
+          'email',
+          'id',
+          'of',
+          'order',
+          'ordered',
+          'orders',
+          'the',
+        ].sort(),
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should query candidates by token prefix', async () => {
+      mockCandidates([]);
+
+      await service.search({ q: 'customer email', database: 'SALES' });
+
+      const filter = metadataModel.find.mock.calls[0][0];
+      expect(filter.$or).toEqual([
+        { searchTokens: { $regex: '^customer' } },
+        { searchTokens: { $regex: '^email' } },
+      ]);
+      expect(filter.database.test('sales')).toBe(true);
+    });
+
+    it('should rank columns matching every query word first', async () => {
+      mockCandidates([orders, customers]);
+
+      const result = await service.search({ q: 'customer email' });
+
+      expect(result.hits[0]).toEqual(
+        expect.objectContaining({
+          kind: 'column',
+          table: 'CUSTOMERS',
+          column: 'CUSTOMER_EMAIL',
+          highlights: [
+            {
+              field: 'column',
+              value: '<mark>CUSTOMER</mark>_<mark>EMAIL</mark>',
+            },
+          ],
+        }),
+      );
+      const orderEmail = result.hits.find(
+        (hit) => hit.table === 'ORDERS' && hit.column === 'EMAIL',
+      );
+      expect(orderEmail?.highlights).toEqual([
+        { field: 'column', value: '<mark>EMAIL</mark>' },
+        {
+          field: 'comment',
+          value: 'Billing <mark>email</mark> of the <mark>customer</mark>',
+        },
+      ]);
+      const scores = result.hits.map((hit) => hit.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
+    it('should return table hits for table name matches', async () => {
+      mockCandidates([orders, customers]);
+
+      const result = await service.search({ q: 'order', kind: 'table' });
+
+      expect(result.hits).toEqual([
+        expect.objectContaining({
+          kind: 'table',
+          table: 'ORDERS',
+          highlights: [{ field: 'table', value: '<mark>ORDER</mark>S' }],
+        }),
+      ]);
+    });
+
+    it('should only return columns of the requested types', async () => {
+      mockCandidates([orders, customers]);
+
+      const result = await service.search({
+        q: 'customer',
+        types: ['timestamp_ntz'],
+      });
+
+      expect(metadataModel.find.mock.calls[0][0]['columns.type']).toEqual({
+        $in: ['TIMESTAMP_NTZ'],
+      });
+      expect(result.hits).toHaveLength(1);
+      expect(result.hits[0]).toEqual(
+        expect.objectContaining({
+          column: 'CREATED_AT',
+          dataType: 'TIMESTAMP_NTZ',
+        }),
+      );
+    });
+
+    it('should paginate ranked hits', async () => {
+      mockCandidates([orders, customers]);
+
+      const all = await service.search({ q: 'email' });
+      const page = await service.search({ q: 'email', limit: 1, offset: 1 });
+
+      expect(page.total).toBe(all.total);
+      expect(page.hits).toEqual([all.hits[1]]);
+    });
+
+    it('should reject queries without words', async () => {
+      await expect(service.search({ q: '  --  ' })).rejects.toThrow(
+        'at least one word',
+      );
+      expect(metadataModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backfillSearchTokens', () => {
+    it('should set tokens on documents that have none', async () => {
+      const exec = jest.fn().mockResolvedValueOnce([{ _id: 'a', ...orders }]);
+      metadataModel.find.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec,
+      });
+      metadataModel.bulkWrite.mockResolvedValue({});
+
+      const count = await service.backfillSearchTokens();
+
+      expect(count).toBe(1);
+      expect(metadataModel.find).toHaveBeenCalledWith({
+        searchTokens: { $exists: false },
+      });
+      expect(metadataModel.bulkWrite).toHaveBeenCalledWith(
+        [
+          {
+            updateOne: {
+              filter: { _id: 'a' },
+              update: { $set: { searchTokens: buildSearchTokens(orders) } },
+            },
+          },
+        ],
+        { ordered: false },
+      );
+    });
+  });
+});
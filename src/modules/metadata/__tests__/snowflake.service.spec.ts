@@ -3,6 +3,7 @@ jest.mock('snowflake-sdk', () => ({
 }));
 import { Test, TestingModule } from '@nestjs/testing';
 import { SnowflakeService } from '../services/snowflake.service';
+import { SyncFilter } from '../utils/sync-filter';
 import * as snowflake from 'snowflake-sdk';
 import * as dotenv from 'dotenv';
 import {resolve} from 'path';
@@ -154,6 +155,16 @@ describe('SnowflakeService', () => {
   });
 
   describe('getAllTables', () => {
+    // Queries besides the SHOW ... KEYS commands run for every database with tables
+    const metadataQueries = () =>
+      mockConnection.execute.mock.calls
+        .map(([{ sqlText }]) => sqlText as string)
+        .filter(
+          (sqlText) =>
+            !/^SHOW (PRIMARY|UNIQUE|IMPORTED) KEYS/.test(sqlText) &&
+            !sqlText.includes('ACCOUNT_USAGE'),
+        );
+
     it('should get all tables successfully using optimized approach', async () => {
       const mockDatabases = [
         { name: 'DB1' },
@@ -180,7 +191,7 @@ describe('SnowflakeService', () => {
           // SHOW DATABASES
           complete(null, {}, mockDatabases);
         } else {
-          // UNION query for columns
+          // Column query per database
           complete(null, {}, mockColumns);
         }
       });
@@ -222,31 +233,1056 @@ describe('SnowflakeService', () => {
           ORDINAL_POSITION: 1
         }
       ];
-      const mockTableDates = [
-        {
-          SCHEMA: 'PUBLIC',
-          TABLE: 'NEW_TABLE',
-          CREATED_ON: '2023-01-20'
-        }
-      ];
-
       let callCount = 0;
       mockConnection.execute.mockImplementation(({ complete }) => {
         callCount++;
         if (callCount === 1) {
           // SHOW DATABASES
           complete(null, {}, mockDatabases);
-        } else if (callCount === 2) {
-          // UNION query for columns
-          complete(null, {}, mockColumns);
         } else {
-          // Table creation dates query
-          complete(null, {}, mockTableDates);
+          // Column query for changed tables
+          complete(null, {}, mockColumns);
         }
       });
 
       const result = await service.getAllTables(lastSyncTime);
       expect(result.length).toBeGreaterThan(0);
+
+      // The change filter is pushed into the column query instead of a follow-up query
+      expect(metadataQueries()).toHaveLength(2);
+      const columnsQuery = mockConnection.execute.mock.calls[1][0].sqlText;
+      expect(columnsQuery).toContain('JOIN "DB1".INFORMATION_SCHEMA.TABLES t');
+      expect(columnsQuery).toContain('t.LAST_ALTERED');
+      expect(columnsQuery).toContain(
+        "TO_TIMESTAMP_LTZ('2023-01-14T23:55:00.000Z')",
+      );
+    });
+
+    it('should not filter by change time on full syncs', async () => {
+      let callCount = 0;
+      mockConnection.execute.mockImplementation(({ complete }) => {
+        callCount++;
+        complete(null, {}, callCount === 1 ? [{ name: 'DB1' }] : []);
+      });
+
+      await service.getAllTables();
+
+      const columnsQuery = mockConnection.execute.mock.calls[1][0].sqlText;
+      expect(columnsQuery).not.toContain('TO_TIMESTAMP_LTZ');
+    });
+
+    it('should report progress after each database', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }, { name: 'DB2' }]);
+        } else {
+          const database = sqlText.includes('"DB1"') ? 'DB1' : 'DB2';
+          complete(null, {}, [
+            {
+              DATABASE_NAME: database,
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'T1',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+      const onProgress = jest.fn();
+
+      await service.getAllTables(undefined, { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { databasesTotal: 2, databasesDone: 0, tablesFound: 0 },
+        { databasesTotal: 2, databasesDone: 1, tablesFound: 1 },
+        { databasesTotal: 2, databasesDone: 2, tablesFound: 2 },
+      ]);
+    });
+
+    it('should stop between databases once cancelled without falling back', async () => {
+      const controller = new AbortController();
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }, { name: 'DB2' }]);
+        } else {
+          controller.abort();
+          complete(null, {}, []);
+        }
+      });
+
+      await expect(
+        service.getAllTables(undefined, { signal: controller.signal }),
+      ).rejects.toThrow();
+      expect(mockConnection.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only extract the databases, schemas and tables allowed by the filter', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'ANALYTICS' }, { name: 'SANDBOX' }]);
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'ANALYTICS',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+            {
+              DATABASE_NAME: 'ANALYTICS',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'USERS_BAK',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+      const filter = new SyncFilter(
+        { database: 'analytics', schema: 'public' },
+        [
+          {
+            action: 'exclude',
+            level: 'table',
+            pattern: '*_BAK',
+            syntax: 'glob',
+          },
+        ],
+      );
+
+      const result = await service.getAllTables(undefined, { filter });
+
+      expect(result.map((table) => table.table)).toEqual(['USERS']);
+      expect(metadataQueries()).toHaveLength(2);
+      const columnsQuery = mockConnection.execute.mock.calls[1][0].sqlText;
+      expect(columnsQuery).toContain(
+        'FROM "ANALYTICS".INFORMATION_SCHEMA.COLUMNS',
+      );
+      expect(columnsQuery).toContain("AND UPPER(c.TABLE_SCHEMA) = 'PUBLIC'");
+    });
+
+    it('should read object types, view definitions and stage locations', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.includes('INFORMATION_SCHEMA.VIEWS')) {
+          complete(null, {}, [
+            {
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'ACTIVE_USERS',
+              DEFINITION: 'create view ACTIVE_USERS as select id from users',
+              STAGE_LOCATION: null,
+            },
+            {
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'EVENTS',
+              DEFINITION: null,
+              STAGE_LOCATION: '@DB1.PUBLIC.RAW/events/',
+            },
+          ]);
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              TABLE_TYPE: 'BASE TABLE',
+              IS_TRANSIENT: 'NO',
+              IS_DYNAMIC: 'NO',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'STAGING',
+              TABLE_TYPE: 'BASE TABLE',
+              IS_TRANSIENT: 'YES',
+              IS_DYNAMIC: 'NO',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'YES',
+            },
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'ACTIVE_USERS',
+              TABLE_TYPE: 'VIEW',
+              IS_TRANSIENT: 'NO',
+              IS_DYNAMIC: 'NO',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'YES',
+            },
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'EVENTS',
+              TABLE_TYPE: 'EXTERNAL TABLE',
+              IS_TRANSIENT: 'NO',
+              IS_DYNAMIC: 'NO',
+              COLUMN_NAME: 'VALUE',
+              DATA_TYPE: 'VARIANT',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      const result = await service.getAllTables();
+
+      expect(result.map((table) => [table.table, table.objectType])).toEqual([
+        ['USERS', 'base_table'],
+        ['STAGING', 'transient_table'],
+        ['ACTIVE_USERS', 'view'],
+        ['EVENTS', 'external_table'],
+      ]);
+      expect(result[2].definition).toBe(
+        'create view ACTIVE_USERS as select id from users',
+      );
+      expect(result[3].stageLocation).toBe('@DB1.PUBLIC.RAW/events/');
+      expect(result[0].definition).toBeUndefined();
+      expect(metadataQueries()).toHaveLength(3);
+    });
+
+    it('should read table properties from the TABLES view', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else {
+          const table = {
+            DATABASE_NAME: 'DB1',
+            SCHEMA_NAME: 'PUBLIC',
+            TABLE_NAME: 'ORDERS',
+            TABLE_TYPE: 'BASE TABLE',
+            TABLE_OWNER: 'SYSADMIN',
+            TABLE_COMMENT: 'Orders',
+            ROW_COUNT: 0,
+            BYTES: 2048,
+            CLUSTERING_KEY: 'LINEAR(ORDER_DATE)',
+            RETENTION_TIME: 1,
+            CREATED: new Date('2024-01-01T00:00:00Z'),
+            LAST_ALTERED: new Date('2024-03-01T00:00:00Z'),
+            DATA_TYPE: 'NUMBER',
+            IS_NULLABLE: 'NO',
+          };
+          complete(null, {}, [
+            { ...table, COLUMN_NAME: 'ID' },
+            { ...table, COLUMN_NAME: 'ORDER_DATE' },
+          ]);
+        }
+      });
+
+      const [orders] = await service.getAllTables();
+
+      expect(orders).toMatchObject({
+        owner: 'SYSADMIN',
+        comment: 'Orders',
+        rowCount: 0,
+        bytes: 2048,
+        clusteringKey: 'LINEAR(ORDER_DATE)',
+        retentionTime: 1,
+        created: new Date('2024-01-01T00:00:00Z'),
+        lastAltered: new Date('2024-03-01T00:00:00Z'),
+      });
+      expect(orders.columns).toHaveLength(2);
+      expect(mockConnection.execute.mock.calls[1][0].sqlText).toContain(
+        't.ROW_COUNT as row_count',
+      );
+    });
+
+    it('should read column positions, sizes, identities and collations', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else {
+          const table = {
+            DATABASE_NAME: 'DB1',
+            SCHEMA_NAME: 'PUBLIC',
+            TABLE_NAME: 'USERS',
+            TABLE_TYPE: 'BASE TABLE',
+          };
+          complete(null, {}, [
+            {
+              ...table,
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+              ORDINAL_POSITION: 1,
+              NUMERIC_PRECISION: 38,
+              NUMERIC_SCALE: 0,
+              IS_IDENTITY: 'YES',
+              IDENTITY_START: '1',
+              IDENTITY_INCREMENT: '1',
+            },
+            {
+              ...table,
+              COLUMN_NAME: 'EMAIL',
+              DATA_TYPE: 'TEXT',
+              IS_NULLABLE: 'YES',
+              ORDINAL_POSITION: 2,
+              MAX_LENGTH: 255,
+              IS_IDENTITY: 'NO',
+              COLLATION_NAME: 'en-ci',
+            },
+          ]);
+        }
+      });
+
+      const [users] = await service.getAllTables();
+
+      expect(users.columns).toEqual([
+        expect.objectContaining({
+          name: 'ID',
+          ordinalPosition: 1,
+          precision: 38,
+          scale: 0,
+          maxLength: null,
+          identity: true,
+          identityStart: 1,
+          identityIncrement: 1,
+          collation: null,
+        }),
+        expect.objectContaining({
+          name: 'EMAIL',
+          ordinalPosition: 2,
+          precision: null,
+          maxLength: 255,
+          identity: false,
+          identityStart: null,
+          collation: 'en-ci',
+        }),
+      ]);
+      expect(mockConnection.execute.mock.calls[1][0].sqlText).toContain(
+        'c.CHARACTER_MAXIMUM_LENGTH as max_length',
+      );
+    });
+
+    it('should read declared primary, unique and foreign keys', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.startsWith('SHOW PRIMARY KEYS')) {
+          complete(null, {}, [
+            {
+              schema_name: 'PUBLIC',
+              table_name: 'ORDERS',
+              column_name: 'ID',
+              key_sequence: 1,
+              constraint_name: 'PK_ORDERS',
+            },
+            {
+              schema_name: 'PUBLIC',
+              table_name: 'CUSTOMERS',
+              column_name: 'ID',
+              key_sequence: 1,
+              constraint_name: 'PK_CUSTOMERS',
+            },
+          ]);
+        } else if (sqlText.startsWith('SHOW UNIQUE KEYS')) {
+          complete(null, {}, [
+            {
+              schema_name: 'PUBLIC',
+              table_name: 'CUSTOMERS',
+              column_name: 'EMAIL',
+              key_sequence: 2,
+              constraint_name: 'UQ_EMAIL',
+            },
+            {
+              schema_name: 'PUBLIC',
+              table_name: 'CUSTOMERS',
+              column_name: 'TENANT',
+              key_sequence: 1,
+              constraint_name: 'UQ_EMAIL',
+            },
+          ]);
+        } else if (sqlText.startsWith('SHOW IMPORTED KEYS')) {
+          complete(null, {}, [
+            {
+              pk_database_name: 'DB1',
+              pk_schema_name: 'PUBLIC',
+              pk_table_name: 'CUSTOMERS',
+              pk_column_name: 'ID',
+              fk_schema_name: 'PUBLIC',
+              fk_table_name: 'ORDERS',
+              fk_column_name: 'CUSTOMER_ID',
+              key_sequence: 1,
+              fk_name: 'FK_ORDERS_CUSTOMER',
+            },
+            {
+              pk_database_name: 'DB1',
+              pk_schema_name: 'PUBLIC',
+              pk_table_name: 'OTHER',
+              pk_column_name: 'ID',
+              fk_schema_name: 'HIDDEN',
+              fk_table_name: 'T',
+              fk_column_name: 'X',
+              key_sequence: 1,
+              fk_name: 'FK_OUTSIDE',
+            },
+          ]);
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'CUSTOMERS',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'ORDERS',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'LOG',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      const [customers, orders, log] = await service.getAllTables();
+
+      expect(customers.primaryKey).toEqual({
+        name: 'PK_CUSTOMERS',
+        columns: ['ID'],
+      });
+      expect(customers.uniqueKeys).toEqual([
+        { name: 'UQ_EMAIL', columns: ['TENANT', 'EMAIL'] },
+      ]);
+      expect(orders.foreignKeys).toEqual([
+        {
+          name: 'FK_ORDERS_CUSTOMER',
+          columns: ['CUSTOMER_ID'],
+          referencedDatabase: 'DB1',
+          referencedSchema: 'PUBLIC',
+          referencedTable: 'CUSTOMERS',
+          referencedColumns: ['ID'],
+        },
+      ]);
+      expect(log).toMatchObject({
+        primaryKey: null,
+        uniqueKeys: [],
+        foreignKeys: [],
+      });
+      expect(
+        mockConnection.execute.mock.calls.map(([{ sqlText }]) => sqlText),
+      ).toContain('SHOW IMPORTED KEYS IN DATABASE "DB1"');
+    });
+
+    it('should read keys of a lowercase schema scope by the schema name Snowflake returns', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (
+          sqlText.startsWith('SHOW PRIMARY KEYS IN SCHEMA "DB1"."PUBLIC"')
+        ) {
+          complete(null, {}, [
+            {
+              schema_name: 'PUBLIC',
+              table_name: 'ORDERS',
+              column_name: 'ID',
+              key_sequence: 1,
+              constraint_name: 'PK_ORDERS',
+            },
+          ]);
+        } else if (sqlText.startsWith('SHOW')) {
+          complete(
+            sqlText.includes('"DB1"."PUBLIC"')
+              ? null
+              : new Error(`Schema does not exist: ${sqlText}`),
+            {},
+            [],
+          );
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'ORDERS',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      const [orders] = await service.getAllTables(undefined, {
+        filter: new SyncFilter({ schema: 'public' }),
+      });
+
+      expect(orders.primaryKey).toEqual({ name: 'PK_ORDERS', columns: ['ID'] });
+      expect(
+        mockConnection.execute.mock.calls.map(([{ sqlText }]) => sqlText),
+      ).toContain('SHOW IMPORTED KEYS IN SCHEMA "DB1"."PUBLIC"');
+    });
+
+    it('should leave keys unreported when they cannot be read', async () => {
+      jest.spyOn(service as any, 'isRetryableError').mockReturnValue(false);
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.startsWith('SHOW PRIMARY KEYS')) {
+          complete(new Error('Insufficient privileges'), {}, []);
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'T1',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      const [table] = await service.getAllTables();
+
+      expect(table.table).toBe('T1');
+      expect(table.primaryKey).toBeUndefined();
+      expect(table.foreignKeys).toBeUndefined();
+    });
+
+    it('should read tag assignments and policy references', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.includes('ACCOUNT_USAGE.TAG_REFERENCES')) {
+          complete(null, {}, [
+            {
+              TABLE_SCHEMA: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              COLUMN_NAME: null,
+              TAG: 'GOV.TAGS.OWNER_TEAM',
+              TAG_VALUE: 'growth',
+            },
+            {
+              TABLE_SCHEMA: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              COLUMN_NAME: 'EMAIL',
+              TAG: 'GOV.TAGS.PII',
+              TAG_VALUE: 'EMAIL',
+            },
+          ]);
+        } else if (sqlText.includes('ACCOUNT_USAGE.POLICY_REFERENCES')) {
+          complete(null, {}, [
+            {
+              TABLE_SCHEMA: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              COLUMN_NAME: null,
+              POLICY: 'GOV.POLICIES.BY_REGION',
+              POLICY_KIND: 'ROW_ACCESS_POLICY',
+              ARGUMENT_COLUMNS: '[ "REGION" ]',
+            },
+            {
+              TABLE_SCHEMA: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              COLUMN_NAME: 'EMAIL',
+              POLICY: 'GOV.POLICIES.MASK_EMAIL',
+              POLICY_KIND: 'MASKING_POLICY',
+              ARGUMENT_COLUMNS: null,
+            },
+          ]);
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'EMAIL',
+              DATA_TYPE: 'TEXT',
+              IS_NULLABLE: 'YES',
+            },
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'LOG',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      const [users, log] = await service.getAllTables(undefined, {
+        filter: new SyncFilter({ schema: 'public' }),
+      });
+
+      expect(users.tags).toEqual([
+        { column: null, tag: 'GOV.TAGS.OWNER_TEAM', value: 'growth' },
+        { column: 'EMAIL', tag: 'GOV.TAGS.PII', value: 'EMAIL' },
+      ]);
+      expect(users.policies).toEqual([
+        {
+          column: null,
+          policy: 'GOV.POLICIES.BY_REGION',
+          kind: 'row_access_policy',
+          argumentColumns: ['REGION'],
+        },
+        {
+          column: 'EMAIL',
+          policy: 'GOV.POLICIES.MASK_EMAIL',
+          kind: 'masking_policy',
+          argumentColumns: [],
+        },
+      ]);
+      expect(log).toMatchObject({ tags: [], policies: [] });
+      const tagQuery = mockConnection.execute.mock.calls
+        .map(([{ sqlText }]) => sqlText as string)
+        .find((sqlText) => sqlText.includes('TAG_REFERENCES'))!;
+      expect(tagQuery).toContain("OBJECT_DATABASE = 'DB1'");
+      expect(tagQuery).toContain("UPPER(TABLE_SCHEMA) = 'PUBLIC'");
+    });
+
+    it('should leave tags and policies unreported when ACCOUNT_USAGE cannot be read', async () => {
+      jest.spyOn(service as any, 'isRetryableError').mockReturnValue(false);
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.includes('ACCOUNT_USAGE')) {
+          complete(
+            new Error("Database 'SNOWFLAKE' does not exist or not authorized"),
+            {},
+            [],
+          );
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'T1',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      const [table] = await service.getAllTables();
+
+      expect(table.table).toBe('T1');
+      expect(table.tags).toBeUndefined();
+      expect(table.policies).toBeUndefined();
+    });
+
+    it('should not query definitions for databases without views or external tables', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else {
+          complete(null, {}, [
+            {
+              DATABASE_NAME: 'DB1',
+              SCHEMA_NAME: 'PUBLIC',
+              TABLE_NAME: 'USERS',
+              TABLE_TYPE: 'BASE TABLE',
+              COLUMN_NAME: 'ID',
+              DATA_TYPE: 'NUMBER',
+              IS_NULLABLE: 'NO',
+            },
+          ]);
+        }
+      });
+
+      await service.getAllTables();
+
+      expect(metadataQueries()).toHaveLength(2);
+    });
+
+    it('should read views and object types in the fallback path', async () => {
+      const queries: string[] = [];
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        queries.push(sqlText);
+        if (queries.length === 2) {
+          complete(new Error('Permanent error'), {}, []);
+        } else if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.startsWith('SHOW SCHEMAS')) {
+          complete(null, {}, [{ name: 'PUBLIC' }]);
+        } else if (sqlText.startsWith('SHOW TABLES')) {
+          complete(null, {}, [
+            {
+              name: 'DAILY',
+              kind: 'TABLE',
+              is_dynamic: 'Y',
+              is_external: 'N',
+              owner: 'ETL',
+              comment: '',
+              rows: '42',
+              bytes: '1024',
+              cluster_by: '',
+              retention_time: '1',
+              created_on: '2024-01-01T00:00:00Z',
+            },
+            {
+              name: 'EVENTS',
+              kind: 'TABLE',
+              is_dynamic: 'N',
+              is_external: 'Y',
+            },
+          ]);
+        } else if (sqlText.startsWith('SHOW EXTERNAL TABLES')) {
+          complete(null, {}, [
+            { name: 'EVENTS', location: '@DB1.PUBLIC.RAW/events/' },
+          ]);
+        } else if (sqlText.startsWith('SHOW VIEWS')) {
+          complete(null, {}, [
+            {
+              name: 'TOTALS',
+              is_materialized: 'true',
+              text: 'create materialized view TOTALS as select 1 as n',
+            },
+          ]);
+        } else {
+          complete(null, {}, [{ NAME: 'COL1', TYPE: 'TEXT', NULLABLE: 'YES' }]);
+        }
+      });
+      jest.spyOn(service as any, 'isRetryableError').mockReturnValue(false);
+
+      const result = await service.getAllTables();
+
+      expect(
+        result.map(({ table, objectType, definition, stageLocation }) => ({
+          table,
+          objectType,
+          definition,
+          stageLocation,
+        })),
+      ).toEqual([
+        {
+          table: 'DAILY',
+          objectType: 'dynamic_table',
+          definition: undefined,
+          stageLocation: undefined,
+        },
+        {
+          table: 'EVENTS',
+          objectType: 'external_table',
+          definition: undefined,
+          stageLocation: '@DB1.PUBLIC.RAW/events/',
+        },
+        {
+          table: 'TOTALS',
+          objectType: 'materialized_view',
+          definition: 'create materialized view TOTALS as select 1 as n',
+          stageLocation: undefined,
+        },
+      ]);
+      expect(result[0]).toMatchObject({
+        owner: 'ETL',
+        comment: null,
+        rowCount: 42,
+        bytes: 1024,
+        clusteringKey: null,
+        retentionTime: 1,
+        created: new Date('2024-01-01T00:00:00Z'),
+      });
+      expect(result[0].lastAltered).toBeUndefined();
+    });
+
+    it('should skip unchanged tables in the fallback path', async () => {
+      const lastSyncTime = new Date('2023-01-15');
+      const queries: string[] = [];
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        queries.push(sqlText);
+        if (queries.length === 2) {
+          // Optimized column query fails, triggering the fallback
+          complete(new Error('Permanent error'), {}, []);
+        } else if (sqlText.startsWith('SHOW DATABASES')) {
+          complete(null, {}, [{ name: 'DB1' }]);
+        } else if (sqlText.includes('INFORMATION_SCHEMA.TABLES t')) {
+          complete(null, {}, [
+            { SCHEMA_NAME: 'PUBLIC', TABLE_NAME: 'ALTERED' },
+          ]);
+        } else if (sqlText.startsWith('SHOW SCHEMAS')) {
+          complete(null, {}, [{ name: 'PUBLIC' }]);
+        } else if (sqlText.startsWith('SHOW TABLES')) {
+          complete(null, {}, [{ name: 'ALTERED' }, { name: 'UNCHANGED' }]);
+        } else {
+          complete(null, {}, [{ NAME: 'COL1', TYPE: 'TEXT', NULLABLE: 'YES' }]);
+        }
+      });
+      jest.spyOn(service as any, 'isRetryableError').mockReturnValue(false);
+
+      const result = await service.getAllTables(lastSyncTime);
+
+      expect(result.map((table) => table.table)).toEqual(['ALTERED']);
+    });
+  });
+
+  describe('getLineage', () => {
+    it('should read object dependencies and read/write pairs of queries', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.includes('OBJECT_DEPENDENCIES')) {
+          complete(null, {}, [
+            {
+              UPSTREAM_DATABASE: 'DB',
+              UPSTREAM_SCHEMA: 'S',
+              UPSTREAM_TABLE: 'ORDERS',
+              DOWNSTREAM_DATABASE: 'DB',
+              DOWNSTREAM_SCHEMA: 'S',
+              DOWNSTREAM_TABLE: 'V_ORDERS',
+            },
+          ]);
+        } else {
+          complete(null, {}, [
+            {
+              UPSTREAM_NAME: 'DB.RAW.ORDERS',
+              DOWNSTREAM_NAME: 'DB.S.ORDERS',
+              FIRST_SEEN: '2024-01-01T00:00:00Z',
+              LAST_SEEN: '2024-01-02T00:00:00Z',
+            },
+            {
+              UPSTREAM_NAME: 'DB.RAW."a.b"',
+              DOWNSTREAM_NAME: 'DB.S.ORDERS',
+              FIRST_SEEN: '2024-01-01T00:00:00Z',
+              LAST_SEEN: '2024-01-01T00:00:00Z',
+            },
+          ]);
+        }
+      });
+
+      const lineage = await service.getLineage(
+        new Date('2023-12-01T00:00:00Z'),
+      );
+
+      expect(lineage.dependencies).toEqual([
+        {
+          upstream: { database: 'DB', schema: 'S', table: 'ORDERS' },
+          downstream: { database: 'DB', schema: 'S', table: 'V_ORDERS' },
+          kind: 'dependency',
+        },
+      ]);
+      expect(lineage.accesses).toEqual([
+        {
+          upstream: { database: 'DB', schema: 'RAW', table: 'ORDERS' },
+          downstream: { database: 'DB', schema: 'S', table: 'ORDERS' },
+          kind: 'access',
+          firstSeen: new Date('2024-01-01T00:00:00Z'),
+          lastSeen: new Date('2024-01-02T00:00:00Z'),
+        },
+      ]);
+      const accessQuery = mockConnection.execute.mock.calls[1][0].sqlText;
+      expect(accessQuery).toContain('SNOWFLAKE.ACCOUNT_USAGE.ACCESS_HISTORY');
+      expect(accessQuery).toContain(
+        "TO_TIMESTAMP_LTZ('2023-12-01T00:00:00.000Z')",
+      );
+      expect(mockConnection.destroy).toHaveBeenCalled();
+    });
+
+    it('should leave access lineage unreported without ACCESS_HISTORY', async () => {
+      jest.spyOn(service as any, 'isRetryableError').mockReturnValue(false);
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) => {
+        if (sqlText.includes('ACCESS_HISTORY')) {
+          complete(new Error('Unsupported feature'), {}, []);
+        } else {
+          complete(null, {}, []);
+        }
+      });
+
+      const lineage = await service.getLineage(new Date());
+
+      expect(lineage).toEqual({ dependencies: [] });
+    });
+  });
+
+  describe('profileTable', () => {
+    const table = (overrides: any = {}) => ({
+      database: 'DB',
+      schema: 'S',
+      table: 'ORDERS',
+      objectType: 'base_table' as const,
+      rowCount: 5000000,
+      columns: [
+        { name: 'STATUS', type: 'TEXT', nullable: true },
+        { name: 'PAYLOAD', type: 'VARIANT', nullable: true },
+        { name: 'ID', type: 'NUMBER', nullable: false },
+      ],
+      ...overrides,
+    });
+    const options = {
+      sampleRows: 10000,
+      timeoutSeconds: 60,
+      topValues: 10,
+      lowCardinality: 50,
+    };
+    const sqlTexts = () =>
+      mockConnection.execute.mock.calls.map(([{ sqlText }]) => sqlText);
+
+    beforeEach(() => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) =>
+        complete(
+          null,
+          {},
+          sqlText.startsWith('ALTER')
+            ? []
+            : [
+                {
+                  ROWS_SAMPLED: 10000,
+                  C0_NON_NULL: 9000,
+                  C0_DISTINCT: 3,
+                  C0_TOP: '[["shipped", 6000], ["new", 2500], [null, 1000]]',
+                  C0_MIN: 'new',
+                  C0_MAX: 'shipped',
+                  C1_NON_NULL: 500,
+                  C2_NON_NULL: 10000,
+                  C2_DISTINCT: 10000,
+                  C2_TOP: [[1, 1]],
+                  C2_MIN: '1',
+                  C2_MAX: '99999',
+                },
+              ],
+        ),
+      );
+    });
+
+    it('should block-sample large tables under a statement timeout on its own connection', async () => {
+      const profile = await service.profileTable(table(), options);
+
+      const [alter, query] = sqlTexts();
+      expect(alter).toBe('ALTER SESSION SET STATEMENT_TIMEOUT_IN_SECONDS = 60');
+      expect(query).toContain(
+        'FROM (SELECT * FROM "DB"."S"."ORDERS" SAMPLE SYSTEM (0.2) LIMIT 10000)',
+      );
+      expect(query).toContain('APPROX_COUNT_DISTINCT("STATUS") AS C0_DISTINCT');
+      expect(query).not.toContain('MIN("PAYLOAD")');
+      expect(mockConnection.destroy).toHaveBeenCalled();
+
+      expect(profile.sampling).toBe('system');
+      expect(profile.rowsSampled).toBe(10000);
+      expect(profile.columns).toEqual([
+        {
+          column: 'STATUS',
+          nullCount: 1000,
+          nullPercent: 10,
+          distinctCount: 3,
+          min: 'new',
+          max: 'shipped',
+          topValues: [
+            { value: 'shipped', count: 6000 },
+            { value: 'new', count: 2500 },
+            { value: null, count: 1000 },
+          ],
+        },
+        {
+          column: 'PAYLOAD',
+          nullCount: 9500,
+          nullPercent: 95,
+          distinctCount: null,
+          min: null,
+          max: null,
+          topValues: null,
+        },
+        {
+          column: 'ID',
+          nullCount: 0,
+          nullPercent: 0,
+          distinctCount: 10000,
+          min: '1',
+          max: '99999',
+          topValues: null,
+        },
+      ]);
+    });
+
+    it('should read small tables whole and views up to the sample size', async () => {
+      await service.profileTable(table({ rowCount: 200 }), options);
+      await service.profileTable(
+        table({ objectType: 'view', rowCount: null }),
+        options,
+      );
+
+      const queries = sqlTexts().filter((sql) => sql.startsWith('SELECT'));
+      expect(queries[0]).toMatch(/FROM "DB"."S"."ORDERS"$/);
+      expect(queries[1]).toContain(
+        'FROM (SELECT * FROM "DB"."S"."ORDERS" LIMIT 10000)',
+      );
+    });
+
+    it('should not retry a profile that timed out', async () => {
+      mockConnection.execute.mockImplementation(({ sqlText, complete }) =>
+        sqlText.startsWith('ALTER')
+          ? complete(null, {}, [])
+          : complete(
+              new Error(
+                'Statement reached its statement or warehouse timeout of 60 second(s) and was canceled.',
+              ),
+            ),
+      );
+
+      await expect(service.profileTable(table(), options)).rejects.toThrow(
+        'timeout',
+      );
+      expect(sqlTexts().filter((sql) => sql.startsWith('SELECT'))).toHaveLength(
+        1,
+      );
+      expect(mockConnection.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should count queries per directly accessed object', async () => {
+      mockConnection.execute.mockImplementation(({ complete }) =>
+        complete(null, {}, [
+          {
+            OBJECT_NAME: 'DB.S.ORDERS',
+            QUERY_COUNT: '12',
+            DISTINCT_USERS: '3',
+            LAST_QUERIED: '2024-03-30T00:00:00Z',
+          },
+          {
+            OBJECT_NAME: 'ORDERS',
+            QUERY_COUNT: '1',
+            DISTINCT_USERS: '1',
+            LAST_QUERIED: '2024-03-30T00:00:00Z',
+          },
+        ]),
+      );
+
+      const usages = await service.getUsage(new Date('2024-01-01T00:00:00Z'));
+
+      expect(usages).toEqual([
+        {
+          database: 'DB',
+          schema: 'S',
+          table: 'ORDERS',
+          queryCount: 12,
+          distinctUsers: 3,
+          lastQueried: new Date('2024-03-30T00:00:00Z'),
+        },
+      ]);
+      const query = mockConnection.execute.mock.calls[0][0].sqlText;
+      expect(query).toContain('FLATTEN(input => ah.DIRECT_OBJECTS_ACCESSED)');
+      expect(query).toContain("TO_TIMESTAMP_LTZ('2024-01-01T00:00:00.000Z')");
+      expect(mockConnection.destroy).toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,52 @@
+import { SourceRegistryService } from '../services/source-registry.service';
+import { SnowflakeService } from '../services/snowflake.service';
+
+describe('SourceRegistryService', () => {
+  const snowflakeService = {
+    name: 'snowflake',
+    type: 'snowflake',
+  } as SnowflakeService;
+  const originalSources = process.env.SQLITE_SOURCES;
+
+  afterEach(() => {
+    if (originalSources === undefined) {
+      delete process.env.SQLITE_SOURCES;
+    } else {
+      process.env.SQLITE_SOURCES = originalSources;
+    }
+  });
+
+  it('should register Snowflake and the configured SQLite sources', () => {
+    process.env.SQLITE_SOURCES = 'local=/tmp/app.db, cache=/tmp/cache.db';
+
+    const registry = new SourceRegistryService(snowflakeService);
+
+    expect(registry.list()).toEqual([
+      { name: 'snowflake', type: 'snowflake', default: true },
+      { name: 'local', type: 'sqlite', default: false },
+      { name: 'cache', type: 'sqlite', default: false },
+    ]);
+    expect(registry.get()).toBe(snowflakeService);
+    expect(registry.get('local').type).toBe('sqlite');
+  });
+
+  it('should reject unknown and duplicate sources', () => {
+    process.env.SQLITE_SOURCES = '';
+    const registry = new SourceRegistryService(snowflakeService);
+
+    expect(() => registry.get('postgres')).toThrow(
+      'Unknown source "postgres", expected one of: snowflake',
+    );
+    expect(() => registry.register(snowflakeService)).toThrow(
+      'already registered',
+    );
+  });
+
+  it('should reject malformed SQLite source configuration', () => {
+    process.env.SQLITE_SOURCES = '/tmp/app.db';
+
+    expect(() => new SourceRegistryService(snowflakeService)).toThrow(
+      'expected name=path',
+    );
+  });
+});
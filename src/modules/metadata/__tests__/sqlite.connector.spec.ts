@@ -0,0 +1,112 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import initSqlJs from 'sql.js';
+import { SqliteConnector } from '../connectors/sqlite.connector';
+import { SyncFilter } from '../utils/sync-filter';
+
+describe('SqliteConnector', () => {
+  let directory: string;
+  let path: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sqlite-connector-'));
+    path = join(directory, 'app.db');
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email varchar(255) NOT NULL,
+        status TEXT DEFAULT 'active',
+        payload
+      );
+      CREATE TABLE "order ""items""" (id INTEGER, user_id INTEGER NOT NULL);
+      CREATE VIEW active_users AS SELECT id, email FROM users WHERE status = 'active';
+      CREATE INDEX users_email ON users (email);
+    `);
+    await writeFile(path, db.export());
+    db.close();
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read tables and views with their columns', async () => {
+    const connector = new SqliteConnector('local', path);
+
+    const tables = await connector.getAllTables();
+
+    expect(tables.map((table) => table.table)).toEqual([
+      'active_users',
+      'order "items"',
+      'users',
+    ]);
+    const users = tables.find((table) => table.table === 'users')!;
+    expect(users).toEqual(
+      expect.objectContaining({ database: 'local', schema: 'main' }),
+    );
+    expect(users.columns).toEqual([
+      { name: 'id', type: 'INTEGER', nullable: true, ordinalPosition: 1 },
+      {
+        name: 'email',
+        type: 'VARCHAR(255)',
+        nullable: false,
+        ordinalPosition: 2,
+      },
+      {
+        name: 'status',
+        type: 'TEXT',
+        nullable: true,
+        defaultValue: "'active'",
+        ordinalPosition: 3,
+      },
+      { name: 'payload', type: 'ANY', nullable: true, ordinalPosition: 4 },
+    ]);
+    expect(users.objectType).toBe('base_table');
+    expect(tables[0]).toMatchObject({
+      objectType: 'view',
+      definition:
+        "CREATE VIEW active_users AS SELECT id, email FROM users WHERE status = 'active'",
+    });
+  });
+
+  it('should apply the sync filter and report progress', async () => {
+    const connector = new SqliteConnector('local', path);
+    const onProgress = jest.fn();
+    const filter = new SyncFilter({}, [
+      {
+        action: 'exclude',
+        level: 'table',
+        pattern: 'local.main.active_*',
+        syntax: 'glob',
+      },
+    ]);
+
+    const tables = await connector.getAllTables(undefined, {
+      filter,
+      onProgress,
+    });
+
+    expect(tables.map((table) => table.table)).toEqual([
+      'order "items"',
+      'users',
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      databasesTotal: 1,
+      databasesDone: 1,
+      tablesFound: 2,
+    });
+  });
+
+  it('should fail for a missing file', async () => {
+    const connector = new SqliteConnector(
+      'missing',
+      join(directory, 'nope.db'),
+    );
+
+    await expect(connector.getAllTables()).rejects.toThrow('ENOENT');
+  });
+});
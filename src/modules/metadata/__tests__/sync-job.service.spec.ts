@@ -0,0 +1,246 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SyncJobService } from '../services/sync-job.service';
+import { SyncLockService } from '../services/sync-lock.service';
+import { SyncJob } from '../schemas/sync-job.schema';
+import { MetadataService } from '../metadata.service';
+import { SourceRegistryService } from '../services/source-registry.service';
+
+describe('SyncJobService', () => {
+  let service: SyncJobService;
+  let syncJobModel: any;
+  let syncLockService: any;
+  let metadataService: any;
+  let sourceRegistry: any;
+
+  const jobId = new Types.ObjectId().toString();
+
+  const jobDocument = (overrides: Record<string, any> = {}) => ({
+    id: jobId,
+    status: 'queued',
+    mode: 'incremental',
+    trigger: 'user',
+    progress: {
+      phase: 'queued',
+      databasesTotal: 0,
+      databasesDone: 0,
+      tablesFound: 0,
+      tablesProcessed: 0,
+    },
+    cancelRequested: false,
+    result: null,
+    createdAt: new Date(),
+    startedAt: null,
+    finishedAt: null,
+    ...overrides,
+  });
+
+  const mockExec = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    syncJobModel = {
+      create: jest
+        .fn()
+        .mockImplementation(async (doc) =>
+          jobDocument({ ...doc, id: doc._id.toString() }),
+        ),
+      updateOne: jest.fn().mockResolvedValue({}),
+      findById: jest.fn(),
+      findByIdAndUpdate: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+    };
+    syncLockService = {
+      acquire: jest.fn().mockResolvedValue({ acquired: true }),
+      renew: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    sourceRegistry = { get: jest.fn() };
+    metadataService = {
+      syncMetadata: jest
+        .fn()
+        .mockResolvedValue({ success: true, message: 'ok', stats: {} }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncJobService,
+        { provide: getModelToken(SyncJob.name), useValue: syncJobModel },
+        { provide: SyncLockService, useValue: syncLockService },
+        { provide: MetadataService, useValue: metadataService },
+        { provide: SourceRegistryService, useValue: sourceRegistry },
+      ],
+    }).compile();
+    service = module.get<SyncJobService>(SyncJobService);
+  });
+
+  describe('startJob', () => {
+    it('should run the sync in the background and record its outcome', async () => {
+      const { job, completion } = await service.startJob({ mode: 'full' });
+
+      expect(job.status).toBe('queued');
+      expect(job.mode).toBe('full');
+      await expect(completion).resolves.toEqual(
+        expect.objectContaining({ success: true }),
+      );
+      expect(metadataService.syncMetadata).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mode: 'full',
+          signal: expect.any(AbortSignal),
+        }),
+      );
+      expect(syncJobModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: job.id },
+        {
+          $set: expect.objectContaining({
+            status: 'succeeded',
+            finishedAt: expect.any(Date),
+          }),
+        },
+      );
+      expect(syncLockService.release).toHaveBeenCalledWith(job.id);
+    });
+
+    it('should run a scoped job as a full sync of its scope by default', async () => {
+      const scope = { database: 'ANALYTICS', schema: 'PUBLIC' };
+
+      const { job, completion } = await service.startJob({ scope });
+      await completion;
+
+      expect(job.mode).toBe('full');
+      expect(job.scope).toEqual(scope);
+      expect(metadataService.syncMetadata).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'full', scope }),
+      );
+    });
+
+    it('should refuse to start while another job holds the lock', async () => {
+      syncLockService.acquire.mockResolvedValue({
+        acquired: false,
+        holder: 'other-job',
+      });
+
+      await expect(service.startJob()).rejects.toThrow(
+        'already running (job other-job)',
+      );
+      expect(syncJobModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown sources before taking the lock', async () => {
+      sourceRegistry.get.mockImplementation(() => {
+        throw new Error('Unknown source "postgres"');
+      });
+
+      await expect(service.startJob({ source: 'postgres' })).rejects.toThrow(
+        'Unknown source',
+      );
+      expect(syncLockService.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should mark the job of an expired lease as failed', async () => {
+      syncLockService.acquire.mockResolvedValue({
+        acquired: true,
+        previousOwner: 'crashed-job',
+      });
+
+      const { completion } = await service.startJob();
+      await completion;
+
+      expect(syncJobModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'crashed-job', status: { $in: ['queued', 'running'] } },
+        { $set: { status: 'failed', finishedAt: expect.any(Date) } },
+      );
+    });
+
+    it('should report live progress for a running job', async () => {
+      let finishSync: (value: any) => void = () => undefined;
+      metadataService.syncMetadata.mockImplementation(({ onProgress }) => {
+        onProgress({
+          phase: 'writing',
+          databasesTotal: 2,
+          databasesDone: 2,
+          tablesFound: 10,
+          tablesProcessed: 5,
+        });
+        return new Promise((resolve) => (finishSync = resolve));
+      });
+
+      const { job, completion } = await service.startJob();
+      await new Promise(process.nextTick);
+      syncJobModel.findById.mockReturnValue(
+        mockExec(jobDocument({ id: job.id, status: 'running' })),
+      );
+
+      const running = await service.getJob(job.id);
+      finishSync({ success: true });
+      await completion;
+
+      expect(running.progress).toEqual(
+        expect.objectContaining({ phase: 'writing', tablesProcessed: 5 }),
+      );
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should abort a job running on this instance', async () => {
+      let signal: AbortSignal | undefined;
+      metadataService.syncMetadata.mockImplementation(async (options) => {
+        signal = options.signal;
+        await new Promise((resolve) =>
+          options.signal.addEventListener('abort', resolve),
+        );
+        return {
+          success: false,
+          message: 'Metadata sync cancelled',
+          stats: {},
+        };
+      });
+
+      const { job, completion } = await service.startJob();
+      await new Promise(process.nextTick);
+      syncJobModel.findById.mockReturnValue(
+        mockExec(jobDocument({ id: job.id, status: 'running' })),
+      );
+      syncJobModel.findByIdAndUpdate.mockReturnValue(
+        mockExec(
+          jobDocument({ id: job.id, status: 'running', cancelRequested: true }),
+        ),
+      );
+
+      const cancelled = await service.cancelJob(job.id);
+      await completion;
+
+      expect(cancelled.cancelRequested).toBe(true);
+      expect(signal?.aborted).toBe(true);
+      expect(syncJobModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: job.id },
+        { $set: expect.objectContaining({ status: 'cancelled' }) },
+      );
+    });
+
+    it('should refuse to cancel a finished job', async () => {
+      syncJobModel.findById.mockReturnValue(
+        mockExec(jobDocument({ status: 'succeeded' })),
+      );
+
+      await expect(service.cancelJob(jobId)).rejects.toThrow(
+        'already finished (succeeded)',
+      );
+      expect(syncJobModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should throw for unknown or malformed job ids', async () => {
+      syncJobModel.findById.mockReturnValue(mockExec(null));
+
+      await expect(service.getJob(jobId)).rejects.toThrow(
+        `Sync job ${jobId} not found`,
+      );
+      await expect(service.getJob('not-an-id')).rejects.toThrow(
+        'Sync job not-an-id not found',
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { SyncLockService } from '../services/sync-lock.service';
+import { SyncLock } from '../schemas/sync-lock.schema';
+
+describe('SyncLockService', () => {
+  let service: SyncLockService;
+  let syncLockModel: any;
+
+  const mockExec = (result: any) => ({
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    syncLockModel = {
+      findOneAndUpdate: jest.fn(),
+      findOne: jest.fn(),
+      updateOne: jest.fn(),
+      deleteOne: jest.fn().mockReturnValue(mockExec({ deletedCount: 1 })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncLockService,
+        { provide: getModelToken(SyncLock.name), useValue: syncLockModel },
+      ],
+    }).compile();
+    service = module.get<SyncLockService>(SyncLockService);
+  });
+
+  it('should acquire a free lock with a lease', async () => {
+    syncLockModel.findOneAndUpdate.mockReturnValue(mockExec(null));
+
+    const result = await service.acquire('job-1');
+
+    expect(result).toEqual({ acquired: true, previousOwner: undefined });
+    const [filter, update, options] =
+      syncLockModel.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({
+      _id: 'metadata-sync',
+      expiresAt: { $lte: expect.any(Date) },
+    });
+    expect(update.$set.owner).toBe('job-1');
+    expect(update.$set.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(options).toEqual({ upsert: true, new: false });
+  });
+
+  it('should report the previous owner when taking over an expired lease', async () => {
+    syncLockModel.findOneAndUpdate.mockReturnValue(
+      mockExec({ owner: 'job-0', instanceId: 'host:1' }),
+    );
+
+    await expect(service.acquire('job-1')).resolves.toEqual({
+      acquired: true,
+      previousOwner: 'job-0',
+    });
+  });
+
+  it('should not acquire a lock held by another job', async () => {
+    syncLockModel.findOneAndUpdate.mockReturnValue({
+      exec: jest
+        .fn()
+        .mockRejectedValue(
+          Object.assign(new Error('E11000 duplicate key'), { code: 11000 }),
+        ),
+    });
+    syncLockModel.findOne.mockReturnValue(mockExec({ owner: 'job-0' }));
+
+    await expect(service.acquire('job-1')).resolves.toEqual({
+      acquired: false,
+      holder: 'job-0',
+    });
+  });
+
+  it('should rethrow unexpected errors', async () => {
+    syncLockModel.findOneAndUpdate.mockReturnValue({
+      exec: jest.fn().mockRejectedValue(new Error('connection lost')),
+    });
+
+    await expect(service.acquire('job-1')).rejects.toThrow('connection lost');
+  });
+
+  it('should only renew and release a lock it owns', async () => {
+    syncLockModel.updateOne.mockReturnValue(mockExec({ matchedCount: 0 }));
+
+    await expect(service.renew('job-1')).resolves.toBe(false);
+    await service.release('job-1');
+
+    expect(syncLockModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'metadata-sync', owner: 'job-1' },
+      { $set: { expiresAt: expect.any(Date) } },
+    );
+    expect(syncLockModel.deleteOne).toHaveBeenCalledWith({
+      _id: 'metadata-sync',
+      owner: 'job-1',
+    });
+  });
+});
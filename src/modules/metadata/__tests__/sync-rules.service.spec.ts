@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SyncRulesService } from '../services/sync-rules.service';
+import { SyncRule } from '../schemas/sync-rule.schema';
+
+describe('SyncRulesService', () => {
+  let service: SyncRulesService;
+  let syncRuleModel: any;
+
+  const mockExec = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const rule = (
+    action: string,
+    level: string,
+    pattern: string,
+    syntax = 'glob',
+  ) => ({
+    id: new Types.ObjectId().toString(),
+    action,
+    level,
+    pattern,
+    syntax,
+    createdAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    syncRuleModel = {
+      find: jest.fn().mockReturnValue(mockExec([])),
+      create: jest.fn().mockImplementation(async (doc) => ({
+        ...doc,
+        id: 'rule-1',
+        createdAt: new Date(),
+      })),
+      findByIdAndDelete: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncRulesService,
+        { provide: getModelToken(SyncRule.name), useValue: syncRuleModel },
+      ],
+    }).compile();
+    service = module.get<SyncRulesService>(SyncRulesService);
+  });
+
+  describe('createRule', () => {
+    it('should store a trimmed glob rule by default', async () => {
+      const created = await service.createRule({
+        action: 'exclude',
+        level: 'database',
+        pattern: ' SANDBOX_* ',
+      });
+
+      expect(syncRuleModel.create).toHaveBeenCalledWith({
+        action: 'exclude',
+        level: 'database',
+        pattern: 'SANDBOX_*',
+        syntax: 'glob',
+      });
+      expect(created.id).toBe('rule-1');
+    });
+
+    it('should reject invalid regular expressions and unknown levels', async () => {
+      await expect(
+        service.createRule({
+          action: 'exclude',
+          level: 'table',
+          pattern: '(unclosed',
+          syntax: 'regex',
+        }),
+      ).rejects.toThrow('Invalid regular expression');
+      await expect(
+        service.createRule({
+          action: 'exclude',
+          level: 'column' as any,
+          pattern: 'X',
+        }),
+      ).rejects.toThrow('level must be database, schema or table');
+      expect(syncRuleModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should throw when deleting an unknown rule', async () => {
+    syncRuleModel.findByIdAndDelete.mockReturnValue(mockExec(null));
+
+    await expect(
+      service.deleteRule(new Types.ObjectId().toString()),
+    ).rejects.toThrow('not found');
+    await expect(service.deleteRule('bogus')).rejects.toThrow(
+      'Sync rule bogus not found',
+    );
+  });
+
+  describe('buildFilter', () => {
+    it('should let exclude rules win over include rules', async () => {
+      syncRuleModel.find.mockReturnValue(
+        mockExec([
+          rule('include', 'database', 'PROD_*'),
+          rule('exclude', 'database', 'PROD_SCRATCH'),
+          rule('exclude', 'schema', '*.TMP_*'),
+          rule('exclude', 'table', '_BACKUP$', 'regex'),
+        ]),
+      );
+
+      const filter = await service.buildFilter();
+
+      expect(filter.allowsDatabase('PROD_SALES')).toBe(true);
+      expect(filter.allowsDatabase('prod_scratch')).toBe(false);
+      expect(filter.allowsDatabase('SANDBOX')).toBe(false);
+      expect(filter.allowsSchema('PROD_SALES', 'TMP_LOAD')).toBe(false);
+      expect(
+        filter.allowsTable({
+          database: 'PROD_SALES',
+          schema: 'PUBLIC',
+          table: 'ORDERS_BACKUP',
+        }),
+      ).toBe(false);
+      expect(
+        filter.allowsTable({
+          database: 'PROD_SALES',
+          schema: 'PUBLIC',
+          table: 'ORDERS',
+        }),
+      ).toBe(true);
+    });
+
+    it('should limit a filter to its scope, ignoring case', async () => {
+      const filter = await service.buildFilter({
+        database: 'analytics',
+        schema: 'public',
+      });
+
+      expect(filter.isScoped).toBe(true);
+      expect(filter.describeScope()).toBe('analytics.public');
+      expect(
+        filter.allowsTable({
+          database: 'ANALYTICS',
+          schema: 'PUBLIC',
+          table: 'USERS',
+        }),
+      ).toBe(true);
+      expect(
+        filter.allowsTable({
+          database: 'ANALYTICS',
+          schema: 'STAGING',
+          table: 'USERS',
+        }),
+      ).toBe(false);
+      expect(filter.allowsDatabase('SALES')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ConflictException } from '@nestjs/common';
+import { SyncSchedulerService } from '../services/sync-scheduler.service';
+import { SyncSchedule } from '../schemas/sync-schedule.schema';
+import { SyncJobService } from '../services/sync-job.service';
+
+describe('SyncSchedulerService', () => {
+  let service: SyncSchedulerService;
+  let syncScheduleModel: any;
+  let syncJobService: any;
+  let schedulerRegistry: SchedulerRegistry;
+
+  const incremental = {
+    name: 'incremental',
+    mode: 'incremental',
+    cron: '0 * * * *',
+    timezone: 'UTC',
+    enabled: true,
+    lastRunAt: null,
+    lastRunSuccess: null,
+  };
+
+  const mockExec = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    syncScheduleModel = {
+      updateOne: jest.fn().mockResolvedValue({}),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+    };
+    syncJobService = {
+      startJob: jest.fn().mockResolvedValue({
+        job: { id: 'job-1' },
+        completion: Promise.resolve({ success: true }),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncSchedulerService,
+        SchedulerRegistry,
+        {
+          provide: getModelToken(SyncSchedule.name),
+          useValue: syncScheduleModel,
+        },
+        { provide: SyncJobService, useValue: syncJobService },
+      ],
+    }).compile();
+    service = module.get<SyncSchedulerService>(SyncSchedulerService);
+    schedulerRegistry = module.get<SchedulerRegistry>(SchedulerRegistry);
+  });
+
+  afterEach(() => {
+    schedulerRegistry.getCronJobs().forEach((job) => void job.stop());
+  });
+
+  it('should seed default schedules and register enabled ones', async () => {
+    syncScheduleModel.find.mockReturnValue(
+      mockExec([incremental, { ...incremental, name: 'full', enabled: false }]),
+    );
+
+    await service.loadSchedules();
+
+    expect(syncScheduleModel.updateOne).toHaveBeenCalledWith(
+      { name: 'full' },
+      { $setOnInsert: expect.objectContaining({ mode: 'full' }) },
+      { upsert: true },
+    );
+    expect(
+      schedulerRegistry.doesExist('cron', 'metadata-sync:incremental'),
+    ).toBe(true);
+    expect(schedulerRegistry.doesExist('cron', 'metadata-sync:full')).toBe(
+      false,
+    );
+  });
+
+  it('should report the next run of enabled schedules', async () => {
+    syncScheduleModel.find.mockReturnValue(mockExec([incremental]));
+    await service.loadSchedules();
+
+    const [schedule] = await service.getSchedules();
+
+    expect(schedule.nextRunAt).toBeInstanceOf(Date);
+    expect(schedule.nextRunAt!.getUTCMinutes()).toBe(0);
+  });
+
+  it('should pause a schedule by removing its job', async () => {
+    syncScheduleModel.find.mockReturnValue(mockExec([incremental]));
+    await service.loadSchedules();
+    syncScheduleModel.findOne.mockReturnValue(mockExec(incremental));
+    syncScheduleModel.findOneAndUpdate.mockReturnValue(
+      mockExec({ ...incremental, enabled: false }),
+    );
+
+    const result = await service.pauseSchedule('incremental');
+
+    expect(result.enabled).toBe(false);
+    expect(result.nextRunAt).toBeNull();
+    expect(
+      schedulerRegistry.doesExist('cron', 'metadata-sync:incremental'),
+    ).toBe(false);
+  });
+
+  it('should reject invalid cron expressions', async () => {
+    syncScheduleModel.findOne.mockReturnValue(mockExec(incremental));
+
+    await expect(
+      service.updateSchedule('incremental', { cron: 'every hour' }),
+    ).rejects.toThrow('Invalid cron schedule');
+    expect(syncScheduleModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should throw for unknown schedules', async () => {
+    syncScheduleModel.findOne.mockReturnValue(mockExec(null));
+
+    await expect(service.resumeSchedule('hourly')).rejects.toThrow(
+      'Sync schedule "hourly" not found',
+    );
+  });
+
+  it('should run the schedule mode as a scheduler-triggered sync', async () => {
+    syncScheduleModel.findOne.mockReturnValue(
+      mockExec({ ...incremental, name: 'full', mode: 'full' }),
+    );
+
+    await service.runScheduledSync('full');
+
+    expect(syncJobService.startJob).toHaveBeenCalledWith({
+      mode: 'full',
+      trigger: 'scheduler',
+    });
+    expect(syncScheduleModel.updateOne).toHaveBeenCalledWith(
+      { name: 'full' },
+      { $set: { lastRunAt: expect.any(Date), lastRunSuccess: true } },
+    );
+  });
+
+  it('should skip a tick while another sync holds the lock', async () => {
+    syncJobService.startJob.mockRejectedValue(
+      new ConflictException('A metadata sync is already running (job 1)'),
+    );
+    syncScheduleModel.findOne.mockReturnValue(mockExec(incremental));
+
+    await service.runScheduledSync('incremental');
+
+    expect(syncScheduleModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should not run a tick of a schedule paused on another instance', async () => {
+    syncScheduleModel.find.mockReturnValue(mockExec([incremental]));
+    await service.loadSchedules();
+    syncScheduleModel.findOne.mockReturnValue(
+      mockExec({ ...incremental, enabled: false }),
+    );
+
+    await schedulerRegistry
+      .getCronJob('metadata-sync:incremental')
+      .fireOnTick();
+
+    expect(syncJobService.startJob).not.toHaveBeenCalled();
+    expect(
+      schedulerRegistry.doesExist('cron', 'metadata-sync:incremental'),
+    ).toBe(false);
+  });
+
+  it('should re-register a job whose schedule was edited on another instance', async () => {
+    syncScheduleModel.find.mockReturnValue(mockExec([incremental]));
+    await service.loadSchedules();
+    syncScheduleModel.findOne.mockReturnValue(
+      mockExec({ ...incremental, cron: '30 2 * * *' }),
+    );
+
+    await schedulerRegistry
+      .getCronJob('metadata-sync:incremental')
+      .fireOnTick();
+
+    expect(syncJobService.startJob).not.toHaveBeenCalled();
+    const nextRun = schedulerRegistry
+      .getCronJob('metadata-sync:incremental')
+      .nextDate()
+      .toJSDate();
+    expect([nextRun.getUTCHours(), nextRun.getUTCMinutes()]).toEqual([2, 30]);
+  });
+});
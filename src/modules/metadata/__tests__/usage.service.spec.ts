@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UsageService } from '../services/usage.service';
+import { MongodbService } from '../services/mongodb.service';
+import { SourceConnector } from '../connectors/source-connector';
+
+describe('UsageService', () => {
+  let service: UsageService;
+  let mongodbService: {
+    saveTableUsage: jest.Mock;
+    findMostUsedTables: jest.Mock;
+    findUnusedTables: jest.Mock;
+  };
+
+  const usage = {
+    queryCount: 12,
+    distinctUsers: 3,
+    lastQueried: new Date('2024-03-01T00:00:00Z'),
+    windowDays: 90,
+    collectedAt: new Date('2024-03-02T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    mongodbService = {
+      saveTableUsage: jest.fn().mockResolvedValue(1),
+      findMostUsedTables: jest
+        .fn()
+        .mockResolvedValue([
+          { database: 'DB', schema: 'S', table: 'ORDERS', usage },
+        ]),
+      findUnusedTables: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: MongodbService, useValue: mongodbService },
+      ],
+    }).compile();
+    service = module.get<UsageService>(UsageService);
+  });
+
+  afterEach(() => {
+    delete process.env.USAGE_WINDOW_DAYS;
+    jest.useRealTimers();
+  });
+
+  describe('collect', () => {
+    it('should count queries over the configured window', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-31T00:00:00Z') });
+      process.env.USAGE_WINDOW_DAYS = '30';
+      const usages = [
+        {
+          database: 'DB',
+          schema: 'S',
+          table: 'ORDERS',
+          queryCount: 12,
+          distinctUsers: 3,
+          lastQueried: null,
+        },
+      ];
+      const connector: SourceConnector = {
+        name: 'snowflake',
+        type: 'snowflake',
+        getAllTables: jest.fn(),
+        getUsage: jest.fn().mockResolvedValue(usages),
+      };
+
+      await expect(service.collect(connector)).resolves.toBe(1);
+
+      expect(connector.getUsage).toHaveBeenCalledWith(
+        new Date('2024-03-01T00:00:00Z'),
+        undefined,
+      );
+      expect(mongodbService.saveTableUsage).toHaveBeenCalledWith(
+        'snowflake',
+        usages,
+        30,
+        new Date('2024-03-31T00:00:00Z'),
+      );
+    });
+
+    it('should skip sources without usage', async () => {
+      const connector: SourceConnector = {
+        name: 'local',
+        type: 'sqlite',
+        getAllTables: jest.fn(),
+      };
+      await expect(service.collect(connector)).resolves.toBeNull();
+      expect(mongodbService.saveTableUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should rank the most used tables with a bounded page', async () => {
+    const ranking = await service.getMostUsed({ database: 'DB', limit: 1000 });
+
+    expect(mongodbService.findMostUsedTables).toHaveBeenCalledWith({
+      database: 'DB',
+      limit: 500,
+      offset: 0,
+    });
+    expect(ranking).toEqual({
+      items: [
+        {
+          database: 'DB',
+          schema: 'S',
+          table: 'ORDERS',
+          objectType: 'base_table',
+          usage,
+        },
+      ],
+      limit: 500,
+      offset: 0,
+    });
+  });
+
+  it('should list tables unused since the cutoff', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-31T00:00:00Z') });
+
+    await service.getUnused({ offset: 50 });
+    await service.getUnused({}, 7);
+
+    expect(mongodbService.findUnusedTables).toHaveBeenNthCalledWith(
+      1,
+      { limit: 50, offset: 50 },
+      new Date('2024-01-01T00:00:00Z'),
+    );
+    expect(mongodbService.findUnusedTables).toHaveBeenNthCalledWith(
+      2,
+      { limit: 50, offset: 0 },
+      new Date('2024-03-24T00:00:00Z'),
+    );
+  });
+});
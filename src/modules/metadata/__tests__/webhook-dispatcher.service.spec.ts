@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Types } from 'mongoose';
+import {
+  WebhookDispatcherService,
+  signWebhookPayload,
+} from '../services/webhook-dispatcher.service';
+import { WebhookSubscription } from '../schemas/webhook-subscription.schema';
+import { WebhookDelivery } from '../schemas/webhook-delivery.schema';
+
+const SECRET = 'test-secret-0123456789';
+
+describe('WebhookDispatcherService', () => {
+  let service: WebhookDispatcherService;
+  let webhookDeliveryModel: any;
+  let webhookSubscriptionModel: any;
+  let server: Server;
+  let receiverUrl: string;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+  let receiverStatus: number;
+
+  // A local receiver standing in for a downstream pipeline
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = receiverStatus;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const delivery = (overrides: Record<string, any> = {}) => {
+    const _id = new Types.ObjectId();
+    return {
+      _id,
+      id: _id.toHexString(),
+      subscriptionId: new Types.ObjectId(),
+      attempts: 0,
+      payload: {
+        id: _id.toHexString(),
+        event: 'schema.changed',
+        source: 'snowflake',
+        occurredAt: '2026-01-01T00:00:00.000Z',
+        tables: [{ database: 'DB', schema: 'S', table: 'T' }],
+      },
+      ...overrides,
+    };
+  };
+
+  const mockQuery = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  // Dispatch claims the given delivery, then finds nothing else due
+  const dispatchOnce = async (claimed: any) => {
+    webhookDeliveryModel.findOneAndUpdate
+      .mockReturnValueOnce(mockQuery(claimed))
+      .mockReturnValue(mockQuery(null));
+    return await service.dispatch();
+  };
+
+  const lastUpdate = () =>
+    webhookDeliveryModel.updateOne.mock.calls.at(-1)[1].$set;
+
+  beforeEach(async () => {
+    received = [];
+    receiverStatus = 200;
+    webhookDeliveryModel = {
+      findOneAndUpdate: jest.fn().mockReturnValue(mockQuery(null)),
+      updateOne: jest.fn().mockReturnValue(mockQuery({})),
+    };
+    webhookSubscriptionModel = {
+      findById: jest
+        .fn()
+        .mockReturnValue(mockQuery({ url: receiverUrl, secret: SECRET })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatcherService,
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: webhookDeliveryModel,
+        },
+        {
+          provide: getModelToken(WebhookSubscription.name),
+          useValue: webhookSubscriptionModel,
+        },
+        { provide: SchedulerRegistry, useValue: { addInterval: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WebhookDispatcherService>(WebhookDispatcherService);
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    delete process.env.WEBHOOK_RETRY_BASE_SECONDS;
+  });
+
+  it('should post a signed payload and mark the delivery delivered', async () => {
+    const due = delivery();
+
+    expect(await dispatchOnce(due)).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(JSON.parse(body)).toEqual(due.payload);
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers['x-webhook-id']).toBe(due.id);
+    const timestamp = headers['x-webhook-timestamp'] as string;
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(60);
+    expect(headers['x-webhook-signature']).toBe(
+      signWebhookPayload(SECRET, timestamp, body),
+    );
+
+    expect(webhookDeliveryModel.updateOne.mock.calls[0][0]).toEqual({
+      _id: due._id,
+    });
+    expect(lastUpdate()).toMatchObject({
+      status: 'delivered',
+      attempts: 1,
+      nextAttemptAt: null,
+      lastStatusCode: 200,
+      lastError: null,
+      deliveredAt: expect.any(Date),
+    });
+  });
+
+  it('should retry a failed delivery with exponential backoff', async () => {
+    receiverStatus = 500;
+    process.env.WEBHOOK_RETRY_BASE_SECONDS = '10';
+    const before = Date.now();
+
+    await dispatchOnce(delivery({ attempts: 2 }));
+
+    const update = lastUpdate();
+    expect(update).toMatchObject({
+      status: 'retrying',
+      attempts: 3,
+      lastStatusCode: 500,
+      lastError: 'Receiver answered 500',
+    });
+    // Third attempt failed: 10s * 2^2
+    const delay = update.nextAttemptAt.getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(40 * 1000);
+    expect(delay).toBeLessThan(45 * 1000);
+  });
+
+  it('should dead-letter a delivery once its attempts run out', async () => {
+    receiverStatus = 503;
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+
+    await dispatchOnce(delivery({ attempts: 2 }));
+
+    expect(lastUpdate()).toMatchObject({
+      status: 'dead',
+      attempts: 3,
+      nextAttemptAt: null,
+      lastStatusCode: 503,
+    });
+  });
+
+  it('should record unreachable receivers as failed attempts', async () => {
+    webhookSubscriptionModel.findById.mockReturnValue(
+      mockQuery({ url: 'http://127.0.0.1:1/hook', secret: SECRET }),
+    );
+
+    await dispatchOnce(delivery());
+
+    expect(lastUpdate()).toMatchObject({
+      status: 'retrying',
+      attempts: 1,
+      lastStatusCode: null,
+      lastError: expect.stringContaining('fetch failed'),
+    });
+  });
+
+  it('should dead-letter deliveries of deleted subscriptions', async () => {
+    webhookSubscriptionModel.findById.mockReturnValue(mockQuery(null));
+
+    await dispatchOnce(delivery());
+
+    expect(received).toHaveLength(0);
+    expect(lastUpdate()).toMatchObject({
+      status: 'dead',
+      lastError: 'Subscription was deleted',
+    });
+  });
+
+  it('should only claim due deliveries', async () => {
+    expect(await service.dispatch()).toBe(0);
+
+    const [filter, update] =
+      webhookDeliveryModel.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({
+      status: { $in: ['pending', 'retrying'] },
+      nextAttemptAt: { $lte: expect.any(Date) },
+    });
+    // Claimed deliveries are not due again until the attempt should be over
+    expect(update.$set.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+});
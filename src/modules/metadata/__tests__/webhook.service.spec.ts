@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookDispatcherService } from '../services/webhook-dispatcher.service';
+import { WebhookSubscription } from '../schemas/webhook-subscription.schema';
+import { WebhookDelivery } from '../schemas/webhook-delivery.schema';
+import { TableChange } from '../services/mongodb.service';
+import { emptySchemaDiff } from '../utils/schema-diff';
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let webhookSubscriptionModel: any;
+  let webhookDeliveryModel: any;
+  let dispatcher: { requestDispatch: jest.Mock };
+
+  const mockQuery = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const subscription = (overrides: Record<string, any> = {}) => ({
+    _id: new Types.ObjectId(),
+    database: null,
+    schema: null,
+    changeTypes: [],
+    ...overrides,
+  });
+
+  const change = (overrides: Partial<TableChange> = {}): TableChange => ({
+    database: 'ANALYTICS',
+    schema: 'PUBLIC',
+    table: 'ORDERS',
+    changeType: 'updated',
+    version: 3,
+    checksum: 'abc',
+    columns: [],
+    objectType: 'base_table',
+    diff: {
+      ...emptySchemaDiff(),
+      added: [{ name: 'NOTE', type: 'TEXT', nullable: true }],
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    webhookSubscriptionModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      create: jest.fn(),
+      findByIdAndDelete: jest.fn(),
+    };
+    webhookDeliveryModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      countDocuments: jest.fn().mockReturnValue(mockQuery(0)),
+      insertMany: jest.fn().mockResolvedValue([]),
+      findById: jest.fn(),
+      findByIdAndUpdate: jest.fn(),
+    };
+    dispatcher = { requestDispatch: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: getModelToken(WebhookSubscription.name),
+          useValue: webhookSubscriptionModel,
+        },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: webhookDeliveryModel,
+        },
+        { provide: WebhookDispatcherService, useValue: dispatcher },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+  });
+
+  describe('createSubscription', () => {
+    beforeEach(() => {
+      webhookSubscriptionModel.create.mockImplementation((doc: any) => ({
+        ...doc,
+        id: 'sub-1',
+        createdAt: new Date('2026-01-01'),
+      }));
+    });
+
+    it('should generate a secret and return it once', async () => {
+      const result = await service.createSubscription({
+        url: 'https://hooks.example.com/schema',
+        database: ' ANALYTICS ',
+        changeTypes: ['created', 'created', 'deleted'],
+      });
+
+      expect(result.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(webhookSubscriptionModel.create).toHaveBeenCalledWith({
+        url: 'https://hooks.example.com/schema',
+        secret: result.secret,
+        database: 'ANALYTICS',
+        schema: null,
+        changeTypes: ['created', 'deleted'],
+      });
+      expect(result).toMatchObject({ id: 'sub-1', database: 'ANALYTICS' });
+    });
+
+    it('should reject invalid subscriptions', async () => {
+      await expect(
+        service.createSubscription({ url: 'ftp://example.com' }),
+      ).rejects.toThrow('url must be an http or https URL');
+      await expect(
+        service.createSubscription({ url: 'not a url' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createSubscription({
+          url: 'http://localhost',
+          secret: 'short',
+        }),
+      ).rejects.toThrow('secret must be at least 16 characters');
+      await expect(
+        service.createSubscription({
+          url: 'http://localhost',
+          changeTypes: ['renamed' as any],
+        }),
+      ).rejects.toThrow('changeTypes must be a list of');
+      expect(webhookSubscriptionModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should 404 when deleting an unknown subscription', async () => {
+    await expect(service.deleteSubscription('nope')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(webhookSubscriptionModel.findByIdAndDelete).not.toHaveBeenCalled();
+  });
+
+  describe('notifyChanges', () => {
+    it('should queue one delivery per matching subscription', async () => {
+      const all = subscription();
+      const marts = subscription({ schema: 'MART*' });
+      const drops = subscription({ changeTypes: ['deleted'] });
+      webhookSubscriptionModel.find.mockReturnValue(
+        mockQuery([all, marts, drops]),
+      );
+
+      const queued = await service.notifyChanges(
+        [
+          change(),
+          change({ schema: 'MARTS', table: 'DAILY', changeType: 'created' }),
+        ],
+        'snowflake',
+      );
+
+      expect(queued).toBe(2);
+      const [deliveries] = webhookDeliveryModel.insertMany.mock.calls[0];
+      expect(deliveries.map((d: any) => d.subscriptionId)).toEqual([
+        all._id,
+        marts._id,
+      ]);
+      expect(deliveries[0].payload.tables).toHaveLength(2);
+      expect(deliveries[1].payload.tables).toEqual([
+        {
+          database: 'ANALYTICS',
+          schema: 'MARTS',
+          table: 'DAILY',
+          changeType: 'created',
+          version: 3,
+          objectType: 'base_table',
+          diff: expect.any(Object),
+        },
+      ]);
+      expect(deliveries[0]).toMatchObject({
+        status: 'pending',
+        payload: { event: 'schema.changed', source: 'snowflake' },
+      });
+      expect(deliveries[0].payload.id).toBe(deliveries[0]._id.toHexString());
+      expect(dispatcher.requestDispatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should queue nothing when no subscription matches', async () => {
+      webhookSubscriptionModel.find.mockReturnValue(
+        mockQuery([subscription({ database: 'RAW' })]),
+      );
+
+      expect(await service.notifyChanges([change()], 'snowflake')).toBe(0);
+      expect(await service.notifyChanges([], 'snowflake')).toBe(0);
+      expect(webhookDeliveryModel.insertMany).not.toHaveBeenCalled();
+      expect(dispatcher.requestDispatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliveries', () => {
+    const delivery = {
+      id: 'd-1',
+      subscriptionId: new Types.ObjectId(),
+      status: 'dead',
+      attempts: 6,
+      payload: { tables: [{}, {}] },
+      nextAttemptAt: null,
+      lastAttemptAt: new Date(),
+      lastStatusCode: 500,
+      lastError: 'Receiver answered 500',
+      deliveredAt: null,
+      createdAt: new Date(),
+    };
+
+    it('should list deliveries without their payload', async () => {
+      webhookDeliveryModel.find.mockReturnValue(mockQuery([delivery]));
+      webhookDeliveryModel.countDocuments.mockReturnValue(mockQuery(1));
+      const subscriptionId = new Types.ObjectId().toHexString();
+
+      const page = await service.listDeliveries({
+        status: 'dead',
+        subscriptionId,
+        limit: 1000,
+      });
+
+      expect(webhookDeliveryModel.find).toHaveBeenCalledWith({
+        status: 'dead',
+        subscriptionId: new Types.ObjectId(subscriptionId),
+      });
+      expect(page).toMatchObject({ total: 1, limit: 500, offset: 0 });
+      expect(page.items[0]).toMatchObject({ id: 'd-1', tables: 2 });
+      expect(page.items[0]).not.toHaveProperty('payload');
+    });
+
+    it('should replay a delivery with fresh attempts', async () => {
+      const id = new Types.ObjectId().toHexString();
+      webhookDeliveryModel.findById.mockReturnValue(mockQuery(delivery));
+      webhookDeliveryModel.findByIdAndUpdate.mockReturnValue(
+        mockQuery({ ...delivery, status: 'pending', attempts: 0 }),
+      );
+
+      const result = await service.replayDelivery(id);
+
+      expect(result).toMatchObject({ status: 'pending', attempts: 0 });
+      const [, update] = webhookDeliveryModel.findByIdAndUpdate.mock.calls[0];
+      expect(update.$set).toMatchObject({ status: 'pending', attempts: 0 });
+      expect(dispatcher.requestDispatch).toHaveBeenCalled();
+    });
+
+    it('should 404 when replaying an unknown delivery', async () => {
+      webhookDeliveryModel.findById.mockReturnValue(mockQuery(null));
+
+      await expect(
+        service.replayDelivery(new Types.ObjectId().toHexString()),
+      ).rejects.toThrow(NotFoundException);
+      expect(dispatcher.requestDispatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import type { SyncFilter } from '../utils/sync-filter';
+import type { TableRef } from '../utils/table-ref';
+
+// Source of tables synced before sources were recorded
+export const DEFAULT_SOURCE = 'snowflake';
+
+export interface SourceColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  defaultValue?: string;
+  comment?: string;
+  // 1-based position in the table
+  ordinalPosition?: number;
+  // Characters of text and bytes of binary columns
+  maxLength?: number | null;
+  precision?: number | null;
+  scale?: number | null;
+  // AUTOINCREMENT / IDENTITY columns with their start and increment
+  identity?: boolean;
+  identityStart?: number | null;
+  identityIncrement?: number | null;
+  collation?: string | null;
+}
+
+export type ObjectType =
+  | 'base_table'
+  | 'transient_table'
+  | 'dynamic_table'
+  | 'external_table'
+  | 'view'
+  | 'materialized_view';
+
+export const OBJECT_TYPES: ObjectType[] = [
+  'base_table',
+  'transient_table',
+  'dynamic_table',
+  'external_table',
+  'view',
+  'materialized_view',
+];
+
+// Tables synced before object types were recorded are base tables
+export const DEFAULT_OBJECT_TYPE: ObjectType = 'base_table';
+
+/**
+ * Table-level properties as reported by the source. A property is undefined
+ * when the source does not report it and null when it is reported empty.
+ */
+export interface TableProperties {
+  owner?: string | null;
+  comment?: string | null;
+  rowCount?: number | null;
+  bytes?: number | null;
+  clusteringKey?: string | null;
+  // Time Travel retention in days
+  retentionTime?: number | null;
+  created?: Date | null;
+  lastAltered?: Date | null;
+}
+
+export const TABLE_PROPERTIES: (keyof TableProperties)[] = [
+  'owner',
+  'comment',
+  'rowCount',
+  'bytes',
+  'clusteringKey',
+  'retentionTime',
+  'created',
+  'lastAltered',
+];
+
+// Declared (not enforced) constraints, with columns in key order
+export interface KeyConstraint {
+  name: string;
+  columns: string[];
+}
+
+export interface ForeignKey extends KeyConstraint {
+  referencedDatabase: string;
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+/**
+ * Constraints of a table. Undefined when the source does not report them;
+ * null and empty when it reports none.
+ */
+export interface TableConstraints {
+  primaryKey?: KeyConstraint | null;
+  uniqueKeys?: KeyConstraint[];
+  foreignKeys?: ForeignKey[];
+}
+
+export const TABLE_CONSTRAINTS: (keyof TableConstraints)[] = [
+  'primaryKey',
+  'uniqueKeys',
+  'foreignKeys',
+];
+
+// Object tag set on a table or one of its columns
+export interface TagAssignment {
+  // Null for tags set on the table itself
+  column: string | null;
+  // Fully-qualified tag name, e.g. GOVERNANCE.TAGS.PII
+  tag: string;
+  value: string;
+}
+
+// Policy attached to a table or one of its columns
+export interface PolicyReference {
+  // Null for policies on the table itself (row access, aggregation)
+  column: string | null;
+  // Fully-qualified policy name
+  policy: string;
+  // Lower-case policy kind, e.g. masking_policy or row_access_policy
+  kind: string;
+  // Columns passed to the policy besides the protected column
+  argumentColumns: string[];
+}
+
+export const ROW_ACCESS_POLICY = 'row_access_policy';
+
+/**
+ * Governance metadata of a table. Undefined when the source does not report
+ * it; empty when it reports none.
+ */
+export interface TableGovernance {
+  tags?: TagAssignment[];
+  policies?: PolicyReference[];
+}
+
+export const TABLE_GOVERNANCE: (keyof TableGovernance)[] = ['tags', 'policies'];
+
+export interface SourceTable
+  extends TableProperties,
+    TableConstraints,
+    TableGovernance {
+  database: string;
+  schema: string;
+  table: string;
+  columns: SourceColumn[];
+  objectType?: ObjectType;
+  // SQL of views and materialized views
+  definition?: string;
+  // Stage location of external tables
+  stageLocation?: string;
+}
+
+export interface ExtractionProgress {
+  databasesTotal: number;
+  databasesDone: number;
+  tablesFound: number;
+}
+
+export interface ExtractionOptions {
+  // Scope and include/exclude rules; everything is extracted when omitted
+  filter?: SyncFilter;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExtractionProgress) => void;
+}
+
+/**
+ * How a lineage edge was observed: `dependency` for objects that reference
+ * another in their definition (views), `access` for queries that read one
+ * table and wrote another.
+ */
+export type LineageKind = 'dependency' | 'access';
+
+export const LINEAGE_KINDS: LineageKind[] = ['dependency', 'access'];
+
+// Data of `upstream` flows into `downstream`
+export interface LineageEdge {
+  upstream: TableRef;
+  downstream: TableRef;
+  kind: LineageKind;
+  // First and last query seen for `access` edges
+  firstSeen?: Date;
+  lastSeen?: Date;
+}
+
+/**
+ * Lineage read from a source. `dependencies` is a snapshot replacing the
+ * stored one; `accesses` covers queries since the requested time. Either is
+ * undefined when the source could not report it.
+ */
+export interface LineageExtraction {
+  dependencies?: LineageEdge[];
+  accesses?: LineageEdge[];
+}
+
+// Queries of one table over a window of query history
+export interface TableUsage extends TableRef {
+  queryCount: number;
+  distinctUsers: number;
+  lastQueried: Date | null;
+}
+
+/**
+ * How the profiled rows were picked: the whole table, a block sample sized
+ * from the table's row count, or the first rows returned (views).
+ */
+export type ProfileSampling = 'full' | 'system' | 'limit';
+
+export interface ProfileOptions {
+  // Upper bound of rows read
+  sampleRows: number;
+  // Statement timeout of the profiling queries
+  timeoutSeconds: number;
+  // Most frequent values reported per low-cardinality column
+  topValues: number;
+  // Columns with at most this many distinct values get top values
+  lowCardinality: number;
+}
+
+export interface ValueFrequency {
+  // Rendered as text; null for NULL
+  value: string | null;
+  count: number;
+}
+
+// Statistics of one column over the sampled rows
+export interface ColumnProfile {
+  column: string;
+  nullCount: number;
+  nullPercent: number;
+  // Approximate; null for types that cannot be counted (semi-structured, spatial)
+  distinctCount: number | null;
+  // Rendered as text; null for types without an order or when all values are NULL
+  min: string | null;
+  max: string | null;
+  // Null unless the column is low-cardinality
+  topValues: ValueFrequency[] | null;
+}
+
+export interface TableProfileResult {
+  sampling: ProfileSampling;
+  rowsSampled: number;
+  columns: ColumnProfile[];
+}
+
+/**
+ * A catalog the sync pipeline can read tables from. `name` identifies the
+ * source in sync requests and is stored on every synced table.
+ */
+export interface SourceConnector {
+  readonly name: string;
+  readonly type: string;
+
+  /**
+   * Read tables with their columns. With `lastSyncTime` a connector may
+   * return only tables changed since then; connectors that cannot tell
+   * return everything and rely on checksums to skip unchanged tables.
+   */
+  getAllTables(
+    lastSyncTime?: Date,
+    options?: ExtractionOptions,
+  ): Promise<SourceTable[]>;
+
+  /**
+   * Read table-level lineage, with accesses since `since`. Optional; sources
+   * without lineage do not implement it.
+   */
+  getLineage?(since: Date, signal?: AbortSignal): Promise<LineageExtraction>;
+
+  /**
+   * Count queries per table since `since`; tables without queries may be
+   * left out. Optional, like `getLineage`.
+   */
+  getUsage?(since: Date, signal?: AbortSignal): Promise<TableUsage[]>;
+
+  /**
+   * Compute statistics of the given columns over a bounded sample of the
+   * table's rows. Optional; sources that cannot run queries do not
+   * implement it.
+   */
+  profileTable?(
+    table: SourceTable,
+    options: ProfileOptions,
+  ): Promise<TableProfileResult>;
+}
@@ -0,0 +1,113 @@
+import { Logger } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import {
+  ExtractionOptions,
+  SourceColumn,
+  SourceConnector,
+  SourceTable,
+} from './source-connector';
+
+// SQLite files only have the `main` schema (attached databases are per connection)
+const SQLITE_SCHEMA = 'main';
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+/**
+ * Reads a local SQLite file through `sqlite_master` and `PRAGMA table_info`.
+ * The connector's name is used as the database name of its tables. SQLite
+ * keeps no DDL timestamps, so every sync reads the whole file.
+ */
+export class SqliteConnector implements SourceConnector {
+  readonly type = 'sqlite';
+  private readonly logger: Logger;
+
+  constructor(
+    readonly name: string,
+    private readonly path: string,
+  ) {
+    this.logger = new Logger(`${SqliteConnector.name}:${name}`);
+  }
+
+  async getAllTables(
+    lastSyncTime?: Date,
+    options: ExtractionOptions = {},
+  ): Promise<SourceTable[]> {
+    this.logger.log(
+      `Reading ${this.path}${lastSyncTime ? ' (no change tracking, reading all tables)' : ''}`,
+    );
+    options.onProgress?.({
+      databasesTotal: 1,
+      databasesDone: 0,
+      tablesFound: 0,
+    });
+
+    const SQL = await (sqlJs ??= initSqlJs());
+    const db = new SQL.Database(await readFile(this.path));
+    try {
+      const tables: SourceTable[] = [];
+      for (const object of this.listTables(db)) {
+        options.signal?.throwIfAborted();
+        const ref = {
+          database: this.name,
+          schema: SQLITE_SCHEMA,
+          table: object.name,
+        };
+        if (options.filter && !options.filter.allowsTable(ref)) continue;
+
+        tables.push({
+          ...ref,
+          objectType: object.type === 'view' ? 'view' : 'base_table',
+          ...(object.type === 'view' &&
+            object.sql && { definition: object.sql }),
+          columns: this.getColumns(db, object.name),
+        });
+      }
+
+      options.onProgress?.({
+        databasesTotal: 1,
+        databasesDone: 1,
+        tablesFound: tables.length,
+      });
+      this.logger.log(`Found ${tables.length} tables`);
+      return tables;
+    } finally {
+      db.close();
+    }
+  }
+
+  private listTables(
+    db: Database,
+  ): Array<{ name: string; type: string; sql: string | null }> {
+    const [result] = db.exec(
+      `SELECT name, type, sql FROM sqlite_master
+       WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+       ORDER BY name`,
+    );
+    return (result?.values ?? []).map(([name, type, sql]) => ({
+      name: String(name),
+      type: String(type),
+      sql: sql === null ? null : String(sql),
+    }));
+  }
+
+  private getColumns(db: Database, table: string): SourceColumn[] {
+    const [result] = db.exec(
+      `PRAGMA ${SQLITE_SCHEMA}.table_info("${table.replace(/"/g, '""')}")`,
+    );
+    if (!result) return [];
+
+    const index = (column: string) => result.columns.indexOf(column);
+    return result.values.map((row) => {
+      const defaultValue = row[index('dflt_value')];
+      return {
+        name: String(row[index('name')]),
+        // Columns declared without a type accept any value
+        type: String(row[index('type')] || 'ANY').toUpperCase(),
+        nullable: Number(row[index('notnull')]) === 0,
+        ...(defaultValue !== null && { defaultValue: String(defaultValue) }),
+        ordinalPosition: Number(row[index('cid')]) + 1,
+      };
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { Metadata } from '../schemas/metadata.schema';
+import type { SourceColumn } from '../connectors/source-connector';
+
+export type OrphanReason = 'column_dropped' | 'table_dropped';
+
+export const ORPHAN_REASONS: OrphanReason[] = [
+  'column_dropped',
+  'table_dropped',
+];
+
+// Only the given fields change; null clears a text field
+export class UpdateAnnotationDto {
+  description?: string | null;
+  owner?: string | null;
+  tags?: string[];
+  certified?: boolean;
+  // Steward making the change
+  updatedBy?: string | null;
+}
+
+export class ReattachAnnotationDto {
+  column: string;
+}
+
+export class AnnotationQueryDto {
+  orphaned?: boolean;
+  certified?: boolean;
+  owner?: string;
+  tag?: string;
+  database?: string;
+  schema?: string;
+  table?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class AnnotationDto {
+  id: string;
+  database: string;
+  schema: string;
+  table: string;
+  // Null for an annotation of the whole table
+  column: string | null;
+  description: string | null;
+  owner: string | null;
+  tags: string[];
+  certified: boolean;
+  updatedBy: string | null;
+  // Set when the annotated column or table no longer exists
+  orphaned: boolean;
+  orphanReason: OrphanReason | null;
+  orphanedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class AnnotationPageDto {
+  items: AnnotationDto[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export type AnnotatedColumnDto = SourceColumn & {
+  annotation: AnnotationDto | null;
+};
+
+// A cataloged table with the annotations stewards added to it
+export type AnnotatedTableDto = Omit<Metadata, 'columns'> & {
+  columns: AnnotatedColumnDto[];
+  annotation: AnnotationDto | null;
+  // Annotations of columns the table no longer has
+  orphanedAnnotations: AnnotationDto[];
+};
+
+export class AnnotationReconcileResultDto {
+  orphaned: number;
+  restored: number;
+}
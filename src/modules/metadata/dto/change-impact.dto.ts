@@ -0,0 +1,32 @@
+import type { TableChange } from '../services/mongodb.service';
+import type { ChangeImpact, SchemaChangeImpact } from '../utils/change-impact';
+
+export class BreakingChangeQueryDto {
+  since?: Date;
+  until?: Date;
+  database?: string;
+  schema?: string;
+  table?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// One synced table change with the impact of each of its parts
+export class SchemaChangeDto {
+  database: string;
+  schema: string;
+  table: string;
+  changeType: TableChange['changeType'];
+  version: number;
+  impact: ChangeImpact;
+  changes: SchemaChangeImpact[];
+  source: string;
+  detectedAt: Date;
+}
+
+export class SchemaChangePageDto {
+  items: SchemaChangeDto[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,58 @@
+import type { ClassificationSignal } from '../utils/classification';
+
+export type ClassificationStatus = 'pending' | 'accepted' | 'rejected';
+
+export const CLASSIFICATION_STATUSES: ClassificationStatus[] = [
+  'pending',
+  'accepted',
+  'rejected',
+];
+
+export class ClassificationQueryDto {
+  status?: ClassificationStatus;
+  label?: string;
+  database?: string;
+  schema?: string;
+  table?: string;
+  minConfidence?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export class ReviewClassificationDto {
+  status: ClassificationStatus;
+  reviewer?: string;
+  note?: string;
+}
+
+export class ColumnClassificationDto {
+  id: string;
+  database: string;
+  schema: string;
+  table: string;
+  column: string;
+  label: string;
+  confidence: number;
+  signals: ClassificationSignal[];
+  status: ClassificationStatus;
+  source: string;
+  // Last sync that flagged the column
+  detectedAt: Date;
+  reviewedAt: Date | null;
+  reviewer: string | null;
+  note: string | null;
+}
+
+export class ClassificationPageDto {
+  items: ColumnClassificationDto[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export class ClassificationRunResultDto {
+  // Column labels flagged by the run, including already reviewed ones
+  detected: number;
+  // Pending labels dropped because their column no longer matches
+  withdrawn: number;
+}
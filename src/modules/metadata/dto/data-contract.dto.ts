@@ -0,0 +1,78 @@
+import type { ContractColumn, ContractViolation } from '../utils/data-contract';
+
+// `pending` until the contract was first validated
+export type ContractStatus = 'pass' | 'fail' | 'pending';
+
+export const CONTRACT_STATUSES: ContractStatus[] = ['pass', 'fail', 'pending'];
+
+export class CreateDataContractDto {
+  database: string;
+  schema: string;
+  table: string;
+  columns: ContractColumn[];
+  // Defaults to true; when false, columns the contract does not list are violations
+  allowExtraColumns?: boolean;
+  active?: boolean;
+  owner?: string;
+  description?: string;
+}
+
+export class UpdateDataContractDto {
+  columns?: ContractColumn[];
+  allowExtraColumns?: boolean;
+  active?: boolean;
+  owner?: string | null;
+  description?: string | null;
+}
+
+export class DataContractQueryDto {
+  status?: ContractStatus;
+  active?: boolean;
+}
+
+export class DataContractDto {
+  id: string;
+  database: string;
+  schema: string;
+  table: string;
+  columns: ContractColumn[];
+  allowExtraColumns: boolean;
+  active: boolean;
+  owner: string | null;
+  description: string | null;
+  // Outcome of the latest validation
+  status: ContractStatus;
+  violations: ContractViolation[];
+  checkedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class ContractResultDto {
+  id: string;
+  contractId: string;
+  status: Exclude<ContractStatus, 'pending'>;
+  violations: ContractViolation[];
+  checkedAt: Date;
+}
+
+export class ContractResultPageDto {
+  items: ContractResultDto[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Active contracts only
+export class ContractStatusDto {
+  total: number;
+  passing: number;
+  failing: number;
+  pending: number;
+  broken: DataContractDto[];
+}
+
+export class ContractValidationDto {
+  validated: number;
+  failed: number;
+}
@@ -0,0 +1,44 @@
+export class DdlImportOptionsDto {
+  // Database and schema of unqualified names until the DDL sets its own
+  database?: string;
+  schema?: string;
+  // Source the imported tables are recorded under
+  source?: string;
+}
+
+export class DdlDirectoryImportDto extends DdlImportOptionsDto {
+  // Directory below DDL_IMPORT_ROOT to read *.sql files from, recursively
+  path: string;
+}
+
+export class DdlImportErrorDto {
+  file: string;
+  statement: number;
+  line: number;
+  message: string;
+  excerpt: string;
+}
+
+// A table that was not imported because another source has it
+export class DdlImportConflictDto {
+  database: string;
+  schema: string;
+  table: string;
+  owner: string;
+}
+
+export class DdlImportResponseDto {
+  success: boolean;
+  source: string;
+  files: number;
+  statements: number;
+  tables: number;
+  skippedStatements: number;
+  newTables: number;
+  updatedTables: number;
+  skippedTables: number;
+  // Changes classified as breaking, listed by GET changes/breaking
+  breakingChanges: number;
+  errors: DdlImportErrorDto[];
+  conflicts: DdlImportConflictDto[];
+}
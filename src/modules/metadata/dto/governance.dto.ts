@@ -0,0 +1,17 @@
+import type { TagFilter } from '../utils/governance';
+
+export class TaggedColumnQueryDto {
+  tag: TagFilter;
+  database?: string;
+  schema?: string;
+}
+
+// A column carrying a matching tag
+export class TaggedColumnDto {
+  database: string;
+  schema: string;
+  table: string;
+  column: string;
+  tag: string;
+  value: string;
+}
@@ -0,0 +1,36 @@
+import type { LineageKind } from '../connectors/source-connector';
+
+export type LineageDirection = 'upstream' | 'downstream';
+
+export class LineageNodeDto {
+  id: string;
+  database: string;
+  schema: string;
+  table: string;
+  // Number of edges from the requested table
+  distance: number;
+}
+
+export class LineageEdgeDto {
+  // Fully-qualified names; data flows from `from` to `to`
+  from: string;
+  to: string;
+  kinds: LineageKind[];
+  lastSeen: Date;
+}
+
+export class LineageGraphDto {
+  table: string;
+  direction: LineageDirection;
+  depth: number;
+  nodes: LineageNodeDto[];
+  edges: LineageEdgeDto[];
+  // True when edges continue past `depth`
+  truncated: boolean;
+}
+
+export class LineageIngestResultDto {
+  // Null when the source could not report them
+  dependencies: number | null;
+  accesses: number | null;
+}
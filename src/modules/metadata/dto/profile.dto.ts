@@ -0,0 +1,13 @@
+import type { TableProfile } from '../schemas/metadata.schema';
+
+export class ProfileRequestDto {
+  // Defaults to PROFILE_SAMPLE_ROWS, capped by PROFILE_MAX_SAMPLE_ROWS
+  sampleRows?: number;
+}
+
+export class TableProfileDto {
+  database: string;
+  schema: string;
+  table: string;
+  profile: TableProfile;
+}
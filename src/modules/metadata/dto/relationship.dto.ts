@@ -0,0 +1,39 @@
+import type { KeyConstraint, ObjectType } from '../connectors/source-connector';
+
+// One foreign key, from the referencing table to the referenced one
+export class RelationshipDto {
+  name: string;
+  fromTable: string;
+  fromColumns: string[];
+  toTable: string;
+  toColumns: string[];
+}
+
+export class TableRelationshipsDto {
+  table: string;
+  primaryKey: KeyConstraint | null;
+  uniqueKeys: KeyConstraint[];
+  // Foreign keys declared on the table
+  outbound: RelationshipDto[];
+  // Foreign keys of other tables referencing the table
+  inbound: RelationshipDto[];
+}
+
+export class SchemaGraphNodeDto {
+  id: string;
+  database: string;
+  schema: string;
+  table: string;
+  // Null for referenced tables outside the schema or not in the catalog
+  objectType: ObjectType | null;
+  primaryKey: string[];
+  // Referenced by a table of the schema but not part of it
+  external: boolean;
+}
+
+export class SchemaGraphDto {
+  database: string;
+  schema: string;
+  nodes: SchemaGraphNodeDto[];
+  edges: RelationshipDto[];
+}
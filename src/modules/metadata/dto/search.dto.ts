@@ -0,0 +1,37 @@
+import type { ObjectType } from '../connectors/source-connector';
+
+export type SearchHitKind = 'table' | 'column';
+
+export class SearchQueryDto {
+  q: string;
+  database?: string;
+  schema?: string;
+  types?: string[];
+  objectTypes?: ObjectType[];
+  kind?: SearchHitKind;
+  limit?: number;
+  offset?: number;
+}
+
+export class SearchHighlightDto {
+  field: 'table' | 'column' | 'comment';
+  value: string;
+}
+
+export class SearchHitDto {
+  kind: SearchHitKind;
+  database: string;
+  schema: string;
+  table: string;
+  column?: string;
+  dataType?: string;
+  comment?: string;
+  score: number;
+  highlights: SearchHighlightDto[];
+}
+
+export class SearchResponseDto {
+  query: string;
+  total: number;
+  hits: SearchHitDto[];
+}
@@ -0,0 +1,39 @@
+import { SyncMode, SyncResponseDto, SyncTrigger } from './sync-response.dto';
+import { SyncScopeDto } from './sync-request.dto';
+
+export type SyncJobStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export type SyncPhase =
+  | 'queued'
+  | 'extracting'
+  | 'writing'
+  | 'reconciling'
+  | 'done';
+
+export class SyncProgressDto {
+  phase: SyncPhase;
+  databasesTotal: number;
+  databasesDone: number;
+  tablesFound: number;
+  tablesProcessed: number;
+}
+
+export class SyncJobDto {
+  id: string;
+  status: SyncJobStatus;
+  mode: SyncMode;
+  trigger: SyncTrigger;
+  scope: SyncScopeDto | null;
+  source: string;
+  progress: SyncProgressDto;
+  cancelRequested: boolean;
+  result: SyncResponseDto | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
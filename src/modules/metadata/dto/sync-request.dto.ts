@@ -0,0 +1,17 @@
+import type { SyncMode } from './sync-response.dto';
+
+/**
+ * Limits a sync to one database, one schema or one table. A schema needs its
+ * database and a table needs its schema.
+ */
+export class SyncScopeDto {
+  database?: string;
+  schema?: string;
+  table?: string;
+}
+
+export class SyncRequestDto extends SyncScopeDto {
+  mode?: SyncMode;
+  // Name of a registered source connector, `snowflake` by default
+  source?: string;
+}
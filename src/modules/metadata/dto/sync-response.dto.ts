@@ -1,3 +1,10 @@
+import { SyncScopeDto } from './sync-request.dto';
+import { SchemaChangeDto } from './change-impact.dto';
+import { ContractValidationDto } from './data-contract.dto';
+
+export type SyncMode = 'incremental' | 'full';
+export type SyncTrigger = 'user' | 'scheduler';
+
 export class SyncResponseDto {
   success: boolean;
   message: string;
@@ -6,7 +13,17 @@ export class SyncResponseDto {
     newTables: number;
     updatedTables: number;
     skippedTables: number;
+    deletedTables: number;
+    breakingChanges: number;
     processingTimeMs: number;
   };
   errors?: string[];
+  mode?: SyncMode;
+  trigger?: SyncTrigger;
+  scope?: SyncScopeDto;
+  source?: string;
+  // The first breaking changes, up to 100; `GET changes/breaking` lists them all
+  breakingChanges?: SchemaChangeDto[];
+  // Active data contracts validated after the sync and how many of them fail
+  contracts?: ContractValidationDto;
 }
\ No newline at end of file
@@ -0,0 +1,19 @@
+export type SyncRuleAction = 'include' | 'exclude';
+export type SyncRuleLevel = 'database' | 'schema' | 'table';
+export type SyncRuleSyntax = 'glob' | 'regex';
+
+export class CreateSyncRuleDto {
+  action: SyncRuleAction;
+  level: SyncRuleLevel;
+  pattern: string;
+  syntax?: SyncRuleSyntax;
+}
+
+export class SyncRuleDto {
+  id: string;
+  action: SyncRuleAction;
+  level: SyncRuleLevel;
+  pattern: string;
+  syntax: SyncRuleSyntax;
+  createdAt: Date;
+}
@@ -0,0 +1,18 @@
+import { SyncMode } from './sync-response.dto';
+
+export class SyncScheduleDto {
+  name: string;
+  mode: SyncMode;
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  lastRunAt: Date | null;
+  lastRunSuccess: boolean | null;
+  nextRunAt: Date | null;
+}
+
+export class UpdateSyncScheduleDto {
+  cron?: string;
+  timezone?: string;
+  enabled?: boolean;
+}
@@ -0,0 +1,38 @@
+import type { ObjectType } from '../connectors/source-connector';
+import type { TagFilter } from '../utils/governance';
+import type { AnnotatedTableDto } from './annotation.dto';
+
+export type TableSortField = 'name' | 'lastSynced' | 'updatedAt';
+
+export class TableQueryDto {
+  database?: string;
+  schema?: string;
+  table?: string;
+  source?: string;
+  objectTypes?: ObjectType[];
+  // Tag on the table or one of its columns
+  tag?: TagFilter;
+  // Policy kind the table must not have, e.g. row_access_policy
+  withoutPolicy?: string;
+  cursor?: string;
+  limit?: number;
+  sortBy?: TableSortField;
+  sortOrder?: 'asc' | 'desc';
+  includeDeleted?: boolean;
+}
+
+// Pages are read as Metadata and returned with their annotations merged in
+export class TablePageDto<T = AnnotatedTableDto> {
+  items: T[];
+  nextCursor: string | null;
+  limit: number;
+}
+
+export class TableBatchRequestDto {
+  tables: string[];
+}
+
+export class TableBatchResponseDto {
+  found: AnnotatedTableDto[];
+  missing: string[];
+}
@@ -0,0 +1,24 @@
+import type { ObjectType } from '../connectors/source-connector';
+import type { UsageStats } from '../schemas/metadata.schema';
+
+export class UsageRankingQueryDto {
+  database?: string;
+  schema?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class TableUsageDto {
+  database: string;
+  schema: string;
+  table: string;
+  objectType: ObjectType;
+  // Absent for tables never covered by usage collection
+  usage: UsageStats | null;
+}
+
+export class UsageRankingDto {
+  items: TableUsageDto[];
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,101 @@
+import type { TableChange } from '../services/mongodb.service';
+import type { SchemaDiff } from '../utils/schema-diff';
+import type { ObjectType } from '../connectors/source-connector';
+
+export type WebhookChangeType = TableChange['changeType'];
+
+export const WEBHOOK_CHANGE_TYPES: WebhookChangeType[] = [
+  'created',
+  'updated',
+  'restored',
+  'deleted',
+];
+
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'retrying'
+  | 'delivered'
+  | 'dead';
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'retrying',
+  'delivered',
+  'dead',
+];
+
+export const SCHEMA_CHANGED_EVENT = 'schema.changed';
+
+export class CreateWebhookDto {
+  url: string;
+  // Generated when omitted
+  secret?: string;
+  // `*` and `?` wildcards; every database or schema when omitted
+  database?: string;
+  schema?: string;
+  // Every change type when omitted
+  changeTypes?: WebhookChangeType[];
+}
+
+export class WebhookDto {
+  id: string;
+  url: string;
+  database: string | null;
+  schema: string | null;
+  changeTypes: WebhookChangeType[];
+  createdAt: Date;
+}
+
+// The only response that includes the signing secret
+export class CreatedWebhookDto extends WebhookDto {
+  secret: string;
+}
+
+export class WebhookTableChangeDto {
+  database: string;
+  schema: string;
+  table: string;
+  changeType: WebhookChangeType;
+  version: number;
+  objectType: ObjectType | null;
+  diff: SchemaDiff;
+}
+
+export class WebhookPayloadDto {
+  // Delivery id; replays and retries send the same id
+  id: string;
+  event: typeof SCHEMA_CHANGED_EVENT;
+  source: string;
+  occurredAt: string;
+  tables: WebhookTableChangeDto[];
+}
+
+export class WebhookDeliveryQueryDto {
+  status?: WebhookDeliveryStatus;
+  subscriptionId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class WebhookDeliveryDto {
+  id: string;
+  subscriptionId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  tables: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  // Only included when a single delivery is requested
+  payload?: WebhookPayloadDto;
+}
+
+export class WebhookDeliveryPageDto {
+  items: WebhookDeliveryDto[];
+  total: number;
+  limit: number;
+  offset: number;
+}
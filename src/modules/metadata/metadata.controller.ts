@@ -1,18 +1,419 @@
-import { Controller, Post, Get, Param, Query, HttpStatus, HttpCode, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Query,
+  Body,
+  HttpStatus,
+  HttpCode,
+  Logger,
+  BadRequestException,
+  UploadedFiles,
+  UseInterceptors,
+  UseGuards,
+  StreamableFile,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import { MetadataService } from './metadata.service';
-import { SyncResponseDto } from './dto/sync-response.dto';
+import { SyncSchedulerService } from './services/sync-scheduler.service';
+import { SyncJobService } from './services/sync-job.service';
+import { WebhookService } from './services/webhook.service';
+import { DataContractService } from './services/data-contract.service';
+import { AnnotationService } from './services/annotation.service';
+import { SyncMode } from './dto/sync-response.dto';
+import { SyncJobDto } from './dto/sync-job.dto';
+import { SyncRequestDto, SyncScopeDto } from './dto/sync-request.dto';
+import { CreateSyncRuleDto, SyncRuleDto } from './dto/sync-rule.dto';
+import {
+  DdlDirectoryImportDto,
+  DdlImportOptionsDto,
+  DdlImportResponseDto,
+} from './dto/ddl-import.dto';
+import {
+  SyncScheduleDto,
+  UpdateSyncScheduleDto,
+} from './dto/sync-schedule.dto';
+import {
+  TableBatchRequestDto,
+  TableBatchResponseDto,
+  TablePageDto,
+  TableSortField,
+} from './dto/table-query.dto';
+import { SearchHitKind, SearchResponseDto } from './dto/search.dto';
+import { SchemaGraphDto, TableRelationshipsDto } from './dto/relationship.dto';
+import { TaggedColumnDto } from './dto/governance.dto';
+import { LineageDirection, LineageGraphDto } from './dto/lineage.dto';
+import { MAX_LINEAGE_DEPTH } from './services/lineage.service';
+import { UsageRankingDto } from './dto/usage.dto';
+import { ProfileRequestDto, TableProfileDto } from './dto/profile.dto';
+import { SchemaChangePageDto } from './dto/change-impact.dto';
+import {
+  CONTRACT_STATUSES,
+  ContractResultPageDto,
+  ContractStatus,
+  ContractStatusDto,
+  CreateDataContractDto,
+  DataContractDto,
+  UpdateDataContractDto,
+} from './dto/data-contract.dto';
+import {
+  CLASSIFICATION_STATUSES,
+  ClassificationPageDto,
+  ClassificationStatus,
+  ColumnClassificationDto,
+  ReviewClassificationDto,
+} from './dto/classification.dto';
+import {
+  AnnotatedTableDto,
+  AnnotationDto,
+  AnnotationPageDto,
+  ReattachAnnotationDto,
+  UpdateAnnotationDto,
+} from './dto/annotation.dto';
+import {
+  CreateWebhookDto,
+  CreatedWebhookDto,
+  WEBHOOK_DELIVERY_STATUSES,
+  WebhookDeliveryDto,
+  WebhookDeliveryPageDto,
+  WebhookDeliveryStatus,
+  WebhookDto,
+} from './dto/webhook.dto';
+import { MetadataVersion } from './schemas/metadata-version.schema';
+import { VersionDiff } from './services/schema-history.service';
+import { SourceInfo } from './services/source-registry.service';
+import { OBJECT_TYPES, ObjectType } from './connectors/source-connector';
+import {
+  EXPORT_FORMATS,
+  ExportDocument,
+  ExportFormat,
+} from './utils/export-formats';
+import { parseFqn } from './utils/table-ref';
+import { TagFilter, parseTagFilter } from './utils/governance';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RateLimitGuard } from '../auth/guards/rate-limit.guard';
+import { RateLimited, RequireRole } from '../auth/auth.decorators';
 
+const TABLE_SORT_FIELDS: TableSortField[] = ['name', 'lastSynced', 'updatedAt'];
+const MAX_DDL_FILES = 100;
+const MAX_DDL_FILE_SIZE = 10 * 1024 * 1024;
+
+// Viewers read the catalog, editors curate it, admins sync and configure it
 @Controller('metadata')
+@UseGuards(AuthGuard, RateLimitGuard)
 export class MetadataController {
   private readonly logger = new Logger(MetadataController.name);
 
-  constructor(private readonly metadataService: MetadataService) {}
+  constructor(
+    private readonly metadataService: MetadataService,
+    private readonly syncSchedulerService: SyncSchedulerService,
+    private readonly syncJobService: SyncJobService,
+    private readonly webhookService: WebhookService,
+    private readonly dataContractService: DataContractService,
+    private readonly annotationService: AnnotationService,
+  ) {}
 
   @Post('sync')
-  @HttpCode(HttpStatus.OK)
-  async syncMetadata(): Promise<SyncResponseDto> {
+  @RequireRole('admin')
+  @RateLimited()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async syncMetadata(
+    @Query('mode') mode?: string,
+    @Body() body?: SyncRequestDto,
+  ): Promise<SyncJobDto> {
     this.logger.log('Metadata sync endpoint called');
-    return await this.metadataService.syncMetadata();
+    const requestedMode = body?.mode ?? mode;
+    if (
+      requestedMode &&
+      requestedMode !== 'incremental' &&
+      requestedMode !== 'full'
+    ) {
+      throw new BadRequestException('mode must be incremental or full');
+    }
+    const scope = this.parseSyncScope(body);
+    const { job, completion } = await this.syncJobService.startJob({
+      ...(requestedMode && { mode: requestedMode as SyncMode }),
+      ...(scope && { scope }),
+      ...(body?.source && { source: body.source }),
+    });
+    // The outcome is recorded on the job, poll GET sync/jobs/:id for it
+    completion.catch(() => undefined);
+    return job;
+  }
+
+  @Get('sources')
+  @HttpCode(HttpStatus.OK)
+  listSources(): SourceInfo[] {
+    this.logger.log('Sources endpoint called');
+    return this.metadataService.listSources();
+  }
+
+  @Get('sync/rules')
+  @HttpCode(HttpStatus.OK)
+  async listSyncRules(): Promise<SyncRuleDto[]> {
+    this.logger.log('Sync rules endpoint called');
+    return await this.metadataService.listSyncRules();
+  }
+
+  @Post('sync/rules')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.CREATED)
+  async createSyncRule(@Body() body: CreateSyncRuleDto): Promise<SyncRuleDto> {
+    this.logger.log('Create sync rule endpoint called');
+    return await this.metadataService.createSyncRule(body);
+  }
+
+  @Delete('sync/rules/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteSyncRule(@Param('id') id: string): Promise<void> {
+    this.logger.log(`Delete sync rule endpoint called for ID: ${id}`);
+    await this.metadataService.deleteSyncRule(id);
+  }
+
+  @Get('sync/jobs')
+  @HttpCode(HttpStatus.OK)
+  async listSyncJobs(@Query('limit') limit?: string): Promise<SyncJobDto[]> {
+    this.logger.log('Sync jobs endpoint called');
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return await this.syncJobService.listJobs(limitNumber);
+  }
+
+  @Get('sync/jobs/:id')
+  @HttpCode(HttpStatus.OK)
+  async getSyncJob(@Param('id') id: string): Promise<SyncJobDto> {
+    this.logger.log(`Sync job endpoint called for ID: ${id}`);
+    return await this.syncJobService.getJob(id);
+  }
+
+  @Delete('sync/jobs/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async cancelSyncJob(@Param('id') id: string): Promise<SyncJobDto> {
+    this.logger.log(`Cancel sync job endpoint called for ID: ${id}`);
+    return await this.syncJobService.cancelJob(id);
+  }
+
+  @Post('contracts')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.CREATED)
+  async createContract(
+    @Body() body: CreateDataContractDto,
+  ): Promise<DataContractDto> {
+    this.logger.log(
+      `Create data contract endpoint called for ${body?.database}.${body?.schema}.${body?.table}`,
+    );
+    return await this.dataContractService.createContract(body);
+  }
+
+  @Get('contracts')
+  @HttpCode(HttpStatus.OK)
+  async listContracts(
+    @Query('status') status?: string,
+    @Query('active') active?: string,
+  ): Promise<DataContractDto[]> {
+    this.logger.log(
+      `Data contracts endpoint called${status ? ` for ${status} contracts` : ''}`,
+    );
+    return await this.dataContractService.listContracts({
+      status: this.parseContractStatus(status),
+      active: this.parseBoolean(active, 'active'),
+    });
+  }
+
+  // Declared before contracts/:id so "status" is not taken for an id
+  @Get('contracts/status')
+  @HttpCode(HttpStatus.OK)
+  async getContractStatus(): Promise<ContractStatusDto> {
+    this.logger.log('Data contract status endpoint called');
+    return await this.dataContractService.getStatus();
+  }
+
+  @Get('contracts/:id')
+  @HttpCode(HttpStatus.OK)
+  async getContract(@Param('id') id: string): Promise<DataContractDto> {
+    this.logger.log(`Data contract endpoint called for ID: ${id}`);
+    return await this.dataContractService.getContract(id);
+  }
+
+  @Put('contracts/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async updateContract(
+    @Param('id') id: string,
+    @Body() body: UpdateDataContractDto,
+  ): Promise<DataContractDto> {
+    this.logger.log(`Update data contract endpoint called for ID: ${id}`);
+    return await this.dataContractService.updateContract(id, body);
+  }
+
+  @Delete('contracts/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteContract(@Param('id') id: string): Promise<void> {
+    this.logger.log(`Delete data contract endpoint called for ID: ${id}`);
+    await this.dataContractService.deleteContract(id);
+  }
+
+  @Get('contracts/:id/results')
+  @HttpCode(HttpStatus.OK)
+  async listContractResults(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<ContractResultPageDto> {
+    this.logger.log(`Data contract results endpoint called for ID: ${id}`);
+    return await this.dataContractService.listResults(
+      id,
+      limit ? parseInt(limit, 10) : undefined,
+      offset ? parseInt(offset, 10) : undefined,
+    );
+  }
+
+  @Post('webhooks')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.CREATED)
+  async createWebhook(
+    @Body() body: CreateWebhookDto,
+  ): Promise<CreatedWebhookDto> {
+    this.logger.log(`Create webhook endpoint called for ${body?.url}`);
+    return await this.webhookService.createSubscription(body);
+  }
+
+  @Get('webhooks')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async listWebhooks(): Promise<WebhookDto[]> {
+    this.logger.log('Webhooks endpoint called');
+    return await this.webhookService.listSubscriptions();
+  }
+
+  @Delete('webhooks/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteWebhook(@Param('id') id: string): Promise<void> {
+    this.logger.log(`Delete webhook endpoint called for ID: ${id}`);
+    await this.webhookService.deleteSubscription(id);
+  }
+
+  @Get('webhooks/deliveries')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async listWebhookDeliveries(
+    @Query('status') status?: string,
+    @Query('subscriptionId') subscriptionId?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<WebhookDeliveryPageDto> {
+    this.logger.log(
+      `Webhook deliveries endpoint called${status ? ` for ${status} deliveries` : ''}`,
+    );
+    return await this.webhookService.listDeliveries({
+      status: this.parseDeliveryStatus(status),
+      subscriptionId,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get('webhooks/deliveries/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async getWebhookDelivery(
+    @Param('id') id: string,
+  ): Promise<WebhookDeliveryDto> {
+    this.logger.log(`Webhook delivery endpoint called for ID: ${id}`);
+    return await this.webhookService.getDelivery(id);
+  }
+
+  @Post('webhooks/deliveries/:id/replay')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async replayWebhookDelivery(
+    @Param('id') id: string,
+  ): Promise<WebhookDeliveryDto> {
+    this.logger.log(`Replay webhook delivery endpoint called for ID: ${id}`);
+    return await this.webhookService.replayDelivery(id);
+  }
+
+  @Post('import/ddl')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_DDL_FILES, {
+      limits: { fileSize: MAX_DDL_FILE_SIZE },
+    }),
+  )
+  async importDdl(
+    @UploadedFiles() files: Express.Multer.File[] | undefined,
+    @Body() body: DdlImportOptionsDto,
+  ): Promise<DdlImportResponseDto> {
+    this.logger.log(
+      `DDL import endpoint called with ${files?.length ?? 0} files`,
+    );
+    if (!files || files.length === 0) {
+      throw new BadRequestException(
+        'Upload at least one DDL file in the "files" field',
+      );
+    }
+    return await this.metadataService.importDdl(
+      files.map((file) => ({
+        name: file.originalname,
+        content: file.buffer.toString('utf8'),
+      })),
+      { database: body?.database, schema: body?.schema, source: body?.source },
+    );
+  }
+
+  @Post('import/ddl/directory')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async importDdlDirectory(
+    @Body() body: DdlDirectoryImportDto,
+  ): Promise<DdlImportResponseDto> {
+    this.logger.log(`DDL directory import endpoint called for ${body?.path}`);
+    return await this.metadataService.importDdlDirectory(body?.path, {
+      database: body?.database,
+      schema: body?.schema,
+      source: body?.source,
+    });
+  }
+
+  @Get('schedules')
+  @HttpCode(HttpStatus.OK)
+  async getSchedules(): Promise<SyncScheduleDto[]> {
+    this.logger.log('Sync schedules endpoint called');
+    return await this.syncSchedulerService.getSchedules();
+  }
+
+  @Put('schedules/:name')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async updateSchedule(
+    @Param('name') name: string,
+    @Body() body: UpdateSyncScheduleDto,
+  ): Promise<SyncScheduleDto> {
+    this.logger.log(`Update sync schedule endpoint called for ${name}`);
+    return await this.syncSchedulerService.updateSchedule(name, body ?? {});
+  }
+
+  @Post('schedules/:name/pause')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async pauseSchedule(@Param('name') name: string): Promise<SyncScheduleDto> {
+    this.logger.log(`Pause sync schedule endpoint called for ${name}`);
+    return await this.syncSchedulerService.pauseSchedule(name);
+  }
+
+  @Post('schedules/:name/resume')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.OK)
+  async resumeSchedule(@Param('name') name: string): Promise<SyncScheduleDto> {
+    this.logger.log(`Resume sync schedule endpoint called for ${name}`);
+    return await this.syncSchedulerService.resumeSchedule(name);
   }
 
   @Get('sync/history')
@@ -29,4 +430,681 @@ export class MetadataController {
     this.logger.log(`Sync stats endpoint called for ID: ${id}`);
     return await this.metadataService.getSyncStatsById(id);
   }
-}
\ No newline at end of file
+
+  @Get('tables')
+  @HttpCode(HttpStatus.OK)
+  async listTables(
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('table') table?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+    @Query('sortBy') sortBy?: string,
+    @Query('sortOrder') sortOrder?: string,
+    @Query('includeDeleted') includeDeleted?: string,
+    @Query('source') source?: string,
+    @Query('objectType') objectType?: string,
+    @Query('tag') tag?: string,
+    @Query('withoutPolicy') withoutPolicy?: string,
+  ): Promise<TablePageDto> {
+    this.logger.log('List tables endpoint called');
+    if (sortBy && !TABLE_SORT_FIELDS.includes(sortBy as TableSortField)) {
+      throw new BadRequestException(
+        `sortBy must be one of: ${TABLE_SORT_FIELDS.join(', ')}`,
+      );
+    }
+    if (sortOrder && sortOrder !== 'asc' && sortOrder !== 'desc') {
+      throw new BadRequestException('sortOrder must be asc or desc');
+    }
+    return await this.metadataService.listTables({
+      database,
+      schema,
+      table,
+      cursor,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      sortBy: sortBy as TableSortField | undefined,
+      sortOrder: sortOrder as 'asc' | 'desc' | undefined,
+      includeDeleted: includeDeleted === 'true',
+      source,
+      objectTypes: this.parseObjectTypes(objectType),
+      tag: tag ? this.parseTag(tag) : undefined,
+      withoutPolicy: withoutPolicy?.trim().toLowerCase() || undefined,
+    });
+  }
+
+  @Post('tables/batch')
+  @HttpCode(HttpStatus.OK)
+  async getTablesBatch(
+    @Body() body: TableBatchRequestDto,
+  ): Promise<TableBatchResponseDto> {
+    this.logger.log(
+      `Batch table lookup endpoint called for ${body?.tables?.length ?? 0} tables`,
+    );
+    if (!Array.isArray(body?.tables)) {
+      throw new BadRequestException(
+        'Request body must contain a "tables" array',
+      );
+    }
+    return await this.metadataService.getTablesBatch(body.tables);
+  }
+
+  // Declared before tables/:database/:schema/:table, which would match these paths too
+  @Get('tables/:fqn/lineage/upstream')
+  @HttpCode(HttpStatus.OK)
+  async getUpstreamLineage(
+    @Param('fqn') fqn: string,
+    @Query('depth') depth?: string,
+  ): Promise<LineageGraphDto> {
+    this.logger.log(
+      `Upstream lineage endpoint called for ${fqn} (depth ${depth ?? 'default'})`,
+    );
+    return await this.getLineage(fqn, 'upstream', depth);
+  }
+
+  @Get('tables/:fqn/lineage/downstream')
+  @HttpCode(HttpStatus.OK)
+  async getDownstreamLineage(
+    @Param('fqn') fqn: string,
+    @Query('depth') depth?: string,
+  ): Promise<LineageGraphDto> {
+    this.logger.log(
+      `Downstream lineage endpoint called for ${fqn} (depth ${depth ?? 'default'})`,
+    );
+    return await this.getLineage(fqn, 'downstream', depth);
+  }
+
+  @Get('tables/:database/:schema/:table')
+  @HttpCode(HttpStatus.OK)
+  async getTable(
+    @Param('database') database: string,
+    @Param('schema') schema: string,
+    @Param('table') table: string,
+  ): Promise<AnnotatedTableDto> {
+    this.logger.log(
+      `Get table endpoint called for ${database}.${schema}.${table}`,
+    );
+    return await this.metadataService.getTable({ database, schema, table });
+  }
+
+  @Get('tables/:database/:schema/:table/versions')
+  @HttpCode(HttpStatus.OK)
+  async listTableVersions(
+    @Param('database') database: string,
+    @Param('schema') schema: string,
+    @Param('table') table: string,
+  ): Promise<MetadataVersion[]> {
+    this.logger.log(
+      `List versions endpoint called for ${database}.${schema}.${table}`,
+    );
+    return await this.metadataService.listTableVersions({
+      database,
+      schema,
+      table,
+    });
+  }
+
+  @Get('tables/:database/:schema/:table/versions/:version')
+  @HttpCode(HttpStatus.OK)
+  async getTableVersion(
+    @Param('database') database: string,
+    @Param('schema') schema: string,
+    @Param('table') table: string,
+    @Param('version') version: string,
+  ): Promise<MetadataVersion> {
+    this.logger.log(
+      `Get version endpoint called for ${database}.${schema}.${table}@${version}`,
+    );
+    return await this.metadataService.getTableVersion(
+      { database, schema, table },
+      this.parseVersion(version, 'version')!,
+    );
+  }
+
+  @Get('tables/:database/:schema/:table/diff')
+  @HttpCode(HttpStatus.OK)
+  async diffTableVersions(
+    @Param('database') database: string,
+    @Param('schema') schema: string,
+    @Param('table') table: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<VersionDiff> {
+    this.logger.log(
+      `Diff endpoint called for ${database}.${schema}.${table} (${from}..${to ?? 'latest'})`,
+    );
+    if (!from) {
+      throw new BadRequestException('Query parameter "from" is required');
+    }
+    return await this.metadataService.diffTableVersions(
+      { database, schema, table },
+      this.parseVersion(from, 'from')!,
+      this.parseVersion(to, 'to'),
+    );
+  }
+
+  @Get('changes/breaking')
+  @HttpCode(HttpStatus.OK)
+  async listBreakingChanges(
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('table') table?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<SchemaChangePageDto> {
+    this.logger.log(
+      `Breaking changes endpoint called (${since ?? 'start'}..${until ?? 'now'})`,
+    );
+    const sinceDate = this.parseDate(since, 'since');
+    const untilDate = this.parseDate(until, 'until');
+    if (sinceDate && untilDate && sinceDate >= untilDate) {
+      throw new BadRequestException('since must be before until');
+    }
+    return await this.metadataService.listBreakingChanges({
+      since: sinceDate,
+      until: untilDate,
+      database,
+      schema,
+      table,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get('tables/:fqn/export')
+  @HttpCode(HttpStatus.OK)
+  async exportTable(
+    @Param('fqn') fqn: string,
+    @Query('format') format?: string,
+  ): Promise<StreamableFile> {
+    this.logger.log(`Export endpoint called for ${fqn} as ${format}`);
+    const ref = parseFqn(fqn);
+    return this.toFile(
+      await this.metadataService.exportTable(
+        ref,
+        this.parseExportFormat(format),
+      ),
+    );
+  }
+
+  @Get('schemas/:database/:schema/export')
+  @HttpCode(HttpStatus.OK)
+  async exportSchema(
+    @Param('database') database: string,
+    @Param('schema') schema: string,
+    @Query('format') format?: string,
+  ): Promise<StreamableFile> {
+    this.logger.log(
+      `Schema export endpoint called for ${database}.${schema} as ${format}`,
+    );
+    return this.toFile(
+      await this.metadataService.exportSchema(
+        database,
+        schema,
+        this.parseExportFormat(format),
+      ),
+    );
+  }
+
+  @Get('tables/:fqn/relationships')
+  @HttpCode(HttpStatus.OK)
+  async getTableRelationships(
+    @Param('fqn') fqn: string,
+  ): Promise<TableRelationshipsDto> {
+    this.logger.log(`Relationships endpoint called for ${fqn}`);
+    return await this.metadataService.getTableRelationships(parseFqn(fqn));
+  }
+
+  @Post('tables/:fqn/profile')
+  @RequireRole('editor')
+  @RateLimited()
+  @HttpCode(HttpStatus.OK)
+  async profileTable(
+    @Param('fqn') fqn: string,
+    @Body() body?: ProfileRequestDto,
+  ): Promise<TableProfileDto> {
+    this.logger.log(
+      `Profile endpoint called for ${fqn}${body?.sampleRows ? ` with ${body.sampleRows} sample rows` : ''}`,
+    );
+    return await this.metadataService.profileTable(parseFqn(fqn), body ?? {});
+  }
+
+  @Get('tables/:fqn/profile')
+  @HttpCode(HttpStatus.OK)
+  async getTableProfile(@Param('fqn') fqn: string): Promise<TableProfileDto> {
+    this.logger.log(`Table profile endpoint called for ${fqn}`);
+    return await this.metadataService.getTableProfile(parseFqn(fqn));
+  }
+
+  @Get('schemas/:database/:schema/graph')
+  @HttpCode(HttpStatus.OK)
+  async getSchemaGraph(
+    @Param('database') database: string,
+    @Param('schema') schema: string,
+  ): Promise<SchemaGraphDto> {
+    this.logger.log(`Schema graph endpoint called for ${database}.${schema}`);
+    return await this.metadataService.getSchemaGraph(database, schema);
+  }
+
+  @Get('governance/columns')
+  @HttpCode(HttpStatus.OK)
+  async findTaggedColumns(
+    @Query('tag') tag?: string,
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+  ): Promise<TaggedColumnDto[]> {
+    this.logger.log(`Tagged columns endpoint called for ${tag}`);
+    if (!tag) {
+      throw new BadRequestException('tag is required, as NAME or NAME=VALUE');
+    }
+    return await this.metadataService.findTaggedColumns({
+      tag: this.parseTag(tag),
+      database,
+      schema,
+    });
+  }
+
+  @Get('governance/classifications')
+  @HttpCode(HttpStatus.OK)
+  async listClassifications(
+    @Query('status') status?: string,
+    @Query('label') label?: string,
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('table') table?: string,
+    @Query('minConfidence') minConfidence?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<ClassificationPageDto> {
+    this.logger.log(
+      `Classifications endpoint called${status ? ` for ${status} labels` : ''}`,
+    );
+    return await this.metadataService.listClassifications({
+      status: this.parseClassificationStatus(status),
+      label,
+      database,
+      schema,
+      table,
+      minConfidence: this.parseConfidence(minConfidence),
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Put('governance/classifications/:id')
+  @RequireRole('editor')
+  @HttpCode(HttpStatus.OK)
+  async reviewClassification(
+    @Param('id') id: string,
+    @Body() body: ReviewClassificationDto,
+  ): Promise<ColumnClassificationDto> {
+    this.logger.log(
+      `Classification review endpoint called for ${id}: ${body?.status}`,
+    );
+    return await this.metadataService.reviewClassification(id, body);
+  }
+
+  @Get('tables/:fqn/classifications')
+  @HttpCode(HttpStatus.OK)
+  async getTableClassifications(
+    @Param('fqn') fqn: string,
+  ): Promise<ColumnClassificationDto[]> {
+    this.logger.log(`Table classifications endpoint called for ${fqn}`);
+    return await this.metadataService.getTableClassifications(parseFqn(fqn));
+  }
+
+  @Get('annotations')
+  @HttpCode(HttpStatus.OK)
+  async listAnnotations(
+    @Query('orphaned') orphaned?: string,
+    @Query('certified') certified?: string,
+    @Query('owner') owner?: string,
+    @Query('tag') tag?: string,
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('table') table?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<AnnotationPageDto> {
+    this.logger.log(
+      `Annotations endpoint called${orphaned === 'true' ? ' for orphans' : ''}`,
+    );
+    return await this.annotationService.listAnnotations({
+      orphaned: this.parseBoolean(orphaned, 'orphaned'),
+      certified: this.parseBoolean(certified, 'certified'),
+      owner,
+      tag,
+      database,
+      schema,
+      table,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Post('annotations/:id/reattach')
+  @RequireRole('editor')
+  @HttpCode(HttpStatus.OK)
+  async reattachAnnotation(
+    @Param('id') id: string,
+    @Body() body: ReattachAnnotationDto,
+  ): Promise<AnnotationDto> {
+    this.logger.log(
+      `Reattach annotation endpoint called for ${id} to ${body?.column}`,
+    );
+    return await this.annotationService.reattach(id, body?.column);
+  }
+
+  @Get('tables/:fqn/annotations')
+  @HttpCode(HttpStatus.OK)
+  async getTableAnnotations(
+    @Param('fqn') fqn: string,
+  ): Promise<AnnotationDto[]> {
+    this.logger.log(`Table annotations endpoint called for ${fqn}`);
+    return await this.annotationService.getTableAnnotations(parseFqn(fqn));
+  }
+
+  @Put('tables/:fqn/annotation')
+  @RequireRole('editor')
+  @HttpCode(HttpStatus.OK)
+  async annotateTable(
+    @Param('fqn') fqn: string,
+    @Body() body: UpdateAnnotationDto,
+  ): Promise<AnnotationDto> {
+    this.logger.log(`Annotate table endpoint called for ${fqn}`);
+    return await this.annotationService.annotate(parseFqn(fqn), null, body);
+  }
+
+  @Delete('tables/:fqn/annotation')
+  @RequireRole('editor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteTableAnnotation(@Param('fqn') fqn: string): Promise<void> {
+    this.logger.log(`Delete table annotation endpoint called for ${fqn}`);
+    await this.annotationService.deleteAnnotation(parseFqn(fqn), null);
+  }
+
+  @Put('tables/:fqn/columns/:column/annotation')
+  @RequireRole('editor')
+  @HttpCode(HttpStatus.OK)
+  async annotateColumn(
+    @Param('fqn') fqn: string,
+    @Param('column') column: string,
+    @Body() body: UpdateAnnotationDto,
+  ): Promise<AnnotationDto> {
+    this.logger.log(`Annotate column endpoint called for ${fqn}.${column}`);
+    return await this.annotationService.annotate(parseFqn(fqn), column, body);
+  }
+
+  @Delete('tables/:fqn/columns/:column/annotation')
+  @RequireRole('editor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteColumnAnnotation(
+    @Param('fqn') fqn: string,
+    @Param('column') column: string,
+  ): Promise<void> {
+    this.logger.log(
+      `Delete column annotation endpoint called for ${fqn}.${column}`,
+    );
+    await this.annotationService.deleteAnnotation(parseFqn(fqn), column);
+  }
+
+  @Get('usage/most-used')
+  @HttpCode(HttpStatus.OK)
+  async getMostUsedTables(
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<UsageRankingDto> {
+    this.logger.log('Most used tables endpoint called');
+    return await this.metadataService.getMostUsedTables({
+      database,
+      schema,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get('usage/unused')
+  @HttpCode(HttpStatus.OK)
+  async getUnusedTables(
+    @Query('days') days?: string,
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<UsageRankingDto> {
+    this.logger.log(
+      `Unused tables endpoint called for ${days ?? 'default'} days`,
+    );
+    return await this.metadataService.getUnusedTables(
+      {
+        database,
+        schema,
+        limit: limit ? parseInt(limit, 10) : undefined,
+        offset: offset ? parseInt(offset, 10) : undefined,
+      },
+      this.parseDays(days),
+    );
+  }
+
+  @Get('search')
+  @HttpCode(HttpStatus.OK)
+  async search(
+    @Query('q') q?: string,
+    @Query('database') database?: string,
+    @Query('schema') schema?: string,
+    @Query('types') types?: string,
+    @Query('kind') kind?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+    @Query('objectType') objectType?: string,
+  ): Promise<SearchResponseDto> {
+    this.logger.log(`Search endpoint called with query: ${q}`);
+    if (!q || q.trim() === '') {
+      throw new BadRequestException('Query parameter "q" is required');
+    }
+    if (kind && kind !== 'table' && kind !== 'column') {
+      throw new BadRequestException('kind must be table or column');
+    }
+    return await this.metadataService.search({
+      q,
+      database,
+      schema,
+      types: types
+        ? types
+            .split(',')
+            .map((type) => type.trim())
+            .filter(Boolean)
+        : undefined,
+      kind: kind as SearchHitKind | undefined,
+      objectTypes: this.parseObjectTypes(objectType),
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  private async getLineage(
+    fqn: string,
+    direction: LineageDirection,
+    depth?: string,
+  ): Promise<LineageGraphDto> {
+    const ref = parseFqn(fqn);
+    return await this.metadataService.getLineage(
+      ref,
+      direction,
+      this.parseDepth(depth),
+    );
+  }
+
+  private parseDepth(value?: string): number | undefined {
+    if (value === undefined) return undefined;
+    const depth = Number(value);
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_LINEAGE_DEPTH) {
+      throw new BadRequestException(
+        `depth must be an integer between 1 and ${MAX_LINEAGE_DEPTH}`,
+      );
+    }
+    return depth;
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (value === undefined) return undefined;
+    const date = new Date(value);
+    if (value.trim() === '' || isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO 8601 date`);
+    }
+    return date;
+  }
+
+  private parseDays(value?: string): number | undefined {
+    if (value === undefined) return undefined;
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new BadRequestException('days must be a positive integer');
+    }
+    return days;
+  }
+
+  private parseBoolean(
+    value: string | undefined,
+    name: string,
+  ): boolean | undefined {
+    if (value === undefined) return undefined;
+    if (value !== 'true' && value !== 'false') {
+      throw new BadRequestException(`${name} must be true or false`);
+    }
+    return value === 'true';
+  }
+
+  private parseClassificationStatus(
+    value?: string,
+  ): ClassificationStatus | undefined {
+    if (!value) return undefined;
+    if (!CLASSIFICATION_STATUSES.includes(value as ClassificationStatus)) {
+      throw new BadRequestException(
+        `status must be one of: ${CLASSIFICATION_STATUSES.join(', ')}`,
+      );
+    }
+    return value as ClassificationStatus;
+  }
+
+  private parseContractStatus(value?: string): ContractStatus | undefined {
+    if (!value) return undefined;
+    if (!CONTRACT_STATUSES.includes(value as ContractStatus)) {
+      throw new BadRequestException(
+        `status must be one of: ${CONTRACT_STATUSES.join(', ')}`,
+      );
+    }
+    return value as ContractStatus;
+  }
+
+  private parseDeliveryStatus(
+    value?: string,
+  ): WebhookDeliveryStatus | undefined {
+    if (!value) return undefined;
+    if (!WEBHOOK_DELIVERY_STATUSES.includes(value as WebhookDeliveryStatus)) {
+      throw new BadRequestException(
+        `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`,
+      );
+    }
+    return value as WebhookDeliveryStatus;
+  }
+
+  private parseConfidence(value?: string): number | undefined {
+    if (value === undefined) return undefined;
+    const confidence = Number(value);
+    if (
+      value.trim() === '' ||
+      isNaN(confidence) ||
+      confidence < 0 ||
+      confidence > 1
+    ) {
+      throw new BadRequestException(
+        'minConfidence must be a number between 0 and 1',
+      );
+    }
+    return confidence;
+  }
+
+  private parseVersion(
+    value: string | undefined,
+    name: string,
+  ): number | undefined {
+    if (value === undefined) return undefined;
+    const version = parseInt(value, 10);
+    if (isNaN(version) || version < 1) {
+      throw new BadRequestException(
+        `${name} must be a positive version number`,
+      );
+    }
+    return version;
+  }
+
+  private parseObjectTypes(value?: string): ObjectType[] | undefined {
+    if (!value) return undefined;
+    const objectTypes = value
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean);
+    const unknown = objectTypes.filter(
+      (type) => !OBJECT_TYPES.includes(type as ObjectType),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `objectType must be one of: ${OBJECT_TYPES.join(', ')}`,
+      );
+    }
+    return objectTypes as ObjectType[];
+  }
+
+  private parseTag(value: string): TagFilter {
+    const filter = parseTagFilter(value);
+    if (!filter) {
+      throw new BadRequestException('tag must be NAME or NAME=VALUE');
+    }
+    return filter;
+  }
+
+  private parseExportFormat(format?: string): ExportFormat {
+    if (!format || !EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new BadRequestException(
+        `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+    return format as ExportFormat;
+  }
+
+  private toFile(document: ExportDocument): StreamableFile {
+    return new StreamableFile(Buffer.from(document.content, 'utf8'), {
+      type: `${document.contentType}; charset=utf-8`,
+      // Quoted identifiers may contain characters that are not allowed in a header
+      disposition: `attachment; filename="${document.fileName.replace(/[^\w.-]/g, '_')}"`,
+    });
+  }
+
+  /**
+   * A scope narrows from database to schema to table; each level needs the one above it.
+   */
+  private parseSyncScope(body?: SyncRequestDto): SyncScopeDto | undefined {
+    const levels = ['database', 'schema', 'table'] as const;
+    const scope: SyncScopeDto = {};
+    for (const level of levels) {
+      const value = body?.[level];
+      if (value === undefined || value === null) continue;
+      if (typeof value !== 'string' || value.trim() === '') {
+        throw new BadRequestException(`${level} must be a non-empty string`);
+      }
+      scope[level] = value.trim();
+    }
+
+    if (scope.schema && !scope.database) {
+      throw new BadRequestException('schema requires database');
+    }
+    if (scope.table && !scope.schema) {
+      throw new BadRequestException('table requires database and schema');
+    }
+    return scope.database ? scope : undefined;
+  }
+}
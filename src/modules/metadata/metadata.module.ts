@@ -1,21 +1,119 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { MetadataController } from './metadata.controller';
+import { AuthModule } from '../auth/auth.module';
 import { MetadataService } from './metadata.service';
 import { SnowflakeService } from './services/snowflake.service';
 import { MongodbService } from './services/mongodb.service';
+import { SearchService } from './services/search.service';
+import { SchemaHistoryService } from './services/schema-history.service';
+import { SyncSchedulerService } from './services/sync-scheduler.service';
+import { SyncJobService } from './services/sync-job.service';
+import { SyncLockService } from './services/sync-lock.service';
+import { SyncRulesService } from './services/sync-rules.service';
+import { SourceRegistryService } from './services/source-registry.service';
+import { DdlImportService } from './services/ddl-import.service';
+import { ExportService } from './services/export.service';
+import { RelationshipService } from './services/relationship.service';
+import { GovernanceService } from './services/governance.service';
+import { LineageService } from './services/lineage.service';
+import { UsageService } from './services/usage.service';
+import { ClassificationService } from './services/classification.service';
+import { ProfileService } from './services/profile.service';
+import { WebhookService } from './services/webhook.service';
+import { WebhookDispatcherService } from './services/webhook-dispatcher.service';
+import { ChangeImpactService } from './services/change-impact.service';
+import { DataContractService } from './services/data-contract.service';
+import { AnnotationService } from './services/annotation.service';
+import { ChangePipelineService } from './services/change-pipeline.service';
 import { Metadata, MetadataSchema } from './schemas/metadata.schema';
 import { SyncStats, SyncStatsSchema } from './schemas/sync.schema';
+import {
+  MetadataVersion,
+  MetadataVersionSchema,
+} from './schemas/metadata-version.schema';
+import {
+  SyncSchedule,
+  SyncScheduleSchema,
+} from './schemas/sync-schedule.schema';
+import { SyncJob, SyncJobSchema } from './schemas/sync-job.schema';
+import { SyncLock, SyncLockSchema } from './schemas/sync-lock.schema';
+import { SyncRule, SyncRuleSchema } from './schemas/sync-rule.schema';
+import { LineageEdge, LineageEdgeSchema } from './schemas/lineage-edge.schema';
+import {
+  ColumnClassification,
+  ColumnClassificationSchema,
+} from './schemas/column-classification.schema';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionSchema,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from './schemas/webhook-delivery.schema';
+import {
+  SchemaChange,
+  SchemaChangeSchema,
+} from './schemas/schema-change.schema';
+import {
+  DataContract,
+  DataContractSchema,
+} from './schemas/data-contract.schema';
+import {
+  ContractResult,
+  ContractResultSchema,
+} from './schemas/contract-result.schema';
+import { Annotation, AnnotationSchema } from './schemas/annotation.schema';
 
 @Module({
   imports: [
+    AuthModule,
     MongooseModule.forFeature([
       { name: Metadata.name, schema: MetadataSchema },
-      { name: SyncStats.name, schema: SyncStatsSchema }
-    ])
+      { name: SyncStats.name, schema: SyncStatsSchema },
+      { name: MetadataVersion.name, schema: MetadataVersionSchema },
+      { name: SyncSchedule.name, schema: SyncScheduleSchema },
+      { name: SyncJob.name, schema: SyncJobSchema },
+      { name: SyncLock.name, schema: SyncLockSchema },
+      { name: SyncRule.name, schema: SyncRuleSchema },
+      { name: LineageEdge.name, schema: LineageEdgeSchema },
+      { name: ColumnClassification.name, schema: ColumnClassificationSchema },
+      { name: WebhookSubscription.name, schema: WebhookSubscriptionSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+      { name: SchemaChange.name, schema: SchemaChangeSchema },
+      { name: DataContract.name, schema: DataContractSchema },
+      { name: ContractResult.name, schema: ContractResultSchema },
+      { name: Annotation.name, schema: AnnotationSchema },
+    ]),
   ],
   controllers: [MetadataController],
-  providers: [MetadataService, SnowflakeService, MongodbService],
+  providers: [
+    MetadataService,
+    SnowflakeService,
+    MongodbService,
+    SearchService,
+    SchemaHistoryService,
+    SyncSchedulerService,
+    SyncJobService,
+    SyncLockService,
+    SyncRulesService,
+    SourceRegistryService,
+    DdlImportService,
+    ExportService,
+    RelationshipService,
+    GovernanceService,
+    LineageService,
+    UsageService,
+    ClassificationService,
+    ProfileService,
+    WebhookService,
+    WebhookDispatcherService,
+    ChangeImpactService,
+    DataContractService,
+    AnnotationService,
+    ChangePipelineService,
+  ],
   exports: [MetadataService],
 })
 export class MetadataModule {}
\ No newline at end of file
@@ -1,38 +1,248 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { SnowflakeService } from './services/snowflake.service';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  SourceInfo,
+  SourceRegistryService,
+} from './services/source-registry.service';
 import { MongodbService } from './services/mongodb.service';
-import { SyncResponseDto } from './dto/sync-response.dto';
+import { SearchService } from './services/search.service';
+import {
+  SchemaHistoryService,
+  VersionDiff,
+} from './services/schema-history.service';
+import { SyncRulesService } from './services/sync-rules.service';
+import { DdlFile, DdlImportService } from './services/ddl-import.service';
+import { ExportService } from './services/export.service';
+import { RelationshipService } from './services/relationship.service';
+import { GovernanceService } from './services/governance.service';
+import { LineageService } from './services/lineage.service';
+import { UsageService } from './services/usage.service';
+import { ClassificationService } from './services/classification.service';
+import { ProfileService } from './services/profile.service';
+import { ChangeImpactService } from './services/change-impact.service';
+import { DataContractService } from './services/data-contract.service';
+import { AnnotationService } from './services/annotation.service';
+import { ChangePipelineService } from './services/change-pipeline.service';
+import { DEFAULT_SOURCE, SourceConnector } from './connectors/source-connector';
+import {
+  SyncMode,
+  SyncResponseDto,
+  SyncTrigger,
+} from './dto/sync-response.dto';
+import {
+  TableBatchResponseDto,
+  TablePageDto,
+  TableQueryDto,
+} from './dto/table-query.dto';
+import { SearchQueryDto, SearchResponseDto } from './dto/search.dto';
+import { SyncProgressDto } from './dto/sync-job.dto';
+import { ContractValidationDto } from './dto/data-contract.dto';
+import { AnnotatedTableDto } from './dto/annotation.dto';
+import { SyncScopeDto } from './dto/sync-request.dto';
+import { CreateSyncRuleDto, SyncRuleDto } from './dto/sync-rule.dto';
+import {
+  DdlImportOptionsDto,
+  DdlImportResponseDto,
+} from './dto/ddl-import.dto';
+import { SchemaGraphDto, TableRelationshipsDto } from './dto/relationship.dto';
+import { TaggedColumnDto, TaggedColumnQueryDto } from './dto/governance.dto';
+import { LineageDirection, LineageGraphDto } from './dto/lineage.dto';
+import { UsageRankingDto, UsageRankingQueryDto } from './dto/usage.dto';
+import { ProfileRequestDto, TableProfileDto } from './dto/profile.dto';
+import {
+  BreakingChangeQueryDto,
+  SchemaChangeDto,
+  SchemaChangePageDto,
+} from './dto/change-impact.dto';
+import {
+  ClassificationPageDto,
+  ClassificationQueryDto,
+  ColumnClassificationDto,
+  ReviewClassificationDto,
+} from './dto/classification.dto';
+import { Metadata } from './schemas/metadata.schema';
+import { MetadataVersion } from './schemas/metadata-version.schema';
+import { TableRef, parseFqn, toFqn } from './utils/table-ref';
+import { ExportDocument, ExportFormat } from './utils/export-formats';
+import { UsageConfig } from '../../config/usage.config';
+
+const MAX_BATCH_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+// Keeps sync results small; the rest are listed by listBreakingChanges
+const MAX_REPORTED_BREAKING_CHANGES = 100;
+
+export interface SyncOptions {
+  mode?: SyncMode;
+  trigger?: SyncTrigger;
+  scope?: SyncScopeDto;
+  source?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: SyncProgressDto) => void;
+}
+
+/**
+ * Scoped syncs default to a full sync of their scope, so an on-demand sync of
+ * a table refreshes it even when it has not changed.
+ */
+export function resolveSyncMode(
+  options: Pick<SyncOptions, 'mode' | 'scope'>,
+): SyncMode {
+  return options.mode ?? (options.scope?.database ? 'full' : 'incremental');
+}
 
 @Injectable()
 export class MetadataService {
   private readonly logger = new Logger(MetadataService.name);
 
   constructor(
-    private readonly snowflakeService: SnowflakeService,
+    private readonly sourceRegistry: SourceRegistryService,
     private readonly mongodbService: MongodbService,
+    private readonly searchService: SearchService,
+    private readonly schemaHistoryService: SchemaHistoryService,
+    private readonly syncRulesService: SyncRulesService,
+    private readonly ddlImportService: DdlImportService,
+    private readonly exportService: ExportService,
+    private readonly relationshipService: RelationshipService,
+    private readonly governanceService: GovernanceService,
+    private readonly lineageService: LineageService,
+    private readonly usageService: UsageService,
+    private readonly classificationService: ClassificationService,
+    private readonly profileService: ProfileService,
+    private readonly changeImpactService: ChangeImpactService,
+    private readonly dataContractService: DataContractService,
+    private readonly annotationService: AnnotationService,
+    private readonly changePipelineService: ChangePipelineService,
   ) {}
 
-  async syncMetadata(): Promise<SyncResponseDto> {
+  async syncMetadata(options: SyncOptions = {}): Promise<SyncResponseDto> {
     const startTime = new Date();
     const errors: string[] = [];
+    const mode = resolveSyncMode(options);
+    const trigger = options.trigger ?? 'user';
+    const scope = options.scope?.database ? options.scope : undefined;
+    const source = options.source ?? DEFAULT_SOURCE;
 
     try {
-      this.logger.log('Starting metadata sync process');
-      
-      // Get last sync time from MongoDB
-      const stats = await this.mongodbService.getSyncStats();
-      const lastSyncTime: Date | undefined = stats.lastSyncTime ?? undefined;
+      const connector = this.sourceRegistry.get(source);
+      const filter = await this.syncRulesService.buildFilter(scope);
+      this.logger.log(
+        `Starting ${mode} metadata sync process of ${filter.describeScope()} from ${source} (triggered by ${trigger})`,
+      );
+
+      // Get last sync time of this source from MongoDB; a full sync ignores it
+      const stats = await this.mongodbService.getSyncStats(source);
+      const lastSyncTime: Date | undefined =
+        mode === 'full' ? undefined : (stats.lastSyncTime ?? undefined);
       this.logger.log(`Last sync time: ${lastSyncTime}`);
-      
+
+      const progress: SyncProgressDto = {
+        phase: 'extracting',
+        databasesTotal: 0,
+        databasesDone: 0,
+        tablesFound: 0,
+        tablesProcessed: 0,
+      };
+      const reportProgress = (update: Partial<SyncProgressDto>) => {
+        Object.assign(progress, update);
+        options.onProgress?.({ ...progress });
+      };
+      reportProgress({});
+
       // Fetch only changed/new tables since last sync
-      const snowflakeStartTime = Date.now();
-      const tables = await this.snowflakeService.getAllTables(lastSyncTime);
-      const snowflakeDuration = Date.now() - snowflakeStartTime;
-      this.logger.log(`Fetched ${tables.length} tables from Snowflake in ${snowflakeDuration}ms`);
-      
-      // Process tables in MongoDB
+      const sourceStartTime = Date.now();
+      const tables = await connector.getAllTables(lastSyncTime, {
+        filter,
+        signal: options.signal,
+        onProgress: (extraction) => reportProgress(extraction),
+      });
+      const sourceDuration = Date.now() - sourceStartTime;
+      this.logger.log(
+        `Fetched ${tables.length} tables from ${source} in ${sourceDuration}ms`,
+      );
+
+      // Process tables in MongoDB in batches; each batch's versions are recorded
+      // before the next one starts, so a cancelled sync leaves history consistent
       const mongoStartTime = Date.now();
-      const upsertResults = await this.mongodbService.upsertMetadata(tables);
+      const upsertResults = {
+        newTables: 0,
+        updatedTables: 0,
+        skippedTables: 0,
+      };
+      const breakingChanges: SchemaChangeDto[] = [];
+      reportProgress({ phase: 'writing', tablesFound: tables.length });
+      for (let offset = 0; offset < tables.length; offset += WRITE_BATCH_SIZE) {
+        options.signal?.throwIfAborted();
+        const batch = tables.slice(offset, offset + WRITE_BATCH_SIZE);
+        const { changes, conflicts, ...batchResults } =
+          await this.mongodbService.upsertMetadata(batch, source);
+        upsertResults.newTables += batchResults.newTables;
+        upsertResults.updatedTables += batchResults.updatedTables;
+        upsertResults.skippedTables += batchResults.skippedTables;
+        conflicts.forEach((conflict) =>
+          errors.push(
+            `Skipped ${toFqn(conflict)}: the name belongs to source ${conflict.owner}`,
+          ),
+        );
+        const conflicting = new Set(conflicts.map((table) => toFqn(table)));
+        breakingChanges.push(
+          ...(await this.changePipelineService.processBatch(
+            {
+              tables: batch.filter((table) => !conflicting.has(toFqn(table))),
+              changes,
+            },
+            source,
+            errors,
+          )),
+        );
+        reportProgress({
+          tablesProcessed: Math.min(offset + WRITE_BATCH_SIZE, tables.length),
+        });
+      }
+
+      // Only a full sync sees every table (in its scope), so only a full sync can tell a table was dropped.
+      // An empty result is only trusted when a single table was asked for.
+      let deletedTables = 0;
+      if (!lastSyncTime && (tables.length > 0 || scope?.table)) {
+        options.signal?.throwIfAborted();
+        reportProgress({ phase: 'reconciling' });
+        const deletions = await this.mongodbService.tombstoneMissingTables(
+          tables,
+          filter,
+          source,
+        );
+        deletedTables = deletions.length;
+        breakingChanges.push(
+          ...(await this.changePipelineService.processBatch(
+            { tables: [], changes: deletions },
+            source,
+            errors,
+          )),
+        );
+      } else if (!lastSyncTime) {
+        this.logger.warn(
+          'Full sync returned no tables, skipping dropped-table reconciliation',
+        );
+      }
+
+      // Lineage is read account-wide, so scoped syncs leave it alone
+      if (!scope && connector.getLineage) {
+        options.signal?.throwIfAborted();
+        await this.ingestLineage(connector, errors, options.signal);
+      }
+
+      // Usage collection is optional and, like lineage, account-wide
+      if (!scope && connector.getUsage && UsageConfig.isEnabled()) {
+        options.signal?.throwIfAborted();
+        await this.collectUsage(connector, errors, options.signal);
+      }
+
+      // Contracts are checked against the catalog as this sync left it
+      options.signal?.throwIfAborted();
+      const contracts = await this.validateContracts(errors);
       const mongoDuration = Date.now() - mongoStartTime;
       
       const endTime = new Date();
@@ -44,23 +254,38 @@ export class MetadataService {
         newTables: upsertResults.newTables,
         updatedTables: upsertResults.updatedTables,
         skippedTables: upsertResults.skippedTables,
-        snowflakeDuration,
+        deletedTables,
+        sourceDuration,
         mongoDuration,
         totalProcessingTime: processingTimeMs,
         lastSyncTime: lastSyncTime?.toISOString()
       });
       
       this.logger.log(`Sync completed in ${processingTimeMs}ms`);
-      this.logger.log(`Stats: ${upsertResults.newTables} new, ${upsertResults.updatedTables} updated, ${upsertResults.skippedTables} skipped`);
-      
+      this.logger.log(
+        `Stats: ${upsertResults.newTables} new, ${upsertResults.updatedTables} updated, ${upsertResults.skippedTables} skipped, ${deletedTables} deleted`,
+      );
+
       const syncResponse: SyncResponseDto = {
         success: true,
         message: 'Metadata sync completed successfully',
         stats: {
           totalTables: tables.length,
           ...upsertResults,
+          deletedTables,
+          breakingChanges: breakingChanges.length,
           processingTimeMs
-        }
+        },
+        ...(errors.length > 0 && { errors }),
+        mode,
+        trigger,
+        ...(scope && { scope }),
+        source,
+        breakingChanges: breakingChanges.slice(
+          0,
+          MAX_REPORTED_BREAKING_CHANGES,
+        ),
+        ...(contracts && { contracts }),
       };
 
       // Save sync stats to MongoDB
@@ -70,8 +295,15 @@ export class MetadataService {
     } catch (error) {
       const endTime = new Date();
       const processingTimeMs = endTime.getTime() - startTime.getTime();
-      const errorMessage = error.message || 'Unknown error occurred';
-      this.logger.error('Metadata sync failed', error);
+      const cancelled = options.signal?.aborted ?? false;
+      const errorMessage = cancelled
+        ? 'Sync was cancelled'
+        : error.message || 'Unknown error occurred';
+      if (cancelled) {
+        this.logger.warn('Metadata sync cancelled');
+      } else {
+        this.logger.error('Metadata sync failed', error);
+      }
       errors.push(errorMessage);
       
       // Log error metrics
@@ -80,7 +312,8 @@ export class MetadataService {
         newTables: 0,
         updatedTables: 0,
         skippedTables: 0,
-        snowflakeDuration: 0,
+        deletedTables: 0,
+        sourceDuration: 0,
         mongoDuration: 0,
         totalProcessingTime: processingTimeMs,
         error: errorMessage
@@ -88,15 +321,21 @@ export class MetadataService {
       
       const syncResponse: SyncResponseDto = {
         success: false,
-        message: 'Metadata sync failed',
+        message: cancelled ? 'Metadata sync cancelled' : 'Metadata sync failed',
         stats: {
           totalTables: 0,
           newTables: 0,
           updatedTables: 0,
           skippedTables: 0,
+          deletedTables: 0,
+          breakingChanges: 0,
           processingTimeMs
         },
-        errors
+        errors,
+        mode,
+        trigger,
+        ...(scope && { scope }),
+        source,
       };
 
       // Save sync stats even for failed syncs
@@ -114,6 +353,241 @@ export class MetadataService {
     return await this.mongodbService.getSyncStatsById(id);
   }
 
+  async listSyncRules(): Promise<SyncRuleDto[]> {
+    return await this.syncRulesService.listRules();
+  }
+
+  async createSyncRule(rule: CreateSyncRuleDto): Promise<SyncRuleDto> {
+    return await this.syncRulesService.createRule(rule);
+  }
+
+  async deleteSyncRule(id: string): Promise<void> {
+    await this.syncRulesService.deleteRule(id);
+  }
+
+  async importDdl(
+    files: DdlFile[],
+    options: DdlImportOptionsDto,
+  ): Promise<DdlImportResponseDto> {
+    return await this.ddlImportService.importDdl(files, options);
+  }
+
+  async importDdlDirectory(
+    path: string,
+    options: DdlImportOptionsDto,
+  ): Promise<DdlImportResponseDto> {
+    return await this.ddlImportService.importDirectory(path, options);
+  }
+
+  listSources(): SourceInfo[] {
+    return this.sourceRegistry.list();
+  }
+
+  async listTables(query: TableQueryDto): Promise<TablePageDto> {
+    const page = await this.mongodbService.findTables(query);
+    return {
+      ...page,
+      items: await this.annotationService.mergeAnnotations(page.items),
+    };
+  }
+
+  async getTable(ref: TableRef): Promise<AnnotatedTableDto> {
+    const [annotated] = await this.annotationService.mergeAnnotations([
+      await this.findTable(ref),
+    ]);
+    return annotated;
+  }
+
+  /**
+   * Resolve many fully-qualified names in a single round-trip.
+   */
+  async getTablesBatch(names: string[]): Promise<TableBatchResponseDto> {
+    const uniqueNames = Array.from(new Set(names ?? []));
+    if (uniqueNames.length > MAX_BATCH_SIZE) {
+      throw new BadRequestException(
+        `Batch lookups are limited to ${MAX_BATCH_SIZE} tables`,
+      );
+    }
+
+    const refs = uniqueNames.map((name) => parseFqn(name));
+    const found = await this.mongodbService.findTablesByRefs(refs);
+    const foundNames = new Set(found.map((table) => toFqn(table)));
+
+    return {
+      found: await this.annotationService.mergeAnnotations(found),
+      missing: refs
+        .map((ref) => toFqn(ref))
+        .filter((name) => !foundNames.has(name)),
+    };
+  }
+
+  async listTableVersions(ref: TableRef): Promise<MetadataVersion[]> {
+    return await this.schemaHistoryService.listVersions(ref);
+  }
+
+  async getTableVersion(
+    ref: TableRef,
+    version: number,
+  ): Promise<MetadataVersion> {
+    return await this.schemaHistoryService.getVersion(ref, version);
+  }
+
+  async diffTableVersions(
+    ref: TableRef,
+    fromVersion: number,
+    toVersion?: number,
+  ): Promise<VersionDiff> {
+    return await this.schemaHistoryService.diffVersions(
+      ref,
+      fromVersion,
+      toVersion,
+    );
+  }
+
+  async exportTable(
+    ref: TableRef,
+    format: ExportFormat,
+  ): Promise<ExportDocument> {
+    return await this.exportService.exportTable(ref, format);
+  }
+
+  async exportSchema(
+    database: string,
+    schema: string,
+    format: ExportFormat,
+  ): Promise<ExportDocument> {
+    return await this.exportService.exportSchema(database, schema, format);
+  }
+
+  async getTableRelationships(ref: TableRef): Promise<TableRelationshipsDto> {
+    return await this.relationshipService.getRelationships(ref);
+  }
+
+  async getSchemaGraph(
+    database: string,
+    schema: string,
+  ): Promise<SchemaGraphDto> {
+    return await this.relationshipService.getSchemaGraph(database, schema);
+  }
+
+  async findTaggedColumns(
+    query: TaggedColumnQueryDto,
+  ): Promise<TaggedColumnDto[]> {
+    return await this.governanceService.findTaggedColumns(query);
+  }
+
+  async getLineage(
+    ref: TableRef,
+    direction: LineageDirection,
+    depth?: number,
+  ): Promise<LineageGraphDto> {
+    return await this.lineageService.getLineage(ref, direction, depth);
+  }
+
+  async getMostUsedTables(
+    query: UsageRankingQueryDto,
+  ): Promise<UsageRankingDto> {
+    return await this.usageService.getMostUsed(query);
+  }
+
+  async getUnusedTables(
+    query: UsageRankingQueryDto,
+    days?: number,
+  ): Promise<UsageRankingDto> {
+    return await this.usageService.getUnused(query, days);
+  }
+
+  async profileTable(
+    ref: TableRef,
+    request: ProfileRequestDto,
+  ): Promise<TableProfileDto> {
+    return await this.profileService.profileTable(ref, request);
+  }
+
+  async getTableProfile(ref: TableRef): Promise<TableProfileDto> {
+    return await this.profileService.getProfile(ref);
+  }
+
+  async listBreakingChanges(
+    query: BreakingChangeQueryDto,
+  ): Promise<SchemaChangePageDto> {
+    return await this.changeImpactService.listBreakingChanges(query);
+  }
+
+  async listClassifications(
+    query: ClassificationQueryDto,
+  ): Promise<ClassificationPageDto> {
+    return await this.classificationService.listClassifications(query);
+  }
+
+  async getTableClassifications(
+    ref: TableRef,
+  ): Promise<ColumnClassificationDto[]> {
+    await this.findTable(ref);
+    return await this.classificationService.getTableClassifications(ref);
+  }
+
+  async reviewClassification(
+    id: string,
+    review: ReviewClassificationDto,
+  ): Promise<ColumnClassificationDto> {
+    return await this.classificationService.review(id, review);
+  }
+
+  async search(query: SearchQueryDto): Promise<SearchResponseDto> {
+    return await this.searchService.search(query);
+  }
+
+  private async findTable(ref: TableRef): Promise<Metadata> {
+    const table = await this.mongodbService.findTable(ref);
+    if (!table) {
+      throw new NotFoundException(`Table ${toFqn(ref)} not found`);
+    }
+    return table;
+  }
+
+  // The sync-wide phases below work like the steps of ChangePipelineService:
+  // a failing phase adds a message to `errors` and the sync carries on.
+
+  // Broken contracts are reported in the result, not as errors
+  private async validateContracts(
+    errors: string[],
+  ): Promise<ContractValidationDto | undefined> {
+    try {
+      return await this.dataContractService.validateAll();
+    } catch (error) {
+      errors.push(`Failed to validate data contracts: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  // Cancellation is not a lineage failure, it stops the sync
+  private async ingestLineage(
+    connector: SourceConnector,
+    errors: string[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    try {
+      await this.lineageService.ingest(connector, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      errors.push(`Failed to ingest lineage: ${error.message}`);
+    }
+  }
+
+  private async collectUsage(
+    connector: SourceConnector,
+    errors: string[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    try {
+      await this.usageService.collect(connector, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      errors.push(`Failed to collect usage: ${error.message}`);
+    }
+  }
+
   /**
    * Log comprehensive metrics for the sync operation
    */
@@ -122,7 +596,8 @@ export class MetadataService {
     newTables: number;
     updatedTables: number;
     skippedTables: number;
-    snowflakeDuration: number;
+    deletedTables: number;
+    sourceDuration: number;
     mongoDuration: number;
     totalProcessingTime: number;
     lastSyncTime?: string;
@@ -134,13 +609,17 @@ export class MetadataService {
         total: metrics.totalTables,
         new: metrics.newTables,
         updated: metrics.updatedTables,
-        skipped: metrics.skippedTables
+        skipped: metrics.skippedTables,
+        deleted: metrics.deletedTables,
       },
       performance: {
-        snowflakeDuration: `${metrics.snowflakeDuration}ms`,
+        sourceDuration: `${metrics.sourceDuration}ms`,
         mongoDuration: `${metrics.mongoDuration}ms`,
         totalProcessingTime: `${metrics.totalProcessingTime}ms`,
-        efficiency: metrics.totalProcessingTime > 0 ? `${Math.round((metrics.snowflakeDuration + metrics.mongoDuration) / metrics.totalProcessingTime * 100)}%` : '0%'
+        efficiency:
+          metrics.totalProcessingTime > 0
+            ? `${Math.round(((metrics.sourceDuration + metrics.mongoDuration) / metrics.totalProcessingTime) * 100)}%`
+            : '0%',
       },
       timing: {
         lastSyncTime: metrics.lastSyncTime || 'N/A',
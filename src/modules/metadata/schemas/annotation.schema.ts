@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ORPHAN_REASONS } from '../dto/annotation.dto';
+import type { OrphanReason } from '../dto/annotation.dto';
+
+export type AnnotationDocument = Annotation & Document;
+
+/**
+ * Business context stewards add to a table or one of its columns. Kept apart
+ * from `Metadata`, keyed by table and column name, so syncs rewriting the
+ * table's columns never touch it.
+ */
+@Schema({
+  collection: 'annotations',
+  timestamps: true,
+})
+export class Annotation {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  schema: string;
+
+  @Prop({ required: true })
+  table: string;
+
+  // Null for an annotation of the whole table
+  @Prop({ type: String, default: null })
+  column: string | null;
+
+  @Prop({ type: String, default: null })
+  description: string | null;
+
+  @Prop({ type: String, default: null })
+  owner: string | null;
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @Prop({ type: Boolean, default: false })
+  certified: boolean;
+
+  @Prop({ type: String, default: null })
+  updatedBy: string | null;
+
+  // Set by syncs when the column or table is dropped, cleared when it returns
+  @Prop({ type: Boolean, default: false })
+  orphaned: boolean;
+
+  @Prop({ type: String, enum: [...ORPHAN_REASONS, null], default: null })
+  orphanReason: OrphanReason | null;
+
+  @Prop({ type: Date, default: null })
+  orphanedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const AnnotationSchema = SchemaFactory.createForClass(Annotation);
+AnnotationSchema.index(
+  { database: 1, schema: 1, table: 1, column: 1 },
+  { unique: true },
+);
+AnnotationSchema.index({ orphaned: 1 });
+AnnotationSchema.index({ tags: 1 });
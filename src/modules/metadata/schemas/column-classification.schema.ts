@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { DEFAULT_SOURCE } from '../connectors/source-connector';
+import { CLASSIFICATION_STATUSES } from '../dto/classification.dto';
+import type { ClassificationStatus } from '../dto/classification.dto';
+import type { ClassificationSignal } from '../utils/classification';
+
+export type ColumnClassificationDocument = ColumnClassification & Document;
+
+/**
+ * A sensitive-data label of one column, kept apart from `Metadata` so that
+ * reviews survive syncs rewriting the table's columns.
+ */
+@Schema({
+  collection: 'column_classifications',
+  timestamps: true,
+})
+export class ColumnClassification {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  schema: string;
+
+  @Prop({ required: true })
+  table: string;
+
+  @Prop({ required: true })
+  column: string;
+
+  @Prop({ required: true })
+  label: string;
+
+  @Prop({ type: Number, required: true })
+  confidence: number;
+
+  @Prop({ type: [String], default: [] })
+  signals: ClassificationSignal[];
+
+  @Prop({
+    type: String,
+    enum: CLASSIFICATION_STATUSES,
+    default: 'pending',
+  })
+  status: ClassificationStatus;
+
+  // Name of the source connector the column was read from
+  @Prop({ type: String, default: DEFAULT_SOURCE })
+  source: string;
+
+  @Prop({ type: Date, required: true })
+  detectedAt: Date;
+
+  @Prop({ type: Date, default: null })
+  reviewedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  reviewer: string | null;
+
+  @Prop({ type: String, default: null })
+  note: string | null;
+}
+
+export const ColumnClassificationSchema =
+  SchemaFactory.createForClass(ColumnClassification);
+ColumnClassificationSchema.index(
+  { database: 1, schema: 1, table: 1, column: 1, label: 1 },
+  { unique: true },
+);
+ColumnClassificationSchema.index({ status: 1, label: 1 });
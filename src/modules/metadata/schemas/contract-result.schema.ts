@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes, Types } from 'mongoose';
+import type { ContractViolation } from '../utils/data-contract';
+
+export type ContractResultDocument = ContractResult & Document;
+
+// One validation of a data contract
+@Schema({
+  collection: 'data_contract_results',
+})
+export class ContractResult {
+  @Prop({ type: SchemaTypes.ObjectId, required: true })
+  contractId: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['pass', 'fail'], required: true })
+  status: 'pass' | 'fail';
+
+  @Prop({ type: [SchemaTypes.Mixed], default: [] })
+  violations: ContractViolation[];
+
+  @Prop({ type: Date, required: true })
+  checkedAt: Date;
+}
+
+export const ContractResultSchema =
+  SchemaFactory.createForClass(ContractResult);
+ContractResultSchema.index({ contractId: 1, checkedAt: -1 });
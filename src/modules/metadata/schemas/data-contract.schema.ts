@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { CONTRACT_STATUSES } from '../dto/data-contract.dto';
+import type { ContractStatus } from '../dto/data-contract.dto';
+import type { ContractColumn, ContractViolation } from '../utils/data-contract';
+
+export type DataContractDocument = DataContract & Document;
+
+@Schema({
+  collection: 'data_contracts',
+  timestamps: true,
+})
+export class DataContract {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  schema: string;
+
+  @Prop({ required: true })
+  table: string;
+
+  @Prop({ type: [SchemaTypes.Mixed], required: true })
+  columns: ContractColumn[];
+
+  @Prop({ type: Boolean, default: true })
+  allowExtraColumns: boolean;
+
+  // Inactive contracts are kept but not validated
+  @Prop({ type: Boolean, default: true })
+  active: boolean;
+
+  @Prop({ type: String, default: null })
+  owner: string | null;
+
+  @Prop({ type: String, default: null })
+  description: string | null;
+
+  // Latest result, also kept in data_contract_results
+  @Prop({ type: String, enum: CONTRACT_STATUSES, default: 'pending' })
+  status: ContractStatus;
+
+  @Prop({ type: [SchemaTypes.Mixed], default: [] })
+  violations: ContractViolation[];
+
+  @Prop({ type: Date, default: null })
+  checkedAt: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DataContractSchema = SchemaFactory.createForClass(DataContract);
+// One contract per table
+DataContractSchema.index(
+  { database: 1, schema: 1, table: 1 },
+  { unique: true },
+);
+DataContractSchema.index({ active: 1, status: 1 });
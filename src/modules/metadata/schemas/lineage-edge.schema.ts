@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { DEFAULT_SOURCE, LINEAGE_KINDS } from '../connectors/source-connector';
+import type { LineageKind } from '../connectors/source-connector';
+import type { TableRef } from '../utils/table-ref';
+
+export type LineageEdgeDocument = LineageEdge & Document;
+
+// Same database/schema/table identity as `Metadata`
+const TableRefDefinition = {
+  _id: false,
+  database: { type: String, required: true },
+  schema: { type: String, required: true },
+  table: { type: String, required: true },
+};
+
+@Schema({
+  collection: 'lineage_edges',
+  timestamps: true,
+})
+export class LineageEdge {
+  @Prop({ type: TableRefDefinition, required: true })
+  upstream: TableRef;
+
+  @Prop({ type: TableRefDefinition, required: true })
+  downstream: TableRef;
+
+  @Prop({ type: String, enum: LINEAGE_KINDS, required: true })
+  kind: LineageKind;
+
+  // Name of the source connector the edge was read from
+  @Prop({ type: String, default: DEFAULT_SOURCE })
+  source: string;
+
+  // First and last query of `access` edges; ingest times of `dependency` edges
+  @Prop({ type: Date, required: true })
+  firstSeen: Date;
+
+  @Prop({ type: Date, required: true })
+  lastSeen: Date;
+}
+
+export const LineageEdgeSchema = SchemaFactory.createForClass(LineageEdge);
+LineageEdgeSchema.index(
+  {
+    'upstream.database': 1,
+    'upstream.schema': 1,
+    'upstream.table': 1,
+    'downstream.database': 1,
+    'downstream.schema': 1,
+    'downstream.table': 1,
+    kind: 1,
+  },
+  { unique: true },
+);
+// Upstream traversal looks edges up by their downstream table
+LineageEdgeSchema.index({
+  'downstream.database': 1,
+  'downstream.schema': 1,
+  'downstream.table': 1,
+});
+LineageEdgeSchema.index({ source: 1, kind: 1, lastSeen: -1 });
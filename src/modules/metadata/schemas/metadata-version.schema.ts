@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { ColumnDefinition } from './metadata.schema';
+import { OBJECT_TYPES, SourceColumn } from '../connectors/source-connector';
+import type { ObjectType } from '../connectors/source-connector';
+import { SchemaDiff } from '../utils/schema-diff';
+
+export type MetadataVersionDocument = MetadataVersion & Document;
+
+@Schema({
+  collection: 'metadata_versions',
+  timestamps: true,
+})
+export class MetadataVersion {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  schema: string;
+
+  @Prop({ required: true })
+  table: string;
+
+  @Prop({ type: Number, required: true })
+  version: number;
+
+  @Prop({
+    type: String,
+    enum: ['created', 'updated', 'restored', 'baseline'],
+    required: true,
+  })
+  changeType: 'created' | 'updated' | 'restored' | 'baseline';
+
+  @Prop([ColumnDefinition])
+  columns: SourceColumn[];
+
+  // Null for baselines and versions recorded before object types were tracked
+  @Prop({ type: String, enum: [...OBJECT_TYPES, null], default: null })
+  objectType: ObjectType | null;
+
+  @Prop({ type: String, default: null })
+  definition: string | null;
+
+  @Prop({ type: String })
+  checksum: string;
+
+  // Difference from the previous version; null for baseline versions
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  diff: SchemaDiff | null;
+
+  @Prop({ type: Date, required: true })
+  capturedAt: Date;
+}
+
+export const MetadataVersionSchema =
+  SchemaFactory.createForClass(MetadataVersion);
+MetadataVersionSchema.index(
+  { database: 1, schema: 1, table: 1, version: -1 },
+  { unique: true },
+);
@@ -1,8 +1,132 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import {
+  DEFAULT_OBJECT_TYPE,
+  DEFAULT_SOURCE,
+  OBJECT_TYPES,
+  SourceColumn,
+} from '../connectors/source-connector';
+import type {
+  ColumnProfile,
+  ForeignKey,
+  KeyConstraint,
+  ObjectType,
+  PolicyReference,
+  ProfileSampling,
+  TagAssignment,
+} from '../connectors/source-connector';
 
 export type MetadataDocument = Metadata & Document;
 
+// Column sub-document shared by the current table and its stored versions
+export const ColumnDefinition = {
+  name: { type: String, required: true },
+  type: { type: String, required: true },
+  nullable: { type: Boolean, required: true },
+  defaultValue: { type: String, default: null },
+  comment: { type: String, default: null },
+  ordinalPosition: { type: Number, default: null },
+  maxLength: { type: Number, default: null },
+  precision: { type: Number, default: null },
+  scale: { type: Number, default: null },
+  identity: { type: Boolean, default: false },
+  identityStart: { type: Number, default: null },
+  identityIncrement: { type: Number, default: null },
+  collation: { type: String, default: null },
+};
+
+const KeyDefinition = {
+  _id: false,
+  name: { type: String, required: true },
+  columns: { type: [String], default: [] },
+};
+
+const ForeignKeyDefinition = {
+  ...KeyDefinition,
+  referencedDatabase: { type: String, required: true },
+  referencedSchema: { type: String, required: true },
+  referencedTable: { type: String, required: true },
+  referencedColumns: { type: [String], default: [] },
+};
+
+const TagDefinition = {
+  _id: false,
+  column: { type: String, default: null },
+  tag: { type: String, required: true },
+  value: { type: String, default: '' },
+};
+
+const PolicyDefinition = {
+  _id: false,
+  column: { type: String, default: null },
+  policy: { type: String, required: true },
+  kind: { type: String, required: true },
+  argumentColumns: { type: [String], default: [] },
+};
+
+const UsageDefinition = {
+  _id: false,
+  queryCount: { type: Number, default: 0 },
+  distinctUsers: { type: Number, default: 0 },
+  lastQueried: { type: Date, default: null },
+  windowDays: { type: Number, required: true },
+  collectedAt: { type: Date, required: true },
+};
+
+// Query counts over the last `windowDays` as of `collectedAt`
+export interface UsageStats {
+  queryCount: number;
+  distinctUsers: number;
+  // Newest query seen by any collection, so it can be older than the window
+  lastQueried: Date | null;
+  windowDays: number;
+  collectedAt: Date;
+}
+
+const ColumnProfileDefinition = {
+  _id: false,
+  column: { type: String, required: true },
+  nullCount: { type: Number, required: true },
+  nullPercent: { type: Number, required: true },
+  distinctCount: { type: Number, default: null },
+  min: { type: String, default: null },
+  max: { type: String, default: null },
+  topValues: {
+    type: [
+      {
+        _id: false,
+        value: { type: String, default: null },
+        count: { type: Number, required: true },
+      },
+    ],
+    default: null,
+  },
+};
+
+const ProfileDefinition = {
+  _id: false,
+  profiledAt: { type: Date, required: true },
+  durationMs: { type: Number, required: true },
+  sampleRows: { type: Number, required: true },
+  sampling: { type: String, enum: ['full', 'system', 'limit'], required: true },
+  rowsSampled: { type: Number, required: true },
+  columnsTruncated: { type: Boolean, default: false },
+  columns: { type: [ColumnProfileDefinition], default: [] },
+};
+
+// Latest on-demand profile of the table's columns
+export interface TableProfile {
+  profiledAt: Date;
+  durationMs: number;
+  // Rows asked for; `rowsSampled` were read
+  sampleRows: number;
+  sampling: ProfileSampling;
+  rowsSampled: number;
+  // True when the table has more columns than were profiled
+  columnsTruncated: boolean;
+  columns: ColumnProfile[];
+}
+
 @Schema({ 
   collection: 'metadata',
   timestamps: true
@@ -17,29 +141,114 @@ export class Metadata {
   @Prop({ required: true })
   table: string;
 
-  @Prop([
-    {
-      name: { type: String, required: true },
-      type: { type: String, required: true },
-      nullable: { type: Boolean, required: true },
-      defaultValue: { type: String, default: null },
-      comment: { type: String, default: null }
-    }
-  ])
-  columns: Array<{
-    name: string;
-    type: string;
-    nullable: boolean;
-    defaultValue?: string;
-    comment?: string;
-  }>;
+  // Name of the source connector the table was read from
+  @Prop({ type: String, default: DEFAULT_SOURCE })
+  source: string;
+
+  @Prop({ type: String, enum: OBJECT_TYPES, default: DEFAULT_OBJECT_TYPE })
+  objectType: ObjectType;
+
+  @Prop([ColumnDefinition])
+  columns: SourceColumn[];
+
+  // SQL of views and materialized views
+  @Prop({ type: String, default: null })
+  definition: string | null;
+
+  // Stage location of external tables
+  @Prop({ type: String, default: null })
+  stageLocation: string | null;
+
+  // Table properties are refreshed on every sync that reads the table but are
+  // not part of the checksum, so changing stats do not create versions
+  @Prop({ type: String, default: null })
+  owner: string | null;
+
+  @Prop({ type: String, default: null })
+  comment: string | null;
+
+  @Prop({ type: Number, default: null })
+  rowCount: number | null;
+
+  @Prop({ type: Number, default: null })
+  bytes: number | null;
+
+  @Prop({ type: String, default: null })
+  clusteringKey: string | null;
+
+  // Time Travel retention in days
+  @Prop({ type: Number, default: null })
+  retentionTime: number | null;
+
+  // Creation and last DDL/DML time in the source
+  @Prop({ type: Date, default: null })
+  created: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastAltered: Date | null;
+
+  // Declared keys; like table properties they are refreshed without a new version
+  @Prop({ type: KeyDefinition, default: null })
+  primaryKey: KeyConstraint | null;
+
+  @Prop({ type: [KeyDefinition], default: [] })
+  uniqueKeys: KeyConstraint[];
+
+  @Prop({ type: [ForeignKeyDefinition], default: [] })
+  foreignKeys: ForeignKey[];
+
+  // Object tags and policies of the table and its columns, refreshed like keys
+  @Prop({ type: [TagDefinition], default: [] })
+  tags: TagAssignment[];
+
+  @Prop({ type: [PolicyDefinition], default: [] })
+  policies: PolicyReference[];
+
+  // Set by usage collection, which is optional; absent until it first runs
+  @Prop({ type: UsageDefinition })
+  usage?: UsageStats;
+
+  // Set by `POST /metadata/tables/:fqn/profile`; absent until the table is first profiled
+  @Prop({ type: ProfileDefinition })
+  profile?: TableProfile;
 
   @Prop({ type: Date, default: Date.now })
   lastSynced: Date;
 
   @Prop({ type: String })
   checksum: string;
+
+  // Algorithm of `checksum`; documents written before it was recorded use 1
+  @Prop({ type: Number, default: 1 })
+  checksumVersion: number;
+
+  @Prop({ type: Number, default: 1 })
+  version: number;
+
+  // Set when a full sync no longer finds the table in the source; cleared if it reappears
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  // Lowercase word tokens of table name, column names and comments, used by search
+  @Prop({ type: [String], default: undefined, select: false })
+  searchTokens?: string[];
 }
 
 export const MetadataSchema = SchemaFactory.createForClass(Metadata);
-MetadataSchema.index({ database: 1, schema: 1, table: 1 }, { unique: true });
\ No newline at end of file
+MetadataSchema.index({ database: 1, schema: 1, table: 1 }, { unique: true });
+MetadataSchema.index({ searchTokens: 1 });
+MetadataSchema.index({ deletedAt: 1 });
+MetadataSchema.index({ source: 1 });
+MetadataSchema.index({ objectType: 1 });
+// Tag lookups and tables missing a kind of policy
+MetadataSchema.index({ 'tags.tag': 1, 'tags.value': 1 });
+MetadataSchema.index({ 'policies.kind': 1 });
+// Usage rankings
+MetadataSchema.index({ 'usage.queryCount': -1 });
+MetadataSchema.index({ 'usage.lastQueried': 1 });
+// Inbound relationships: tables whose foreign keys reference a table
+MetadataSchema.index({
+  'foreignKeys.referencedDatabase': 1,
+  'foreignKeys.referencedSchema': 1,
+  'foreignKeys.referencedTable': 1,
+});
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { CHANGE_IMPACTS } from '../utils/change-impact';
+import type { ChangeImpact, SchemaChangeImpact } from '../utils/change-impact';
+
+export type SchemaChangeDocument = SchemaChange & Document;
+
+// Every table change a sync detected, classified by its impact on consumers
+@Schema({
+  collection: 'schema_changes',
+  timestamps: true,
+})
+export class SchemaChange {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  schema: string;
+
+  @Prop({ required: true })
+  table: string;
+
+  @Prop({
+    type: String,
+    enum: ['created', 'updated', 'restored', 'deleted'],
+    required: true,
+  })
+  changeType: 'created' | 'updated' | 'restored' | 'deleted';
+
+  @Prop({ type: Number, required: true })
+  version: number;
+
+  @Prop({ type: String, enum: CHANGE_IMPACTS, required: true })
+  impact: ChangeImpact;
+
+  @Prop({ type: [SchemaTypes.Mixed], default: [] })
+  changes: SchemaChangeImpact[];
+
+  @Prop({ type: String, required: true })
+  source: string;
+
+  @Prop({ type: Date, required: true })
+  detectedAt: Date;
+}
+
+export const SchemaChangeSchema = SchemaFactory.createForClass(SchemaChange);
+SchemaChangeSchema.index({ impact: 1, detectedAt: -1 });
+SchemaChangeSchema.index({ database: 1, schema: 1, table: 1, detectedAt: -1 });
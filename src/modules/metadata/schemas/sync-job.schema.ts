@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import type {
+  SyncMode,
+  SyncResponseDto,
+  SyncTrigger,
+} from '../dto/sync-response.dto';
+import type { SyncJobStatus, SyncProgressDto } from '../dto/sync-job.dto';
+import type { SyncScopeDto } from '../dto/sync-request.dto';
+import { DEFAULT_SOURCE } from '../connectors/source-connector';
+
+export type SyncJobDocument = SyncJob & Document;
+
+@Schema({
+  collection: 'sync_jobs',
+  timestamps: true,
+})
+export class SyncJob {
+  @Prop({
+    type: String,
+    enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'],
+    required: true,
+  })
+  status: SyncJobStatus;
+
+  @Prop({ type: String, enum: ['incremental', 'full'], required: true })
+  mode: SyncMode;
+
+  @Prop({ type: String, enum: ['user', 'scheduler'], required: true })
+  trigger: SyncTrigger;
+
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  scope: SyncScopeDto | null;
+
+  @Prop({ type: String, default: DEFAULT_SOURCE })
+  source: string;
+
+  @Prop({ type: SchemaTypes.Mixed, required: true })
+  progress: SyncProgressDto;
+
+  // Set by a cancel request; the instance running the job polls it
+  @Prop({ type: Boolean, default: false })
+  cancelRequested: boolean;
+
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  result: SyncResponseDto | null;
+
+  // Instance that runs the job, for debugging multi-instance deployments
+  @Prop({ type: String })
+  instanceId: string;
+
+  @Prop({ type: Date, default: null })
+  startedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  finishedAt: Date | null;
+
+  createdAt: Date;
+}
+
+export const SyncJobSchema = SchemaFactory.createForClass(SyncJob);
+SyncJobSchema.index({ createdAt: -1 });
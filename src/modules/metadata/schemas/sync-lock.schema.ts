@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SyncLockDocument = SyncLock & Document<string>;
+
+/**
+ * A lease held by the sync job that is currently running. A lease that is not
+ * renewed before `expiresAt` (e.g. the instance crashed) can be taken over.
+ */
+@Schema({
+  collection: 'sync_locks',
+  timestamps: true,
+})
+export class SyncLock {
+  @Prop({ type: String })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  owner: string;
+
+  @Prop({ type: String })
+  instanceId: string;
+
+  @Prop({ type: Date, required: true })
+  acquiredAt: Date;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+}
+
+export const SyncLockSchema = SchemaFactory.createForClass(SyncLock);
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type {
+  SyncRuleAction,
+  SyncRuleLevel,
+  SyncRuleSyntax,
+} from '../dto/sync-rule.dto';
+
+export type SyncRuleDocument = SyncRule & Document;
+
+@Schema({
+  collection: 'sync_rules',
+  timestamps: true,
+})
+export class SyncRule {
+  @Prop({ type: String, enum: ['include', 'exclude'], required: true })
+  action: SyncRuleAction;
+
+  @Prop({ type: String, enum: ['database', 'schema', 'table'], required: true })
+  level: SyncRuleLevel;
+
+  @Prop({ type: String, required: true })
+  pattern: string;
+
+  @Prop({ type: String, enum: ['glob', 'regex'], default: 'glob' })
+  syntax: SyncRuleSyntax;
+
+  createdAt: Date;
+}
+
+export const SyncRuleSchema = SchemaFactory.createForClass(SyncRule);
@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { SyncMode } from '../dto/sync-response.dto';
+
+export type SyncScheduleDocument = SyncSchedule & Document;
+
+@Schema({
+  collection: 'sync_schedules',
+  timestamps: true,
+})
+export class SyncSchedule {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ type: String, enum: ['incremental', 'full'], required: true })
+  mode: SyncMode;
+
+  @Prop({ required: true })
+  cron: string;
+
+  @Prop({ type: String, default: 'UTC' })
+  timezone: string;
+
+  @Prop({ type: Boolean, default: false })
+  enabled: boolean;
+
+  @Prop({ type: Date, default: null })
+  lastRunAt: Date | null;
+
+  @Prop({ type: Boolean, default: null })
+  lastRunSuccess: boolean | null;
+}
+
+export const SyncScheduleSchema = SchemaFactory.createForClass(SyncSchedule);
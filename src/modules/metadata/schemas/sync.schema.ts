@@ -1,5 +1,8 @@
-import { Document } from 'mongoose';
+import { Document, SchemaTypes } from 'mongoose';
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import type { SyncMode, SyncTrigger } from '../dto/sync-response.dto';
+import type { SyncScopeDto } from '../dto/sync-request.dto';
+import { DEFAULT_SOURCE } from '../connectors/source-connector';
 
 export type SyncDocument = SyncStats & Document;
 
@@ -29,6 +32,12 @@ export class SyncStats {
   @Prop({ type: Number, default: 0 })
   skippedTables: number;
 
+  @Prop({ type: Number, default: 0 })
+  deletedTables: number;
+
+  @Prop({ type: Number, default: 0 })
+  breakingChanges: number;
+
   @Prop({ type: Number, required: true })
   processingTimeMs: number;
 
@@ -37,6 +46,21 @@ export class SyncStats {
 
   @Prop({ type: String })
   message: string;
+
+  @Prop({ type: String, enum: ['incremental', 'full'], default: 'incremental' })
+  mode: SyncMode;
+
+  // Who started the sync: an API caller or the built-in scheduler
+  @Prop({ type: String, enum: ['user', 'scheduler'], default: 'user' })
+  trigger: SyncTrigger;
+
+  // Set for syncs limited to a database, schema or table; those never move the incremental watermark
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  scope: SyncScopeDto | null;
+
+  // Source connector the sync read from; each source has its own incremental watermark
+  @Prop({ type: String, default: DEFAULT_SOURCE })
+  source: string;
 }
 
 export const SyncStatsSchema = SchemaFactory.createForClass(SyncStats);
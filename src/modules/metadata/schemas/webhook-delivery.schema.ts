@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes, Types } from 'mongoose';
+import { WEBHOOK_DELIVERY_STATUSES } from '../dto/webhook.dto';
+import type {
+  WebhookDeliveryStatus,
+  WebhookPayloadDto,
+} from '../dto/webhook.dto';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+
+@Schema({
+  collection: 'webhook_deliveries',
+  timestamps: true,
+})
+export class WebhookDelivery {
+  @Prop({ type: SchemaTypes.ObjectId, required: true })
+  subscriptionId: Types.ObjectId;
+
+  // Same payload on every attempt and replay
+  @Prop({ type: SchemaTypes.Mixed, required: true })
+  payload: WebhookPayloadDto;
+
+  @Prop({
+    type: String,
+    enum: WEBHOOK_DELIVERY_STATUSES,
+    default: 'pending',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  // Due time of the next attempt; pushed back while an attempt is in flight
+  @Prop({ type: Date, default: null })
+  nextAttemptAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastAttemptAt: Date | null;
+
+  @Prop({ type: Number, default: null })
+  lastStatusCode: number | null;
+
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+
+  @Prop({ type: Date, default: null })
+  deliveredAt: Date | null;
+
+  createdAt: Date;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+// Dispatch picks due deliveries
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { WebhookChangeType } from '../dto/webhook.dto';
+
+export type WebhookSubscriptionDocument = WebhookSubscription & Document;
+
+@Schema({
+  collection: 'webhook_subscriptions',
+  timestamps: true,
+})
+export class WebhookSubscription {
+  @Prop({ type: String, required: true })
+  url: string;
+
+  // HMAC key of the signatures; only returned when the subscription is created
+  @Prop({ type: String, required: true, select: false })
+  secret: string;
+
+  // Glob patterns; null matches every database or schema
+  @Prop({ type: String, default: null })
+  database: string | null;
+
+  @Prop({ type: String, default: null })
+  schema: string | null;
+
+  // Empty matches every change type
+  @Prop({ type: [String], default: [] })
+  changeTypes: WebhookChangeType[];
+
+  createdAt: Date;
+}
+
+export const WebhookSubscriptionSchema =
+  SchemaFactory.createForClass(WebhookSubscription);
@@ -0,0 +1,395 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, FilterQuery, Model, Types } from 'mongoose';
+import { Annotation, AnnotationDocument } from '../schemas/annotation.schema';
+import { Metadata, MetadataDocument } from '../schemas/metadata.schema';
+import { MongodbService, TableChange } from './mongodb.service';
+import {
+  AnnotatedTableDto,
+  AnnotationDto,
+  AnnotationPageDto,
+  AnnotationQueryDto,
+  AnnotationReconcileResultDto,
+  OrphanReason,
+  UpdateAnnotationDto,
+} from '../dto/annotation.dto';
+import { TableRef, patternToRegExp, toFqn } from '../utils/table-ref';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Descriptions, owners, tags and certification that stewards add to tables and
+ * columns. Syncs never overwrite them; when an annotated column or table is
+ * dropped its annotation is kept and flagged as an orphan until the column
+ * returns, the annotation is moved to another column, or it is deleted.
+ */
+@Injectable()
+export class AnnotationService {
+  private readonly logger = new Logger(AnnotationService.name);
+
+  constructor(
+    @InjectModel(Annotation.name)
+    private annotationModel: Model<AnnotationDocument>,
+    private readonly mongodbService: MongodbService,
+  ) {}
+
+  // Table annotation first, then columns by name
+  async getTableAnnotations(ref: TableRef): Promise<AnnotationDto[]> {
+    const annotations = await this.annotationModel
+      .find({ database: ref.database, schema: ref.schema, table: ref.table })
+      .sort({ column: 1 })
+      .exec();
+    return annotations.map((annotation) => this.toDto(annotation));
+  }
+
+  async listAnnotations(query: AnnotationQueryDto): Promise<AnnotationPageDto> {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    );
+    const offset = Math.max(query.offset || 0, 0);
+    const filter: FilterQuery<AnnotationDocument> = {};
+    if (query.orphaned !== undefined) filter.orphaned = query.orphaned;
+    if (query.certified !== undefined) filter.certified = query.certified;
+    if (query.owner) filter.owner = query.owner;
+    if (query.tag) filter.tags = query.tag;
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    if (query.table) filter.table = patternToRegExp(query.table);
+
+    const [annotations, total] = await Promise.all([
+      this.annotationModel
+        .find(filter)
+        .sort({ database: 1, schema: 1, table: 1, column: 1 })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.annotationModel.countDocuments(filter).exec(),
+    ]);
+    return {
+      items: annotations.map((annotation) => this.toDto(annotation)),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Create or change the annotation of a table, or of one of its columns when
+   * `column` is given. Only live tables and their current columns can be
+   * annotated.
+   */
+  async annotate(
+    ref: TableRef,
+    column: string | null,
+    request: UpdateAnnotationDto,
+  ): Promise<AnnotationDto> {
+    await this.findLiveColumn(ref, column);
+    const annotation = await this.annotationModel
+      .findOneAndUpdate(
+        {
+          database: ref.database,
+          schema: ref.schema,
+          table: ref.table,
+          column,
+        },
+        {
+          $set: {
+            ...this.parseUpdate(request ?? {}),
+            orphaned: false,
+            orphanReason: null,
+            orphanedAt: null,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+    this.logger.log(`Annotated ${this.describe(ref, column)}`);
+    return this.toDto(annotation);
+  }
+
+  async deleteAnnotation(ref: TableRef, column: string | null): Promise<void> {
+    const { deletedCount } = await this.annotationModel
+      .deleteOne({
+        database: ref.database,
+        schema: ref.schema,
+        table: ref.table,
+        column,
+      })
+      .exec();
+    if (deletedCount === 0) {
+      throw new NotFoundException(
+        `${this.describe(ref, column)} has no annotation`,
+      );
+    }
+    this.logger.log(`Deleted annotation of ${this.describe(ref, column)}`);
+  }
+
+  /**
+   * Move a column annotation to another column of its table, typically after
+   * the column was renamed and the annotation left behind as an orphan.
+   */
+  async reattach(id: string, column: string): Promise<AnnotationDto> {
+    if (typeof column !== 'string' || column.trim() === '') {
+      throw new BadRequestException('column is required');
+    }
+    const annotation = Types.ObjectId.isValid(id)
+      ? await this.annotationModel.findById(id).exec()
+      : null;
+    if (!annotation) {
+      throw new NotFoundException(`Annotation ${id} not found`);
+    }
+    if (annotation.column === null) {
+      throw new BadRequestException(
+        'Only column annotations can be reattached',
+      );
+    }
+
+    const target = column.trim();
+    await this.findLiveColumn(annotation, target);
+    let moved: AnnotationDocument | null;
+    try {
+      moved = await this.annotationModel
+        .findByIdAndUpdate(
+          id,
+          {
+            $set: {
+              column: target,
+              orphaned: false,
+              orphanReason: null,
+              orphanedAt: null,
+            },
+          },
+          { new: true },
+        )
+        .exec();
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+      throw new ConflictException(
+        `${this.describe(annotation, target)} already has an annotation`,
+      );
+    }
+    this.logger.log(
+      `Moved annotation of ${this.describe(annotation, annotation.column)} to ${target}`,
+    );
+    return this.toDto(moved!);
+  }
+
+  /**
+   * Flag annotations of dropped columns and tables as orphans, and clear the
+   * flag of those whose column or table is back.
+   */
+  async reconcile(
+    changes: TableChange[],
+  ): Promise<AnnotationReconcileResultDto> {
+    if (changes.length === 0) return { orphaned: 0, restored: 0 };
+
+    const annotations = await this.annotationModel
+      .find({
+        $or: changes.map((change) => ({
+          database: change.database,
+          schema: change.schema,
+          table: change.table,
+        })),
+      })
+      .exec();
+    if (annotations.length === 0) return { orphaned: 0, restored: 0 };
+
+    const changesByFqn = new Map(
+      changes.map((change) => [toFqn(change), change]),
+    );
+    const orphanedAt = new Date();
+    const updates: AnyBulkWriteOperation<AnnotationDocument>[] = [];
+    let orphaned = 0;
+    let restored = 0;
+    for (const annotation of annotations) {
+      const reason = this.orphanReason(
+        annotation,
+        changesByFqn.get(toFqn(annotation))!,
+      );
+      if (reason === annotation.orphanReason) continue;
+
+      if (reason) {
+        orphaned++;
+      } else {
+        restored++;
+      }
+      updates.push({
+        updateOne: {
+          filter: { _id: annotation._id },
+          update: {
+            $set: {
+              orphaned: reason !== null,
+              orphanReason: reason,
+              orphanedAt: reason ? orphanedAt : null,
+            },
+          },
+        },
+      });
+    }
+
+    if (updates.length > 0) {
+      await this.annotationModel.bulkWrite(updates, { ordered: false });
+      this.logger.log(
+        `Annotations reconciled: ${orphaned} orphaned, ${restored} restored`,
+      );
+    }
+    return { orphaned, restored };
+  }
+
+  /**
+   * Attach each table's annotations: the table's own, each column's, and the
+   * orphans of columns it no longer has.
+   */
+  async mergeAnnotations(tables: Metadata[]): Promise<AnnotatedTableDto[]> {
+    const annotations =
+      tables.length > 0
+        ? await this.annotationModel
+            .find({
+              $or: tables.map((table) => ({
+                database: table.database,
+                schema: table.schema,
+                table: table.table,
+              })),
+            })
+            .sort({ column: 1 })
+            .exec()
+        : [];
+
+    const annotationsByFqn = new Map<string, AnnotationDto[]>();
+    for (const annotation of annotations) {
+      const fqn = toFqn(annotation);
+      annotationsByFqn.set(fqn, [
+        ...(annotationsByFqn.get(fqn) ?? []),
+        this.toDto(annotation),
+      ]);
+    }
+
+    return tables.map((table) => {
+      const document = table as MetadataDocument;
+      const plain: Metadata =
+        typeof document.toObject === 'function'
+          ? document.toObject<Metadata>()
+          : table;
+      const tableAnnotations = annotationsByFqn.get(toFqn(table)) ?? [];
+      const byColumn = new Map(
+        tableAnnotations.map((annotation) => [annotation.column, annotation]),
+      );
+      const columnNames = new Set(plain.columns.map((column) => column.name));
+      return {
+        ...plain,
+        annotation: byColumn.get(null) ?? null,
+        columns: plain.columns.map((column) => ({
+          ...column,
+          annotation: byColumn.get(column.name) ?? null,
+        })),
+        orphanedAnnotations: tableAnnotations.filter(
+          (annotation) =>
+            annotation.column !== null && !columnNames.has(annotation.column),
+        ),
+      };
+    });
+  }
+
+  private orphanReason(
+    annotation: AnnotationDocument,
+    change: TableChange,
+  ): OrphanReason | null {
+    if (change.changeType === 'deleted') return 'table_dropped';
+    if (
+      annotation.column !== null &&
+      !change.columns.some((column) => column.name === annotation.column)
+    ) {
+      return 'column_dropped';
+    }
+    return null;
+  }
+
+  private async findLiveColumn(
+    ref: TableRef,
+    column: string | null,
+  ): Promise<void> {
+    const table = await this.mongodbService.findTable(ref);
+    if (!table || table.deletedAt) {
+      throw new NotFoundException(`Table ${toFqn(ref)} not found`);
+    }
+    if (column !== null && !table.columns.some(({ name }) => name === column)) {
+      throw new NotFoundException(
+        `Column ${column} not found in ${toFqn(ref)}`,
+      );
+    }
+  }
+
+  // Only the given fields, so an update leaves the others alone
+  private parseUpdate(request: UpdateAnnotationDto): Partial<Annotation> {
+    const { description, owner, tags, certified, updatedBy } = request;
+    const update: Partial<Annotation> = {};
+    if (description !== undefined) {
+      update.description = this.parseText(description, 'description');
+    }
+    if (owner !== undefined) {
+      update.owner = this.parseText(owner, 'owner');
+    }
+    if (tags !== undefined) {
+      if (
+        !Array.isArray(tags) ||
+        tags.some((tag) => typeof tag !== 'string' || tag.trim() === '')
+      ) {
+        throw new BadRequestException(
+          'tags must be a list of non-empty strings',
+        );
+      }
+      update.tags = Array.from(new Set(tags.map((tag) => tag.trim())));
+    }
+    if (certified !== undefined) {
+      if (typeof certified !== 'boolean') {
+        throw new BadRequestException('certified must be a boolean');
+      }
+      update.certified = certified;
+    }
+    if (updatedBy !== undefined) {
+      update.updatedBy = this.parseText(updatedBy, 'updatedBy');
+    }
+    return update;
+  }
+
+  private parseText(value: unknown, name: string): string | null {
+    if (value !== null && typeof value !== 'string') {
+      throw new BadRequestException(`${name} must be a string`);
+    }
+    return value?.trim() || null;
+  }
+
+  private describe(ref: TableRef, column: string | null): string {
+    return column === null
+      ? `Table ${toFqn(ref)}`
+      : `Column ${toFqn(ref)}.${column}`;
+  }
+
+  private toDto(annotation: AnnotationDocument): AnnotationDto {
+    return {
+      id: annotation.id,
+      database: annotation.database,
+      schema: annotation.schema,
+      table: annotation.table,
+      column: annotation.column,
+      description: annotation.description,
+      owner: annotation.owner,
+      tags: annotation.tags,
+      certified: annotation.certified,
+      updatedBy: annotation.updatedBy,
+      orphaned: annotation.orphaned,
+      orphanReason: annotation.orphanReason,
+      orphanedAt: annotation.orphanedAt,
+      createdAt: annotation.createdAt,
+      updatedAt: annotation.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { readFileSync } from 'fs';
+import { FilterQuery, Model } from 'mongoose';
+import {
+  SchemaChange,
+  SchemaChangeDocument,
+} from '../schemas/schema-change.schema';
+import { TableChange } from './mongodb.service';
+import {
+  BreakingChangeQueryDto,
+  SchemaChangeDto,
+  SchemaChangePageDto,
+} from '../dto/change-impact.dto';
+import {
+  CompiledChangeImpactRule,
+  DEFAULT_CHANGE_IMPACT_RULES,
+  assessTableChange,
+  compileChangeImpactRules,
+} from '../utils/change-impact';
+import { patternToRegExp } from '../utils/table-ref';
+import { ChangeImpactConfig } from '../../../config/change-impact.config';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Classifies the table changes syncs detect as breaking, potentially breaking
+ * or non-breaking for consumers, and keeps them for later review.
+ */
+@Injectable()
+export class ChangeImpactService {
+  private readonly logger = new Logger(ChangeImpactService.name);
+  private readonly rules: CompiledChangeImpactRule[];
+
+  constructor(
+    @InjectModel(SchemaChange.name)
+    private schemaChangeModel: Model<SchemaChangeDocument>,
+  ) {
+    this.rules = this.loadRules();
+  }
+
+  /**
+   * Classify and store the changes. Returns the breaking ones.
+   */
+  async recordChanges(
+    changes: TableChange[],
+    source: string,
+  ): Promise<SchemaChangeDto[]> {
+    if (changes.length === 0) return [];
+
+    const detectedAt = new Date();
+    const assessed: SchemaChangeDto[] = changes.map((change) => ({
+      database: change.database,
+      schema: change.schema,
+      table: change.table,
+      changeType: change.changeType,
+      version: change.version,
+      ...assessTableChange(change, this.rules),
+      source,
+      detectedAt,
+    }));
+    await this.schemaChangeModel.insertMany(assessed, { ordered: false });
+
+    const breaking = assessed.filter((change) => change.impact === 'breaking');
+    if (breaking.length > 0) {
+      this.logger.warn(
+        `${breaking.length} of ${changes.length} table changes from ${source} are breaking`,
+      );
+    }
+    return breaking;
+  }
+
+  // Newest first
+  async listBreakingChanges(
+    query: BreakingChangeQueryDto,
+  ): Promise<SchemaChangePageDto> {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    );
+    const offset = Math.max(query.offset || 0, 0);
+    const filter: FilterQuery<SchemaChangeDocument> = { impact: 'breaking' };
+    if (query.since || query.until) {
+      filter.detectedAt = {
+        ...(query.since && { $gte: query.since }),
+        ...(query.until && { $lt: query.until }),
+      };
+    }
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    if (query.table) filter.table = patternToRegExp(query.table);
+
+    const [changes, total] = await Promise.all([
+      this.schemaChangeModel
+        .find(filter)
+        .sort({ detectedAt: -1, database: 1, schema: 1, table: 1 })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.schemaChangeModel.countDocuments(filter).exec(),
+    ]);
+    return {
+      items: changes.map((change) => this.toDto(change)),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  // Rules from the file come first, so they override the built-in ones
+  private loadRules(): CompiledChangeImpactRule[] {
+    const defaults = compileChangeImpactRules(DEFAULT_CHANGE_IMPACT_RULES);
+    const file = ChangeImpactConfig.getRulesFile();
+    if (!file) return defaults;
+
+    let rules: unknown;
+    try {
+      rules = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read change impact rules from ${file}: ${error.message}`,
+      );
+    }
+    const compiled = compileChangeImpactRules(rules);
+    this.logger.log(
+      `Loaded ${compiled.length} change impact rules from ${file}`,
+    );
+    return [...compiled, ...defaults];
+  }
+
+  private toDto(change: SchemaChangeDocument): SchemaChangeDto {
+    return {
+      database: change.database,
+      schema: change.schema,
+      table: change.table,
+      changeType: change.changeType,
+      version: change.version,
+      impact: change.impact,
+      changes: change.changes,
+      source: change.source,
+      detectedAt: change.detectedAt,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { TableChange } from './mongodb.service';
+import { AnnotationService } from './annotation.service';
+import { ChangeImpactService } from './change-impact.service';
+import { WebhookService } from './webhook.service';
+import { ClassificationService } from './classification.service';
+import { SourceTable } from '../connectors/source-connector';
+import { SchemaChangeDto } from '../dto/change-impact.dto';
+
+/**
+ * The steps that follow every write to the catalog, whether by a sync or by a
+ * DDL import. They are secondary to the catalog: each runs in its own
+ * try/catch and adds a message to `errors` when it fails, so one failing step
+ * neither fails the write nor stops the steps after it. Versions are not one
+ * of them, MongodbService stores them ahead of the write.
+ */
+@Injectable()
+export class ChangePipelineService {
+  constructor(
+    private readonly annotationService: AnnotationService,
+    private readonly changeImpactService: ChangeImpactService,
+    private readonly webhookService: WebhookService,
+    private readonly classificationService: ClassificationService,
+  ) {}
+
+  /**
+   * Process one written batch: the `tables` that were written, changed or
+   * not, and the `changes` writing them made. Returns the breaking changes.
+   */
+  async processBatch(
+    { tables, changes }: { tables: SourceTable[]; changes: TableChange[] },
+    source: string,
+    errors: string[],
+  ): Promise<SchemaChangeDto[]> {
+    await this.reconcileAnnotations(changes, errors);
+    const breakingChanges = await this.assessChanges(changes, source, errors);
+    await this.notifyWebhooks(changes, source, errors);
+    await this.classifyColumns(tables, source, errors);
+    return breakingChanges;
+  }
+
+  // Flag annotations of dropped columns as orphans, restore returning ones
+  private async reconcileAnnotations(
+    changes: TableChange[],
+    errors: string[],
+  ): Promise<void> {
+    try {
+      await this.annotationService.reconcile(changes);
+    } catch (error) {
+      errors.push(`Failed to reconcile annotations: ${error.message}`);
+    }
+  }
+
+  private async assessChanges(
+    changes: TableChange[],
+    source: string,
+    errors: string[],
+  ): Promise<SchemaChangeDto[]> {
+    try {
+      return await this.changeImpactService.recordChanges(changes, source);
+    } catch (error) {
+      errors.push(`Failed to classify schema changes: ${error.message}`);
+      return [];
+    }
+  }
+
+  // Deliveries already queued are still sent when queueing the rest fails
+  private async notifyWebhooks(
+    changes: TableChange[],
+    source: string,
+    errors: string[],
+  ): Promise<void> {
+    try {
+      await this.webhookService.notifyChanges(changes, source);
+    } catch (error) {
+      errors.push(`Failed to queue webhooks: ${error.message}`);
+    }
+  }
+
+  private async classifyColumns(
+    tables: SourceTable[],
+    source: string,
+    errors: string[],
+  ): Promise<void> {
+    try {
+      await this.classificationService.classifyTables(tables, source);
+    } catch (error) {
+      errors.push(`Failed to classify columns: ${error.message}`);
+    }
+  }
+}
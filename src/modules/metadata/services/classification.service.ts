@@ -0,0 +1,266 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { readFileSync } from 'fs';
+import { AnyBulkWriteOperation, FilterQuery, Model, Types } from 'mongoose';
+import {
+  ColumnClassification,
+  ColumnClassificationDocument,
+} from '../schemas/column-classification.schema';
+import { SourceTable } from '../connectors/source-connector';
+import {
+  CLASSIFICATION_STATUSES,
+  ClassificationPageDto,
+  ClassificationQueryDto,
+  ClassificationRunResultDto,
+  ColumnClassificationDto,
+  ReviewClassificationDto,
+} from '../dto/classification.dto';
+import {
+  CompiledClassificationRule,
+  DEFAULT_CLASSIFICATION_RULES,
+  classifyColumn,
+  compileClassificationRules,
+} from '../utils/classification';
+import { TableRef, patternToRegExp } from '../utils/table-ref';
+import { ClassificationConfig } from '../../../config/classification.config';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Flags sensitive columns with rule-based labels that then go through review.
+ * Syncs only add and refresh suggestions; a review decision is never
+ * overwritten, so accepted and rejected labels outlive any number of syncs.
+ */
+@Injectable()
+export class ClassificationService {
+  private readonly logger = new Logger(ClassificationService.name);
+  private readonly rules: CompiledClassificationRule[];
+
+  constructor(
+    @InjectModel(ColumnClassification.name)
+    private columnClassificationModel: Model<ColumnClassificationDocument>,
+  ) {
+    this.rules = this.loadRules();
+  }
+
+  /**
+   * Classify every column of the tables. Suggestions that no longer match are
+   * withdrawn while still pending; reviewed labels keep their status.
+   */
+  async classifyTables(
+    tables: SourceTable[],
+    source: string,
+  ): Promise<ClassificationRunResultDto> {
+    if (tables.length === 0) return { detected: 0, withdrawn: 0 };
+
+    const detectedAt = new Date();
+    const operations: AnyBulkWriteOperation<ColumnClassificationDocument>[] =
+      [];
+    for (const table of tables) {
+      for (const column of table.columns) {
+        for (const match of classifyColumn(column, this.rules)) {
+          operations.push({
+            updateOne: {
+              filter: {
+                database: table.database,
+                schema: table.schema,
+                table: table.table,
+                column: column.name,
+                label: match.label,
+              },
+              update: {
+                $set: {
+                  confidence: match.confidence,
+                  signals: match.signals,
+                  source,
+                  detectedAt,
+                },
+              },
+              upsert: true,
+            },
+          });
+        }
+      }
+    }
+    if (operations.length > 0) {
+      await this.columnClassificationModel.bulkWrite(operations, {
+        ordered: false,
+      });
+    }
+
+    const { deletedCount } = await this.columnClassificationModel
+      .deleteMany({
+        $or: tables.map((table) => ({
+          database: table.database,
+          schema: table.schema,
+          table: table.table,
+        })),
+        status: 'pending',
+        detectedAt: { $lt: detectedAt },
+      })
+      .exec();
+
+    this.logger.log(
+      `Classified ${tables.length} tables of ${source}: ${operations.length} column labels, ${deletedCount} withdrawn`,
+    );
+    return { detected: operations.length, withdrawn: deletedCount };
+  }
+
+  // Most confident first
+  async listClassifications(
+    query: ClassificationQueryDto,
+  ): Promise<ClassificationPageDto> {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    );
+    const offset = Math.max(query.offset || 0, 0);
+    const filter = this.buildFilter(query);
+
+    const [classifications, total] = await Promise.all([
+      this.columnClassificationModel
+        .find(filter)
+        .sort({
+          confidence: -1,
+          database: 1,
+          schema: 1,
+          table: 1,
+          column: 1,
+          label: 1,
+        })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.columnClassificationModel.countDocuments(filter).exec(),
+    ]);
+    return {
+      items: classifications.map((classification) =>
+        this.toDto(classification),
+      ),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async getTableClassifications(
+    ref: TableRef,
+  ): Promise<ColumnClassificationDto[]> {
+    const classifications = await this.columnClassificationModel
+      .find({ database: ref.database, schema: ref.schema, table: ref.table })
+      .sort({ column: 1, label: 1 })
+      .exec();
+    return classifications.map((classification) => this.toDto(classification));
+  }
+
+  /**
+   * Accept or reject a label, or send it back to pending.
+   */
+  async review(
+    id: string,
+    request: ReviewClassificationDto,
+  ): Promise<ColumnClassificationDto> {
+    const { status, reviewer, note } =
+      request ?? ({} as ReviewClassificationDto);
+    if (!CLASSIFICATION_STATUSES.includes(status)) {
+      throw new BadRequestException(
+        'status must be pending, accepted or rejected',
+      );
+    }
+    if (reviewer !== undefined && typeof reviewer !== 'string') {
+      throw new BadRequestException('reviewer must be a string');
+    }
+    if (note !== undefined && typeof note !== 'string') {
+      throw new BadRequestException('note must be a string');
+    }
+
+    const reviewed = status !== 'pending';
+    const classification = Types.ObjectId.isValid(id)
+      ? await this.columnClassificationModel
+          .findByIdAndUpdate(
+            id,
+            {
+              $set: {
+                status,
+                reviewedAt: reviewed ? new Date() : null,
+                reviewer: reviewed ? reviewer?.trim() || null : null,
+                note: note?.trim() || null,
+              },
+            },
+            { new: true },
+          )
+          .exec()
+      : null;
+    if (!classification) {
+      throw new NotFoundException(`Classification ${id} not found`);
+    }
+
+    this.logger.log(
+      `Classification ${classification.label} of ${classification.database}.${classification.schema}.${classification.table}.${classification.column} ${status}`,
+    );
+    return this.toDto(classification);
+  }
+
+  private buildFilter(
+    query: ClassificationQueryDto,
+  ): FilterQuery<ColumnClassificationDocument> {
+    const filter: FilterQuery<ColumnClassificationDocument> = {};
+    if (query.status) filter.status = query.status;
+    if (query.label) filter.label = query.label;
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    if (query.table) filter.table = patternToRegExp(query.table);
+    if (query.minConfidence !== undefined) {
+      filter.confidence = { $gte: query.minConfidence };
+    }
+    return filter;
+  }
+
+  private loadRules(): CompiledClassificationRule[] {
+    const file = ClassificationConfig.getRulesFile();
+    if (!file) {
+      return compileClassificationRules(DEFAULT_CLASSIFICATION_RULES);
+    }
+
+    let rules: unknown;
+    try {
+      rules = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read classification rules from ${file}: ${error.message}`,
+      );
+    }
+    const compiled = compileClassificationRules(rules);
+    this.logger.log(
+      `Loaded ${compiled.length} classification rules from ${file}`,
+    );
+    return compiled;
+  }
+
+  private toDto(
+    classification: ColumnClassificationDocument,
+  ): ColumnClassificationDto {
+    return {
+      id: classification.id,
+      database: classification.database,
+      schema: classification.schema,
+      table: classification.table,
+      column: classification.column,
+      label: classification.label,
+      confidence: classification.confidence,
+      signals: classification.signals,
+      status: classification.status,
+      source: classification.source,
+      detectedAt: classification.detectedAt,
+      reviewedAt: classification.reviewedAt,
+      reviewer: classification.reviewer,
+      note: classification.note,
+    };
+  }
+}
@@ -0,0 +1,331 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, FilterQuery, Model, Types } from 'mongoose';
+import {
+  DataContract,
+  DataContractDocument,
+} from '../schemas/data-contract.schema';
+import {
+  ContractResult,
+  ContractResultDocument,
+} from '../schemas/contract-result.schema';
+import { MongodbService } from './mongodb.service';
+import {
+  ContractResultPageDto,
+  ContractStatusDto,
+  ContractValidationDto,
+  CreateDataContractDto,
+  DataContractDto,
+  DataContractQueryDto,
+  UpdateDataContractDto,
+} from '../dto/data-contract.dto';
+import {
+  ContractViolation,
+  parseContractColumns,
+  validateContract,
+} from '../utils/data-contract';
+import { toFqn } from '../utils/table-ref';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Expected table shapes agreed between producers and consumers. Every active
+ * contract is validated against the catalog after each sync and whenever it
+ * changes; each validation is kept as a result.
+ */
+@Injectable()
+export class DataContractService {
+  private readonly logger = new Logger(DataContractService.name);
+
+  constructor(
+    @InjectModel(DataContract.name)
+    private dataContractModel: Model<DataContractDocument>,
+    @InjectModel(ContractResult.name)
+    private contractResultModel: Model<ContractResultDocument>,
+    private readonly mongodbService: MongodbService,
+  ) {}
+
+  async listContracts(query: DataContractQueryDto): Promise<DataContractDto[]> {
+    const filter: FilterQuery<DataContractDocument> = {};
+    if (query.status) filter.status = query.status;
+    if (query.active !== undefined) filter.active = query.active;
+    const contracts = await this.dataContractModel
+      .find(filter)
+      .sort({ database: 1, schema: 1, table: 1 })
+      .exec();
+    return contracts.map((contract) => this.toDto(contract));
+  }
+
+  async getContract(id: string): Promise<DataContractDto> {
+    return this.toDto(await this.findContract(id));
+  }
+
+  async createContract(
+    request: CreateDataContractDto,
+  ): Promise<DataContractDto> {
+    const { database, schema, table } =
+      request ?? ({} as CreateDataContractDto);
+    const ref = {
+      database: this.parseName(database, 'database'),
+      schema: this.parseName(schema, 'schema'),
+      table: this.parseName(table, 'table'),
+    };
+
+    let contract: DataContractDocument;
+    try {
+      contract = await this.dataContractModel.create({
+        ...ref,
+        ...this.parseDefinition(request, true),
+      });
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+      throw new ConflictException(
+        `A contract for ${toFqn(ref)} already exists`,
+      );
+    }
+    this.logger.log(`Created data contract ${contract.id} for ${toFqn(ref)}`);
+    return await this.revalidate(contract);
+  }
+
+  /**
+   * Change a contract's definition. Its table cannot change; delete the
+   * contract and create another one instead.
+   */
+  async updateContract(
+    id: string,
+    request: UpdateDataContractDto,
+  ): Promise<DataContractDto> {
+    await this.findContract(id);
+    const contract = await this.dataContractModel
+      .findByIdAndUpdate(
+        id,
+        { $set: this.parseDefinition(request ?? {}, false) },
+        { new: true },
+      )
+      .exec();
+    this.logger.log(`Updated data contract ${id}`);
+    return await this.revalidate(contract!);
+  }
+
+  async deleteContract(id: string): Promise<void> {
+    const contract = await this.findContract(id);
+    await this.dataContractModel.deleteOne({ _id: contract._id }).exec();
+    await this.contractResultModel
+      .deleteMany({ contractId: contract._id })
+      .exec();
+    this.logger.log(`Deleted data contract ${id}`);
+  }
+
+  // Newest first
+  async listResults(
+    id: string,
+    limit?: number,
+    offset?: number,
+  ): Promise<ContractResultPageDto> {
+    const contract = await this.findContract(id);
+    const pageLimit = Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const pageOffset = Math.max(offset || 0, 0);
+    const filter = { contractId: contract._id };
+
+    const [results, total] = await Promise.all([
+      this.contractResultModel
+        .find(filter)
+        .sort({ checkedAt: -1 })
+        .skip(pageOffset)
+        .limit(pageLimit)
+        .exec(),
+      this.contractResultModel.countDocuments(filter).exec(),
+    ]);
+    return {
+      items: results.map((result) => ({
+        id: result.id,
+        contractId: result.contractId.toString(),
+        status: result.status,
+        violations: result.violations,
+        checkedAt: result.checkedAt,
+      })),
+      total,
+      limit: pageLimit,
+      offset: pageOffset,
+    };
+  }
+
+  /**
+   * Counts of active contracts by status, and the broken ones with their
+   * violations.
+   */
+  async getStatus(): Promise<ContractStatusDto> {
+    const contracts = await this.dataContractModel
+      .find({ active: true })
+      .sort({ database: 1, schema: 1, table: 1 })
+      .exec();
+    const count = (status: string) =>
+      contracts.filter((contract) => contract.status === status).length;
+    return {
+      total: contracts.length,
+      passing: count('pass'),
+      failing: count('fail'),
+      pending: count('pending'),
+      broken: contracts
+        .filter((contract) => contract.status === 'fail')
+        .map((contract) => this.toDto(contract)),
+    };
+  }
+
+  /**
+   * Validate every active contract against the catalog and store the results.
+   */
+  async validateAll(): Promise<ContractValidationDto> {
+    const contracts = await this.dataContractModel
+      .find({ active: true })
+      .exec();
+    if (contracts.length === 0) return { validated: 0, failed: 0 };
+
+    const violations = await this.validate(contracts);
+    const failed = violations.filter((found) => found.length > 0).length;
+    if (failed > 0) {
+      this.logger.warn(
+        `${failed} of ${contracts.length} data contracts are broken`,
+      );
+    } else {
+      this.logger.log(`All ${contracts.length} data contracts pass`);
+    }
+    return { validated: contracts.length, failed };
+  }
+
+  private async revalidate(
+    contract: DataContractDocument,
+  ): Promise<DataContractDto> {
+    if (!contract.active) return this.toDto(contract);
+    await this.validate([contract]);
+    return this.toDto(contract);
+  }
+
+  // Returns the violations of each contract, in order
+  private async validate(
+    contracts: DataContractDocument[],
+  ): Promise<ContractViolation[][]> {
+    const tables = await this.mongodbService.findTablesByRefs(
+      contracts.map((contract) => ({
+        database: contract.database,
+        schema: contract.schema,
+        table: contract.table,
+      })),
+    );
+    const tablesByFqn = new Map(tables.map((table) => [toFqn(table), table]));
+
+    const checkedAt = new Date();
+    const results: Partial<ContractResult>[] = [];
+    const updates: AnyBulkWriteOperation<DataContractDocument>[] = [];
+    const allViolations = contracts.map((contract) => {
+      const violations = validateContract(
+        contract,
+        tablesByFqn.get(toFqn(contract)) ?? null,
+      );
+      const status = violations.length > 0 ? 'fail' : 'pass';
+      results.push({
+        contractId: contract._id as Types.ObjectId,
+        status,
+        violations,
+        checkedAt,
+      });
+      updates.push({
+        updateOne: {
+          filter: { _id: contract._id },
+          update: { $set: { status, violations, checkedAt } },
+        },
+      });
+      Object.assign(contract, { status, violations, checkedAt });
+      return violations;
+    });
+
+    await this.contractResultModel.insertMany(results);
+    await this.dataContractModel.bulkWrite(updates, { ordered: false });
+    return allViolations;
+  }
+
+  private async findContract(id: string): Promise<DataContractDocument> {
+    const contract = Types.ObjectId.isValid(id)
+      ? await this.dataContractModel.findById(id).exec()
+      : null;
+    if (!contract) {
+      throw new NotFoundException(`Data contract ${id} not found`);
+    }
+    return contract;
+  }
+
+  // Only the given fields, so an update leaves the others alone
+  private parseDefinition(
+    request: UpdateDataContractDto,
+    creating: boolean,
+  ): Partial<DataContract> {
+    const { columns, allowExtraColumns, active, owner, description } = request;
+    const definition: Partial<DataContract> = {};
+    if (columns !== undefined || creating) {
+      try {
+        definition.columns = parseContractColumns(columns);
+      } catch (error) {
+        throw new BadRequestException(error.message);
+      }
+    }
+    if (allowExtraColumns !== undefined) {
+      if (typeof allowExtraColumns !== 'boolean') {
+        throw new BadRequestException('allowExtraColumns must be a boolean');
+      }
+      definition.allowExtraColumns = allowExtraColumns;
+    }
+    if (active !== undefined) {
+      if (typeof active !== 'boolean') {
+        throw new BadRequestException('active must be a boolean');
+      }
+      definition.active = active;
+    }
+    if (owner !== undefined) {
+      definition.owner = this.parseText(owner, 'owner');
+    }
+    if (description !== undefined) {
+      definition.description = this.parseText(description, 'description');
+    }
+    return definition;
+  }
+
+  private parseText(value: unknown, name: string): string | null {
+    if (value !== null && typeof value !== 'string') {
+      throw new BadRequestException(`${name} must be a string`);
+    }
+    return value?.trim() || null;
+  }
+
+  private parseName(value: unknown, name: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new BadRequestException(`${name} is required`);
+    }
+    return value.trim();
+  }
+
+  private toDto(contract: DataContractDocument): DataContractDto {
+    return {
+      id: contract.id,
+      database: contract.database,
+      schema: contract.schema,
+      table: contract.table,
+      columns: contract.columns,
+      allowExtraColumns: contract.allowExtraColumns,
+      active: contract.active,
+      owner: contract.owner,
+      description: contract.description,
+      status: contract.status,
+      violations: contract.violations,
+      checkedAt: contract.checkedAt,
+      createdAt: contract.createdAt,
+      updatedAt: contract.updatedAt,
+    };
+  }
+}
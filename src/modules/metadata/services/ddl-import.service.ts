@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { readdir, readFile } from 'fs/promises';
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import { MongodbService } from './mongodb.service';
+import { ChangePipelineService } from './change-pipeline.service';
+import { SourceConfig } from '../../../config/source.config';
+import { SourceTable } from '../connectors/source-connector';
+import {
+  DdlImportConflictDto,
+  DdlImportErrorDto,
+  DdlImportOptionsDto,
+  DdlImportResponseDto,
+} from '../dto/ddl-import.dto';
+import { parseSnowflakeDdl } from '../utils/ddl-parser';
+import { toFqn } from '../utils/table-ref';
+
+// Imported tables are recorded under their own source, so a full sync of a
+// live source does not tombstone them. Table names a live source already has
+// are left to it and reported as conflicts.
+export const DDL_IMPORT_SOURCE = 'ddl-import';
+
+const WRITE_BATCH_SIZE = 500;
+
+export interface DdlFile {
+  name: string;
+  content: string;
+}
+
+@Injectable()
+export class DdlImportService {
+  private readonly logger = new Logger(DdlImportService.name);
+
+  constructor(
+    private readonly mongodbService: MongodbService,
+    private readonly changePipelineService: ChangePipelineService,
+  ) {}
+
+  /**
+   * Parse DDL files in order and write their tables like a sync would, through
+   * the same change pipeline. When a table is defined more than once, the last
+   * definition wins, as it would when running the scripts. Statements that
+   * fail to parse, and tables another source has, are reported and skipped.
+   */
+  async importDdl(
+    files: DdlFile[],
+    options: DdlImportOptionsDto = {},
+  ): Promise<DdlImportResponseDto> {
+    const source =
+      this.parseOption(options.source, 'source') ?? DDL_IMPORT_SOURCE;
+    const defaults = {
+      database: this.parseIdentifier(options.database, 'database'),
+      schema: this.parseIdentifier(options.schema, 'schema'),
+    };
+    if (defaults.schema && !defaults.database) {
+      throw new BadRequestException('schema requires database');
+    }
+
+    const tables = new Map<string, SourceTable>();
+    const errors: DdlImportErrorDto[] = [];
+    let statements = 0;
+    let skippedStatements = 0;
+
+    for (const file of files) {
+      const result = parseSnowflakeDdl(file.content, defaults);
+      statements += result.statements;
+      skippedStatements += result.skippedStatements;
+      result.tables.forEach((table) => tables.set(toFqn(table), table));
+      errors.push(
+        ...result.errors.map((error) => ({ file: file.name, ...error })),
+      );
+    }
+
+    const parsedTables = Array.from(tables.values());
+    const upsertResults = { newTables: 0, updatedTables: 0, skippedTables: 0 };
+    const pipelineErrors: string[] = [];
+    const conflicts: DdlImportConflictDto[] = [];
+    let breakingChanges = 0;
+    for (
+      let offset = 0;
+      offset < parsedTables.length;
+      offset += WRITE_BATCH_SIZE
+    ) {
+      const batch = parsedTables.slice(offset, offset + WRITE_BATCH_SIZE);
+      const {
+        changes,
+        conflicts: batchConflicts,
+        ...batchResults
+      } = await this.mongodbService.upsertMetadata(batch, source);
+      upsertResults.newTables += batchResults.newTables;
+      upsertResults.updatedTables += batchResults.updatedTables;
+      upsertResults.skippedTables += batchResults.skippedTables;
+      conflicts.push(...batchConflicts);
+      const conflicting = new Set(batchConflicts.map((table) => toFqn(table)));
+      breakingChanges += (
+        await this.changePipelineService.processBatch(
+          {
+            tables: batch.filter((table) => !conflicting.has(toFqn(table))),
+            changes,
+          },
+          source,
+          pipelineErrors,
+        )
+      ).length;
+    }
+    pipelineErrors.forEach((error) =>
+      this.logger.error(`${error} (imported tables)`),
+    );
+
+    this.logger.log(
+      `Imported ${parsedTables.length} tables from ${files.length} DDL files into ${source} ` +
+        `(${upsertResults.newTables} new, ${upsertResults.updatedTables} updated, ` +
+        `${upsertResults.skippedTables} unchanged, ${breakingChanges} breaking changes, ` +
+        `${errors.length} statement errors, ${conflicts.length} tables of other sources)`,
+    );
+
+    return {
+      success: errors.length === 0 && conflicts.length === 0,
+      source,
+      files: files.length,
+      statements,
+      tables: parsedTables.length,
+      skippedStatements,
+      ...upsertResults,
+      breakingChanges,
+      errors,
+      conflicts,
+    };
+  }
+
+  /**
+   * Import every `*.sql` file below a directory of DDL_IMPORT_ROOT, in path
+   * order so numbered migration scripts apply in sequence.
+   */
+  async importDirectory(
+    path: string,
+    options: DdlImportOptionsDto = {},
+  ): Promise<DdlImportResponseDto> {
+    const root = SourceConfig.getDdlImportRoot();
+    if (!root) {
+      throw new BadRequestException(
+        'Directory imports are disabled, set DDL_IMPORT_ROOT to enable them',
+      );
+    }
+    if (typeof path !== 'string' || path.trim() === '') {
+      throw new BadRequestException('path must be a non-empty string');
+    }
+
+    const rootPath = resolve(root);
+    const directory = resolve(rootPath, path.trim());
+    const relativePath = relative(rootPath, directory);
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new BadRequestException('path must be inside DDL_IMPORT_ROOT');
+    }
+
+    let paths: string[];
+    try {
+      paths = await this.findSqlFiles(directory);
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        throw new NotFoundException(`Directory ${path} not found`);
+      }
+      throw error;
+    }
+
+    const files: DdlFile[] = [];
+    for (const filePath of paths.sort()) {
+      files.push({
+        name: relative(rootPath, filePath).split(sep).join('/'),
+        content: await readFile(filePath, 'utf8'),
+      });
+    }
+    this.logger.log(`Importing ${files.length} DDL files from ${directory}`);
+    return await this.importDdl(files, options);
+  }
+
+  private async findSqlFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+      const entryPath = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.findSqlFiles(entryPath)));
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.sql')) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  private parseOption(value: unknown, name: string): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new BadRequestException(`${name} must be a non-empty string`);
+    }
+    return value.trim();
+  }
+
+  /**
+   * Default names are case-insensitive, like unquoted identifiers in the DDL.
+   */
+  private parseIdentifier(value: unknown, name: string): string | undefined {
+    return this.parseOption(value, name)?.toUpperCase();
+  }
+}
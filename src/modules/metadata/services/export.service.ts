@@ -0,0 +1,71 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { MongodbService } from './mongodb.service';
+import { SourceTable } from '../connectors/source-connector';
+import { Metadata } from '../schemas/metadata.schema';
+import {
+  ExportDocument,
+  ExportFormat,
+  renderExport,
+} from '../utils/export-formats';
+import { TableRef, toFqn } from '../utils/table-ref';
+
+@Injectable()
+export class ExportService {
+  private readonly logger = new Logger(ExportService.name);
+
+  constructor(private readonly mongodbService: MongodbService) {}
+
+  async exportTable(
+    ref: TableRef,
+    format: ExportFormat,
+  ): Promise<ExportDocument> {
+    const table = await this.mongodbService.findTable(ref);
+    if (!table) {
+      throw new NotFoundException(`Table ${toFqn(ref)} not found`);
+    }
+    this.logger.log(`Exporting ${toFqn(ref)} as ${format}`);
+    return renderExport(format, [this.toSourceTable(table)], toFqn(ref));
+  }
+
+  /**
+   * Export every live table of a schema into one document.
+   */
+  async exportSchema(
+    database: string,
+    schema: string,
+    format: ExportFormat,
+  ): Promise<ExportDocument> {
+    const tables = await this.mongodbService.findSchemaTables(database, schema);
+    if (tables.length === 0) {
+      throw new NotFoundException(`No tables found in ${database}.${schema}`);
+    }
+    this.logger.log(
+      `Exporting ${tables.length} tables of ${database}.${schema} as ${format}`,
+    );
+    return renderExport(
+      format,
+      tables.map((table) => this.toSourceTable(table)),
+      `${database}.${schema}`,
+    );
+  }
+
+  // Stored columns have null instead of missing defaults and comments
+  private toSourceTable(table: Metadata): SourceTable {
+    return {
+      database: table.database,
+      schema: table.schema,
+      table: table.table,
+      columns: (table.columns ?? []).map((column) => ({
+        name: column.name,
+        type: column.type,
+        nullable: column.nullable,
+        precision: column.precision,
+        scale: column.scale,
+        ...(column.defaultValue != null && {
+          defaultValue: column.defaultValue,
+        }),
+        ...(column.comment != null && { comment: column.comment }),
+      })),
+    };
+  }
+}
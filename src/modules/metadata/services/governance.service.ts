@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MongodbService } from './mongodb.service';
+import { TaggedColumnDto, TaggedColumnQueryDto } from '../dto/governance.dto';
+import { matchesTag } from '../utils/governance';
+
+/**
+ * Lookups over the object tags and policies stored with each table.
+ */
+@Injectable()
+export class GovernanceService {
+  private readonly logger = new Logger(GovernanceService.name);
+
+  constructor(private readonly mongodbService: MongodbService) {}
+
+  async findTaggedColumns(
+    query: TaggedColumnQueryDto,
+  ): Promise<TaggedColumnDto[]> {
+    const tables = await this.mongodbService.findTaggedTables(query);
+
+    const columns: TaggedColumnDto[] = [];
+    for (const table of tables) {
+      for (const assignment of table.tags ?? []) {
+        if (assignment.column === null || !matchesTag(assignment, query.tag)) {
+          continue;
+        }
+        columns.push({
+          database: table.database,
+          schema: table.schema,
+          table: table.table,
+          column: assignment.column,
+          tag: assignment.tag,
+          value: assignment.value,
+        });
+      }
+    }
+
+    this.logger.log(
+      `Found ${columns.length} columns tagged ${query.tag.tag} in ${tables.length} tables`,
+    );
+    return columns;
+  }
+}
@@ -0,0 +1,231 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, FilterQuery, Model } from 'mongoose';
+import {
+  LineageEdge,
+  LineageEdgeDocument,
+} from '../schemas/lineage-edge.schema';
+import {
+  LineageEdge as SourceLineageEdge,
+  SourceConnector,
+} from '../connectors/source-connector';
+import {
+  LineageDirection,
+  LineageEdgeDto,
+  LineageGraphDto,
+  LineageIngestResultDto,
+  LineageNodeDto,
+} from '../dto/lineage.dto';
+import { TableRef, toFqn } from '../utils/table-ref';
+
+export const DEFAULT_LINEAGE_DEPTH = 3;
+export const MAX_LINEAGE_DEPTH = 10;
+// Accesses read on the first ingest of a source
+const INITIAL_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+// ACCESS_HISTORY lags behind by up to three hours, so each ingest re-reads them
+const ACCESS_LATENCY_MS = 3 * 60 * 60 * 1000;
+
+const REF_FIELDS = ['database', 'schema', 'table'] as const;
+
+/**
+ * Table-level lineage in its own collection, keyed by the same identity as
+ * the catalog. Edges may reference tables that are not in the catalog.
+ */
+@Injectable()
+export class LineageService {
+  private readonly logger = new Logger(LineageService.name);
+
+  constructor(
+    @InjectModel(LineageEdge.name)
+    private lineageEdgeModel: Model<LineageEdgeDocument>,
+  ) {}
+
+  /**
+   * Read lineage from a source and store it. Dependencies replace the stored
+   * ones of the source; accesses are merged, widening `firstSeen` and
+   * `lastSeen`, so re-reading an overlapping window is harmless.
+   */
+  async ingest(
+    connector: SourceConnector,
+    signal?: AbortSignal,
+  ): Promise<LineageIngestResultDto> {
+    if (!connector.getLineage) {
+      return { dependencies: null, accesses: null };
+    }
+    const since = await this.getAccessWatermark(connector.name);
+    const ingestTime = new Date();
+    const { dependencies, accesses } = await connector.getLineage(
+      since,
+      signal,
+    );
+
+    if (dependencies) {
+      await this.writeEdges(
+        connector.name,
+        dependencies.map((edge) => ({ ...edge, lastSeen: ingestTime })),
+        ingestTime,
+      );
+      // Dependencies of dropped or redefined views were not seen again
+      await this.lineageEdgeModel.deleteMany({
+        source: connector.name,
+        kind: 'dependency',
+        lastSeen: { $lt: ingestTime },
+      });
+    }
+    if (accesses) {
+      await this.writeEdges(connector.name, accesses, ingestTime);
+    }
+
+    this.logger.log(
+      `Ingested lineage of ${connector.name}: ${dependencies?.length ?? 'no'} dependencies, ${accesses?.length ?? 'no'} accesses since ${since.toISOString()}`,
+    );
+    return {
+      dependencies: dependencies?.length ?? null,
+      accesses: accesses?.length ?? null,
+    };
+  }
+
+  /**
+   * Tables feeding (`upstream`) or fed by (`downstream`) a table, up to
+   * `depth` edges away. Edges of both kinds between the same tables are
+   * merged into one.
+   */
+  async getLineage(
+    ref: TableRef,
+    direction: LineageDirection,
+    depth: number = DEFAULT_LINEAGE_DEPTH,
+  ): Promise<LineageGraphDto> {
+    // Upstream edges are found by their downstream end and vice versa
+    const near = direction === 'upstream' ? 'downstream' : 'upstream';
+    const far = direction === 'upstream' ? 'upstream' : 'downstream';
+
+    const nodes = new Map<string, LineageNodeDto>([
+      [toFqn(ref), { id: toFqn(ref), ...this.toRef(ref), distance: 0 }],
+    ]);
+    const edges = new Map<string, LineageEdgeDto>();
+    let frontier: TableRef[] = [ref];
+
+    for (
+      let distance = 1;
+      distance <= depth && frontier.length > 0;
+      distance++
+    ) {
+      const found = await this.lineageEdgeModel
+        .find(this.endsAt(near, frontier))
+        .sort({
+          [`${far}.database`]: 1,
+          [`${far}.schema`]: 1,
+          [`${far}.table`]: 1,
+        })
+        .exec();
+
+      const next: TableRef[] = [];
+      for (const edge of found) {
+        const from = toFqn(edge.upstream);
+        const to = toFqn(edge.downstream);
+        const key = `${from}>${to}`;
+        const existing = edges.get(key);
+        if (existing) {
+          if (!existing.kinds.includes(edge.kind))
+            existing.kinds.push(edge.kind);
+          if (edge.lastSeen > existing.lastSeen)
+            existing.lastSeen = edge.lastSeen;
+        } else {
+          edges.set(key, {
+            from,
+            to,
+            kinds: [edge.kind],
+            lastSeen: edge.lastSeen,
+          });
+        }
+
+        const other = edge[far];
+        if (!nodes.has(toFqn(other))) {
+          nodes.set(toFqn(other), {
+            id: toFqn(other),
+            ...this.toRef(other),
+            distance,
+          });
+          next.push(other);
+        }
+      }
+      frontier = next;
+    }
+
+    const truncated =
+      frontier.length > 0 &&
+      (await this.lineageEdgeModel.exists(this.endsAt(near, frontier))) !==
+        null;
+
+    return {
+      table: toFqn(ref),
+      direction,
+      depth,
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+      truncated,
+    };
+  }
+
+  /**
+   * Accesses are read from the newest stored one, minus the ACCESS_HISTORY
+   * latency, or from the initial lookback on the first ingest.
+   */
+  private async getAccessWatermark(source: string): Promise<Date> {
+    const latest = await this.lineageEdgeModel
+      .findOne({ source, kind: 'access' })
+      .sort({ lastSeen: -1 })
+      .select('lastSeen')
+      .exec();
+    return latest
+      ? new Date(latest.lastSeen.getTime() - ACCESS_LATENCY_MS)
+      : new Date(Date.now() - INITIAL_LOOKBACK_MS);
+  }
+
+  private async writeEdges(
+    source: string,
+    edges: SourceLineageEdge[],
+    seenAt: Date,
+  ): Promise<void> {
+    if (edges.length === 0) return;
+    const operations: AnyBulkWriteOperation<LineageEdgeDocument>[] = edges.map(
+      (edge) => ({
+        updateOne: {
+          filter: {
+            ...this.refFilter('upstream', edge.upstream),
+            ...this.refFilter('downstream', edge.downstream),
+            kind: edge.kind,
+          },
+          // Inserts take upstream, downstream and kind from the filter
+          update: {
+            $set: { source },
+            $min: { firstSeen: edge.firstSeen ?? seenAt },
+            $max: { lastSeen: edge.lastSeen ?? seenAt },
+          },
+          upsert: true,
+        },
+      }),
+    );
+    await this.lineageEdgeModel.bulkWrite(operations, { ordered: false });
+  }
+
+  private endsAt(
+    end: 'upstream' | 'downstream',
+    refs: TableRef[],
+  ): FilterQuery<LineageEdgeDocument> {
+    return { $or: refs.map((ref) => this.refFilter(end, ref)) };
+  }
+
+  private refFilter(
+    end: 'upstream' | 'downstream',
+    ref: TableRef,
+  ): Record<string, string> {
+    return Object.fromEntries(
+      REF_FIELDS.map((field) => [`${end}.${field}`, ref[field]]),
+    );
+  }
+
+  private toRef(ref: TableRef): TableRef {
+    return { database: ref.database, schema: ref.schema, table: ref.table };
+  }
+}
@@ -1,12 +1,86 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Metadata, MetadataDocument } from '../schemas/metadata.schema';
+import { FilterQuery, Model, SortOrder, Types } from 'mongoose';
+import {
+  Metadata,
+  MetadataDocument,
+  TableProfile,
+} from '../schemas/metadata.schema';
 import { SyncStats, SyncDocument } from '../schemas/sync.schema';
-import { SnowflakeTable } from './snowflake.service';
+import { SchemaHistoryService } from './schema-history.service';
+import {
+  DEFAULT_OBJECT_TYPE,
+  DEFAULT_SOURCE,
+  ObjectType,
+  SourceColumn,
+  SourceTable,
+  TABLE_CONSTRAINTS,
+  TABLE_GOVERNANCE,
+  TABLE_PROPERTIES,
+  TableUsage,
+} from '../connectors/source-connector';
 import { SyncResponseDto } from '../dto/sync-response.dto';
+import {
+  TablePageDto,
+  TableQueryDto,
+  TableSortField,
+} from '../dto/table-query.dto';
+import {
+  TableRef,
+  objectTypeCondition,
+  patternToRegExp,
+  toFqn,
+} from '../utils/table-ref';
+import { buildSearchTokens } from '../utils/search-tokens';
+import { SchemaDiff, diffColumns } from '../utils/schema-diff';
+import { SyncFilter } from '../utils/sync-filter';
+import { tagCondition } from '../utils/governance';
+import { TaggedColumnQueryDto } from '../dto/governance.dto';
+import { UsageRankingQueryDto } from '../dto/usage.dto';
 import * as crypto from 'crypto';
 
+const TABLE_SORT_KEYS: Record<TableSortField, string[]> = {
+  name: ['database', 'schema', 'table'],
+  lastSynced: ['lastSynced'],
+  updatedAt: ['updatedAt'],
+};
+/**
+ * One table-level change detected by a sync. `restored` tables reappeared
+ * after being tombstoned; `deleted` tables were missing from a full sync and
+ * carry their last known columns.
+ */
+export interface TableChange extends TableRef {
+  changeType: 'created' | 'updated' | 'restored' | 'deleted';
+  version: number;
+  checksum: string;
+  columns: SourceColumn[];
+  objectType?: ObjectType;
+  definition?: string | null;
+  previousChecksum?: string;
+  previousColumns?: SourceColumn[];
+  diff: SchemaDiff;
+}
+
+/**
+ * A table a sync skipped because another source's active document already
+ * holds its name. `owner` is that source.
+ */
+export interface SourceConflict extends TableRef {
+  owner: string;
+}
+
+const DATE_SORT_KEYS = new Set(['lastSynced', 'updatedAt']);
+// Bump when generateChecksum changes; older documents are migrated by upsertMetadata
+const CHECKSUM_VERSION = 2;
+// Fields outside the checksum that are refreshed in place when they change
+const REFRESHED_FIELDS = [
+  ...TABLE_PROPERTIES,
+  ...TABLE_CONSTRAINTS,
+  ...TABLE_GOVERNANCE,
+];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
 @Injectable()
 export class MongodbService {
   private readonly logger = new Logger(MongodbService.name);
@@ -17,19 +91,31 @@ export class MongodbService {
   constructor(
     @InjectModel(Metadata.name) private metadataModel: Model<MetadataDocument>,
     @InjectModel(SyncStats.name) private syncStatsModel: Model<SyncDocument>,
+    private readonly schemaHistoryService: SchemaHistoryService,
   ) {}
 
-  async upsertMetadata(tables: SnowflakeTable[]): Promise<{
+  async upsertMetadata(
+    tables: SourceTable[],
+    source: string = DEFAULT_SOURCE,
+  ): Promise<{
     newTables: number;
     updatedTables: number;
     skippedTables: number;
+    changes: TableChange[];
+    conflicts: SourceConflict[];
   }> {
     const startTime = Date.now();
     this.operationCount++;
     
     if (tables.length === 0) {
       this.logMetrics('MongoDB Upsert - Empty Tables');
-      return { newTables: 0, updatedTables: 0, skippedTables: 0 };
+      return {
+        newTables: 0,
+        updatedTables: 0,
+        skippedTables: 0,
+        changes: [],
+        conflicts: [],
+      };
     }
 
     this.logger.log(`Processing ${tables.length} tables with bulk operations`);
@@ -37,6 +123,9 @@ export class MongodbService {
     try {
       // Prepare bulk operations
       const bulkOps: any[] = [];
+      const changes: TableChange[] = [];
+      const conflicts: SourceConflict[] = [];
+      let refreshedTables = 0;
       const checksums = new Map<string, string>();
 
       // Generate checksums for all tables
@@ -55,7 +144,7 @@ export class MongodbService {
         }))
       });
 
-      const existingMap = new Map<string, any>();
+      const existingMap = new Map<string, MetadataDocument>();
       existingRecords.forEach(record => {
         const key = `${record.database}.${record.schema}.${record.table}`;
         existingMap.set(key, record);
@@ -66,6 +155,21 @@ export class MongodbService {
         const key = `${table.database}.${table.schema}.${table.table}`;
         const checksum = checksums.get(key)!;
         const existingRecord = existingMap.get(key);
+        const owner = existingRecord?.source ?? DEFAULT_SOURCE;
+        // Names are unique across sources: a table another source still has is
+        // left to it, one it dropped may be taken over
+        if (existingRecord && owner !== source && !existingRecord.deletedAt) {
+          conflicts.push({
+            database: table.database,
+            schema: table.schema,
+            table: table.table,
+            owner,
+          });
+          continue;
+        }
+        const unchanged =
+          existingRecord &&
+          this.matchesStoredChecksum(existingRecord, table, checksum);
 
         if (!existingRecord) {
           // New record - insert
@@ -73,13 +177,48 @@ export class MongodbService {
             insertOne: {
               document: {
                 ...table,
+                source,
                 checksum,
+                checksumVersion: CHECKSUM_VERSION,
+                version: 1,
+                searchTokens: buildSearchTokens(table),
                 lastSynced: new Date()
               }
             }
           });
-        } else if (existingRecord.checksum !== checksum) {
-          // Updated record - update
+          changes.push({
+            database: table.database,
+            schema: table.schema,
+            table: table.table,
+            changeType: 'created',
+            version: 1,
+            checksum,
+            columns: table.columns,
+            objectType: table.objectType ?? DEFAULT_OBJECT_TYPE,
+            definition: table.definition ?? null,
+            diff: diffColumns([], table.columns),
+          });
+        } else if (!unchanged || existingRecord.deletedAt) {
+          // Updated or resurrected record - keep the previous shape for the version history
+          const shapeChanged = !unchanged;
+          const version =
+            (existingRecord.version ?? 1) + (shapeChanged ? 1 : 0);
+          const previousColumns = this.toPlainColumns(existingRecord.columns);
+          changes.push({
+            database: table.database,
+            schema: table.schema,
+            table: table.table,
+            changeType: existingRecord.deletedAt ? 'restored' : 'updated',
+            version,
+            checksum,
+            columns: table.columns,
+            objectType: table.objectType ?? DEFAULT_OBJECT_TYPE,
+            definition: table.definition ?? null,
+            // An unchanged shape may still be stored under an older checksum algorithm
+            previousChecksum: shapeChanged ? existingRecord.checksum : checksum,
+            previousColumns,
+            diff: diffColumns(previousColumns, table.columns),
+          });
           bulkOps.push({
             updateOne: {
               filter: {
@@ -90,16 +229,63 @@ export class MongodbService {
               update: {
                 $set: {
                   columns: table.columns,
+                  objectType: table.objectType ?? DEFAULT_OBJECT_TYPE,
+                  definition: table.definition ?? null,
+                  stageLocation: table.stageLocation ?? null,
+                  ...this.reportedProperties(table),
+                  source,
                   checksum,
+                  checksumVersion: CHECKSUM_VERSION,
+                  version,
+                  searchTokens: buildSearchTokens(table),
+                  deletedAt: null,
                   lastSynced: new Date()
                 }
               }
             }
           });
+        } else if ((existingRecord.checksumVersion ?? 1) < CHECKSUM_VERSION) {
+          // Same shape under the older algorithm: store the current checksum and the column
+          // attributes it covers without a new version
+          refreshedTables++;
+          bulkOps.push({
+            updateOne: {
+              filter: {
+                database: table.database,
+                schema: table.schema,
+                table: table.table,
+              },
+              update: {
+                $set: {
+                  columns: table.columns,
+                  checksum,
+                  checksumVersion: CHECKSUM_VERSION,
+                  ...this.reportedProperties(table),
+                },
+              },
+            },
+          });
+        } else if (this.propertiesChanged(existingRecord, table)) {
+          // Same shape with moved stats (row count, bytes, ...), keys, tags or policies: refresh them without a new version
+          refreshedTables++;
+          bulkOps.push({
+            updateOne: {
+              filter: {
+                database: table.database,
+                schema: table.schema,
+                table: table.table,
+              },
+              update: { $set: this.reportedProperties(table) },
+            },
+          });
         }
         // Skip unchanged records (no operation needed)
       }
 
+      // Versions are stored before the tables move on to them: when storing them
+      // fails nothing is written, and the next sync detects the same changes again
+      await this.schemaHistoryService.recordChanges(changes);
+
       // Execute bulk operations
       let newTables = 0;
       let updatedTables = 0;
@@ -110,14 +296,26 @@ export class MongodbService {
         const result = await this.metadataModel.bulkWrite(bulkOps, { ordered: false });
         
         newTables = result.insertedCount || 0;
-        updatedTables = result.modifiedCount || 0;
-        skippedTables = tables.length - newTables - updatedTables;
-        
-        this.logger.log(`Bulk operations completed: ${newTables} inserted, ${updatedTables} updated, ${skippedTables} skipped`);
+        // Counted from the changes, as the driver does not count writes of identical values;
+        // property refreshes and checksum migrations are not schema changes, the table counts as unchanged
+        updatedTables = changes.filter(
+          (change) => change.changeType !== 'created',
+        ).length;
+        skippedTables =
+          tables.length - conflicts.length - newTables - updatedTables;
+
+        this.logger.log(
+          `Bulk operations completed: ${newTables} inserted, ${updatedTables} updated, ${skippedTables} skipped (${refreshedTables} with refreshed properties)`,
+        );
       } else {
-        skippedTables = tables.length;
+        skippedTables = tables.length - conflicts.length;
         this.logger.log(`All ${tables.length} tables were unchanged - no operations needed`);
       }
+      if (conflicts.length > 0) {
+        this.logger.warn(
+          `Skipped ${conflicts.length} tables whose names belong to another source`,
+        );
+      }
 
       const duration = Date.now() - startTime;
       this.totalOperationDuration += duration;
@@ -131,8 +329,7 @@ export class MongodbService {
         duration: `${duration}ms`
       });
 
-      return { newTables, updatedTables, skippedTables };
-      
+      return { newTables, updatedTables, skippedTables, changes, conflicts };
     } catch (error) {
       const duration = Date.now() - startTime;
       this.errorCount++;
@@ -141,6 +338,80 @@ export class MongodbService {
     }
   }
 
+  /**
+   * Tombstone active tables that a full sync no longer returned. Documents are
+   * kept with a `deletedAt` timestamp so a later sync can resurrect them.
+   */
+  async tombstoneMissingTables(
+    presentTables: TableRef[],
+    filter?: SyncFilter,
+    source: string = DEFAULT_SOURCE,
+  ): Promise<TableChange[]> {
+    const presentKeys = new Set(presentTables.map((table) => toFqn(table)));
+    const activeRecords = await this.metadataModel
+      .find({ deletedAt: null, source: this.sourceCondition(source) })
+      .select('database schema table')
+      .exec();
+
+    // Tables outside the sync's scope or excluded by rules were not looked at, so they are not missing
+    const missingIds = activeRecords
+      .filter((record) => !filter || filter.allowsTable(record))
+      .filter((record) => !presentKeys.has(toFqn(record)))
+      .map((record) => record._id);
+
+    if (missingIds.length === 0) {
+      this.logger.log('No dropped tables detected');
+      return [];
+    }
+
+    const missingRecords = await this.metadataModel
+      .find({ _id: { $in: missingIds } })
+      .select('database schema table columns checksum version')
+      .exec();
+
+    const deletedAt = new Date();
+    await this.metadataModel.updateMany(
+      { _id: { $in: missingIds } },
+      { $set: { deletedAt } },
+    );
+    this.logger.log(
+      `Tombstoned ${missingIds.length} tables no longer present in the source`,
+    );
+
+    return missingRecords.map((record) => {
+      const columns = this.toPlainColumns(record.columns);
+      return {
+        database: record.database,
+        schema: record.schema,
+        table: record.table,
+        changeType: 'deleted' as const,
+        version: record.version ?? 1,
+        checksum: record.checksum,
+        columns,
+        previousChecksum: record.checksum,
+        previousColumns: columns,
+        diff: diffColumns(columns, []),
+      };
+    });
+  }
+
+  // Tables and syncs recorded before sources existed came from the default source
+  private sourceCondition(
+    source: string,
+  ): string | { $in: Array<string | null> } {
+    return source === DEFAULT_SOURCE ? { $in: [source, null] } : source;
+  }
+
+  // Columns of a document are subdocuments; plain objects are kept as they are
+  private toPlainColumns(columns: SourceColumn[] | undefined): SourceColumn[] {
+    return (columns ?? []).map((column) => {
+      const subdocument = column as SourceColumn & {
+        toObject?: () => SourceColumn;
+      };
+      return subdocument.toObject ? subdocument.toObject() : column;
+    });
+  }
+
   /**
    * Log metrics summary
    */
@@ -159,17 +430,391 @@ export class MongodbService {
   }
 
 
-  private generateChecksum(table: SnowflakeTable): string {
+  /**
+   * The table properties and keys the source reported, so a source that
+   * cannot tell e.g. the last altered time does not clear it.
+   */
+  private reportedProperties(table: SourceTable): Partial<SourceTable> {
+    const properties: Record<string, unknown> = {};
+    for (const key of REFRESHED_FIELDS) {
+      if (table[key] !== undefined) properties[key] = table[key];
+    }
+    return properties as Partial<SourceTable>;
+  }
+
+  // Keys are compared as JSON, with fields in the order of the schema definitions
+  private propertiesChanged(
+    existingRecord: Metadata,
+    table: SourceTable,
+  ): boolean {
+    const normalize = (value: unknown) => {
+      if (value instanceof Date) return value.getTime();
+      if (value !== null && typeof value === 'object')
+        return JSON.stringify(value);
+      return value ?? null;
+    };
+    return REFRESHED_FIELDS.some(
+      (key) =>
+        table[key] !== undefined &&
+        normalize(existingRecord[key]) !== normalize(table[key]),
+    );
+  }
+
+  /**
+   * Whether the table still has the shape of the stored document. Documents
+   * written by an older checksum algorithm are compared with that algorithm,
+   * so upgrading does not report every table as updated.
+   */
+  private matchesStoredChecksum(
+    existingRecord: Metadata,
+    table: SourceTable,
+    checksum: string,
+  ): boolean {
+    if (existingRecord.checksum === checksum) return true;
+    return (
+      (existingRecord.checksumVersion ?? 1) < CHECKSUM_VERSION &&
+      existingRecord.checksum === this.generateLegacyChecksum(table)
+    );
+  }
+
+  /**
+   * Columns are hashed in table order with all their attributes, so moved,
+   * widened or re-collated columns change the checksum. Table properties are
+   * left out: row counts and sizes change with every load.
+   */
+  private generateChecksum(table: SourceTable): string {
+    const columns = [...table.columns].sort(
+      (a, b) => (a.ordinalPosition ?? 0) - (b.ordinalPosition ?? 0),
+    );
+    const data = JSON.stringify({
+      checksumVersion: CHECKSUM_VERSION,
+      objectType: table.objectType ?? DEFAULT_OBJECT_TYPE,
+      definition: table.definition ?? null,
+      stageLocation: table.stageLocation ?? null,
+      columns: columns.map((column) => [
+        column.name,
+        column.type,
+        column.nullable,
+        column.defaultValue ?? null,
+        column.comment ?? null,
+        column.maxLength ?? null,
+        column.precision ?? null,
+        column.scale ?? null,
+        column.identity ?? false,
+        column.identityStart ?? null,
+        column.identityIncrement ?? null,
+        column.collation ?? null,
+      ]),
+    });
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  /**
+   * Checksum version 1: columns sorted by name with only their name, type,
+   * nullability, default and comment; object type, definition and stage
+   * location only when set.
+   */
+  private generateLegacyChecksum(table: SourceTable): string {
+    const objectType = table.objectType ?? DEFAULT_OBJECT_TYPE;
     const data = JSON.stringify({
-      columns: table.columns.sort((a, b) => a.name.localeCompare(b.name))
+      columns: table.columns
+        .map(({ name, type, nullable, defaultValue, comment }) => ({
+          name,
+          type,
+          nullable,
+          defaultValue,
+          comment,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      ...(objectType !== DEFAULT_OBJECT_TYPE && { objectType }),
+      ...(table.definition && { definition: table.definition }),
+      ...(table.stageLocation && { stageLocation: table.stageLocation }),
     });
     return crypto.createHash('sha256').update(data).digest('hex');
   }
 
-  async getSyncStats(): Promise<{
+  /**
+   * List synced tables with name-pattern filters and keyset (cursor) pagination.
+   * The cursor encodes the sort values of the last returned document, so pages
+   * stay stable while a sync is writing to the collection.
+   */
+  async findTables(query: TableQueryDto): Promise<TablePageDto<Metadata>> {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    );
+    const direction: SortOrder = query.sortOrder === 'desc' ? -1 : 1;
+    const sortKeys = [...TABLE_SORT_KEYS[query.sortBy ?? 'name'], '_id'];
+
+    const filter: FilterQuery<MetadataDocument> = {};
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    if (query.table) filter.table = patternToRegExp(query.table);
+    if (query.source) filter.source = this.sourceCondition(query.source);
+    if (query.objectTypes?.length)
+      filter.objectType = objectTypeCondition(query.objectTypes);
+    if (query.tag) filter.tags = tagCondition(query.tag);
+    // Also matches tables whose policies were never read
+    if (query.withoutPolicy)
+      filter['policies.kind'] = { $ne: query.withoutPolicy };
+    if (!query.includeDeleted) filter.deletedAt = null;
+
+    const conditions: FilterQuery<MetadataDocument>[] = [filter];
+    if (query.cursor) {
+      conditions.push(
+        this.buildCursorFilter(
+          sortKeys,
+          this.decodeCursor(query.cursor, sortKeys),
+          direction,
+        ),
+      );
+    }
+
+    const sort: Record<string, SortOrder> = {};
+    sortKeys.forEach((key) => (sort[key] = direction));
+
+    const documents = await this.metadataModel
+      .find(conditions.length > 1 ? { $and: conditions } : filter)
+      .sort(sort)
+      .limit(limit + 1)
+      .exec();
+
+    const items = documents.slice(0, limit);
+    const nextCursor =
+      documents.length > limit
+        ? this.encodeCursor(sortKeys, items[items.length - 1])
+        : null;
+
+    return { items, nextCursor, limit };
+  }
+
+  async findTable(ref: TableRef): Promise<Metadata | null> {
+    return await this.metadataModel
+      .findOne({ database: ref.database, schema: ref.schema, table: ref.table })
+      .exec();
+  }
+
+  async findSchemaTables(
+    database: string,
+    schema: string,
+  ): Promise<Metadata[]> {
+    return await this.metadataModel
+      .find({ database, schema, deletedAt: null })
+      .sort({ table: 1 })
+      .exec();
+  }
+
+  // Live tables with a foreign key to the table
+  async findReferencingTables(ref: TableRef): Promise<Metadata[]> {
+    return await this.metadataModel
+      .find({
+        deletedAt: null,
+        foreignKeys: {
+          $elemMatch: {
+            referencedDatabase: ref.database,
+            referencedSchema: ref.schema,
+            referencedTable: ref.table,
+          },
+        },
+      })
+      .sort({ database: 1, schema: 1, table: 1 })
+      .exec();
+  }
+
+  // Live tables with a matching tag on at least one column
+  async findTaggedTables(query: TaggedColumnQueryDto): Promise<Metadata[]> {
+    const filter: FilterQuery<MetadataDocument> = {
+      deletedAt: null,
+      tags: tagCondition(query.tag, true),
+    };
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    return await this.metadataModel
+      .find(filter)
+      .sort({ database: 1, schema: 1, table: 1 })
+      .exec();
+  }
+
+  /**
+   * Store usage collected at `collectedAt`. Live tables of the source without
+   * queries in the window are reset to zero but keep their `lastQueried`.
+   * Returns the number of tables found for `usages`.
+   */
+  async saveTableUsage(
+    source: string,
+    usages: TableUsage[],
+    windowDays: number,
+    collectedAt: Date,
+  ): Promise<number> {
+    let matched = 0;
+    if (usages.length > 0) {
+      const result = await this.metadataModel.bulkWrite(
+        usages.map((usage) => ({
+          updateOne: {
+            filter: {
+              database: usage.database,
+              schema: usage.schema,
+              table: usage.table,
+            },
+            update: {
+              $set: {
+                'usage.queryCount': usage.queryCount,
+                'usage.distinctUsers': usage.distinctUsers,
+                ...(usage.lastQueried && {
+                  'usage.lastQueried': usage.lastQueried,
+                }),
+                'usage.windowDays': windowDays,
+                'usage.collectedAt': collectedAt,
+              },
+            },
+          },
+        })),
+        { ordered: false },
+      );
+      matched = result.matchedCount;
+    }
+
+    await this.metadataModel.updateMany(
+      {
+        source: this.sourceCondition(source),
+        deletedAt: null,
+        'usage.collectedAt': { $ne: collectedAt },
+      },
+      {
+        $set: {
+          'usage.queryCount': 0,
+          'usage.distinctUsers': 0,
+          'usage.windowDays': windowDays,
+          'usage.collectedAt': collectedAt,
+        },
+      },
+    );
+    return matched;
+  }
+
+  async findMostUsedTables(query: UsageRankingQueryDto): Promise<Metadata[]> {
+    return await this.metadataModel
+      .find({ ...this.usageFilter(query), 'usage.queryCount': { $gt: 0 } })
+      .sort({
+        'usage.queryCount': -1,
+        'usage.distinctUsers': -1,
+        database: 1,
+        schema: 1,
+        table: 1,
+      })
+      .skip(query.offset ?? 0)
+      .limit(query.limit ?? DEFAULT_PAGE_SIZE)
+      .exec();
+  }
+
+  // Tables never queried have no `lastQueried`, which `$not` also matches
+  async findUnusedTables(
+    query: UsageRankingQueryDto,
+    since: Date,
+  ): Promise<Metadata[]> {
+    return await this.metadataModel
+      .find({
+        ...this.usageFilter(query),
+        'usage.collectedAt': { $ne: null },
+        'usage.lastQueried': { $not: { $gte: since } },
+      })
+      .sort({ 'usage.lastQueried': 1, database: 1, schema: 1, table: 1 })
+      .skip(query.offset ?? 0)
+      .limit(query.limit ?? DEFAULT_PAGE_SIZE)
+      .exec();
+  }
+
+  private usageFilter(
+    query: UsageRankingQueryDto,
+  ): FilterQuery<MetadataDocument> {
+    const filter: FilterQuery<MetadataDocument> = { deletedAt: null };
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    return filter;
+  }
+
+  // Replaces the table's previous profile
+  async saveTableProfile(ref: TableRef, profile: TableProfile): Promise<void> {
+    await this.metadataModel
+      .updateOne(
+        { database: ref.database, schema: ref.schema, table: ref.table },
+        { $set: { profile } },
+      )
+      .exec();
+  }
+
+  async findTablesByRefs(refs: TableRef[]): Promise<Metadata[]> {
+    if (refs.length === 0) return [];
+    return await this.metadataModel
+      .find({
+        $or: refs.map((ref) => ({
+          database: ref.database,
+          schema: ref.schema,
+          table: ref.table,
+        })),
+      })
+      .exec();
+  }
+
+  private encodeCursor(sortKeys: string[], document: object): string {
+    const values = sortKeys.map((key) => {
+      const value: unknown = (document as Record<string, unknown>)[key];
+      return value instanceof Date || value instanceof Types.ObjectId
+        ? value.toString()
+        : value;
+    });
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, sortKeys: string[]): unknown[] {
+    try {
+      const values: unknown = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      );
+      if (!Array.isArray(values) || values.length !== sortKeys.length) {
+        throw new Error('cursor does not match sort order');
+      }
+      return values.map((value: unknown, index) => {
+        const key = sortKeys[index];
+        if (key === '_id') return new Types.ObjectId(value as string);
+        if (DATE_SORT_KEYS.has(key)) return new Date(value as string);
+        return value;
+      });
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+  }
+
+  /**
+   * Keyset condition: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+   */
+  private buildCursorFilter(
+    sortKeys: string[],
+    values: unknown[],
+    direction: SortOrder,
+  ): FilterQuery<MetadataDocument> {
+    const operator = direction === 1 ? '$gt' : '$lt';
+    const branches = sortKeys.map((key, index) => {
+      const branch: Record<string, unknown> = {};
+      for (let i = 0; i < index; i++) {
+        branch[sortKeys[i]] = values[i];
+      }
+      branch[key] = { [operator]: values[index] };
+      return branch;
+    });
+    return { $or: branches };
+  }
+
+  async getSyncStats(source: string = DEFAULT_SOURCE): Promise<{
     lastSyncTime: Date | null;
   }> {
-    const lastSync = await this.syncStatsModel.findOne({"success": true})
+    // Scoped syncs only saw part of the catalog, so they do not count as the last sync
+    const lastSync = await this.syncStatsModel
+      .findOne({
+        success: true,
+        scope: null,
+        source: this.sourceCondition(source),
+      })
       .sort({ syncEndTime: -1 })
       .select('syncEndTime');
 
@@ -188,9 +833,15 @@ export class MongodbService {
         newTables: syncResponse.stats.newTables,
         updatedTables: syncResponse.stats.updatedTables,
         skippedTables: syncResponse.stats.skippedTables,
+        deletedTables: syncResponse.stats.deletedTables,
+        breakingChanges: syncResponse.stats.breakingChanges ?? 0,
         processingTimeMs: syncResponse.stats.processingTimeMs,
         errors: syncResponse.errors || [],
-        message: syncResponse.message
+        message: syncResponse.message,
+        mode: syncResponse.mode ?? 'incremental',
+        trigger: syncResponse.trigger ?? 'user',
+        scope: syncResponse.scope ?? null,
+        source: syncResponse.source ?? DEFAULT_SOURCE,
       });
       this.logger.log('Sync stats saved to MongoDB');
     } catch (error) {
@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { MongodbService } from './mongodb.service';
+import { SourceRegistryService } from './source-registry.service';
+import { DEFAULT_SOURCE } from '../connectors/source-connector';
+import { ProfileRequestDto, TableProfileDto } from '../dto/profile.dto';
+import { Metadata, TableProfile } from '../schemas/metadata.schema';
+import { TableRef, toFqn } from '../utils/table-ref';
+import { ProfileConfig } from '../../../config/profile.config';
+
+// Most frequent values kept for columns with at most LOW_CARDINALITY distinct values
+const TOP_VALUES = 10;
+const LOW_CARDINALITY = 50;
+
+/**
+ * On-demand column statistics of a catalog table, computed by its source.
+ * Profiling runs queries on the source's compute, so the sample size,
+ * statement time, column count and how often a table is profiled are all
+ * bounded by `ProfileConfig`.
+ */
+@Injectable()
+export class ProfileService {
+  private readonly logger = new Logger(ProfileService.name);
+
+  constructor(
+    private readonly mongodbService: MongodbService,
+    private readonly sourceRegistry: SourceRegistryService,
+  ) {}
+
+  async profileTable(
+    ref: TableRef,
+    request: ProfileRequestDto = {},
+  ): Promise<TableProfileDto> {
+    const sampleRows = this.resolveSampleRows(request?.sampleRows);
+    const table = await this.findLiveTable(ref);
+    const connector = this.sourceRegistry.get(table.source ?? DEFAULT_SOURCE);
+    if (!connector.profileTable) {
+      throw new BadRequestException(
+        `Source "${connector.name}" does not support profiling`,
+      );
+    }
+    this.checkCooldown(table);
+
+    const maxColumns = ProfileConfig.getMaxColumns();
+    const columns = table.columns.slice(0, maxColumns);
+    const startTime = Date.now();
+    const result = await connector.profileTable(
+      {
+        database: table.database,
+        schema: table.schema,
+        table: table.table,
+        objectType: table.objectType,
+        rowCount: table.rowCount,
+        columns,
+      },
+      {
+        sampleRows,
+        timeoutSeconds: ProfileConfig.getTimeoutSeconds(),
+        topValues: TOP_VALUES,
+        lowCardinality: LOW_CARDINALITY,
+      },
+    );
+
+    const profile: TableProfile = {
+      profiledAt: new Date(),
+      durationMs: Date.now() - startTime,
+      sampleRows,
+      sampling: result.sampling,
+      rowsSampled: result.rowsSampled,
+      columnsTruncated: table.columns.length > columns.length,
+      columns: result.columns,
+    };
+    await this.mongodbService.saveTableProfile(ref, profile);
+
+    this.logger.log(
+      `Profiled ${columns.length} columns of ${toFqn(ref)} over ${profile.rowsSampled} rows (${profile.sampling}) in ${profile.durationMs}ms`,
+    );
+    return { ...ref, profile };
+  }
+
+  async getProfile(ref: TableRef): Promise<TableProfileDto> {
+    const table = await this.mongodbService.findTable(ref);
+    if (!table?.profile) {
+      throw new NotFoundException(`No profile of table ${toFqn(ref)}`);
+    }
+    return { ...ref, profile: table.profile };
+  }
+
+  private resolveSampleRows(sampleRows?: number): number {
+    if (sampleRows === undefined) return ProfileConfig.getDefaultSampleRows();
+    const maxSampleRows = ProfileConfig.getMaxSampleRows();
+    if (!Number.isInteger(sampleRows) || sampleRows < 1) {
+      throw new BadRequestException('sampleRows must be a positive integer');
+    }
+    if (sampleRows > maxSampleRows) {
+      throw new BadRequestException(
+        `sampleRows must be at most ${maxSampleRows}`,
+      );
+    }
+    return sampleRows;
+  }
+
+  private async findLiveTable(ref: TableRef): Promise<Metadata> {
+    const table = await this.mongodbService.findTable(ref);
+    if (!table) {
+      throw new NotFoundException(`Table ${toFqn(ref)} not found`);
+    }
+    if (table.deletedAt) {
+      throw new BadRequestException(
+        `Table ${toFqn(ref)} was dropped from its source`,
+      );
+    }
+    return table;
+  }
+
+  private checkCooldown(table: Metadata): void {
+    const cooldownMs = ProfileConfig.getCooldownMinutes() * 60 * 1000;
+    const profiledAt = table.profile?.profiledAt;
+    if (!profiledAt || cooldownMs === 0) return;
+
+    const nextProfile = new Date(profiledAt.getTime() + cooldownMs);
+    if (nextProfile.getTime() > Date.now()) {
+      throw new ConflictException(
+        `Table ${toFqn(table)} was profiled at ${profiledAt.toISOString()}; it can be profiled again after ${nextProfile.toISOString()}`,
+      );
+    }
+  }
+}
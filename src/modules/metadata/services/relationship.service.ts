@@ -0,0 +1,123 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { MongodbService } from './mongodb.service';
+import {
+  DEFAULT_OBJECT_TYPE,
+  ForeignKey,
+} from '../connectors/source-connector';
+import {
+  RelationshipDto,
+  SchemaGraphDto,
+  SchemaGraphNodeDto,
+  TableRelationshipsDto,
+} from '../dto/relationship.dto';
+import { Metadata } from '../schemas/metadata.schema';
+import { TableRef, toFqn } from '../utils/table-ref';
+
+/**
+ * Joins between tables from their declared foreign keys. Keys are read as
+ * synced; a foreign key may reference a table that is not in the catalog.
+ */
+@Injectable()
+export class RelationshipService {
+  private readonly logger = new Logger(RelationshipService.name);
+
+  constructor(private readonly mongodbService: MongodbService) {}
+
+  async getRelationships(ref: TableRef): Promise<TableRelationshipsDto> {
+    const table = await this.mongodbService.findTable(ref);
+    if (!table) {
+      throw new NotFoundException(`Table ${toFqn(ref)} not found`);
+    }
+    const referencing = await this.mongodbService.findReferencingTables(ref);
+
+    return {
+      table: toFqn(ref),
+      primaryKey: table.primaryKey ?? null,
+      uniqueKeys: table.uniqueKeys ?? [],
+      outbound: (table.foreignKeys ?? []).map((foreignKey) =>
+        this.toRelationship(table, foreignKey),
+      ),
+      inbound: referencing.flatMap((other) =>
+        (other.foreignKeys ?? [])
+          .filter((foreignKey) => this.references(foreignKey, ref))
+          .map((foreignKey) => this.toRelationship(other, foreignKey)),
+      ),
+    };
+  }
+
+  /**
+   * Live tables of a schema as nodes and their foreign keys as edges. Tables
+   * of other schemas that are referenced become `external` nodes.
+   */
+  async getSchemaGraph(
+    database: string,
+    schema: string,
+  ): Promise<SchemaGraphDto> {
+    const tables = await this.mongodbService.findSchemaTables(database, schema);
+    if (tables.length === 0) {
+      throw new NotFoundException(`No tables found in ${database}.${schema}`);
+    }
+
+    const nodes = new Map<string, SchemaGraphNodeDto>();
+    for (const table of tables) {
+      nodes.set(toFqn(table), {
+        id: toFqn(table),
+        database: table.database,
+        schema: table.schema,
+        table: table.table,
+        objectType: table.objectType ?? DEFAULT_OBJECT_TYPE,
+        primaryKey: table.primaryKey?.columns ?? [],
+        external: false,
+      });
+    }
+
+    const edges: RelationshipDto[] = [];
+    for (const table of tables) {
+      for (const foreignKey of table.foreignKeys ?? []) {
+        const edge = this.toRelationship(table, foreignKey);
+        edges.push(edge);
+        if (!nodes.has(edge.toTable)) {
+          nodes.set(edge.toTable, {
+            id: edge.toTable,
+            database: foreignKey.referencedDatabase,
+            schema: foreignKey.referencedSchema,
+            table: foreignKey.referencedTable,
+            objectType: null,
+            primaryKey: [],
+            external: true,
+          });
+        }
+      }
+    }
+
+    this.logger.log(
+      `Built graph of ${database}.${schema} with ${nodes.size} nodes and ${edges.length} edges`,
+    );
+    return { database, schema, nodes: Array.from(nodes.values()), edges };
+  }
+
+  private toRelationship(
+    table: Metadata,
+    foreignKey: ForeignKey,
+  ): RelationshipDto {
+    return {
+      name: foreignKey.name,
+      fromTable: toFqn(table),
+      fromColumns: [...foreignKey.columns],
+      toTable: toFqn({
+        database: foreignKey.referencedDatabase,
+        schema: foreignKey.referencedSchema,
+        table: foreignKey.referencedTable,
+      }),
+      toColumns: [...foreignKey.referencedColumns],
+    };
+  }
+
+  private references(foreignKey: ForeignKey, ref: TableRef): boolean {
+    return (
+      foreignKey.referencedDatabase === ref.database &&
+      foreignKey.referencedSchema === ref.schema &&
+      foreignKey.referencedTable === ref.table
+    );
+  }
+}
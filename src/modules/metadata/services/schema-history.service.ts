@@ -0,0 +1,188 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  MetadataVersion,
+  MetadataVersionDocument,
+} from '../schemas/metadata-version.schema';
+import { TableChange } from './mongodb.service';
+import { TableRef, toFqn } from '../utils/table-ref';
+import { SchemaDiff, diffColumns } from '../utils/schema-diff';
+
+export interface VersionDiff extends TableRef {
+  fromVersion: number;
+  toVersion: number;
+  diff: SchemaDiff;
+}
+
+@Injectable()
+export class SchemaHistoryService {
+  private readonly logger = new Logger(SchemaHistoryService.name);
+
+  constructor(
+    @InjectModel(MetadataVersion.name)
+    private metadataVersionModel: Model<MetadataVersionDocument>,
+  ) {}
+
+  /**
+   * Store a version for every change to a table's shape. Tables synced before
+   * history existed get their previous shape recorded as a baseline version
+   * first, so the very first change is still diffable. Tombstones and
+   * restores without a column change do not create versions. Versions are
+   * written by number, so recording a version again replaces it.
+   */
+  async recordChanges(allChanges: TableChange[]): Promise<number> {
+    const changes = allChanges.filter(
+      (change) =>
+        change.changeType === 'created' ||
+        (change.changeType !== 'deleted' &&
+          change.checksum !== change.previousChecksum),
+    );
+    if (changes.length === 0) return 0;
+
+    const capturedAt = new Date();
+    const versions: Partial<MetadataVersion>[] = [];
+
+    const updates = changes.filter((change) => change.changeType !== 'created');
+    const previousVersionKeys = await this.findExistingVersionKeys(
+      updates.map((change) => ({ ...change, version: change.version - 1 })),
+    );
+
+    for (const change of changes) {
+      const ref = {
+        database: change.database,
+        schema: change.schema,
+        table: change.table,
+      };
+
+      if (
+        change.changeType !== 'created' &&
+        !previousVersionKeys.has(`${toFqn(ref)}@${change.version - 1}`)
+      ) {
+        versions.push({
+          ...ref,
+          version: change.version - 1,
+          changeType: 'baseline',
+          columns: change.previousColumns ?? [],
+          checksum: change.previousChecksum,
+          diff: null,
+          capturedAt,
+        });
+      }
+
+      versions.push({
+        ...ref,
+        version: change.version,
+        changeType: change.changeType as MetadataVersion['changeType'],
+        columns: change.columns,
+        objectType: change.objectType ?? null,
+        definition: change.definition ?? null,
+        checksum: change.checksum,
+        diff: change.diff,
+        capturedAt,
+      });
+    }
+
+    try {
+      await this.metadataVersionModel.bulkWrite(
+        versions.map((version) => ({
+          replaceOne: {
+            filter: {
+              database: version.database,
+              schema: version.schema,
+              table: version.table,
+              version: version.version,
+            },
+            replacement: version as MetadataVersion,
+            upsert: true,
+          },
+        })),
+        { ordered: false },
+      );
+      this.logger.log(`Recorded ${versions.length} schema versions`);
+      return versions.length;
+    } catch (error) {
+      this.logger.error('Failed to record schema versions', error);
+      throw error;
+    }
+  }
+
+  async listVersions(ref: TableRef): Promise<MetadataVersion[]> {
+    return await this.metadataVersionModel
+      .find({ database: ref.database, schema: ref.schema, table: ref.table })
+      .select('-columns')
+      .sort({ version: -1 })
+      .exec();
+  }
+
+  async getVersion(ref: TableRef, version: number): Promise<MetadataVersion> {
+    const document = await this.metadataVersionModel
+      .findOne({
+        database: ref.database,
+        schema: ref.schema,
+        table: ref.table,
+        version,
+      })
+      .exec();
+    if (!document) {
+      throw new NotFoundException(
+        `Version ${version} of ${toFqn(ref)} not found`,
+      );
+    }
+    return document;
+  }
+
+  /**
+   * Diff any two stored versions. When `toVersion` is omitted the latest
+   * version is used.
+   */
+  async diffVersions(
+    ref: TableRef,
+    fromVersion: number,
+    toVersion?: number,
+  ): Promise<VersionDiff> {
+    const from = await this.getVersion(ref, fromVersion);
+    const to =
+      toVersion !== undefined
+        ? await this.getVersion(ref, toVersion)
+        : await this.getLatestVersion(ref);
+
+    return {
+      ...ref,
+      fromVersion: from.version,
+      toVersion: to.version,
+      diff: diffColumns(from.columns, to.columns),
+    };
+  }
+
+  private async getLatestVersion(ref: TableRef): Promise<MetadataVersion> {
+    const document = await this.metadataVersionModel
+      .findOne({ database: ref.database, schema: ref.schema, table: ref.table })
+      .sort({ version: -1 })
+      .exec();
+    if (!document) {
+      throw new NotFoundException(`No versions recorded for ${toFqn(ref)}`);
+    }
+    return document;
+  }
+
+  private async findExistingVersionKeys(
+    refs: Array<TableRef & { version: number }>,
+  ): Promise<Set<string>> {
+    if (refs.length === 0) return new Set();
+    const existing = await this.metadataVersionModel
+      .find({
+        $or: refs.map((ref) => ({
+          database: ref.database,
+          schema: ref.schema,
+          table: ref.table,
+          version: ref.version,
+        })),
+      })
+      .select('database schema table version')
+      .exec();
+    return new Set(
+      existing.map((version) => `${toFqn(version)}@${version.version}`),
+    );
+  }
+}
@@ -0,0 +1,311 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { Metadata, MetadataDocument } from '../schemas/metadata.schema';
+import {
+  SearchHighlightDto,
+  SearchHitDto,
+  SearchQueryDto,
+  SearchResponseDto,
+} from '../dto/search.dto';
+import { buildSearchTokens, tokenizeWithSpans } from '../utils/search-tokens';
+import { objectTypeCondition, patternToRegExp } from '../utils/table-ref';
+
+interface FieldWeights {
+  exact: number;
+  prefix: number;
+}
+
+interface FieldMatch {
+  score: number;
+  matched: Set<string>;
+  spans: Array<[number, number]>;
+}
+
+const TABLE_WEIGHTS: FieldWeights = { exact: 3, prefix: 2 };
+const COLUMN_WEIGHTS: FieldWeights = { exact: 3, prefix: 2 };
+const COMMENT_WEIGHTS: FieldWeights = { exact: 1.5, prefix: 1 };
+// Share of the table-name score credited to each matching column of that table
+const TABLE_CONTEXT_WEIGHT = 0.5;
+const MAX_CANDIDATES = 2000;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const BACKFILL_BATCH_SIZE = 500;
+
+@Injectable()
+export class SearchService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SearchService.name);
+
+  constructor(
+    @InjectModel(Metadata.name) private metadataModel: Model<MetadataDocument>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    this.backfillSearchTokens().catch((error) =>
+      this.logger.error('Failed to backfill search tokens', error),
+    );
+  }
+
+  /**
+   * Search table names, column names and column comments. Candidates are
+   * fetched through the `searchTokens` index, then every table and column is
+   * scored and highlighted in memory.
+   */
+  async search(query: SearchQueryDto): Promise<SearchResponseDto> {
+    const queryTokens = Array.from(
+      new Set(tokenizeWithSpans(query.q).map((span) => span.token)),
+    );
+    if (queryTokens.length === 0) {
+      throw new BadRequestException(
+        'Search query must contain at least one word',
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    );
+    const offset = Math.max(query.offset || 0, 0);
+    const types = (query.types ?? []).map((type) => type.toUpperCase());
+
+    const filter: FilterQuery<MetadataDocument> = {
+      $or: queryTokens.map((token) => ({
+        searchTokens: { $regex: `^${this.escapeRegExp(token)}` },
+      })),
+    };
+    if (query.database) filter.database = patternToRegExp(query.database);
+    if (query.schema) filter.schema = patternToRegExp(query.schema);
+    filter.deletedAt = null;
+    if (types.length > 0) filter['columns.type'] = { $in: types };
+    if (query.objectTypes?.length) {
+      filter.objectType = objectTypeCondition(query.objectTypes);
+    }
+
+    const candidates = await this.metadataModel
+      .find(filter)
+      .limit(MAX_CANDIDATES)
+      .exec();
+    if (candidates.length === MAX_CANDIDATES) {
+      this.logger.warn(
+        `Search for "${query.q}" hit the ${MAX_CANDIDATES} candidate limit, results may be incomplete`,
+      );
+    }
+
+    const hits: SearchHitDto[] = [];
+    for (const candidate of candidates) {
+      hits.push(...this.scoreTable(candidate, queryTokens, types, query.kind));
+    }
+
+    hits.sort(
+      (a, b) =>
+        b.score - a.score ||
+        `${a.database}.${a.schema}.${a.table}.${a.column ?? ''}`.localeCompare(
+          `${b.database}.${b.schema}.${b.table}.${b.column ?? ''}`,
+        ),
+    );
+
+    this.logger.log(
+      `Search for "${query.q}" matched ${hits.length} items in ${candidates.length} tables`,
+    );
+
+    return {
+      query: query.q,
+      total: hits.length,
+      hits: hits.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Populate `searchTokens` on documents written before search existed.
+   */
+  async backfillSearchTokens(): Promise<number> {
+    let total = 0;
+
+    for (;;) {
+      const documents = await this.metadataModel
+        .find({ searchTokens: { $exists: false } })
+        .select('table columns')
+        .limit(BACKFILL_BATCH_SIZE)
+        .exec();
+
+      if (documents.length === 0) break;
+
+      await this.metadataModel.bulkWrite(
+        documents.map((document) => ({
+          updateOne: {
+            filter: { _id: document._id },
+            update: { $set: { searchTokens: buildSearchTokens(document) } },
+          },
+        })),
+        { ordered: false },
+      );
+      total += documents.length;
+
+      if (documents.length < BACKFILL_BATCH_SIZE) break;
+    }
+
+    if (total > 0) {
+      this.logger.log(`Backfilled search tokens for ${total} tables`);
+    }
+    return total;
+  }
+
+  private scoreTable(
+    document: Metadata,
+    queryTokens: string[],
+    types: string[],
+    kind?: SearchQueryDto['kind'],
+  ): SearchHitDto[] {
+    const hits: SearchHitDto[] = [];
+    const tableMatch = this.matchField(
+      document.table,
+      queryTokens,
+      TABLE_WEIGHTS,
+    );
+
+    if (types.length === 0 && kind !== 'column' && tableMatch.score > 0) {
+      hits.push({
+        kind: 'table',
+        database: document.database,
+        schema: document.schema,
+        table: document.table,
+        score: this.round(
+          tableMatch.score * this.coverage(tableMatch.matched, queryTokens),
+        ),
+        highlights: [
+          {
+            field: 'table',
+            value: this.highlight(document.table, tableMatch.spans),
+          },
+        ],
+      });
+    }
+
+    if (kind === 'table') return hits;
+
+    for (const column of document.columns ?? []) {
+      if (types.length > 0 && !types.includes(column.type?.toUpperCase()))
+        continue;
+
+      const nameMatch = this.matchField(
+        column.name,
+        queryTokens,
+        COLUMN_WEIGHTS,
+      );
+      const commentMatch = this.matchField(
+        column.comment,
+        queryTokens,
+        COMMENT_WEIGHTS,
+      );
+      const ownScore = nameMatch.score + commentMatch.score;
+      if (ownScore === 0) continue;
+
+      const matched = new Set([
+        ...nameMatch.matched,
+        ...commentMatch.matched,
+        ...tableMatch.matched,
+      ]);
+      const highlights: SearchHighlightDto[] = [];
+      if (nameMatch.score > 0) {
+        highlights.push({
+          field: 'column',
+          value: this.highlight(column.name, nameMatch.spans),
+        });
+      }
+      if (commentMatch.score > 0 && column.comment) {
+        highlights.push({
+          field: 'comment',
+          value: this.highlight(column.comment, commentMatch.spans),
+        });
+      }
+
+      hits.push({
+        kind: 'column',
+        database: document.database,
+        schema: document.schema,
+        table: document.table,
+        column: column.name,
+        dataType: column.type,
+        comment: column.comment ?? undefined,
+        score: this.round(
+          (ownScore + TABLE_CONTEXT_WEIGHT * tableMatch.score) *
+            this.coverage(matched, queryTokens),
+        ),
+        highlights,
+      });
+    }
+
+    return hits;
+  }
+
+  /**
+   * Score each query token by its best exact or prefix match in the field.
+   */
+  private matchField(
+    text: string | null | undefined,
+    queryTokens: string[],
+    weights: FieldWeights,
+  ): FieldMatch {
+    const result: FieldMatch = { score: 0, matched: new Set(), spans: [] };
+    const fieldSpans = tokenizeWithSpans(text);
+
+    for (const queryToken of queryTokens) {
+      let best = 0;
+      for (const span of fieldSpans) {
+        let weight = 0;
+        if (span.token === queryToken) {
+          weight = weights.exact;
+        } else if (span.token.startsWith(queryToken)) {
+          weight = weights.prefix;
+        }
+        if (weight > 0) {
+          result.spans.push([span.start, span.start + queryToken.length]);
+          best = Math.max(best, weight);
+        }
+      }
+      if (best > 0) {
+        result.score += best;
+        result.matched.add(queryToken);
+      }
+    }
+
+    return result;
+  }
+
+  private coverage(matched: Set<string>, queryTokens: string[]): number {
+    return matched.size / queryTokens.length;
+  }
+
+  private highlight(text: string, spans: Array<[number, number]>): string {
+    const merged: Array<[number, number]> = [];
+    for (const [start, end] of [...spans].sort((a, b) => a[0] - b[0])) {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    }
+
+    let result = '';
+    let position = 0;
+    for (const [start, end] of merged) {
+      result += `${text.slice(position, start)}<mark>${text.slice(start, end)}</mark>`;
+      position = end;
+    }
+    return result + text.slice(position);
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private round(score: number): number {
+    return Math.round(score * 1000) / 1000;
+  }
+}
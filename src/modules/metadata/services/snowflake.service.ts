@@ -1,22 +1,94 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as snowflake from 'snowflake-sdk';
 import { DatabaseConfig } from '../../../config/database.config';
+import { SyncScopeDto } from '../dto/sync-request.dto';
+import {
+  ColumnProfile,
+  DEFAULT_OBJECT_TYPE,
+  DEFAULT_SOURCE,
+  ExtractionOptions,
+  ForeignKey,
+  LineageEdge,
+  LineageExtraction,
+  ObjectType,
+  PolicyReference,
+  ProfileOptions,
+  ProfileSampling,
+  SourceColumn,
+  SourceConnector,
+  SourceTable,
+  TableProfileResult,
+  TableProperties,
+  TableUsage,
+  TagAssignment,
+  ValueFrequency,
+} from '../connectors/source-connector';
 
-export interface SnowflakeTable {
-  database: string;
-  schema: string;
-  table: string;
-  columns: Array<{
-    name: string;
-    type: string;
-    nullable: boolean;
-    defaultValue?: string;
-    comment?: string;
-  }>;
+// Incremental syncs re-read tables changed this long before the last sync finished
+const INCREMENTAL_OVERLAP_MS = 5 * 60 * 1000;
+
+export type SnowflakeColumn = SourceColumn;
+export type SnowflakeTable = SourceTable;
+// A result row, keyed by column name; values are narrowed where they are read
+type SnowflakeRow = Record<string, unknown>;
+// A row of SHOW DATABASES or SHOW SCHEMAS
+type NamedRow = SnowflakeRow & { name: string };
+
+// Object types whose definition or stage location is read separately
+const DEFINED_OBJECT_TYPES = new Set<ObjectType>([
+  'view',
+  'materialized_view',
+  'external_table',
+]);
+// OBJECT_DEPENDENCIES domains of objects that hold or expose table data
+const LINEAGE_OBJECT_DOMAINS = [
+  'TABLE',
+  'VIEW',
+  'MATERIALIZED VIEW',
+  'EXTERNAL TABLE',
+  'DYNAMIC TABLE',
+];
+// ACCESS_HISTORY spells the same domains in mixed case
+const ACCESS_OBJECT_DOMAINS = [
+  'Table',
+  'View',
+  'Materialized view',
+  'External table',
+  'Dynamic table',
+];
+// Profiling: types with an order get min/max, scalar types also distinct counts and top values
+const ORDERED_TYPES = new Set([
+  'TEXT',
+  'NUMBER',
+  'FLOAT',
+  'DATE',
+  'TIME',
+  'TIMESTAMP_NTZ',
+  'TIMESTAMP_LTZ',
+  'TIMESTAMP_TZ',
+]);
+const SCALAR_TYPES = new Set([...ORDERED_TYPES, 'BOOLEAN']);
+// Object types stored in micro-partitions, which block sampling can skip
+const BLOCK_SAMPLED_OBJECT_TYPES = new Set<ObjectType>([
+  'base_table',
+  'transient_table',
+  'dynamic_table',
+]);
+// Longest min/max kept, e.g. for long text values
+const PROFILE_VALUE_LENGTH = 256;
+
+interface SchemaObject {
+  name: string;
+  objectType: ObjectType;
+  definition?: string;
+  stageLocation?: string;
+  properties: TableProperties;
 }
 
 @Injectable()
-export class SnowflakeService {
+export class SnowflakeService implements SourceConnector {
+  readonly name = DEFAULT_SOURCE;
+  readonly type = 'snowflake';
   private readonly logger = new Logger(SnowflakeService.name);
   private connection: snowflake.Connection;
   private queryCount = 0;
@@ -42,10 +114,12 @@ export class SnowflakeService {
     }
   }
 
-  async connect(): Promise<void> {
+  async connect(
+    connection: snowflake.Connection = this.connection,
+  ): Promise<void> {
     this.checkEnvVars();
     return new Promise((resolve, reject) => {
-      this.connection.connect((err) => {
+      connection.connect((err) => {
         if (err) {
           this.logger.error('Failed to connect to Snowflake', err);
           reject(err);
@@ -57,10 +131,12 @@ export class SnowflakeService {
     });
   }
 
-  async disconnect(): Promise<void> {
+  async disconnect(
+    connection: snowflake.Connection = this.connection,
+  ): Promise<void> {
     return new Promise((resolve) => {
-      if (this.connection) {
-        this.connection.destroy(() => {
+      if (connection) {
+        connection.destroy(() => {
           this.logMetrics('Snowflake Service Metrics');
           this.logger.log(`Disconnected from Snowflake. Total queries executed: ${this.queryCount}, Total duration: ${this.totalQueryDuration}ms, Total errors: ${this.errorCount}, Total retries: ${this.retryCount}`);
           resolve();
@@ -72,7 +148,10 @@ export class SnowflakeService {
     });
   }
 
-  async getAllTables(lastSyncTime?: Date): Promise<SnowflakeTable[]> {
+  async getAllTables(
+    lastSyncTime?: Date,
+    options: ExtractionOptions = {},
+  ): Promise<SnowflakeTable[]> {
     const operationStartTime = Date.now();
     this.logger.log(`🚀 Starting getAllTables operation${lastSyncTime ? ` (incremental sync since ${lastSyncTime})` : ' (full sync)'}`);
     
@@ -85,7 +164,7 @@ export class SnowflakeService {
       this.retryCount = 0;
       
       // Use the optimized approach for better performance
-      const allTables = await this.getAllTablesOptimized(lastSyncTime);
+      const allTables = await this.getAllTablesOptimized(lastSyncTime, options);
       
       await this.disconnect();
       
@@ -101,169 +180,1107 @@ export class SnowflakeService {
     }
   }
 
+  /**
+   * Read table-level lineage from the ACCOUNT_USAGE views of the SNOWFLAKE
+   * database, which table extraction skips as a system database. Edges come
+   * from OBJECT_DEPENDENCIES (what views are defined on) and from the
+   * read/write pairs of ACCESS_HISTORY queries since `since`; each is left
+   * unreported when its view cannot be read (ACCESS_HISTORY needs Enterprise
+   * Edition).
+   */
+  async getLineage(
+    since: Date,
+    signal?: AbortSignal,
+  ): Promise<LineageExtraction> {
+    this.connection = this.createConnection();
+    await this.connect();
+    try {
+      const lineage: LineageExtraction = {};
+      try {
+        lineage.dependencies = await this.getObjectDependencies();
+      } catch (error) {
+        this.logger.warn(
+          `Could not read object dependencies: ${error.message}`,
+        );
+      }
+      signal?.throwIfAborted();
+      try {
+        lineage.accesses = await this.getAccessLineage(since);
+      } catch (error) {
+        this.logger.warn(`Could not read access history: ${error.message}`);
+      }
+      return lineage;
+    } finally {
+      await this.disconnect();
+    }
+  }
+
+  private async getObjectDependencies(): Promise<LineageEdge[]> {
+    const domains = LINEAGE_OBJECT_DOMAINS.map((domain) => `'${domain}'`).join(
+      ', ',
+    );
+    const rows = await this.executeQueryWithRetry(`
+        SELECT DISTINCT
+          REFERENCED_DATABASE as upstream_database,
+          REFERENCED_SCHEMA as upstream_schema,
+          REFERENCED_OBJECT_NAME as upstream_table,
+          REFERENCING_DATABASE as downstream_database,
+          REFERENCING_SCHEMA as downstream_schema,
+          REFERENCING_OBJECT_NAME as downstream_table
+        FROM SNOWFLAKE.ACCOUNT_USAGE.OBJECT_DEPENDENCIES
+        WHERE REFERENCED_OBJECT_DOMAIN IN (${domains})
+          AND REFERENCING_OBJECT_DOMAIN IN (${domains})
+      `);
+    return rows.map((row) => ({
+      upstream: {
+        database: (row.UPSTREAM_DATABASE ?? row.upstream_database) as string,
+        schema: (row.UPSTREAM_SCHEMA ?? row.upstream_schema) as string,
+        table: (row.UPSTREAM_TABLE ?? row.upstream_table) as string,
+      },
+      downstream: {
+        database: (row.DOWNSTREAM_DATABASE ??
+          row.downstream_database) as string,
+        schema: (row.DOWNSTREAM_SCHEMA ?? row.downstream_schema) as string,
+        table: (row.DOWNSTREAM_TABLE ?? row.downstream_table) as string,
+      },
+      kind: 'dependency' as const,
+    }));
+  }
+
+  /**
+   * Pairs of base objects read and tables written by the same query, e.g.
+   * INSERT ... SELECT or CREATE TABLE ... AS SELECT, grouped over the window.
+   */
+  private async getAccessLineage(since: Date): Promise<LineageEdge[]> {
+    const domains = ACCESS_OBJECT_DOMAINS.map((domain) => `'${domain}'`).join(
+      ', ',
+    );
+    const rows = await this.executeQueryWithRetry(`
+        SELECT 
+          r.value:"objectName"::string as upstream_name,
+          w.value:"objectName"::string as downstream_name,
+          MIN(ah.QUERY_START_TIME) as first_seen,
+          MAX(ah.QUERY_START_TIME) as last_seen
+        FROM SNOWFLAKE.ACCOUNT_USAGE.ACCESS_HISTORY ah,
+          LATERAL FLATTEN(input => ah.BASE_OBJECTS_ACCESSED) r,
+          LATERAL FLATTEN(input => ah.OBJECTS_MODIFIED) w
+        WHERE ah.QUERY_START_TIME >= TO_TIMESTAMP_LTZ('${since.toISOString()}')
+          AND r.value:"objectDomain"::string IN (${domains})
+          AND w.value:"objectDomain"::string IN (${domains})
+          AND upstream_name != downstream_name
+        GROUP BY 1, 2
+      `);
+
+    const edges: LineageEdge[] = [];
+    for (const row of rows) {
+      const upstream = this.toTableRef(row.UPSTREAM_NAME ?? row.upstream_name);
+      const downstream = this.toTableRef(
+        row.DOWNSTREAM_NAME ?? row.downstream_name,
+      );
+      if (!upstream || !downstream) continue;
+      edges.push({
+        upstream,
+        downstream,
+        kind: 'access',
+        firstSeen: this.toDate(row.FIRST_SEEN ?? row.first_seen) ?? since,
+        lastSeen: this.toDate(row.LAST_SEEN ?? row.last_seen) ?? since,
+      });
+    }
+    return edges;
+  }
+
+  /**
+   * Queries per table since `since`, from the objects each ACCESS_HISTORY
+   * query named directly (a query of a view counts for the view, not for the
+   * tables below it). ACCESS_HISTORY only records successful queries.
+   */
+  async getUsage(since: Date, signal?: AbortSignal): Promise<TableUsage[]> {
+    this.connection = this.createConnection();
+    await this.connect();
+    try {
+      signal?.throwIfAborted();
+      const domains = ACCESS_OBJECT_DOMAINS.map((domain) => `'${domain}'`).join(
+        ', ',
+      );
+      const rows = await this.executeQueryWithRetry(`
+        SELECT 
+          o.value:"objectName"::string as object_name,
+          COUNT(DISTINCT ah.QUERY_ID) as query_count,
+          COUNT(DISTINCT ah.USER_NAME) as distinct_users,
+          MAX(ah.QUERY_START_TIME) as last_queried
+        FROM SNOWFLAKE.ACCOUNT_USAGE.ACCESS_HISTORY ah,
+          LATERAL FLATTEN(input => ah.DIRECT_OBJECTS_ACCESSED) o
+        WHERE ah.QUERY_START_TIME >= TO_TIMESTAMP_LTZ('${since.toISOString()}')
+          AND o.value:"objectDomain"::string IN (${domains})
+        GROUP BY 1
+      `);
+
+      const usages: TableUsage[] = [];
+      for (const row of rows) {
+        const ref = this.toTableRef(row.OBJECT_NAME ?? row.object_name);
+        if (!ref) continue;
+        usages.push({
+          ...ref,
+          queryCount: this.toNumber(row.QUERY_COUNT ?? row.query_count) ?? 0,
+          distinctUsers:
+            this.toNumber(row.DISTINCT_USERS ?? row.distinct_users) ?? 0,
+          lastQueried: this.toDate(row.LAST_QUERIED ?? row.last_queried),
+        });
+      }
+      return usages;
+    } finally {
+      await this.disconnect();
+    }
+  }
+
+  /**
+   * Profile columns of a table with one aggregate query over a bounded sample.
+   * Tables with a known row count above `sampleRows` are block-sampled, so
+   * only a fraction of their micro-partitions is read; views read their first
+   * `sampleRows` rows. The query runs on its own connection under a statement
+   * timeout and is not retried, so a slow profile is cancelled rather than
+   * paid for again.
+   */
+  async profileTable(
+    table: SourceTable,
+    options: ProfileOptions,
+  ): Promise<TableProfileResult> {
+    const connection = this.createConnection();
+    await this.connect(connection);
+    try {
+      await this.executeQueryWithRetry(
+        `ALTER SESSION SET STATEMENT_TIMEOUT_IN_SECONDS = ${options.timeoutSeconds}`,
+        3,
+        connection,
+      );
+
+      const { sampling, from } = this.profileSample(table, options.sampleRows);
+      const expressions = ['COUNT(*) AS ROWS_SAMPLED'];
+      table.columns.forEach((column, index) => {
+        const name = this.quoteIdentifier(column.name);
+        const alias = `C${index}`;
+        expressions.push(`COUNT(${name}) AS ${alias}_NON_NULL`);
+        if (SCALAR_TYPES.has(column.type)) {
+          expressions.push(
+            `APPROX_COUNT_DISTINCT(${name}) AS ${alias}_DISTINCT`,
+            `APPROX_TOP_K(${name}, ${options.topValues}) AS ${alias}_TOP`,
+          );
+        }
+        if (ORDERED_TYPES.has(column.type)) {
+          expressions.push(
+            `LEFT(TO_VARCHAR(MIN(${name})), ${PROFILE_VALUE_LENGTH}) AS ${alias}_MIN`,
+            `LEFT(TO_VARCHAR(MAX(${name})), ${PROFILE_VALUE_LENGTH}) AS ${alias}_MAX`,
+          );
+        }
+      });
+      const [row = {}] = await this.executeQueryWithRetry(
+        `SELECT ${expressions.join(',\n  ')}\nFROM ${from}`,
+        1,
+        connection,
+      );
+
+      const rowsSampled = this.toNumber(row.ROWS_SAMPLED) ?? 0;
+      const columns: ColumnProfile[] = table.columns.map((column, index) => {
+        const alias = `C${index}`;
+        const nullCount =
+          rowsSampled - (this.toNumber(row[`${alias}_NON_NULL`]) ?? 0);
+        const distinctCount = SCALAR_TYPES.has(column.type)
+          ? (this.toNumber(row[`${alias}_DISTINCT`]) ?? 0)
+          : null;
+        return {
+          column: column.name,
+          nullCount,
+          nullPercent:
+            rowsSampled > 0
+              ? Math.round((nullCount / rowsSampled) * 10000) / 100
+              : 0,
+          distinctCount,
+          min: (row[`${alias}_MIN`] as string | null) ?? null,
+          max: (row[`${alias}_MAX`] as string | null) ?? null,
+          topValues:
+            distinctCount !== null && distinctCount <= options.lowCardinality
+              ? this.toValueFrequencies(row[`${alias}_TOP`])
+              : null,
+        };
+      });
+      return { sampling, rowsSampled, columns };
+    } finally {
+      await this.disconnect(connection);
+    }
+  }
+
+  private profileSample(
+    table: SourceTable,
+    sampleRows: number,
+  ): { sampling: ProfileSampling; from: string } {
+    const name = [table.database, table.schema, table.table]
+      .map((part) => this.quoteIdentifier(part))
+      .join('.');
+    const rowCount = table.rowCount ?? null;
+    if (rowCount !== null && rowCount <= sampleRows) {
+      return { sampling: 'full', from: name };
+    }
+    if (
+      rowCount !== null &&
+      BLOCK_SAMPLED_OBJECT_TYPES.has(table.objectType ?? DEFAULT_OBJECT_TYPE)
+    ) {
+      // Block sampling returns about the share asked for; LIMIT caps what it overshoots
+      const percent = Math.ceil((sampleRows / rowCount) * 100 * 1e6) / 1e6;
+      return {
+        sampling: 'system',
+        from: `(SELECT * FROM ${name} SAMPLE SYSTEM (${percent}) LIMIT ${sampleRows})`,
+      };
+    }
+    return {
+      sampling: 'limit',
+      from: `(SELECT * FROM ${name} LIMIT ${sampleRows})`,
+    };
+  }
+
+  /**
+   * APPROX_TOP_K returns `[[value, count], ...]`, as JSON text or parsed.
+   */
+  private toValueFrequencies(value: unknown): ValueFrequency[] {
+    let pairs = value;
+    if (typeof value === 'string') {
+      try {
+        pairs = JSON.parse(value) as unknown;
+      } catch {
+        return [];
+      }
+    }
+    if (!Array.isArray(pairs)) return [];
+    return pairs
+      .filter((pair) => Array.isArray(pair) && pair.length === 2)
+      .map(([item, count]) => ({
+        value:
+          item === null || item === undefined
+            ? null
+            : typeof item === 'object'
+              ? JSON.stringify(item)
+              : String(item),
+        count: this.toNumber(count) ?? 0,
+      }));
+  }
+
+  private quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * ACCESS_HISTORY names objects `DATABASE.SCHEMA.NAME`; names that do not
+   * split into three parts (quoted names with dots) are skipped.
+   */
+  private toTableRef(name: unknown): LineageEdge['upstream'] | null {
+    if (typeof name !== 'string') return null;
+    const parts = name.split('.');
+    if (parts.length !== 3 || parts.some((part) => !part)) return null;
+    const [database, schema, table] = parts;
+    return { database, schema, table };
+  }
+
   /**
    * Optimized approach using set-based queries for better performance
    */
-  private async getAllTablesOptimized(lastSyncTime?: Date): Promise<SnowflakeTable[]> {
+  private async getAllTablesOptimized(
+    lastSyncTime: Date | undefined,
+    options: ExtractionOptions,
+  ): Promise<SnowflakeTable[]> {
     this.logger.log('Starting optimized metadata extraction...');
 
     try {
       // First, get all databases to build the query
-      const databases = await this.executeQueryWithRetry(`SHOW DATABASES`);
+      const databases = (await this.executeQueryWithRetry(
+        `SHOW DATABASES`,
+      )) as NamedRow[];
       this.logger.log(`Found ${databases.length} total databases`);
-      
-      const userDatabases = databases.filter(db => !this.isSystemDatabase(db.name));
-      this.logger.log(`Found ${userDatabases.length} user databases: ${userDatabases.map(db => db.name).join(', ')}`);
-      
+
+      const userDatabases = databases.filter(
+        (db) =>
+          !this.isSystemDatabase(db.name) &&
+          this.allowsDatabase(db.name, options),
+      );
+      this.logger.log(
+        `Found ${userDatabases.length} user databases: ${userDatabases.map((db) => db.name).join(', ')}`,
+      );
+
       if (userDatabases.length === 0) {
         this.logger.warn('No user databases found');
         return [];
       }
       
-      // Build a UNION query for all databases
-      const databaseQueries = userDatabases.map(db => `
-        SELECT 
-          '${db.name}' as database_name,
-          TABLE_SCHEMA as schema_name,
-          TABLE_NAME as table_name,
-          COLUMN_NAME as column_name,
-          DATA_TYPE as data_type,
-          IS_NULLABLE as is_nullable,
-          COLUMN_DEFAULT as column_default,
-          COMMENT as column_comment,
-          ORDINAL_POSITION as ordinal_position
-        FROM "${db.name}".INFORMATION_SCHEMA.COLUMNS
-        WHERE TABLE_SCHEMA != 'INFORMATION_SCHEMA'
-          AND TABLE_SCHEMA NOT LIKE 'SNOWFLAKE%'
-      `);
-      
-      const query = databaseQueries.join(' UNION ALL ') + `
-        ORDER BY database_name, schema_name, table_name, ordinal_position
-      `;
-
-      this.logger.debug(`Executing set-based query for ${userDatabases.length} databases`);
-      const rows = await this.executeQueryWithRetry(query);
-      this.logger.log(`Retrieved ${rows.length} column records from ${userDatabases.length} databases`);
-      
-      if (rows.length === 0) {
-        this.logger.warn('No column records found in set-based query');
-        return [];
-      }
-      
       // Group columns into tables in memory
       const tablesMap = new Map<string, SnowflakeTable>();
-      
-      for (const row of rows) {
-        // Handle both uppercase and lowercase field names
-        const databaseName = row.DATABASE_NAME || row.database_name;
-        const schemaName = row.SCHEMA_NAME || row.schema_name;
-        const tableName = row.TABLE_NAME || row.table_name;
-        const columnName = row.COLUMN_NAME || row.column_name;
-        const dataType = row.DATA_TYPE || row.data_type;
-        const isNullable = row.IS_NULLABLE || row.is_nullable;
-        const columnDefault = row.COLUMN_DEFAULT || row.column_default;
-        const columnComment = row.COLUMN_COMMENT || row.column_comment;
-        
-        if (!databaseName || !schemaName || !tableName || !columnName) {
-          this.logger.warn(`Skipping row with missing required fields: ${JSON.stringify(row)}`);
-          continue;
-        }
-        
-        const key = `${databaseName}.${schemaName}.${tableName}`;
+      let databasesDone = 0;
+      options.onProgress?.({
+        databasesTotal: userDatabases.length,
+        databasesDone,
+        tablesFound: 0,
+      });
+
+      // One set-based query per database, so progress can be reported and a
+      // cancelled sync stops between databases
+      for (const db of userDatabases) {
+        options.signal?.throwIfAborted();
+
+        const query =
+          this.buildColumnsQuery(db.name, lastSyncTime, options.filter?.scope) +
+          `
+        ORDER BY schema_name, table_name, ordinal_position
+      `;
+        const rows = await this.executeQueryWithRetry(query);
+        this.logger.log(
+          `Retrieved ${rows.length} column records from database ${db.name}`,
+        );
+        const databaseTables: SnowflakeTable[] = [];
         
-        if (!tablesMap.has(key)) {
-          tablesMap.set(key, {
-            database: databaseName,
-            schema: schemaName,
-            table: tableName,
-            columns: []
+        for (const row of rows) {
+          // Handle both uppercase and lowercase field names
+          const databaseName = (row.DATABASE_NAME ||
+            row.database_name) as string;
+          const schemaName = (row.SCHEMA_NAME || row.schema_name) as string;
+          const tableName = (row.TABLE_NAME || row.table_name) as string;
+          const columnName = (row.COLUMN_NAME || row.column_name) as string;
+          const dataType = (row.DATA_TYPE || row.data_type) as string;
+          const isNullable = (row.IS_NULLABLE || row.is_nullable) as string;
+          const columnDefault = (row.COLUMN_DEFAULT || row.column_default) as
+            | string
+            | undefined;
+          const columnComment = (row.COLUMN_COMMENT || row.column_comment) as
+            | string
+            | undefined;
+
+          if (!databaseName || !schemaName || !tableName || !columnName) {
+            this.logger.warn(
+              `Skipping row with missing required fields: ${JSON.stringify(row)}`,
+            );
+            continue;
+          }
+
+          if (
+            options.filter &&
+            !options.filter.allowsTable({
+              database: databaseName,
+              schema: schemaName,
+              table: tableName,
+            })
+          ) {
+            continue;
+          }
+
+          const key = `${databaseName}.${schemaName}.${tableName}`;
+
+          if (!tablesMap.has(key)) {
+            const table: SnowflakeTable = {
+              database: databaseName,
+              schema: schemaName,
+              table: tableName,
+              objectType: this.toObjectType(
+                (row.TABLE_TYPE || row.table_type) as string | undefined,
+                (row.IS_TRANSIENT || row.is_transient) as string | undefined,
+                (row.IS_DYNAMIC || row.is_dynamic) as string | undefined,
+              ),
+              owner: this.toText(row.TABLE_OWNER ?? row.table_owner),
+              comment: this.toText(row.TABLE_COMMENT ?? row.table_comment),
+              rowCount: this.toNumber(row.ROW_COUNT ?? row.row_count),
+              bytes: this.toNumber(row.BYTES ?? row.bytes),
+              clusteringKey: this.toText(
+                row.CLUSTERING_KEY ?? row.clustering_key,
+              ),
+              retentionTime: this.toNumber(
+                row.RETENTION_TIME ?? row.retention_time,
+              ),
+              created: this.toDate(row.CREATED ?? row.created),
+              lastAltered: this.toDate(row.LAST_ALTERED ?? row.last_altered),
+              columns: [],
+            };
+            tablesMap.set(key, table);
+            databaseTables.push(table);
+          }
+
+          tablesMap.get(key)!.columns.push({
+            name: columnName,
+            type: dataType,
+            nullable: isNullable === 'YES',
+            defaultValue: columnDefault,
+            comment: columnComment,
+            ...this.readColumnAttributes(row),
           });
         }
-        
-        tablesMap.get(key)!.columns.push({
-          name: columnName,
-          type: dataType,
-          nullable: isNullable === 'YES',
-          defaultValue: columnDefault,
-          comment: columnComment
+
+        if (
+          databaseTables.some((table) =>
+            DEFINED_OBJECT_TYPES.has(table.objectType!),
+          )
+        ) {
+          await this.addDefinitions(
+            db.name,
+            databaseTables,
+            options.filter?.scope,
+          );
+        }
+        if (databaseTables.length > 0) {
+          options.signal?.throwIfAborted();
+          const scope = options.filter?.scope;
+          if (scope?.schema) {
+            // The scope matches schemas case-insensitively, SHOW needs their exact names
+            for (const schema of new Set(
+              databaseTables.map((table) => table.schema),
+            )) {
+              await this.addConstraints(
+                `SCHEMA ${this.quoteIdentifier(db.name)}.${this.quoteIdentifier(schema)}`,
+                databaseTables.filter((table) => table.schema === schema),
+              );
+            }
+          } else {
+            await this.addConstraints(
+              `DATABASE ${this.quoteIdentifier(db.name)}`,
+              databaseTables,
+            );
+          }
+          options.signal?.throwIfAborted();
+          await this.addGovernance(db.name, databaseTables, scope);
+        }
+
+        databasesDone++;
+        options.onProgress?.({
+          databasesTotal: userDatabases.length,
+          databasesDone,
+          tablesFound: tablesMap.size,
         });
       }
-      
-      const allTables = Array.from(tablesMap.values());
-      this.logger.log(`Grouped into ${allTables.length} tables`);
-      
-      // Apply lastSyncTime filtering if provided
-      if (lastSyncTime) {
-        const filteredTables = await this.filterTablesByLastSyncTimeOptimized(allTables, lastSyncTime);
-        this.logger.log(`Filtered to ${filteredTables.length} tables after lastSyncTime: ${lastSyncTime}`);
-        return filteredTables;
+
+      if (tablesMap.size === 0) {
+        this.logger.warn('No column records found in set-based queries');
+        return [];
       }
       
+      const allTables = Array.from(tablesMap.values());
+      this.logger.log(
+        `Grouped into ${allTables.length} tables${lastSyncTime ? ` created or altered since ${lastSyncTime.toISOString()}` : ''}`,
+      );
+
       return allTables;
       
     } catch (error) {
+      // A cancelled sync must not restart extraction through the fallback
+      if (options.signal?.aborted) {
+        throw error;
+      }
       this.logger.error('Failed to execute set-based query, falling back to simple approach', error);
-      return await this.getAllTablesSimple(lastSyncTime);
+      return await this.getAllTablesSimple(lastSyncTime, options);
+    }
+  }
+
+  /**
+   * Column query for one database. The TABLES view is joined in for the
+   * object type and table properties; in incremental mode it also limits the result to tables
+   * created or altered (including ALTER TABLE ... ADD COLUMN, which bumps
+   * LAST_ALTERED) since the watermark.
+   */
+  private buildColumnsQuery(
+    databaseName: string,
+    lastSyncTime?: Date,
+    scope?: SyncScopeDto,
+  ): string {
+    return `
+        SELECT 
+          '${databaseName}' as database_name,
+          c.TABLE_SCHEMA as schema_name,
+          c.TABLE_NAME as table_name,
+          t.TABLE_TYPE as table_type,
+          t.IS_TRANSIENT as is_transient,
+          t.IS_DYNAMIC as is_dynamic,
+          t.TABLE_OWNER as table_owner,
+          t.COMMENT as table_comment,
+          t.ROW_COUNT as row_count,
+          t.BYTES as bytes,
+          t.CLUSTERING_KEY as clustering_key,
+          t.RETENTION_TIME as retention_time,
+          t.CREATED as created,
+          t.LAST_ALTERED as last_altered,
+          c.COLUMN_NAME as column_name,
+          c.DATA_TYPE as data_type,
+          c.IS_NULLABLE as is_nullable,
+          c.COLUMN_DEFAULT as column_default,
+          c.COMMENT as column_comment,
+          c.ORDINAL_POSITION as ordinal_position,
+          ${this.columnAttributeSelect('c.')}
+        FROM "${databaseName}".INFORMATION_SCHEMA.COLUMNS c
+        JOIN "${databaseName}".INFORMATION_SCHEMA.TABLES t
+          ON t.TABLE_SCHEMA = c.TABLE_SCHEMA
+          AND t.TABLE_NAME = c.TABLE_NAME
+        WHERE c.TABLE_SCHEMA != 'INFORMATION_SCHEMA'
+          AND c.TABLE_SCHEMA NOT LIKE 'SNOWFLAKE%'
+          ${lastSyncTime ? `AND ${this.buildChangedSinceCondition('t', lastSyncTime)}` : ''}
+          ${this.buildScopeCondition('c.', scope)}
+      `;
+  }
+
+  /**
+   * Read view definitions and external table locations of a database in one
+   * query instead of repeating them on every column row.
+   */
+  private async addDefinitions(
+    databaseName: string,
+    tables: SnowflakeTable[],
+    scope?: SyncScopeDto,
+  ): Promise<void> {
+    const rows = await this.executeQueryWithRetry(`
+        SELECT 
+          TABLE_SCHEMA as schema_name,
+          TABLE_NAME as table_name,
+          VIEW_DEFINITION as definition,
+          NULL as stage_location
+        FROM "${databaseName}".INFORMATION_SCHEMA.VIEWS
+        WHERE TABLE_SCHEMA != 'INFORMATION_SCHEMA'
+          ${this.buildScopeCondition('', scope)}
+        UNION ALL
+        SELECT 
+          TABLE_SCHEMA as schema_name,
+          TABLE_NAME as table_name,
+          NULL as definition,
+          LOCATION as stage_location
+        FROM "${databaseName}".INFORMATION_SCHEMA.EXTERNAL_TABLES
+        WHERE TRUE
+          ${this.buildScopeCondition('', scope)}
+      `);
+
+    const byName = new Map(
+      tables.map((table) => [`${table.schema}.${table.table}`, table]),
+    );
+    for (const row of rows) {
+      const table = byName.get(
+        `${(row.SCHEMA_NAME || row.schema_name) as string}.${(row.TABLE_NAME || row.table_name) as string}`,
+      );
+      if (!table) continue;
+      const definition = (row.DEFINITION || row.definition) as string;
+      const stageLocation = (row.STAGE_LOCATION ||
+        row.stage_location) as string;
+      if (definition && table.objectType !== 'external_table')
+        table.definition = definition;
+      if (stageLocation && table.objectType === 'external_table')
+        table.stageLocation = stageLocation;
+    }
+  }
+
+  /**
+   * Read declared primary, unique and foreign keys, which INFORMATION_SCHEMA
+   * lists without their columns. `scope` is the `IN` clause of the SHOW
+   * commands (`DATABASE "DB"` or `SCHEMA "DB"."S"`). Tables keep unreported
+   * keys when the commands fail, as keys are not needed for a sync.
+   */
+  private async addConstraints(
+    scope: string,
+    tables: SnowflakeTable[],
+  ): Promise<void> {
+    let primaryKeyRows: SnowflakeRow[];
+    let uniqueKeyRows: SnowflakeRow[];
+    let importedKeyRows: SnowflakeRow[];
+    try {
+      primaryKeyRows = await this.executeQueryWithRetry(
+        `SHOW PRIMARY KEYS IN ${scope}`,
+      );
+      uniqueKeyRows = await this.executeQueryWithRetry(
+        `SHOW UNIQUE KEYS IN ${scope}`,
+      );
+      importedKeyRows = await this.executeQueryWithRetry(
+        `SHOW IMPORTED KEYS IN ${scope}`,
+      );
+    } catch (error) {
+      this.logger.warn(`Could not read keys in ${scope}: ${error.message}`);
+      return;
+    }
+
+    const byName = new Map(
+      tables.map((table) => [`${table.schema}.${table.table}`, table]),
+    );
+    for (const table of tables) {
+      table.primaryKey = null;
+      table.uniqueKeys = [];
+      table.foreignKeys = [];
+    }
+
+    for (const { table, key } of this.groupKeyRows(
+      primaryKeyRows,
+      'schema_name',
+      'table_name',
+      'constraint_name',
+      byName,
+    )) {
+      table.primaryKey = {
+        name: key.name,
+        columns: key.rows.map((row) => row.column_name as string),
+      };
+    }
+    for (const { table, key } of this.groupKeyRows(
+      uniqueKeyRows,
+      'schema_name',
+      'table_name',
+      'constraint_name',
+      byName,
+    )) {
+      table.uniqueKeys!.push({
+        name: key.name,
+        columns: key.rows.map((row) => row.column_name as string),
+      });
+    }
+    for (const { table, key } of this.groupKeyRows(
+      importedKeyRows,
+      'fk_schema_name',
+      'fk_table_name',
+      'fk_name',
+      byName,
+    )) {
+      const [first] = key.rows;
+      const foreignKey: ForeignKey = {
+        name: key.name,
+        columns: key.rows.map((row) => row.fk_column_name as string),
+        referencedDatabase: first.pk_database_name as string,
+        referencedSchema: first.pk_schema_name as string,
+        referencedTable: first.pk_table_name as string,
+        referencedColumns: key.rows.map((row) => row.pk_column_name as string),
+      };
+      table.foreignKeys!.push(foreignKey);
+    }
+  }
+
+  /**
+   * Read object tag assignments and policy references of a database from the
+   * ACCOUNT_USAGE views, which cover all tables and columns in one query each
+   * (the INFORMATION_SCHEMA table functions take one object at a time). They
+   * lag behind by up to two hours and need access to the SNOWFLAKE database;
+   * tables keep unreported tags and policies when they cannot be read.
+   */
+  private async addGovernance(
+    databaseName: string,
+    tables: SnowflakeTable[],
+    scope?: SyncScopeDto,
+  ): Promise<void> {
+    let tagRows: SnowflakeRow[];
+    let policyRows: SnowflakeRow[];
+    try {
+      tagRows = await this.executeQueryWithRetry(`
+        SELECT * FROM (
+          SELECT 
+            OBJECT_SCHEMA as TABLE_SCHEMA,
+            OBJECT_NAME as TABLE_NAME,
+            COLUMN_NAME as column_name,
+            TAG_DATABASE || '.' || TAG_SCHEMA || '.' || TAG_NAME as tag,
+            TAG_VALUE as tag_value
+          FROM SNOWFLAKE.ACCOUNT_USAGE.TAG_REFERENCES
+          WHERE OBJECT_DATABASE = '${this.escapeLiteral(databaseName)}'
+            AND DOMAIN IN ('TABLE', 'COLUMN')
+            AND OBJECT_DELETED IS NULL
+        )
+        WHERE TRUE
+          ${this.buildScopeCondition('', scope)}
+        ORDER BY TABLE_SCHEMA, TABLE_NAME, column_name NULLS FIRST, tag
+      `);
+      policyRows = await this.executeQueryWithRetry(`
+        SELECT * FROM (
+          SELECT 
+            REF_SCHEMA_NAME as TABLE_SCHEMA,
+            REF_ENTITY_NAME as TABLE_NAME,
+            REF_COLUMN_NAME as column_name,
+            POLICY_DB || '.' || POLICY_SCHEMA || '.' || POLICY_NAME as policy,
+            POLICY_KIND as policy_kind,
+            REF_ARG_COLUMN_NAMES as argument_columns
+          FROM SNOWFLAKE.ACCOUNT_USAGE.POLICY_REFERENCES
+          WHERE REF_DATABASE_NAME = '${this.escapeLiteral(databaseName)}'
+        )
+        WHERE TRUE
+          ${this.buildScopeCondition('', scope)}
+        ORDER BY TABLE_SCHEMA, TABLE_NAME, column_name NULLS FIRST, policy
+      `);
+    } catch (error) {
+      this.logger.warn(
+        `Could not read tags and policies of ${databaseName}: ${error.message}`,
+      );
+      return;
+    }
+
+    const byName = new Map(
+      tables.map((table) => [`${table.schema}.${table.table}`, table]),
+    );
+    for (const table of tables) {
+      table.tags = [];
+      table.policies = [];
+    }
+
+    for (const row of tagRows) {
+      const table = byName.get(
+        `${(row.TABLE_SCHEMA ?? row.table_schema) as string}.${(row.TABLE_NAME ?? row.table_name) as string}`,
+      );
+      if (!table) continue;
+      const tag: TagAssignment = {
+        column: this.toText(row.COLUMN_NAME ?? row.column_name),
+        tag: (row.TAG ?? row.tag) as string,
+        value: (row.TAG_VALUE ?? row.tag_value ?? '') as string,
+      };
+      table.tags!.push(tag);
+    }
+    for (const row of policyRows) {
+      const table = byName.get(
+        `${(row.TABLE_SCHEMA ?? row.table_schema) as string}.${(row.TABLE_NAME ?? row.table_name) as string}`,
+      );
+      if (!table) continue;
+      const policy: PolicyReference = {
+        column: this.toText(row.COLUMN_NAME ?? row.column_name),
+        policy: (row.POLICY ?? row.policy) as string,
+        kind: ((row.POLICY_KIND ?? row.policy_kind) as string).toLowerCase(),
+        argumentColumns: this.toNameList(
+          row.ARGUMENT_COLUMNS ?? row.argument_columns,
+        ),
+      };
+      table.policies!.push(policy);
+    }
+  }
+
+  /**
+   * REF_ARG_COLUMN_NAMES is a JSON array in a VARCHAR, or null.
+   */
+  private toNameList(value: unknown): string[] {
+    if (typeof value !== 'string' || !value.trim()) return [];
+    try {
+      const names: unknown = JSON.parse(value);
+      return Array.isArray(names) ? names.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Group SHOW ... KEYS rows (one per key column) into keys of the given
+   * tables, with columns in KEY_SEQUENCE order. Field names are read in
+   * lower case, as SHOW returns them.
+   */
+  private groupKeyRows(
+    rows: SnowflakeRow[],
+    schemaField: string,
+    tableField: string,
+    nameField: string,
+    tables: Map<string, SnowflakeTable>,
+  ): Array<{
+    table: SnowflakeTable;
+    key: { name: string; rows: SnowflakeRow[] };
+  }> {
+    const keys = new Map<
+      string,
+      {
+        table: SnowflakeTable;
+        key: { name: string; rows: SnowflakeRow[] };
+      }
+    >();
+    for (const rawRow of rows) {
+      const row: SnowflakeRow = Object.fromEntries(
+        Object.entries(rawRow).map(([field, value]) => [
+          field.toLowerCase(),
+          value,
+        ]),
+      );
+      const table = tables.get(
+        `${row[schemaField] as string}.${row[tableField] as string}`,
+      );
+      const name = row[nameField] as string;
+      if (!table || !name) continue;
+
+      const id = `${table.schema}.${table.table}.${name}`;
+      if (!keys.has(id)) keys.set(id, { table, key: { name, rows: [] } });
+      keys.get(id)!.key.rows.push(row);
+    }
+
+    const groups = Array.from(keys.values());
+    for (const { key } of groups) {
+      key.rows.sort((a, b) => Number(a.key_sequence) - Number(b.key_sequence));
+    }
+    return groups;
+  }
+
+  /**
+   * Map TABLE_TYPE and the IS_TRANSIENT / IS_DYNAMIC flags of
+   * INFORMATION_SCHEMA.TABLES to an object type.
+   */
+  private toObjectType(
+    tableType?: string,
+    isTransient?: string,
+    isDynamic?: string,
+  ): ObjectType {
+    switch (tableType?.toUpperCase()) {
+      case 'VIEW':
+        return 'view';
+      case 'MATERIALIZED VIEW':
+        return 'materialized_view';
+      case 'EXTERNAL TABLE':
+        return 'external_table';
+    }
+    if (isDynamic?.toUpperCase() === 'YES') return 'dynamic_table';
+    if (isTransient?.toUpperCase() === 'YES') return 'transient_table';
+    return 'base_table';
+  }
+
+  /**
+   * Size, identity and collation columns of INFORMATION_SCHEMA.COLUMNS, read
+   * back by readColumnAttributes.
+   */
+  private columnAttributeSelect(columnPrefix: string): string {
+    return [
+      `${columnPrefix}CHARACTER_MAXIMUM_LENGTH as max_length`,
+      `${columnPrefix}NUMERIC_PRECISION as numeric_precision`,
+      `${columnPrefix}NUMERIC_SCALE as numeric_scale`,
+      `${columnPrefix}IS_IDENTITY as is_identity`,
+      `${columnPrefix}IDENTITY_START as identity_start`,
+      `${columnPrefix}IDENTITY_INCREMENT as identity_increment`,
+      `${columnPrefix}COLLATION_NAME as collation_name`,
+    ].join(',\n          ');
+  }
+
+  private readColumnAttributes(row: SnowflakeRow): Partial<SourceColumn> {
+    const identity =
+      this.toText(row.IS_IDENTITY ?? row.is_identity)?.toUpperCase() === 'YES';
+    const ordinalPosition = this.toNumber(
+      row.ORDINAL_POSITION ?? row.ordinal_position,
+    );
+    return {
+      ...(ordinalPosition !== null && { ordinalPosition }),
+      maxLength: this.toNumber(row.MAX_LENGTH ?? row.max_length),
+      precision: this.toNumber(row.NUMERIC_PRECISION ?? row.numeric_precision),
+      scale: this.toNumber(row.NUMERIC_SCALE ?? row.numeric_scale),
+      identity,
+      identityStart: identity
+        ? this.toNumber(row.IDENTITY_START ?? row.identity_start)
+        : null,
+      identityIncrement: identity
+        ? this.toNumber(row.IDENTITY_INCREMENT ?? row.identity_increment)
+        : null,
+      collation: this.toText(row.COLLATION_NAME ?? row.collation_name),
+    };
+  }
+
+  // Empty values of table properties are stored as null, not as empty strings
+  private toText(value: any): string | null {
+    return value === undefined || value === null || value === ''
+      ? null
+      : String(value);
+  }
+
+  private toNumber(value: any): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+  }
+
+  private toDate(value: any): Date | null {
+    if (value === undefined || value === null || value === '') return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Push a schema or table scope down into the column query, comparing names
+   * upper-cased like unquoted Snowflake identifiers.
+   */
+  private buildScopeCondition(
+    columnPrefix: string,
+    scope?: SyncScopeDto,
+  ): string {
+    const conditions: string[] = [];
+    if (scope?.schema) {
+      conditions.push(
+        `AND UPPER(${columnPrefix}TABLE_SCHEMA) = '${this.escapeLiteral(scope.schema.toUpperCase())}'`,
+      );
+    }
+    if (scope?.table) {
+      conditions.push(
+        `AND UPPER(${columnPrefix}TABLE_NAME) = '${this.escapeLiteral(scope.table.toUpperCase())}'`,
+      );
+    }
+    return conditions.join(' ');
+  }
+
+  private escapeLiteral(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "''");
+  }
+
+  /**
+   * LAST_ALTERED covers DDL on the table itself (added, dropped or modified
+   * columns, comments), CREATED covers CREATE OR REPLACE. The watermark is
+   * moved back by INCREMENTAL_OVERLAP_MS so changes committed while the
+   * previous sync was running are not missed; unchanged tables are skipped
+   * by checksum anyway.
+   */
+  private buildChangedSinceCondition(
+    alias: string,
+    lastSyncTime: Date,
+  ): string {
+    const watermark = new Date(
+      lastSyncTime.getTime() - INCREMENTAL_OVERLAP_MS,
+    ).toISOString();
+    return `GREATEST(${alias}.CREATED, COALESCE(${alias}.LAST_ALTERED, ${alias}.CREATED)) > TO_TIMESTAMP_LTZ('${watermark}')`;
+  }
+
+  /**
+   * Names (`SCHEMA.TABLE`) of tables in a database changed since the last
+   * sync, or null when they cannot be determined and every table should be
+   * processed.
+   */
+  private async getChangedTableNames(
+    databaseName: string,
+    lastSyncTime: Date,
+  ): Promise<Set<string> | null> {
+    try {
+      const rows = await this.executeQueryWithRetry(`
+        SELECT 
+          t.TABLE_SCHEMA as schema_name,
+          t.TABLE_NAME as table_name
+        FROM "${databaseName}".INFORMATION_SCHEMA.TABLES t
+        WHERE ${this.buildChangedSinceCondition('t', lastSyncTime)}
+      `);
+      return new Set(
+        rows.map(
+          (row) =>
+            `${(row.SCHEMA_NAME || row.schema_name) as string}.${(row.TABLE_NAME || row.table_name) as string}`,
+        ),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to get changed tables for database ${databaseName}, processing all tables: ${error.message}`,
+      );
+      return null;
     }
   }
 
   /**
    * Simple, reliable approach as fallback
    */
-  private async getAllTablesSimple(lastSyncTime?: Date): Promise<SnowflakeTable[]> {
+  private async getAllTablesSimple(
+    lastSyncTime: Date | undefined,
+    options: ExtractionOptions,
+  ): Promise<SnowflakeTable[]> {
     this.logger.log('Starting simple metadata extraction (fallback)...');
     
     const allTables: SnowflakeTable[] = [];
     
     try {
       // Get all databases
-      const databases = await this.executeQueryWithRetry(`SHOW DATABASES`);
+      const databases = (await this.executeQueryWithRetry(
+        `SHOW DATABASES`,
+      )) as NamedRow[];
       this.logger.log(`Found ${databases.length} databases`);
-      
-      for (const db of databases) {
-        if (this.isSystemDatabase(db.name)) {
-          this.logger.debug(`Skipping system database: ${db.name}`);
-          continue;
-        }
-        
+
+      const userDatabases = databases.filter(
+        (db) =>
+          !this.isSystemDatabase(db.name) &&
+          this.allowsDatabase(db.name, options),
+      );
+      const databasesTotal = userDatabases.length;
+      let databasesDone = 0;
+      options.onProgress?.({ databasesTotal, databasesDone, tablesFound: 0 });
+
+      for (const db of userDatabases) {
+        options.signal?.throwIfAborted();
         this.logger.log(`Processing database: ${db.name}`);
-        
+
+        const changedTables = lastSyncTime
+          ? await this.getChangedTableNames(db.name, lastSyncTime)
+          : null;
+
         // Get schemas for this database
-        const schemas = await this.executeQueryWithRetry(`SHOW SCHEMAS IN DATABASE "${db.name}"`);
+        const schemas = (await this.executeQueryWithRetry(
+          `SHOW SCHEMAS IN DATABASE "${db.name}"`,
+        )) as NamedRow[];
         this.logger.log(`Found ${schemas.length} schemas in database ${db.name}`);
+        const databaseTables: SnowflakeTable[] = [];
         
         for (const schema of schemas) {
           if (this.isSystemSchema(schema.name)) {
             this.logger.debug(`Skipping system schema: ${db.name}.${schema.name}`);
             continue;
           }
-          
+
+          if (
+            options.filter &&
+            !options.filter.allowsSchema(db.name, schema.name)
+          ) {
+            this.logger.debug(
+              `Skipping filtered schema: ${db.name}.${schema.name}`,
+            );
+            continue;
+          }
+
           this.logger.log(`Processing schema: ${db.name}.${schema.name}`);
           
-          // Get tables for this schema
-          const tables = await this.executeQueryWithRetry(`SHOW TABLES IN SCHEMA "${db.name}"."${schema.name}"`);
-          this.logger.log(`Found ${tables.length} tables in schema ${db.name}.${schema.name}`);
-          
+          // Get tables and views for this schema
+          const tables = await this.listSchemaObjects(db.name, schema.name);
+          this.logger.log(
+            `Found ${tables.length} tables and views in schema ${db.name}.${schema.name}`,
+          );
+
+          const schemaTables: SnowflakeTable[] = [];
           for (const table of tables) {
-            const tableName = table.name || table.NAME;
-            if (!tableName) {
-              this.logger.warn(`Skipping table with no name in ${db.name}.${schema.name}`);
+            const tableName = table.name;
+
+            if (
+              options.filter &&
+              !options.filter.allowsTable({
+                database: db.name,
+                schema: schema.name,
+                table: tableName,
+              })
+            ) {
               continue;
             }
-            
-            this.logger.log(`Processing table: ${db.name}.${schema.name}.${tableName}`);
-            
+
+            if (
+              changedTables &&
+              !changedTables.has(`${schema.name}.${tableName}`)
+            ) {
+              this.logger.debug(
+                `Skipping unchanged table: ${db.name}.${schema.name}.${tableName}`,
+              );
+              continue;
+            }
+
+            this.logger.log(
+              `Processing table: ${db.name}.${schema.name}.${tableName}`,
+            );
+
             // Get columns for this table
             const columns = await this.getTableColumnsSimple(db.name, schema.name, tableName);
             
-            allTables.push({
+            schemaTables.push({
               database: db.name,
               schema: schema.name,
               table: tableName,
+              objectType: table.objectType,
+              ...(table.definition && { definition: table.definition }),
+              ...(table.stageLocation && {
+                stageLocation: table.stageLocation,
+              }),
+              ...table.properties,
               columns
             });
           }
+
+          if (schemaTables.length > 0) {
+            await this.addConstraints(
+              `SCHEMA "${db.name}"."${schema.name}"`,
+              schemaTables,
+            );
+          }
+          databaseTables.push(...schemaTables);
+        }
+
+        if (databaseTables.length > 0) {
+          await this.addGovernance(db.name, databaseTables);
         }
+        allTables.push(...databaseTables);
+        databasesDone++;
+        options.onProgress?.({
+          databasesTotal,
+          databasesDone,
+          tablesFound: allTables.length,
+        });
       }
       
       this.logger.log(`Total tables found: ${allTables.length}`);
@@ -275,10 +1292,114 @@ export class SnowflakeService {
     }
   }
 
+  /**
+   * SHOW TABLES lists tables (including external and dynamic ones) but no
+   * views, so SHOW VIEWS is read as well. Stage locations are only listed by
+   * SHOW EXTERNAL TABLES, which is skipped for schemas without any. SHOW
+   * output has no last altered time, so it is left unreported.
+   */
+  private async listSchemaObjects(
+    database: string,
+    schema: string,
+  ): Promise<SchemaObject[]> {
+    const schemaName = `"${database}"."${schema}"`;
+    const objects: SchemaObject[] = [];
+
+    const tables = await this.executeQueryWithRetry(
+      `SHOW TABLES IN SCHEMA ${schemaName}`,
+    );
+    for (const table of tables) {
+      const name = (table.name || table.NAME) as string;
+      if (!name) {
+        this.logger.warn(
+          `Skipping table with no name in ${database}.${schema}`,
+        );
+        continue;
+      }
+      const flag = (value: unknown) =>
+        this.toText(value)?.toUpperCase() === 'Y';
+      let objectType: ObjectType = 'base_table';
+      if (flag(table.is_external ?? table.IS_EXTERNAL)) {
+        objectType = 'external_table';
+      } else if (flag(table.is_dynamic ?? table.IS_DYNAMIC)) {
+        objectType = 'dynamic_table';
+      } else if (
+        this.toText(table.kind ?? table.KIND)?.toUpperCase() === 'TRANSIENT'
+      ) {
+        objectType = 'transient_table';
+      }
+      objects.push({
+        name,
+        objectType,
+        properties: {
+          owner: this.toText(table.owner ?? table.OWNER),
+          comment: this.toText(table.comment ?? table.COMMENT),
+          rowCount: this.toNumber(table.rows ?? table.ROWS),
+          bytes: this.toNumber(table.bytes ?? table.BYTES),
+          clusteringKey: this.toText(table.cluster_by ?? table.CLUSTER_BY),
+          retentionTime: this.toNumber(
+            table.retention_time ?? table.RETENTION_TIME,
+          ),
+          created: this.toDate(table.created_on ?? table.CREATED_ON),
+        },
+      });
+    }
+
+    if (objects.some((object) => object.objectType === 'external_table')) {
+      const externalTables = await this.executeQueryWithRetry(
+        `SHOW EXTERNAL TABLES IN SCHEMA ${schemaName}`,
+      );
+      const locations = new Map<string, string>(
+        externalTables.map((table) => [
+          (table.name || table.NAME) as string,
+          (table.location || table.LOCATION) as string,
+        ]),
+      );
+      for (const object of objects) {
+        const location = locations.get(object.name);
+        if (object.objectType === 'external_table' && location)
+          object.stageLocation = location;
+      }
+    }
+
+    const views = await this.executeQueryWithRetry(
+      `SHOW VIEWS IN SCHEMA ${schemaName}`,
+    );
+    for (const view of views) {
+      const name = (view.name || view.NAME) as string;
+      if (!name) continue;
+      const materialized =
+        this.toText(
+          view.is_materialized ?? view.IS_MATERIALIZED,
+        )?.toLowerCase() === 'true';
+      const definition = (view.text || view.TEXT) as string;
+      objects.push({
+        name,
+        objectType: materialized ? 'materialized_view' : 'view',
+        ...(definition && { definition }),
+        properties: {
+          owner: this.toText(view.owner ?? view.OWNER),
+          comment: this.toText(view.comment ?? view.COMMENT),
+          rowCount: null,
+          bytes: null,
+          clusteringKey: null,
+          retentionTime: null,
+          created: this.toDate(view.created_on ?? view.CREATED_ON),
+        },
+      });
+    }
+
+    return objects;
+  }
+
   /**
    * Simple method to get columns for a single table
    */
-  private async getTableColumnsSimple(database: string, schema: string, table: string): Promise<any[]> {
+  private async getTableColumnsSimple(
+    database: string,
+    schema: string,
+    table: string,
+  ): Promise<SourceColumn[]> {
     try {
       const query = `
         SELECT 
@@ -286,7 +1407,9 @@ export class SnowflakeService {
           DATA_TYPE as type,
           IS_NULLABLE as nullable,
           COLUMN_DEFAULT as defaultValue,
-          COMMENT as comment
+          COMMENT as comment,
+          ORDINAL_POSITION as ordinal_position,
+          ${this.columnAttributeSelect('')}
         FROM "${database}".INFORMATION_SCHEMA.COLUMNS
         WHERE TABLE_SCHEMA = '${schema}' 
         AND TABLE_NAME = '${table}'
@@ -296,11 +1419,14 @@ export class SnowflakeService {
       const rows = await this.executeQueryWithRetry(query);
       
       return rows.map(row => ({
-        name: row.NAME || row.name,
-        type: row.TYPE || row.type,
+        name: (row.NAME || row.name) as string,
+        type: (row.TYPE || row.type) as string,
         nullable: (row.NULLABLE || row.nullable) === 'YES',
-        defaultValue: row.DEFAULTVALUE || row.defaultValue,
-        comment: row.COMMENT || row.comment
+        defaultValue: (row.DEFAULTVALUE || row.defaultValue) as
+          | string
+          | undefined,
+        comment: (row.COMMENT || row.comment) as string | undefined,
+        ...this.readColumnAttributes(row),
       }));
       
     } catch (error) {
@@ -312,14 +1438,18 @@ export class SnowflakeService {
   /**
    * Execute query with enhanced retry mechanism and exponential backoff
    */
-  private async executeQueryWithRetry(query: string, maxRetries: number = 3): Promise<any[]> {
+  private async executeQueryWithRetry(
+    query: string,
+    maxRetries: number = 3,
+    connection: snowflake.Connection = this.connection,
+  ): Promise<SnowflakeRow[]> {
     let lastError: Error;
     const queryStartTime = Date.now();
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         this.logger.debug(`Executing query (attempt ${attempt}/${maxRetries}): ${query.substring(0, 100)}...`);
-        const result = await this.executeQuery(query);
+        const result = await this.executeQuery(query, connection);
         const queryDuration = Date.now() - queryStartTime;
         this.logger.log(`Query completed in ${queryDuration}ms (attempt ${attempt}/${maxRetries})`);
         return result;
@@ -389,7 +1519,10 @@ export class SnowflakeService {
     return isRetryable || isRetryableCode;
   }
 
-  private async executeQuery(query: string): Promise<any[]> {
+  private async executeQuery(
+    query: string,
+    connection: snowflake.Connection = this.connection,
+  ): Promise<SnowflakeRow[]> {
     this.queryCount++;
     const startTime = Date.now();
     
@@ -398,7 +1531,7 @@ export class SnowflakeService {
     }
     
     return new Promise((resolve, reject) => {
-      this.connection.execute({
+      connection.execute({
         sqlText: query,
         complete: (err, stmt, rows) => {
           const duration = Date.now() - startTime;
@@ -465,6 +1598,10 @@ export class SnowflakeService {
     this.logger.log(`[METRICS] ${JSON.stringify(metrics)}`);
   }
 
+  private allowsDatabase(dbName: string, options: ExtractionOptions): boolean {
+    return options.filter ? options.filter.allowsDatabase(dbName) : true;
+  }
+
   private isSystemDatabase(dbName: string): boolean {
     return ['SNOWFLAKE', 'INFORMATION_SCHEMA'].includes(dbName?.toUpperCase());
   }
@@ -481,80 +1618,4 @@ export class SnowflakeService {
     // Only skip tables created before last sync
     return createdTime <= lastSyncTime;
   }
-
-  /**
-   * Optimized filtering approach that doesn't require individual queries
-   */
-  private async filterTablesByLastSyncTimeOptimized(tables: SnowflakeTable[], lastSyncTime: Date): Promise<SnowflakeTable[]> {
-    if (!lastSyncTime) return tables;
-    
-    this.logger.log(`Filtering ${tables.length} tables based on lastSyncTime: ${lastSyncTime}`);
-    
-    // Group tables by database for efficient querying
-    const tablesByDatabase = new Map<string, Array<{schema: string, table: string}>>();
-    
-    for (const table of tables) {
-      if (!tablesByDatabase.has(table.database)) {
-        tablesByDatabase.set(table.database, []);
-      }
-      tablesByDatabase.get(table.database)!.push({
-        schema: table.schema,
-        table: table.table
-      });
-    }
-    
-    const tableDateMap = new Map<string, Date>();
-    
-    // Query each database separately for table creation dates (single query per database)
-    for (const [database, tableList] of tablesByDatabase) {
-      try {
-        if (tableList.length === 0) continue;
-        
-        // Build a single query for all tables in this database
-        const tableConditions = tableList.map(t => `(TABLE_SCHEMA = '${t.schema}' AND TABLE_NAME = '${t.table}')`).join(' OR ');
-        
-        const query = `
-          SELECT 
-            TABLE_SCHEMA as schema,
-            TABLE_NAME as table,
-            CREATED as created_on
-          FROM "${database}".INFORMATION_SCHEMA.TABLES
-          WHERE ${tableConditions}
-        `;
-        
-        const tableDates = await this.executeQueryWithRetry(query);
-        
-        for (const row of tableDates) {
-          const key = `${database}.${row.SCHEMA || row.schema}.${row.TABLE || row.table}`;
-          const createdDate = row.CREATED_ON || row.created_on;
-          if (createdDate) {
-            tableDateMap.set(key, new Date(createdDate));
-          }
-        }
-      } catch (error) {
-        this.logger.warn(`Failed to get creation dates for database ${database}`, error);
-        // Continue with other databases
-      }
-    }
-    
-    const filteredTables = tables.filter(table => {
-      const key = `${table.database}.${table.schema}.${table.table}`;
-      const createdDate = tableDateMap.get(key);
-      
-      if (!createdDate) {
-        // If we can't find creation date, include the table (safer approach)
-        this.logger.debug(`No creation date found for ${key}, including table`);
-        return true;
-      }
-      
-      const shouldInclude = createdDate > lastSyncTime;
-      if (!shouldInclude) {
-        this.logger.debug(`Excluding ${key} - created ${createdDate} (before ${lastSyncTime})`);
-      }
-      return shouldInclude;
-    });
-    
-    this.logger.log(`Filtered from ${tables.length} to ${filteredTables.length} tables`);
-    return filteredTables;
-  }
-}
\ No newline at end of file
+}
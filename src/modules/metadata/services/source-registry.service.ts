@@ -0,0 +1,58 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { SnowflakeService } from './snowflake.service';
+import { SqliteConnector } from '../connectors/sqlite.connector';
+import {
+  DEFAULT_SOURCE,
+  SourceConnector,
+} from '../connectors/source-connector';
+import { SourceConfig } from '../../../config/source.config';
+
+export interface SourceInfo {
+  name: string;
+  type: string;
+  default: boolean;
+}
+
+/**
+ * Connectors the sync pipeline can read from, by source name.
+ */
+@Injectable()
+export class SourceRegistryService {
+  private readonly logger = new Logger(SourceRegistryService.name);
+  private readonly connectors = new Map<string, SourceConnector>();
+
+  constructor(snowflakeService: SnowflakeService) {
+    this.register(snowflakeService);
+    for (const source of SourceConfig.getSqliteSources()) {
+      this.register(new SqliteConnector(source.name, source.path));
+    }
+  }
+
+  register(connector: SourceConnector): void {
+    if (this.connectors.has(connector.name)) {
+      throw new Error(
+        `A source named "${connector.name}" is already registered`,
+      );
+    }
+    this.connectors.set(connector.name, connector);
+    this.logger.log(`Registered ${connector.type} source "${connector.name}"`);
+  }
+
+  get(name: string = DEFAULT_SOURCE): SourceConnector {
+    const connector = this.connectors.get(name);
+    if (!connector) {
+      throw new BadRequestException(
+        `Unknown source "${name}", expected one of: ${Array.from(this.connectors.keys()).join(', ')}`,
+      );
+    }
+    return connector;
+  }
+
+  list(): SourceInfo[] {
+    return Array.from(this.connectors.values()).map((connector) => ({
+      name: connector.name,
+      type: connector.type,
+      default: connector.name === DEFAULT_SOURCE,
+    }));
+  }
+}
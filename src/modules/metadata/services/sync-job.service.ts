@@ -0,0 +1,269 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { SyncJob, SyncJobDocument } from '../schemas/sync-job.schema';
+import {
+  SyncJobDto,
+  SyncJobStatus,
+  SyncProgressDto,
+} from '../dto/sync-job.dto';
+import { SyncResponseDto } from '../dto/sync-response.dto';
+import {
+  MetadataService,
+  SyncOptions,
+  resolveSyncMode,
+} from '../metadata.service';
+import { INSTANCE_ID, SyncLockService } from './sync-lock.service';
+import { SourceRegistryService } from './source-registry.service';
+import { DEFAULT_SOURCE } from '../connectors/source-connector';
+
+// How often a running job renews its lock, persists progress and polls for cancellation
+export const HEARTBEAT_INTERVAL_MS = 5 * 1000;
+const MAX_LIST_LIMIT = 100;
+
+export interface StartedSyncJob {
+  job: SyncJobDto;
+  // Resolves with the sync result once the job has finished
+  completion: Promise<SyncResponseDto>;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  progress: SyncProgressDto;
+}
+
+@Injectable()
+export class SyncJobService {
+  private readonly logger = new Logger(SyncJobService.name);
+  private readonly runningJobs = new Map<string, RunningJob>();
+
+  constructor(
+    @InjectModel(SyncJob.name)
+    private syncJobModel: Model<SyncJobDocument>,
+    private readonly syncLockService: SyncLockService,
+    private readonly metadataService: MetadataService,
+    private readonly sourceRegistry: SourceRegistryService,
+  ) {}
+
+  /**
+   * Take the sync lock and run a sync in the background. Throws a
+   * ConflictException naming the running job when another sync holds the lock.
+   */
+  async startJob(
+    options: Pick<SyncOptions, 'mode' | 'trigger' | 'scope' | 'source'> = {},
+  ): Promise<StartedSyncJob> {
+    // Reject an unknown source before taking the lock
+    this.sourceRegistry.get(options.source);
+
+    const jobId = new Types.ObjectId();
+    const lock = await this.syncLockService.acquire(jobId.toString());
+    if (!lock.acquired) {
+      throw new ConflictException(
+        `A metadata sync is already running (job ${lock.holder ?? 'unknown'})`,
+      );
+    }
+    if (lock.previousOwner) {
+      await this.markAbandoned(lock.previousOwner);
+    }
+
+    const progress: SyncProgressDto = {
+      phase: 'queued',
+      databasesTotal: 0,
+      databasesDone: 0,
+      tablesFound: 0,
+      tablesProcessed: 0,
+    };
+
+    let job: SyncJobDocument;
+    try {
+      job = await this.syncJobModel.create({
+        _id: jobId,
+        status: 'queued',
+        mode: resolveSyncMode(options),
+        trigger: options.trigger ?? 'user',
+        scope: options.scope ?? null,
+        source: options.source ?? DEFAULT_SOURCE,
+        progress,
+        instanceId: INSTANCE_ID,
+      });
+    } catch (error) {
+      await this.syncLockService.release(jobId.toString());
+      throw error;
+    }
+
+    this.logger.log(`Queued ${job.mode} sync job ${job.id}`);
+    return {
+      job: this.toDto(job),
+      completion: this.runJob(job.id, { ...options, mode: job.mode }, progress),
+    };
+  }
+
+  async getJob(id: string): Promise<SyncJobDto> {
+    return this.toDto(await this.findJob(id));
+  }
+
+  async listJobs(limit: number = 20): Promise<SyncJobDto[]> {
+    const jobs = await this.syncJobModel
+      .find()
+      .sort({ createdAt: -1 })
+      .limit(Math.min(limit, MAX_LIST_LIMIT))
+      .exec();
+    return jobs.map((job) => this.toDto(job));
+  }
+
+  /**
+   * Request cancellation. A job running on this instance stops right away;
+   * one running elsewhere stops at its next heartbeat. The job reaches the
+   * `cancelled` status once the pipeline has stopped.
+   */
+  async cancelJob(id: string): Promise<SyncJobDto> {
+    const existing = await this.findJob(id);
+    if (!['queued', 'running'].includes(existing.status)) {
+      throw new ConflictException(
+        `Sync job ${id} has already finished (${existing.status})`,
+      );
+    }
+
+    const job = await this.syncJobModel
+      .findByIdAndUpdate(id, { $set: { cancelRequested: true } }, { new: true })
+      .exec();
+    this.runningJobs.get(id)?.controller.abort();
+    this.logger.log(`Cancellation requested for sync job ${id}`);
+    return this.toDto(job ?? existing);
+  }
+
+  private async runJob(
+    jobId: string,
+    options: Pick<SyncOptions, 'mode' | 'trigger' | 'scope' | 'source'>,
+    progress: SyncProgressDto,
+  ): Promise<SyncResponseDto> {
+    const running: RunningJob = { controller: new AbortController(), progress };
+    this.runningJobs.set(jobId, running);
+    const heartbeat = setInterval(
+      () => void this.heartbeat(jobId, running),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    heartbeat.unref();
+
+    try {
+      await this.syncJobModel.updateOne(
+        { _id: jobId },
+        { $set: { status: 'running', startedAt: new Date() } },
+      );
+
+      const result = await this.metadataService.syncMetadata({
+        ...options,
+        signal: running.controller.signal,
+        onProgress: (update) => (running.progress = update),
+      });
+
+      const status: SyncJobStatus = result.success
+        ? 'succeeded'
+        : running.controller.signal.aborted
+          ? 'cancelled'
+          : 'failed';
+      await this.finishJob(jobId, status, running.progress, result);
+      this.logger.log(`Sync job ${jobId} ${status}`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Sync job ${jobId} failed`, error);
+      await this.finishJob(jobId, 'failed', running.progress, null);
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+      this.runningJobs.delete(jobId);
+      await this.syncLockService.release(jobId);
+    }
+  }
+
+  private async heartbeat(jobId: string, running: RunningJob): Promise<void> {
+    try {
+      if (!(await this.syncLockService.renew(jobId))) {
+        this.logger.error(`Sync job ${jobId} lost its lock, cancelling`);
+        running.controller.abort();
+      }
+
+      const job = await this.syncJobModel
+        .findOneAndUpdate(
+          { _id: jobId, status: 'running' },
+          { $set: { progress: running.progress } },
+          { new: true },
+        )
+        .select('cancelRequested')
+        .exec();
+      if (job?.cancelRequested) {
+        running.controller.abort();
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Heartbeat for sync job ${jobId} failed: ${error.message}`,
+      );
+    }
+  }
+
+  private async finishJob(
+    jobId: string,
+    status: SyncJobStatus,
+    progress: SyncProgressDto,
+    result: SyncResponseDto | null,
+  ): Promise<void> {
+    try {
+      await this.syncJobModel.updateOne(
+        { _id: jobId },
+        {
+          $set: {
+            status,
+            progress: { ...progress, phase: 'done' },
+            result,
+            finishedAt: new Date(),
+          },
+        },
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record outcome of sync job ${jobId}`, error);
+    }
+  }
+
+  /**
+   * A job whose lease expired was running on an instance that went away.
+   */
+  private async markAbandoned(jobId: string): Promise<void> {
+    await this.syncJobModel.updateOne(
+      { _id: jobId, status: { $in: ['queued', 'running'] } },
+      { $set: { status: 'failed', finishedAt: new Date() } },
+    );
+  }
+
+  private async findJob(id: string): Promise<SyncJobDocument> {
+    const job = Types.ObjectId.isValid(id)
+      ? await this.syncJobModel.findById(id).exec()
+      : null;
+    if (!job) {
+      throw new NotFoundException(`Sync job ${id} not found`);
+    }
+    return job;
+  }
+
+  private toDto(job: SyncJobDocument): SyncJobDto {
+    return {
+      id: job.id,
+      status: job.status,
+      mode: job.mode,
+      trigger: job.trigger,
+      scope: job.scope ?? null,
+      source: job.source,
+      // A job running on this instance has fresher progress than its last heartbeat
+      progress: this.runningJobs.get(job.id)?.progress ?? job.progress,
+      cancelRequested: job.cancelRequested,
+      result: job.result,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+}
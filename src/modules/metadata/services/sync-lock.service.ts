@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { hostname } from 'os';
+import { SyncLock, SyncLockDocument } from '../schemas/sync-lock.schema';
+
+const LOCK_ID = 'metadata-sync';
+// A holder that stops renewing (e.g. a crashed instance) loses the lock after this long
+export const LOCK_LEASE_MS = 60 * 1000;
+export const INSTANCE_ID = `${hostname()}:${process.pid}`;
+
+export interface LockAcquisition {
+  acquired: boolean;
+  // Job holding the lock when it could not be acquired
+  holder?: string;
+  // Job whose expired lease was taken over
+  previousOwner?: string;
+}
+
+/**
+ * Single MongoDB document used as a lease, so only one sync runs at a time
+ * across every instance of the service.
+ */
+@Injectable()
+export class SyncLockService {
+  private readonly logger = new Logger(SyncLockService.name);
+
+  constructor(
+    @InjectModel(SyncLock.name)
+    private syncLockModel: Model<SyncLockDocument>,
+  ) {}
+
+  async acquire(owner: string): Promise<LockAcquisition> {
+    const now = new Date();
+    try {
+      // Matches only a free (expired) lease; a held lease makes the upsert
+      // collide with the existing _id
+      const previous = await this.syncLockModel
+        .findOneAndUpdate(
+          { _id: LOCK_ID, expiresAt: { $lte: now } },
+          {
+            $set: {
+              owner,
+              instanceId: INSTANCE_ID,
+              acquiredAt: now,
+              expiresAt: new Date(now.getTime() + LOCK_LEASE_MS),
+            },
+          },
+          { upsert: true, new: false },
+        )
+        .exec();
+
+      if (previous) {
+        this.logger.warn(
+          `Took over expired sync lock from job ${previous.owner} (${previous.instanceId})`,
+        );
+      }
+      return { acquired: true, previousOwner: previous?.owner };
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+      return { acquired: false, holder: (await this.getHolder()) ?? undefined };
+    }
+  }
+
+  /**
+   * Extend the lease. Returns false when the lock is no longer held by `owner`.
+   */
+  async renew(owner: string): Promise<boolean> {
+    const result = await this.syncLockModel
+      .updateOne(
+        { _id: LOCK_ID, owner },
+        { $set: { expiresAt: new Date(Date.now() + LOCK_LEASE_MS) } },
+      )
+      .exec();
+    return result.matchedCount > 0;
+  }
+
+  async release(owner: string): Promise<void> {
+    await this.syncLockModel.deleteOne({ _id: LOCK_ID, owner }).exec();
+  }
+
+  async getHolder(): Promise<string | null> {
+    const lock = await this.syncLockModel
+      .findOne({ _id: LOCK_ID, expiresAt: { $gt: new Date() } })
+      .exec();
+    return lock?.owner ?? null;
+  }
+}
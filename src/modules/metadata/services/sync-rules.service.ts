@@ -0,0 +1,102 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { SyncRule, SyncRuleDocument } from '../schemas/sync-rule.schema';
+import { CreateSyncRuleDto, SyncRuleDto } from '../dto/sync-rule.dto';
+import { SyncScopeDto } from '../dto/sync-request.dto';
+import {
+  SyncFilter,
+  SyncRuleDefinition,
+  compileSyncRulePattern,
+} from '../utils/sync-filter';
+
+const RULE_ACTIONS = ['include', 'exclude'];
+const RULE_LEVELS = ['database', 'schema', 'table'];
+const RULE_SYNTAXES = ['glob', 'regex'];
+
+@Injectable()
+export class SyncRulesService {
+  private readonly logger = new Logger(SyncRulesService.name);
+
+  constructor(
+    @InjectModel(SyncRule.name)
+    private syncRuleModel: Model<SyncRuleDocument>,
+  ) {}
+
+  async listRules(): Promise<SyncRuleDto[]> {
+    const rules = await this.syncRuleModel.find().sort({ createdAt: 1 }).exec();
+    return rules.map((rule) => this.toDto(rule));
+  }
+
+  async createRule(request: CreateSyncRuleDto): Promise<SyncRuleDto> {
+    const rule = this.validateRule(request);
+    const created = await this.syncRuleModel.create(rule);
+    this.logger.log(
+      `Created ${rule.action} rule for ${rule.level} ${rule.syntax} "${rule.pattern}"`,
+    );
+    return this.toDto(created);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const deleted = Types.ObjectId.isValid(id)
+      ? await this.syncRuleModel.findByIdAndDelete(id).exec()
+      : null;
+    if (!deleted) {
+      throw new NotFoundException(`Sync rule ${id} not found`);
+    }
+    this.logger.log(`Deleted sync rule ${id}`);
+  }
+
+  /**
+   * Combine a sync's scope with the stored rules.
+   */
+  async buildFilter(scope?: SyncScopeDto): Promise<SyncFilter> {
+    const rules = await this.syncRuleModel.find().exec();
+    return new SyncFilter(
+      scope,
+      rules.map((rule) => ({
+        action: rule.action,
+        level: rule.level,
+        pattern: rule.pattern,
+        syntax: rule.syntax,
+      })),
+    );
+  }
+
+  private validateRule(request: CreateSyncRuleDto): SyncRuleDefinition {
+    const { action, level, pattern } = request ?? ({} as CreateSyncRuleDto);
+    const syntax = request?.syntax ?? 'glob';
+    if (!RULE_ACTIONS.includes(action)) {
+      throw new BadRequestException('action must be include or exclude');
+    }
+    if (!RULE_LEVELS.includes(level)) {
+      throw new BadRequestException('level must be database, schema or table');
+    }
+    if (!RULE_SYNTAXES.includes(syntax)) {
+      throw new BadRequestException('syntax must be glob or regex');
+    }
+    if (typeof pattern !== 'string' || pattern.trim() === '') {
+      throw new BadRequestException('pattern is required');
+    }
+
+    const rule = { action, level, pattern: pattern.trim(), syntax };
+    compileSyncRulePattern(rule);
+    return rule;
+  }
+
+  private toDto(rule: SyncRuleDocument): SyncRuleDto {
+    return {
+      id: rule.id,
+      action: rule.action,
+      level: rule.level,
+      pattern: rule.pattern,
+      syntax: rule.syntax,
+      createdAt: rule.createdAt,
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+import { Model } from 'mongoose';
+import {
+  SyncSchedule,
+  SyncScheduleDocument,
+} from '../schemas/sync-schedule.schema';
+import {
+  SyncScheduleDto,
+  UpdateSyncScheduleDto,
+} from '../dto/sync-schedule.dto';
+import { SyncJobService } from './sync-job.service';
+import { SchedulerConfig } from '../../../config/scheduler.config';
+
+const JOB_PREFIX = 'metadata-sync:';
+
+@Injectable()
+export class SyncSchedulerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SyncSchedulerService.name);
+
+  constructor(
+    @InjectModel(SyncSchedule.name)
+    private syncScheduleModel: Model<SyncScheduleDocument>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly syncJobService: SyncJobService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.loadSchedules();
+    } catch (error) {
+      this.logger.error('Failed to load sync schedules', error);
+    }
+  }
+
+  /**
+   * Seed the default schedules if they do not exist yet and register a cron
+   * job for every enabled one.
+   */
+  async loadSchedules(): Promise<void> {
+    for (const defaults of SchedulerConfig.getDefaultSchedules()) {
+      await this.syncScheduleModel.updateOne(
+        { name: defaults.name },
+        {
+          $setOnInsert: {
+            ...defaults,
+            timezone: SchedulerConfig.getTimezone(),
+          },
+        },
+        { upsert: true },
+      );
+    }
+
+    const schedules = await this.syncScheduleModel.find().exec();
+    schedules.forEach((schedule) => this.registerJob(schedule));
+    this.logger.log(
+      `Loaded ${schedules.length} sync schedules (${schedules.filter((schedule) => schedule.enabled).length} enabled)`,
+    );
+  }
+
+  async getSchedules(): Promise<SyncScheduleDto[]> {
+    const schedules = await this.syncScheduleModel
+      .find()
+      .sort({ name: 1 })
+      .exec();
+    return schedules.map((schedule) => this.toDto(schedule));
+  }
+
+  async updateSchedule(
+    name: string,
+    update: UpdateSyncScheduleDto,
+  ): Promise<SyncScheduleDto> {
+    const existing = await this.findSchedule(name);
+    const cron = update.cron ?? existing.cron;
+    const timezone = update.timezone ?? existing.timezone;
+    this.validateCron(cron, timezone);
+
+    const $set: Partial<SyncSchedule> = { cron, timezone };
+    if (update.enabled !== undefined) {
+      $set.enabled = Boolean(update.enabled);
+    }
+
+    const schedule = await this.syncScheduleModel
+      .findOneAndUpdate({ name }, { $set }, { new: true })
+      .exec();
+    if (!schedule) {
+      throw new NotFoundException(`Sync schedule "${name}" not found`);
+    }
+
+    this.registerJob(schedule);
+    this.logger.log(
+      `Sync schedule "${name}" updated: ${schedule.cron} (${schedule.timezone}), ${schedule.enabled ? 'enabled' : 'paused'}`,
+    );
+    return this.toDto(schedule);
+  }
+
+  async pauseSchedule(name: string): Promise<SyncScheduleDto> {
+    return await this.updateSchedule(name, { enabled: false });
+  }
+
+  async resumeSchedule(name: string): Promise<SyncScheduleDto> {
+    return await this.updateSchedule(name, { enabled: true });
+  }
+
+  /**
+   * Cron tick handler. Runs through the sync lock, so a tick that fires while
+   * any sync is still running (on any instance) is skipped.
+   *
+   * Pausing or editing a schedule only re-registers the job of the instance
+   * that handled the request, so each tick rechecks the stored schedule
+   * against the `cron` and `timezone` its job was `registered` with, and
+   * removes or re-registers a stale job instead of running it.
+   */
+  async runScheduledSync(
+    name: string,
+    registered?: Pick<SyncSchedule, 'cron' | 'timezone'>,
+  ): Promise<void> {
+    try {
+      const schedule = await this.findSchedule(name);
+      if (!schedule.enabled) {
+        this.logger.log(
+          `Skipping scheduled "${name}" sync: schedule is paused`,
+        );
+        this.registerJob(schedule);
+        return;
+      }
+      if (
+        registered &&
+        (registered.cron !== schedule.cron ||
+          registered.timezone !== schedule.timezone)
+      ) {
+        this.logger.log(
+          `Skipping scheduled "${name}" sync: schedule changed to ${schedule.cron} (${schedule.timezone})`,
+        );
+        this.registerJob(schedule);
+        return;
+      }
+      this.logger.log(`Starting scheduled "${name}" ${schedule.mode} sync`);
+
+      const { completion } = await this.syncJobService.startJob({
+        mode: schedule.mode,
+        trigger: 'scheduler',
+      });
+      const result = await completion;
+
+      await this.syncScheduleModel.updateOne(
+        { name },
+        { $set: { lastRunAt: new Date(), lastRunSuccess: result.success } },
+      );
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.logger.warn(`Skipping scheduled "${name}" sync: ${error.message}`);
+        return;
+      }
+      this.logger.error(`Scheduled "${name}" sync failed`, error);
+    }
+  }
+
+  private registerJob(schedule: SyncSchedule): void {
+    const jobName = `${JOB_PREFIX}${schedule.name}`;
+    if (this.schedulerRegistry.doesExist('cron', jobName)) {
+      this.schedulerRegistry.deleteCronJob(jobName);
+    }
+    if (!schedule.enabled) return;
+
+    const job = CronJob.from({
+      cronTime: schedule.cron,
+      timeZone: schedule.timezone,
+      onTick: () =>
+        this.runScheduledSync(schedule.name, {
+          cron: schedule.cron,
+          timezone: schedule.timezone,
+        }),
+      start: false,
+    });
+    this.schedulerRegistry.addCronJob(jobName, job);
+    job.start();
+  }
+
+  private validateCron(cron: string, timezone: string): void {
+    try {
+      new CronTime(cron, timezone);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid cron schedule "${cron}" (${timezone}): ${error.message}`,
+      );
+    }
+  }
+
+  private async findSchedule(name: string): Promise<SyncSchedule> {
+    const schedule = await this.syncScheduleModel.findOne({ name }).exec();
+    if (!schedule) {
+      throw new NotFoundException(`Sync schedule "${name}" not found`);
+    }
+    return schedule;
+  }
+
+  private toDto(schedule: SyncSchedule): SyncScheduleDto {
+    const jobName = `${JOB_PREFIX}${schedule.name}`;
+    const nextRunAt = this.schedulerRegistry.doesExist('cron', jobName)
+      ? this.schedulerRegistry.getCronJob(jobName).nextDate().toJSDate()
+      : null;
+
+    return {
+      name: schedule.name,
+      mode: schedule.mode,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      enabled: schedule.enabled,
+      lastRunAt: schedule.lastRunAt,
+      lastRunSuccess: schedule.lastRunSuccess,
+      nextRunAt,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MongodbService } from './mongodb.service';
+import {
+  DEFAULT_OBJECT_TYPE,
+  SourceConnector,
+} from '../connectors/source-connector';
+import {
+  TableUsageDto,
+  UsageRankingDto,
+  UsageRankingQueryDto,
+} from '../dto/usage.dto';
+import { Metadata } from '../schemas/metadata.schema';
+import { UsageConfig } from '../../../config/usage.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+export const DEFAULT_UNUSED_DAYS = 90;
+
+/**
+ * Per-table query counts over a rolling window of query history, and rankings
+ * built on them.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(private readonly mongodbService: MongodbService) {}
+
+  /**
+   * Count queries of the window ending now and store them on the tables of
+   * the source. Returns the number of catalog tables with queries, or null
+   * when the source does not report usage.
+   */
+  async collect(
+    connector: SourceConnector,
+    signal?: AbortSignal,
+  ): Promise<number | null> {
+    if (!connector.getUsage) return null;
+
+    const windowDays = UsageConfig.getWindowDays();
+    const collectedAt = new Date();
+    const usages = await connector.getUsage(
+      new Date(collectedAt.getTime() - windowDays * DAY_MS),
+      signal,
+    );
+    signal?.throwIfAborted();
+    const tables = await this.mongodbService.saveTableUsage(
+      connector.name,
+      usages,
+      windowDays,
+      collectedAt,
+    );
+
+    this.logger.log(
+      `Collected usage of ${connector.name} over ${windowDays} days: ${usages.length} tables queried, ${tables} in the catalog`,
+    );
+    return tables;
+  }
+
+  // Live tables by query count, then by distinct users
+  async getMostUsed(query: UsageRankingQueryDto): Promise<UsageRankingDto> {
+    const { limit, offset } = this.page(query);
+    const tables = await this.mongodbService.findMostUsedTables({
+      ...query,
+      limit,
+      offset,
+    });
+    return { items: tables.map((table) => this.toDto(table)), limit, offset };
+  }
+
+  /**
+   * Live tables covered by usage collection without a query in the last
+   * `days`, least recently queried (or never) first.
+   */
+  async getUnused(
+    query: UsageRankingQueryDto,
+    days: number = DEFAULT_UNUSED_DAYS,
+  ): Promise<UsageRankingDto> {
+    const { limit, offset } = this.page(query);
+    const tables = await this.mongodbService.findUnusedTables(
+      { ...query, limit, offset },
+      new Date(Date.now() - days * DAY_MS),
+    );
+    return { items: tables.map((table) => this.toDto(table)), limit, offset };
+  }
+
+  private page(query: UsageRankingQueryDto): { limit: number; offset: number } {
+    return {
+      limit: Math.min(Math.max(query.limit || DEFAULT_LIMIT, 1), MAX_LIMIT),
+      offset: Math.max(query.offset || 0, 0),
+    };
+  }
+
+  private toDto(table: Metadata): TableUsageDto {
+    return {
+      database: table.database,
+      schema: table.schema,
+      table: table.table,
+      objectType: table.objectType ?? DEFAULT_OBJECT_TYPE,
+      usage: table.usage ?? null,
+    };
+  }
+}
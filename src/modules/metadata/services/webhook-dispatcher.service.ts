@@ -0,0 +1,223 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import * as crypto from 'crypto';
+import { Model } from 'mongoose';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from '../schemas/webhook-delivery.schema';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from '../schemas/webhook-subscription.schema';
+import { WebhookConfig } from '../../../config/webhook.config';
+
+const INTERVAL_NAME = 'webhook-dispatch';
+// An attempt that has not finished after its timeout plus this long (e.g. a
+// crashed instance) is picked up again
+const CLAIM_GRACE_MS = 30 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Signs a payload for a receiver. The signature is an HMAC-SHA256 with the
+ * subscription's secret over `<timestamp>.<body>`, so a captured request
+ * cannot be replayed with another timestamp.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return `sha256=${crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')}`;
+}
+
+/**
+ * Sends due webhook deliveries. Each delivery is claimed in MongoDB before it
+ * is sent, so instances never send the same attempt twice. Failed attempts
+ * are retried with exponential backoff until the attempts run out, then the
+ * delivery is dead-lettered.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private dispatching = false;
+  private dispatchRequested = false;
+
+  constructor(
+    @InjectModel(WebhookDelivery.name)
+    private webhookDeliveryModel: Model<WebhookDeliveryDocument>,
+    @InjectModel(WebhookSubscription.name)
+    private webhookSubscriptionModel: Model<WebhookSubscriptionDocument>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const interval = setInterval(
+      () => this.requestDispatch(),
+      WebhookConfig.getDispatchIntervalSeconds() * 1000,
+    );
+    this.schedulerRegistry.addInterval(INTERVAL_NAME, interval);
+  }
+
+  /**
+   * Start sending due deliveries without waiting for them. A request made
+   * while a dispatch runs makes it look for due deliveries once more.
+   */
+  requestDispatch(): void {
+    this.dispatch().catch((error) =>
+      this.logger.error('Failed to dispatch webhook deliveries', error),
+    );
+  }
+
+  /**
+   * Send every due delivery. Returns the number of attempts made.
+   */
+  async dispatch(): Promise<number> {
+    if (this.dispatching) {
+      this.dispatchRequested = true;
+      return 0;
+    }
+    this.dispatching = true;
+    let attempts = 0;
+    try {
+      do {
+        this.dispatchRequested = false;
+        let delivery: WebhookDeliveryDocument | null;
+        while ((delivery = await this.claimNext())) {
+          await this.attempt(delivery);
+          attempts++;
+        }
+      } while (this.dispatchRequested);
+      return attempts;
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private async claimNext(): Promise<WebhookDeliveryDocument | null> {
+    const now = new Date();
+    const timeoutMs = WebhookConfig.getTimeoutSeconds() * 1000;
+    return await this.webhookDeliveryModel
+      .findOneAndUpdate(
+        {
+          status: { $in: ['pending', 'retrying'] },
+          nextAttemptAt: { $lte: now },
+        },
+        {
+          $set: {
+            nextAttemptAt: new Date(now.getTime() + timeoutMs + CLAIM_GRACE_MS),
+          },
+        },
+        { sort: { nextAttemptAt: 1 }, new: true },
+      )
+      .exec();
+  }
+
+  private async attempt(delivery: WebhookDeliveryDocument): Promise<void> {
+    const attemptedAt = new Date();
+    const attempts = delivery.attempts + 1;
+    const subscription = await this.webhookSubscriptionModel
+      .findById(delivery.subscriptionId)
+      .select('+secret')
+      .exec();
+    if (!subscription) {
+      await this.updateDelivery(delivery, {
+        status: 'dead',
+        attempts,
+        nextAttemptAt: null,
+        lastAttemptAt: attemptedAt,
+        lastStatusCode: null,
+        lastError: 'Subscription was deleted',
+      });
+      return;
+    }
+
+    const { statusCode, error } = await this.send(
+      subscription,
+      delivery.id as string,
+      JSON.stringify(delivery.payload),
+    );
+    if (!error) {
+      await this.updateDelivery(delivery, {
+        status: 'delivered',
+        attempts,
+        nextAttemptAt: null,
+        lastAttemptAt: attemptedAt,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      this.logger.log(
+        `Delivered webhook ${delivery.id} to ${subscription.url} (attempt ${attempts})`,
+      );
+      return;
+    }
+
+    const dead = attempts >= WebhookConfig.getMaxAttempts();
+    const retryDelayMs =
+      WebhookConfig.getRetryBaseSeconds() * 1000 * 2 ** (attempts - 1);
+    await this.updateDelivery(delivery, {
+      status: dead ? 'dead' : 'retrying',
+      attempts,
+      nextAttemptAt: dead ? null : new Date(Date.now() + retryDelayMs),
+      lastAttemptAt: attemptedAt,
+      lastStatusCode: statusCode,
+      lastError: error.slice(0, MAX_ERROR_LENGTH),
+    });
+    this.logger.warn(
+      `Webhook ${delivery.id} to ${subscription.url} failed (attempt ${attempts}): ${error}${dead ? ', dead-lettered' : ''}`,
+    );
+  }
+
+  private async send(
+    subscription: WebhookSubscriptionDocument,
+    deliveryId: string,
+    body: string,
+  ): Promise<{ statusCode: number | null; error: string | null }> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': deliveryId,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+        signal: AbortSignal.timeout(WebhookConfig.getTimeoutSeconds() * 1000),
+      });
+      await response.body?.cancel();
+      return response.ok
+        ? { statusCode: response.status, error: null }
+        : {
+            statusCode: response.status,
+            error: `Receiver answered ${response.status}`,
+          };
+    } catch (error) {
+      // fetch reports network failures as "fetch failed" with the reason as cause
+      const cause = error.cause?.message;
+      return {
+        statusCode: null,
+        error: cause ? `${error.message}: ${cause}` : error.message,
+      };
+    }
+  }
+
+  private async updateDelivery(
+    delivery: WebhookDeliveryDocument,
+    update: Partial<WebhookDelivery>,
+  ): Promise<void> {
+    await this.webhookDeliveryModel
+      .updateOne({ _id: delivery._id }, { $set: update })
+      .exec();
+  }
+}
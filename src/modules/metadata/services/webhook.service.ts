@@ -0,0 +1,299 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import * as crypto from 'crypto';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from '../schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from '../schemas/webhook-delivery.schema';
+import {
+  CreateWebhookDto,
+  CreatedWebhookDto,
+  SCHEMA_CHANGED_EVENT,
+  WEBHOOK_CHANGE_TYPES,
+  WebhookDeliveryDto,
+  WebhookDeliveryPageDto,
+  WebhookDeliveryQueryDto,
+  WebhookDto,
+  WebhookPayloadDto,
+} from '../dto/webhook.dto';
+import { TableChange } from './mongodb.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { patternToRegExp } from '../utils/table-ref';
+
+const MIN_SECRET_LENGTH = 16;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Webhook subscriptions to schema changes and their deliveries. Syncs queue
+ * one delivery per matching subscription and write batch; the dispatcher
+ * sends them.
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private webhookSubscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private webhookDeliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  async listSubscriptions(): Promise<WebhookDto[]> {
+    const subscriptions = await this.webhookSubscriptionModel
+      .find()
+      .sort({ createdAt: 1 })
+      .exec();
+    return subscriptions.map((subscription) => this.toDto(subscription));
+  }
+
+  async createSubscription(
+    request: CreateWebhookDto,
+  ): Promise<CreatedWebhookDto> {
+    const subscription = this.validateSubscription(request);
+    const created = await this.webhookSubscriptionModel.create(subscription);
+    this.logger.log(
+      `Created webhook subscription ${created.id} for ${created.url}`,
+    );
+    return { ...this.toDto(created), secret: subscription.secret };
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    const deleted = Types.ObjectId.isValid(id)
+      ? await this.webhookSubscriptionModel.findByIdAndDelete(id).exec()
+      : null;
+    if (!deleted) {
+      throw new NotFoundException(`Webhook subscription ${id} not found`);
+    }
+    this.logger.log(`Deleted webhook subscription ${id}`);
+  }
+
+  /**
+   * Queue a delivery of the changes each subscription matches, then start
+   * sending them. Returns the number of deliveries queued.
+   */
+  async notifyChanges(changes: TableChange[], source: string): Promise<number> {
+    if (changes.length === 0) return 0;
+    const subscriptions = await this.webhookSubscriptionModel.find().exec();
+
+    const occurredAt = new Date().toISOString();
+    const deliveries: Partial<WebhookDelivery & { _id: Types.ObjectId }>[] = [];
+    for (const subscription of subscriptions) {
+      const matching = changes.filter((change) =>
+        this.matches(subscription, change),
+      );
+      if (matching.length === 0) continue;
+
+      const _id = new Types.ObjectId();
+      const payload: WebhookPayloadDto = {
+        id: _id.toHexString(),
+        event: SCHEMA_CHANGED_EVENT,
+        source,
+        occurredAt,
+        tables: matching.map((change) => ({
+          database: change.database,
+          schema: change.schema,
+          table: change.table,
+          changeType: change.changeType,
+          version: change.version,
+          objectType: change.objectType ?? null,
+          diff: change.diff,
+        })),
+      };
+      deliveries.push({
+        _id,
+        subscriptionId: subscription._id as Types.ObjectId,
+        payload,
+        status: 'pending',
+        nextAttemptAt: new Date(),
+      });
+    }
+    if (deliveries.length === 0) return 0;
+
+    await this.webhookDeliveryModel.insertMany(deliveries);
+    this.logger.log(
+      `Queued ${deliveries.length} webhook deliveries for ${changes.length} table changes`,
+    );
+    this.dispatcher.requestDispatch();
+    return deliveries.length;
+  }
+
+  // Newest first; `status=dead` is the dead-letter list
+  async listDeliveries(
+    query: WebhookDeliveryQueryDto,
+  ): Promise<WebhookDeliveryPageDto> {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    );
+    const offset = Math.max(query.offset || 0, 0);
+    const filter: FilterQuery<WebhookDeliveryDocument> = {};
+    if (query.status) filter.status = query.status;
+    if (query.subscriptionId) {
+      if (!Types.ObjectId.isValid(query.subscriptionId)) {
+        throw new BadRequestException('subscriptionId must be an id');
+      }
+      filter.subscriptionId = new Types.ObjectId(query.subscriptionId);
+    }
+
+    const [deliveries, total] = await Promise.all([
+      this.webhookDeliveryModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.webhookDeliveryModel.countDocuments(filter).exec(),
+    ]);
+    return {
+      items: deliveries.map((delivery) => this.toDeliveryDto(delivery)),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async getDelivery(id: string): Promise<WebhookDeliveryDto> {
+    const delivery = await this.findDelivery(id);
+    return { ...this.toDeliveryDto(delivery), payload: delivery.payload };
+  }
+
+  /**
+   * Send a delivery again with a fresh set of attempts, whatever its status.
+   * The payload keeps its id, so receivers can tell a replay from a new
+   * change.
+   */
+  async replayDelivery(id: string): Promise<WebhookDeliveryDto> {
+    await this.findDelivery(id);
+    const delivery = await this.webhookDeliveryModel
+      .findByIdAndUpdate(
+        id,
+        {
+          $set: {
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: new Date(),
+            deliveredAt: null,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    this.logger.log(`Replaying webhook delivery ${id}`);
+    this.dispatcher.requestDispatch();
+    return this.toDeliveryDto(delivery!);
+  }
+
+  private async findDelivery(id: string): Promise<WebhookDeliveryDocument> {
+    const delivery = Types.ObjectId.isValid(id)
+      ? await this.webhookDeliveryModel.findById(id).exec()
+      : null;
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  private matches(
+    subscription: WebhookSubscriptionDocument,
+    change: TableChange,
+  ): boolean {
+    return (
+      (!subscription.database ||
+        patternToRegExp(subscription.database).test(change.database)) &&
+      (!subscription.schema ||
+        patternToRegExp(subscription.schema).test(change.schema)) &&
+      (subscription.changeTypes.length === 0 ||
+        subscription.changeTypes.includes(change.changeType))
+    );
+  }
+
+  private validateSubscription(
+    request: CreateWebhookDto,
+  ): Omit<WebhookSubscription, 'createdAt'> {
+    const { url, secret, database, schema, changeTypes } =
+      request ?? ({} as CreateWebhookDto);
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new BadRequestException('url must be an http or https URL');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new BadRequestException('url must be an http or https URL');
+    }
+    if (
+      secret !== undefined &&
+      (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)
+    ) {
+      throw new BadRequestException(
+        `secret must be at least ${MIN_SECRET_LENGTH} characters`,
+      );
+    }
+    for (const [name, pattern] of Object.entries({ database, schema })) {
+      if (
+        pattern !== undefined &&
+        (typeof pattern !== 'string' || pattern.trim() === '')
+      ) {
+        throw new BadRequestException(`${name} must be a non-empty pattern`);
+      }
+    }
+    if (
+      changeTypes !== undefined &&
+      (!Array.isArray(changeTypes) ||
+        changeTypes.some((type) => !WEBHOOK_CHANGE_TYPES.includes(type)))
+    ) {
+      throw new BadRequestException(
+        `changeTypes must be a list of: ${WEBHOOK_CHANGE_TYPES.join(', ')}`,
+      );
+    }
+
+    return {
+      url: parsed.toString(),
+      secret: secret ?? crypto.randomBytes(32).toString('hex'),
+      database: database?.trim() ?? null,
+      schema: schema?.trim() ?? null,
+      changeTypes: Array.from(new Set(changeTypes ?? [])),
+    };
+  }
+
+  private toDto(subscription: WebhookSubscriptionDocument): WebhookDto {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      database: subscription.database,
+      schema: subscription.schema,
+      changeTypes: subscription.changeTypes,
+      createdAt: subscription.createdAt,
+    };
+  }
+
+  private toDeliveryDto(delivery: WebhookDeliveryDocument): WebhookDeliveryDto {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId.toString(),
+      status: delivery.status,
+      attempts: delivery.attempts,
+      tables: delivery.payload.tables.length,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      lastStatusCode: delivery.lastStatusCode,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+}
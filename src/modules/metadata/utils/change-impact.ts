@@ -0,0 +1,278 @@
+import { normalizeSnowflakeType } from './ddl-parser';
+import { ColumnChange, SchemaDiff } from './schema-diff';
+
+export type ChangeImpact = 'breaking' | 'potentially_breaking' | 'non_breaking';
+
+// Most severe first
+export const CHANGE_IMPACTS: ChangeImpact[] = [
+  'breaking',
+  'potentially_breaking',
+  'non_breaking',
+];
+
+export const SCHEMA_CHANGE_KINDS = [
+  'table_created',
+  'table_deleted',
+  'table_restored',
+  'column_added',
+  'required_column_added',
+  'column_removed',
+  'type_changed',
+  'made_not_null',
+  'made_nullable',
+  'length_increased',
+  'length_decreased',
+  'precision_increased',
+  'precision_decreased',
+  'scale_increased',
+  'scale_decreased',
+  'default_changed',
+  'comment_changed',
+  'position_changed',
+  'identity_changed',
+  'collation_changed',
+] as const;
+
+export type SchemaChangeKind = (typeof SCHEMA_CHANGE_KINDS)[number];
+
+/**
+ * Impact of one kind of change. Rules are checked in order and the first
+ * matching one wins. `fromTypes` and `toTypes` only apply to `type_changed`,
+ * e.g. `NUMBER` → `FLOAT` can be ranked lower than other type changes. Types
+ * are compared as Snowflake reports them.
+ */
+export interface ChangeImpactRule {
+  change: SchemaChangeKind;
+  impact: ChangeImpact;
+  fromTypes?: string[];
+  toTypes?: string[];
+}
+
+export interface CompiledChangeImpactRule {
+  change: SchemaChangeKind;
+  impact: ChangeImpact;
+  fromTypes: string[] | null;
+  toTypes: string[] | null;
+}
+
+export interface SchemaChangeImpact {
+  kind: SchemaChangeKind;
+  // Null for changes of the whole table
+  column: string | null;
+  impact: ChangeImpact;
+  from?: string | number | boolean | null;
+  to?: string | number | boolean | null;
+}
+
+export interface TableChangeImpact {
+  // The most severe impact of the changes
+  impact: ChangeImpact;
+  changes: SchemaChangeImpact[];
+}
+
+// Removing or narrowing what consumers read breaks them; changes readers may
+// rely on, or that break writers only, are potentially breaking
+export const DEFAULT_CHANGE_IMPACT_RULES: ChangeImpactRule[] = [
+  { change: 'table_created', impact: 'non_breaking' },
+  { change: 'table_deleted', impact: 'breaking' },
+  { change: 'table_restored', impact: 'non_breaking' },
+  { change: 'column_added', impact: 'non_breaking' },
+  { change: 'required_column_added', impact: 'potentially_breaking' },
+  { change: 'column_removed', impact: 'breaking' },
+  { change: 'type_changed', impact: 'breaking' },
+  { change: 'made_not_null', impact: 'breaking' },
+  { change: 'made_nullable', impact: 'potentially_breaking' },
+  { change: 'length_increased', impact: 'non_breaking' },
+  { change: 'length_decreased', impact: 'breaking' },
+  { change: 'precision_increased', impact: 'non_breaking' },
+  { change: 'precision_decreased', impact: 'breaking' },
+  { change: 'scale_increased', impact: 'potentially_breaking' },
+  { change: 'scale_decreased', impact: 'breaking' },
+  { change: 'default_changed', impact: 'potentially_breaking' },
+  { change: 'comment_changed', impact: 'non_breaking' },
+  { change: 'position_changed', impact: 'potentially_breaking' },
+  { change: 'identity_changed', impact: 'potentially_breaking' },
+  { change: 'collation_changed', impact: 'potentially_breaking' },
+];
+
+/**
+ * Validate and compile rules, e.g. from `CHANGE_IMPACT_RULES_FILE`.
+ */
+export function compileChangeImpactRules(
+  rules: unknown,
+): CompiledChangeImpactRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('Change impact rules must be an array');
+  }
+  return rules.map((rule: ChangeImpactRule, index) => {
+    const where = `Change impact rule ${index + 1}`;
+    if (!SCHEMA_CHANGE_KINDS.includes(rule?.change)) {
+      throw new Error(
+        `${where}: change must be one of: ${SCHEMA_CHANGE_KINDS.join(', ')}`,
+      );
+    }
+    if (!CHANGE_IMPACTS.includes(rule.impact)) {
+      throw new Error(
+        `${where}: impact must be one of: ${CHANGE_IMPACTS.join(', ')}`,
+      );
+    }
+    if (
+      rule.change !== 'type_changed' &&
+      (rule.fromTypes !== undefined || rule.toTypes !== undefined)
+    ) {
+      throw new Error(
+        `${where}: fromTypes and toTypes only apply to type_changed`,
+      );
+    }
+    return {
+      change: rule.change,
+      impact: rule.impact,
+      fromTypes: toTypeList(rule.fromTypes, where, 'fromTypes'),
+      toTypes: toTypeList(rule.toTypes, where, 'toTypes'),
+    };
+  });
+}
+
+/**
+ * Classify every change of a synced table: one per column attribute that
+ * changed. A new or dropped table is a single change of the whole table, not
+ * one per column.
+ */
+export function assessTableChange(
+  change: {
+    changeType: 'created' | 'updated' | 'restored' | 'deleted';
+    diff: SchemaDiff;
+  },
+  rules: CompiledChangeImpactRule[],
+): TableChangeImpact {
+  const found: Omit<SchemaChangeImpact, 'impact'>[] = [];
+  if (change.changeType === 'created' || change.changeType === 'deleted') {
+    found.push({ kind: `table_${change.changeType}`, column: null });
+    return withImpacts(found, rules);
+  }
+  if (change.changeType === 'restored') {
+    found.push({ kind: 'table_restored', column: null });
+  }
+
+  const { diff } = change;
+  for (const column of diff.added) {
+    const required =
+      !column.nullable && column.defaultValue == null && !column.identity;
+    found.push({
+      kind: required ? 'required_column_added' : 'column_added',
+      column: column.name,
+    });
+  }
+  for (const column of diff.removed) {
+    found.push({ kind: 'column_removed', column: column.name });
+  }
+  found.push(...diff.typeChanged.map(toChange('type_changed')));
+  for (const nullability of diff.nullabilityChanged) {
+    found.push(
+      toChange(nullability.to ? 'made_nullable' : 'made_not_null')(nullability),
+    );
+  }
+  for (const length of diff.lengthChanged) {
+    found.push(
+      toChange(widened(length) ? 'length_increased' : 'length_decreased')(
+        length,
+      ),
+    );
+  }
+  for (const precision of diff.precisionChanged) {
+    found.push(
+      toChange(
+        widened(precision) ? 'precision_increased' : 'precision_decreased',
+      )(precision),
+    );
+  }
+  for (const scale of diff.scaleChanged) {
+    found.push(
+      toChange(
+        (scale.to ?? 0) > (scale.from ?? 0)
+          ? 'scale_increased'
+          : 'scale_decreased',
+      )(scale),
+    );
+  }
+  found.push(
+    ...diff.defaultChanged.map(toChange('default_changed')),
+    ...diff.commentChanged.map(toChange('comment_changed')),
+    ...diff.positionChanged.map(toChange('position_changed')),
+    ...diff.identityChanged.map(toChange('identity_changed')),
+    ...diff.collationChanged.map(toChange('collation_changed')),
+  );
+
+  return withImpacts(found, rules);
+}
+
+function withImpacts(
+  found: Omit<SchemaChangeImpact, 'impact'>[],
+  rules: CompiledChangeImpactRule[],
+): TableChangeImpact {
+  const changes = found.map((item) => ({
+    ...item,
+    impact: impactOf(item, rules),
+  }));
+  return {
+    impact:
+      CHANGE_IMPACTS.find((impact) =>
+        changes.some((item) => item.impact === impact),
+      ) ?? 'non_breaking',
+    changes,
+  };
+}
+
+function impactOf(
+  change: Omit<SchemaChangeImpact, 'impact'>,
+  rules: CompiledChangeImpactRule[],
+): ChangeImpact {
+  const rule = rules.find(
+    (candidate) =>
+      candidate.change === change.kind &&
+      matchesType(candidate.fromTypes, change.from) &&
+      matchesType(candidate.toTypes, change.to),
+  );
+  // The built-in rules cover every kind, so this only guards against a gap
+  return rule?.impact ?? 'breaking';
+}
+
+function matchesType(
+  types: string[] | null,
+  value: SchemaChangeImpact['from'],
+): boolean {
+  return !types || (typeof value === 'string' && types.includes(value));
+}
+
+// A limit removed (null) or raised widens the column
+function widened(change: ColumnChange<number | null>): boolean {
+  return (
+    change.to === null || (change.from !== null && change.to > change.from)
+  );
+}
+
+function toChange(kind: SchemaChangeKind) {
+  return (
+    change: ColumnChange<string | number | boolean | null>,
+  ): Omit<SchemaChangeImpact, 'impact'> => ({
+    kind,
+    column: change.column,
+    from: change.from,
+    to: change.to,
+  });
+}
+
+function toTypeList(
+  value: unknown,
+  where: string,
+  field: string,
+): string[] | null {
+  if (value === undefined) return null;
+  if (
+    !Array.isArray(value) ||
+    value.some((item) => typeof item !== 'string' || item.trim() === '')
+  ) {
+    throw new Error(`${where}: ${field} must be a list of non-empty strings`);
+  }
+  return value.map((item: string) => normalizeSnowflakeType(item));
+}
@@ -0,0 +1,231 @@
+import { SourceColumn } from '../connectors/source-connector';
+import { normalizeSnowflakeType } from './ddl-parser';
+
+export type ClassificationSignal = 'name' | 'comment' | 'type';
+
+/**
+ * One sensitive-data label. A column is flagged when its name matches one of
+ * `namePatterns` (case-insensitive regexes) or its comment contains one of
+ * `commentKeywords`. When `types` is set, columns of other data types are
+ * never flagged, e.g. an `EMAIL_COUNT NUMBER` is not an email address.
+ * Types are compared as Snowflake reports them, so SQLite's `VARCHAR(255)`
+ * counts as `TEXT`.
+ */
+export interface ClassificationRule {
+  label: string;
+  namePatterns?: string[];
+  commentKeywords?: string[];
+  types?: string[];
+}
+
+export interface CompiledClassificationRule {
+  label: string;
+  namePatterns: RegExp[];
+  commentKeywords: string[];
+  types: string[] | null;
+}
+
+export interface ColumnClassificationMatch {
+  label: string;
+  confidence: number;
+  signals: ClassificationSignal[];
+}
+
+// A name match outweighs a comment match; a matching data type only adds to them
+const SIGNAL_WEIGHTS: Record<ClassificationSignal, number> = {
+  name: 0.6,
+  comment: 0.3,
+  type: 0.1,
+};
+
+const TEXT_TYPES = ['TEXT'];
+const TEXT_OR_NUMBER_TYPES = ['TEXT', 'NUMBER'];
+const TEXT_OR_DATE_TYPES = [
+  'TEXT',
+  'DATE',
+  'TIMESTAMP_NTZ',
+  'TIMESTAMP_LTZ',
+  'TIMESTAMP_TZ',
+];
+
+// Names are matched between underscores or at either end, e.g. `CUSTOMER_EMAIL`
+const word = (pattern: string) => `(^|_)(${pattern})(_|$)`;
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+  {
+    label: 'email',
+    namePatterns: ['e_?mail'],
+    commentKeywords: ['email', 'e-mail'],
+    types: TEXT_TYPES,
+  },
+  {
+    label: 'phone',
+    namePatterns: [word('(tele)?phone(_?(number|no|num))?|mobile|cell|fax')],
+    commentKeywords: ['phone', 'mobile number', 'telephone'],
+    types: TEXT_OR_NUMBER_TYPES,
+  },
+  {
+    label: 'ssn',
+    namePatterns: [word('ssn|social_?security(_?(number|no|num))?')],
+    commentKeywords: ['ssn', 'social security'],
+    types: TEXT_OR_NUMBER_TYPES,
+  },
+  {
+    label: 'credit_card',
+    namePatterns: [
+      word('(credit_?)?card_?(number|no|num)|cc_?(number|no|num)|pan'),
+      'credit_?card',
+    ],
+    commentKeywords: ['credit card', 'card number'],
+    types: TEXT_OR_NUMBER_TYPES,
+  },
+  {
+    label: 'address',
+    namePatterns: [
+      word(
+        '(street|mailing|billing|shipping|home|postal)?_?address(_?line_?\\d)?|street|zip(_?code)?|postcode|postal_?code',
+      ),
+    ],
+    commentKeywords: ['street address', 'postal address', 'zip code'],
+    types: TEXT_OR_NUMBER_TYPES,
+  },
+  {
+    label: 'date_of_birth',
+    namePatterns: [word('dob|birth_?date|date_?of_?birth|birthday')],
+    commentKeywords: ['date of birth', 'birthday'],
+    types: TEXT_OR_DATE_TYPES,
+  },
+  {
+    label: 'person_name',
+    namePatterns: [word('(first|last|middle|full|given|family|sur)_?name')],
+    commentKeywords: ["person's name", 'full name', 'surname'],
+    types: TEXT_TYPES,
+  },
+  {
+    label: 'national_id',
+    namePatterns: [word('passport(_?(number|no|num))?|national_?id|tax_?id')],
+    commentKeywords: ['passport', 'national id', 'tax id'],
+    types: TEXT_OR_NUMBER_TYPES,
+  },
+  {
+    label: 'bank_account',
+    namePatterns: [
+      word('iban|bank_?account(_?(number|no|num))?|routing_?number'),
+    ],
+    commentKeywords: ['iban', 'bank account'],
+    types: TEXT_OR_NUMBER_TYPES,
+  },
+  {
+    label: 'ip_address',
+    namePatterns: [word('ip(_?addr(ess)?)?|ipv[46]')],
+    commentKeywords: ['ip address'],
+    types: TEXT_TYPES,
+  },
+];
+
+/**
+ * Validate and compile rules, e.g. from `CLASSIFICATION_RULES_FILE`.
+ */
+export function compileClassificationRules(
+  rules: unknown,
+): CompiledClassificationRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('Classification rules must be an array');
+  }
+  const labels = new Set<string>();
+  return rules.map((rule: ClassificationRule, index) => {
+    const where = `Classification rule ${index + 1}`;
+    if (typeof rule?.label !== 'string' || rule.label.trim() === '') {
+      throw new Error(`${where} needs a label`);
+    }
+    const label = rule.label.trim();
+    if (labels.has(label)) {
+      throw new Error(`${where} repeats the label "${label}"`);
+    }
+    labels.add(label);
+
+    const namePatterns = toStringList(rule.namePatterns, where, 'namePatterns');
+    const commentKeywords = toStringList(
+      rule.commentKeywords,
+      where,
+      'commentKeywords',
+    );
+    if (namePatterns.length === 0 && commentKeywords.length === 0) {
+      throw new Error(`${where} needs namePatterns or commentKeywords`);
+    }
+    const types =
+      rule.types === undefined
+        ? null
+        : toStringList(rule.types, where, 'types').map((type) =>
+            normalizeSnowflakeType(type),
+          );
+
+    return {
+      label,
+      namePatterns: namePatterns.map((pattern) => {
+        try {
+          return new RegExp(pattern, 'i');
+        } catch (error) {
+          throw new Error(
+            `${where} has an invalid name pattern "${pattern}": ${error.message}`,
+          );
+        }
+      }),
+      commentKeywords: commentKeywords.map((keyword) => keyword.toLowerCase()),
+      types,
+    };
+  });
+}
+
+/**
+ * Labels of one column, most confident first. The confidence adds up the
+ * weights of the signals that matched, between 0 and 1.
+ */
+export function classifyColumn(
+  column: Pick<SourceColumn, 'name' | 'type' | 'comment'>,
+  rules: CompiledClassificationRule[],
+): ColumnClassificationMatch[] {
+  const type = normalizeSnowflakeType(column.type);
+  const comment = column.comment?.toLowerCase() ?? '';
+  const matches: ColumnClassificationMatch[] = [];
+
+  for (const rule of rules) {
+    if (rule.types && !rule.types.includes(type)) {
+      continue;
+    }
+    const signals: ClassificationSignal[] = [];
+    if (rule.namePatterns.some((pattern) => pattern.test(column.name))) {
+      signals.push('name');
+    }
+    if (
+      comment &&
+      rule.commentKeywords.some((keyword) => comment.includes(keyword))
+    ) {
+      signals.push('comment');
+    }
+    if (signals.length === 0) continue;
+    if (rule.types) signals.push('type');
+
+    const confidence = signals.reduce(
+      (total, signal) => total + SIGNAL_WEIGHTS[signal],
+      0,
+    );
+    matches.push({
+      label: rule.label,
+      confidence: Math.round(confidence * 100) / 100,
+      signals,
+    });
+  }
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+function toStringList(value: unknown, where: string, field: string): string[] {
+  if (value === undefined) return [];
+  if (
+    !Array.isArray(value) ||
+    value.some((item) => typeof item !== 'string' || item.trim() === '')
+  ) {
+    throw new Error(`${where}: ${field} must be a list of non-empty strings`);
+  }
+  return value.map((item: string) => item.trim());
+}
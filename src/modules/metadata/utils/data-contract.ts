@@ -0,0 +1,146 @@
+import { SourceColumn } from '../connectors/source-connector';
+import { normalizeSnowflakeType } from './ddl-parser';
+
+/**
+ * A column a contract requires. `types` lists the allowed data types as
+ * Snowflake reports them (synonyms such as `VARCHAR` are accepted); any type
+ * is allowed when it is omitted. `nullable` is checked only when given.
+ */
+export interface ContractColumn {
+  name: string;
+  types?: string[];
+  nullable?: boolean;
+}
+
+export type ContractViolationKind =
+  | 'table_missing'
+  | 'column_missing'
+  | 'type_mismatch'
+  | 'nullability_mismatch'
+  | 'unexpected_column';
+
+export interface ContractViolation {
+  kind: ContractViolationKind;
+  // Null for violations of the whole table
+  column: string | null;
+  message: string;
+}
+
+export interface ContractDefinition {
+  columns: ContractColumn[];
+  allowExtraColumns: boolean;
+}
+
+/**
+ * Check a cataloged table against a contract. A table that was never synced
+ * or has been dropped is a single violation.
+ */
+export function validateContract(
+  contract: ContractDefinition,
+  table: { columns: SourceColumn[]; deletedAt?: Date | null } | null,
+): ContractViolation[] {
+  if (!table || table.deletedAt) {
+    return [
+      {
+        kind: 'table_missing',
+        column: null,
+        message: table
+          ? `Table was dropped on ${table.deletedAt!.toISOString()}`
+          : 'Table is not in the catalog',
+      },
+    ];
+  }
+
+  const violations: ContractViolation[] = [];
+  const columns = new Map(table.columns.map((column) => [column.name, column]));
+  for (const expected of contract.columns) {
+    const column = columns.get(expected.name);
+    if (!column) {
+      violations.push({
+        kind: 'column_missing',
+        column: expected.name,
+        message: `Required column ${expected.name} is missing`,
+      });
+      continue;
+    }
+
+    const type = normalizeSnowflakeType(column.type);
+    if (expected.types && !expected.types.includes(type)) {
+      violations.push({
+        kind: 'type_mismatch',
+        column: expected.name,
+        message: `Column ${expected.name} is ${type}, expected ${expected.types.join(' or ')}`,
+      });
+    }
+    if (
+      expected.nullable !== undefined &&
+      expected.nullable !== column.nullable
+    ) {
+      violations.push({
+        kind: 'nullability_mismatch',
+        column: expected.name,
+        message: `Column ${expected.name} is ${column.nullable ? 'nullable' : 'NOT NULL'}, expected ${expected.nullable ? 'nullable' : 'NOT NULL'}`,
+      });
+    }
+  }
+
+  if (!contract.allowExtraColumns) {
+    const required = new Set(contract.columns.map((column) => column.name));
+    for (const column of table.columns) {
+      if (!required.has(column.name)) {
+        violations.push({
+          kind: 'unexpected_column',
+          column: column.name,
+          message: `Column ${column.name} is not part of the contract`,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Validate contract columns from a request, normalizing their types.
+ * Throws an Error naming the first problem.
+ */
+export function parseContractColumns(value: unknown): ContractColumn[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('columns must be a non-empty list');
+  }
+  const names = new Set<string>();
+  return value.map((column: ContractColumn, index) => {
+    const where = `columns[${index}]`;
+    if (typeof column?.name !== 'string' || column.name.trim() === '') {
+      throw new Error(`${where}.name must be a non-empty string`);
+    }
+    const name = column.name.trim();
+    if (names.has(name)) {
+      throw new Error(`${where} repeats the column ${name}`);
+    }
+    names.add(name);
+
+    if (
+      column.types !== undefined &&
+      (!Array.isArray(column.types) ||
+        column.types.length === 0 ||
+        column.types.some(
+          (type) => typeof type !== 'string' || type.trim() === '',
+        ))
+    ) {
+      throw new Error(`${where}.types must be a non-empty list of types`);
+    }
+    if (column.nullable !== undefined && typeof column.nullable !== 'boolean') {
+      throw new Error(`${where}.nullable must be a boolean`);
+    }
+
+    return {
+      name,
+      ...(column.types && {
+        types: Array.from(
+          new Set(column.types.map((type) => normalizeSnowflakeType(type))),
+        ),
+      }),
+      ...(column.nullable !== undefined && { nullable: column.nullable }),
+    };
+  });
+}
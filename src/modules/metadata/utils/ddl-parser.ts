@@ -0,0 +1,953 @@
+import {
+  ObjectType,
+  SourceColumn,
+  SourceTable,
+} from '../connectors/source-connector';
+
+export interface DdlContext {
+  database?: string;
+  schema?: string;
+}
+
+export interface DdlStatementError {
+  // 1-based position of the statement in its file
+  statement: number;
+  line: number;
+  message: string;
+  excerpt: string;
+}
+
+export interface DdlParseResult {
+  tables: SourceTable[];
+  errors: DdlStatementError[];
+  statements: number;
+  // Statements that are neither tables, views nor context changes (GRANT, ALTER, ...)
+  skippedStatements: number;
+}
+
+type TokenKind =
+  | 'word'
+  | 'quoted'
+  | 'string'
+  | 'number'
+  | 'punct'
+  | 'unterminated';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+}
+
+class DdlParseError extends Error {}
+
+/**
+ * Types as reported by INFORMATION_SCHEMA.COLUMNS.DATA_TYPE, so imported
+ * tables get the same checksum as the same table synced live.
+ */
+const TYPE_SYNONYMS: Record<string, string> = {
+  VARCHAR: 'TEXT',
+  STRING: 'TEXT',
+  TEXT: 'TEXT',
+  CHAR: 'TEXT',
+  CHARACTER: 'TEXT',
+  NCHAR: 'TEXT',
+  NVARCHAR: 'TEXT',
+  NVARCHAR2: 'TEXT',
+  'CHAR VARYING': 'TEXT',
+  'CHARACTER VARYING': 'TEXT',
+  'NCHAR VARYING': 'TEXT',
+  NUMBER: 'NUMBER',
+  DECIMAL: 'NUMBER',
+  DEC: 'NUMBER',
+  NUMERIC: 'NUMBER',
+  INT: 'NUMBER',
+  INTEGER: 'NUMBER',
+  BIGINT: 'NUMBER',
+  SMALLINT: 'NUMBER',
+  TINYINT: 'NUMBER',
+  BYTEINT: 'NUMBER',
+  FLOAT: 'FLOAT',
+  FLOAT4: 'FLOAT',
+  FLOAT8: 'FLOAT',
+  DOUBLE: 'FLOAT',
+  'DOUBLE PRECISION': 'FLOAT',
+  REAL: 'FLOAT',
+  BOOLEAN: 'BOOLEAN',
+  DATE: 'DATE',
+  TIME: 'TIME',
+  DATETIME: 'TIMESTAMP_NTZ',
+  TIMESTAMP: 'TIMESTAMP_NTZ',
+  TIMESTAMP_NTZ: 'TIMESTAMP_NTZ',
+  'TIMESTAMP WITHOUT TIME ZONE': 'TIMESTAMP_NTZ',
+  TIMESTAMP_LTZ: 'TIMESTAMP_LTZ',
+  'TIMESTAMP WITH LOCAL TIME ZONE': 'TIMESTAMP_LTZ',
+  TIMESTAMP_TZ: 'TIMESTAMP_TZ',
+  'TIMESTAMP WITH TIME ZONE': 'TIMESTAMP_TZ',
+  BINARY: 'BINARY',
+  VARBINARY: 'BINARY',
+  VARIANT: 'VARIANT',
+  OBJECT: 'OBJECT',
+  ARRAY: 'ARRAY',
+  GEOGRAPHY: 'GEOGRAPHY',
+  GEOMETRY: 'GEOMETRY',
+  VECTOR: 'VECTOR',
+};
+
+// Columns of views without a column list have no declared type
+export const UNKNOWN_COLUMN_TYPE = 'UNKNOWN';
+
+const TABLE_MODIFIERS = new Set([
+  'LOCAL',
+  'GLOBAL',
+  'TEMP',
+  'TEMPORARY',
+  'VOLATILE',
+  'TRANSIENT',
+  'DYNAMIC',
+  'EXTERNAL',
+  'HYBRID',
+  'ICEBERG',
+  'EVENT',
+]);
+const VIEW_MODIFIERS = new Set([
+  'SECURE',
+  'LOCAL',
+  'GLOBAL',
+  'TEMP',
+  'TEMPORARY',
+  'VOLATILE',
+  'RECURSIVE',
+  'MATERIALIZED',
+]);
+const CONSTRAINT_KEYWORDS = new Set([
+  'CONSTRAINT',
+  'PRIMARY',
+  'UNIQUE',
+  'FOREIGN',
+  'CHECK',
+]);
+// Keywords that end a column's data type or DEFAULT expression
+const COLUMN_ATTRIBUTE_KEYWORDS = new Set([
+  'NOT',
+  'NULL',
+  'DEFAULT',
+  'COMMENT',
+  'COLLATE',
+  'PRIMARY',
+  'UNIQUE',
+  'REFERENCES',
+  'CONSTRAINT',
+  'AUTOINCREMENT',
+  'IDENTITY',
+  'MASKING',
+  'TAG',
+  'WITH',
+  'AS',
+  'FOREIGN',
+  'CHECK',
+]);
+
+/**
+ * Parse Snowflake DDL (for example `GET_DDL` output or migration scripts).
+ * `CREATE [OR REPLACE] TABLE/VIEW` statements become tables; `CREATE
+ * DATABASE/SCHEMA` and `USE` statements set the database and schema of
+ * unqualified names, like they do in a Snowflake session. Every other
+ * statement is skipped. A statement that cannot be parsed is reported in
+ * `errors` and does not affect the others.
+ */
+export function parseSnowflakeDdl(
+  sql: string,
+  defaults: DdlContext = {},
+): DdlParseResult {
+  const context: DdlContext = { ...defaults };
+  const result: DdlParseResult = {
+    tables: [],
+    errors: [],
+    statements: 0,
+    skippedStatements: 0,
+  };
+
+  for (const tokens of splitStatements(tokenize(sql))) {
+    result.statements++;
+    try {
+      const table = parseStatement(new TokenCursor(tokens, sql), context);
+      if (table === 'skipped') {
+        result.skippedStatements++;
+      } else if (table) {
+        result.tables.push({
+          ...table,
+          columns: table.columns.map((column, index) => ({
+            ...column,
+            ordinalPosition: index + 1,
+          })),
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof DdlParseError)) throw error;
+      result.errors.push({
+        statement: result.statements,
+        line: tokens[0].line,
+        message: error.message,
+        excerpt: sql
+          .slice(tokens[0].start, tokens[tokens.length - 1].end)
+          .replace(/\s+/g, ' ')
+          .slice(0, 80),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Map a declared Snowflake type to its INFORMATION_SCHEMA name.
+ */
+export function normalizeSnowflakeType(declaredType: string): string {
+  const baseType = declaredType
+    .replace(/\(.*$/s, '')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toUpperCase();
+  return TYPE_SYNONYMS[baseType] ?? baseType;
+}
+
+// Lengths INFORMATION_SCHEMA reports for text and binary types declared without one
+const DEFAULT_TEXT_LENGTH = 16777216;
+const DEFAULT_CHAR_LENGTH = 1;
+const DEFAULT_BINARY_LENGTH = 8388608;
+const FIXED_CHAR_TYPES = new Set(['CHAR', 'CHARACTER', 'NCHAR']);
+
+/**
+ * Length, precision and scale of a declared type as INFORMATION_SCHEMA
+ * reports them, e.g. 16777216 for `VARCHAR` and 38, 0 for `INT`.
+ */
+function typeAttributes(
+  declaredType: string,
+): Pick<SourceColumn, 'maxLength' | 'precision' | 'scale'> {
+  const type = normalizeSnowflakeType(declaredType);
+  const args = (/\(([^)]*)\)/.exec(declaredType)?.[1] ?? '')
+    .split(',')
+    .map((arg) => parseInt(arg.trim(), 10));
+  const [first, second] = args.map((arg) => (isNaN(arg) ? undefined : arg));
+
+  switch (type) {
+    case 'TEXT': {
+      const baseType = declaredType.replace(/\(.*$/s, '').trim().toUpperCase();
+      const defaultLength = FIXED_CHAR_TYPES.has(baseType)
+        ? DEFAULT_CHAR_LENGTH
+        : DEFAULT_TEXT_LENGTH;
+      return { maxLength: first ?? defaultLength };
+    }
+    case 'BINARY':
+      return { maxLength: first ?? DEFAULT_BINARY_LENGTH };
+    case 'NUMBER':
+      return { precision: first ?? 38, scale: second ?? 0 };
+    default:
+      return {};
+  }
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  let line = 1;
+
+  const push = (kind: TokenKind, value: string, start: number) => {
+    tokens.push({ kind, value, start, end: position, line });
+  };
+  const advanceTo = (end: number) => {
+    for (let index = position; index < end; index++) {
+      if (sql[index] === '\n') line++;
+    }
+    position = end;
+  };
+
+  while (position < sql.length) {
+    const char = sql[position];
+    const next = sql[position + 1];
+
+    if (/\s/.test(char)) {
+      advanceTo(position + 1);
+    } else if (
+      (char === '-' && next === '-') ||
+      (char === '/' && next === '/')
+    ) {
+      const end = sql.indexOf('\n', position);
+      advanceTo(end === -1 ? sql.length : end);
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', position + 2);
+      advanceTo(end === -1 ? sql.length : end + 2);
+    } else if (char === "'" || char === '"') {
+      const start = position;
+      const startLine = line;
+      let value = '';
+      let index = position + 1;
+      let closed = false;
+      while (index < sql.length) {
+        if (char === "'" && sql[index] === '\\' && index + 1 < sql.length) {
+          value += sql[index + 1];
+          index += 2;
+        } else if (sql[index] === char && sql[index + 1] === char) {
+          value += char;
+          index += 2;
+        } else if (sql[index] === char) {
+          closed = true;
+          index++;
+          break;
+        } else {
+          value += sql[index++];
+        }
+      }
+      advanceTo(index);
+      tokens.push({
+        kind: closed ? (char === "'" ? 'string' : 'quoted') : 'unterminated',
+        value,
+        start,
+        end: position,
+        line: startLine,
+      });
+    } else if (char === '$' && next === '$') {
+      const start = position;
+      const startLine = line;
+      const end = sql.indexOf('$$', position + 2);
+      advanceTo(end === -1 ? sql.length : end + 2);
+      tokens.push({
+        kind: end === -1 ? 'unterminated' : 'string',
+        value: sql.slice(start + 2, end === -1 ? sql.length : end),
+        start,
+        end: position,
+        line: startLine,
+      });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const start = position;
+      const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(position))!;
+      advanceTo(position + match[0].length);
+      push('word', match[0], start);
+    } else if (/[0-9]/.test(char)) {
+      const start = position;
+      const match = /^[0-9]+(\.[0-9]*)?([eE][-+]?[0-9]+)?/.exec(
+        sql.slice(position),
+      )!;
+      advanceTo(position + match[0].length);
+      push('number', match[0], start);
+    } else {
+      const start = position;
+      advanceTo(position + 1);
+      push('punct', char, start);
+    }
+  }
+
+  return tokens;
+}
+
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  for (const token of tokens) {
+    if (token.kind === 'punct' && token.value === ';') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
+
+class TokenCursor {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly sql: string,
+  ) {
+    const unterminated = tokens.find((token) => token.kind === 'unterminated');
+    if (unterminated) {
+      throw new DdlParseError(
+        `Unterminated literal starting on line ${unterminated.line}`,
+      );
+    }
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'punct' && token.value === value;
+  }
+
+  acceptKeyword(...keywords: string[]): boolean {
+    if (!keywords.every((keyword, offset) => this.isKeyword(keyword, offset))) {
+      return false;
+    }
+    this.index += keywords.length;
+    return true;
+  }
+
+  expectPunct(value: string): void {
+    if (!this.isPunct(value)) {
+      throw new DdlParseError(
+        `Expected "${value}" but found ${this.describe(this.peek())}`,
+      );
+    }
+    this.index++;
+  }
+
+  identifier(): string {
+    const token = this.next();
+    if (token?.kind === 'quoted') return token.value;
+    if (token?.kind === 'word') return token.value.toUpperCase();
+    throw new DdlParseError(
+      `Expected an identifier but found ${this.describe(token)}`,
+    );
+  }
+
+  qualifiedName(): string[] {
+    const parts = [this.identifier()];
+    while (this.isPunct('.')) {
+      this.index++;
+      parts.push(this.identifier());
+    }
+    return parts;
+  }
+
+  /**
+   * Consume a balanced parenthesised group and return the tokens inside it.
+   */
+  group(): Token[] {
+    this.expectPunct('(');
+    const start = this.index;
+    let depth = 1;
+    while (!this.done) {
+      const token = this.next()!;
+      if (token.kind !== 'punct') continue;
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth === 0) {
+        return this.tokens.slice(start, this.index - 1);
+      }
+    }
+    throw new DdlParseError('Unbalanced parentheses');
+  }
+
+  /**
+   * Like group(), but keep the surrounding parentheses.
+   */
+  rawGroup(): Token[] {
+    const start = this.index;
+    this.group();
+    return this.tokens.slice(start, this.index);
+  }
+
+  text(tokens: Token[]): string {
+    return tokens.length === 0
+      ? ''
+      : this.sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  }
+
+  statementText(): string {
+    return this.text(this.tokens);
+  }
+
+  sub(tokens: Token[]): TokenCursor {
+    return new TokenCursor(tokens, this.sql);
+  }
+
+  private describe(token: Token | undefined): string {
+    return token
+      ? `"${token.value}" on line ${token.line}`
+      : 'end of statement';
+  }
+}
+
+function parseStatement(
+  cursor: TokenCursor,
+  context: DdlContext,
+): SourceTable | 'skipped' | null {
+  if (cursor.acceptKeyword('USE')) {
+    if (cursor.acceptKeyword('SCHEMA')) {
+      setSchema(cursor.qualifiedName(), context);
+    } else if (cursor.acceptKeyword('DATABASE')) {
+      setDatabase(cursor.qualifiedName(), context);
+    } else if (
+      cursor.isKeyword('ROLE') ||
+      cursor.isKeyword('WAREHOUSE') ||
+      cursor.isKeyword('SECONDARY')
+    ) {
+      return 'skipped';
+    } else {
+      // USE db or USE db.schema
+      const parts = cursor.qualifiedName();
+      if (parts.length === 1) {
+        setDatabase(parts, context);
+      } else {
+        setSchema(parts, context);
+      }
+    }
+    return null;
+  }
+
+  if (!cursor.acceptKeyword('CREATE')) return 'skipped';
+  cursor.acceptKeyword('OR', 'REPLACE');
+  const modifiers = new Set<string>();
+  while (cursor.peek()?.kind === 'word') {
+    const keyword = cursor.peek()!.value.toUpperCase();
+    if (!TABLE_MODIFIERS.has(keyword) && !VIEW_MODIFIERS.has(keyword)) break;
+    modifiers.add(keyword);
+    cursor.next();
+  }
+
+  if (cursor.acceptKeyword('DATABASE')) {
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    setDatabase(cursor.qualifiedName(), context);
+    return null;
+  }
+  if (cursor.acceptKeyword('SCHEMA')) {
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    setSchema(cursor.qualifiedName(), context);
+    return null;
+  }
+  if (cursor.acceptKeyword('TABLE')) {
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const ref = resolveName(cursor.qualifiedName(), context);
+    const objectType: ObjectType = modifiers.has('EXTERNAL')
+      ? 'external_table'
+      : modifiers.has('DYNAMIC')
+        ? 'dynamic_table'
+        : modifiers.has('TRANSIENT')
+          ? 'transient_table'
+          : 'base_table';
+    const columns = parseTableBody(cursor, ref.table, objectType);
+    const stageLocation =
+      objectType === 'external_table' ? parseStageLocation(cursor) : undefined;
+    return {
+      ...ref,
+      objectType,
+      columns,
+      ...(stageLocation && { stageLocation }),
+    };
+  }
+  if (cursor.acceptKeyword('VIEW')) {
+    cursor.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const ref = resolveName(cursor.qualifiedName(), context);
+    return {
+      ...ref,
+      objectType: modifiers.has('MATERIALIZED') ? 'materialized_view' : 'view',
+      columns: parseViewBody(cursor, ref.table),
+      // Like VIEW_DEFINITION, the definition is the whole CREATE statement
+      definition: cursor.statementText(),
+    };
+  }
+  return 'skipped';
+}
+
+function setDatabase(parts: string[], context: DdlContext): void {
+  if (parts.length !== 1) {
+    throw new DdlParseError(`Invalid database name "${parts.join('.')}"`);
+  }
+  // Like in a Snowflake session, switching database switches to its PUBLIC schema
+  context.database = parts[0];
+  context.schema = 'PUBLIC';
+}
+
+function setSchema(parts: string[], context: DdlContext): void {
+  if (parts.length > 2) {
+    throw new DdlParseError(`Invalid schema name "${parts.join('.')}"`);
+  }
+  if (parts.length === 2) context.database = parts[0];
+  context.schema = parts[parts.length - 1];
+}
+
+function resolveName(
+  parts: string[],
+  context: DdlContext,
+): { database: string; schema: string; table: string } {
+  if (parts.length > 3) {
+    throw new DdlParseError(`Invalid object name "${parts.join('.')}"`);
+  }
+  const [table, schema = context.schema, database = context.database] = [
+    ...parts,
+  ].reverse();
+  if (!database || !schema) {
+    throw new DdlParseError(
+      `Cannot resolve the database and schema of "${parts.join('.')}"; qualify the name, add USE statements or pass a default database and schema`,
+    );
+  }
+  return { database, schema, table };
+}
+
+function parseTableBody(
+  cursor: TokenCursor,
+  table: string,
+  objectType: ObjectType,
+): SourceColumn[] {
+  cursor.acceptKeyword('COPY', 'GRANTS');
+  if (objectType === 'external_table') {
+    // External tables always have the raw VALUE column, before any declared ones
+    const value: SourceColumn = {
+      name: 'VALUE',
+      type: 'VARIANT',
+      nullable: true,
+    };
+    if (!cursor.isPunct('(')) return [value];
+    return ensureUniqueColumns(
+      [value, ...parseColumnList(cursor, objectType)],
+      table,
+    );
+  }
+  if (!cursor.isPunct('(')) {
+    // Table properties (TARGET_LAG = ..., WAREHOUSE = ...) may precede AS SELECT
+    while (!cursor.done && !cursor.isKeyword('AS')) {
+      if (cursor.isKeyword('LIKE') || cursor.isKeyword('CLONE')) break;
+      cursor.next();
+    }
+    if (cursor.acceptKeyword('AS')) {
+      return columnsFromQuery(cursor, table);
+    }
+    throw new DdlParseError(
+      `Cannot determine the columns of ${table}: only CREATE TABLE with a column list or AS SELECT is supported`,
+    );
+  }
+
+  return ensureUniqueColumns(parseColumnList(cursor, objectType), table);
+}
+
+function parseColumnList(
+  cursor: TokenCursor,
+  objectType: ObjectType,
+): SourceColumn[] {
+  const columns: SourceColumn[] = [];
+  for (const element of splitTopLevel(cursor.group())) {
+    if (element.length === 0) continue;
+    const first = element[0];
+    if (
+      first.kind === 'word' &&
+      CONSTRAINT_KEYWORDS.has(first.value.toUpperCase())
+    ) {
+      continue;
+    }
+    // Dynamic tables may list column names without types
+    columns.push(
+      parseColumn(cursor.sub(element), objectType === 'dynamic_table'),
+    );
+  }
+  return columns;
+}
+
+/**
+ * `LOCATION = @stage/path/` of an external table, which follows the column
+ * list among the table properties.
+ */
+function parseStageLocation(cursor: TokenCursor): string | undefined {
+  while (!cursor.done) {
+    if (!cursor.acceptKeyword('LOCATION')) {
+      if (cursor.isPunct('(')) {
+        cursor.group();
+      } else {
+        cursor.next();
+      }
+      continue;
+    }
+    if (cursor.isPunct('=')) cursor.next();
+    // The location is written without spaces, e.g. @db.schema.stage/path/
+    const tokens: Token[] = [];
+    let token = cursor.peek();
+    while (
+      token &&
+      (tokens.length === 0 || token.start === tokens[tokens.length - 1].end)
+    ) {
+      tokens.push(cursor.next()!);
+      token = cursor.peek();
+    }
+    return tokens.length > 0 ? cursor.text(tokens) : undefined;
+  }
+  return undefined;
+}
+
+function parseColumn(cursor: TokenCursor, allowUntyped = false): SourceColumn {
+  const name = cursor.identifier();
+
+  const typeTokens: Token[] = [];
+  while (!cursor.done && !isAttributeStart(cursor)) {
+    if (cursor.isPunct('(')) {
+      typeTokens.push(...cursor.rawGroup());
+    } else {
+      typeTokens.push(cursor.next()!);
+    }
+  }
+  if (typeTokens.length === 0 && !allowUntyped) {
+    throw new DdlParseError(`Column ${name} has no data type`);
+  }
+
+  const column: SourceColumn = {
+    name,
+    type:
+      typeTokens.length > 0
+        ? normalizeSnowflakeType(cursor.text(typeTokens))
+        : UNKNOWN_COLUMN_TYPE,
+    nullable: true,
+    ...(typeTokens.length > 0 && typeAttributes(cursor.text(typeTokens))),
+  };
+
+  while (!cursor.done) {
+    if (cursor.acceptKeyword('NOT', 'NULL')) {
+      column.nullable = false;
+    } else if (cursor.acceptKeyword('NULL')) {
+      column.nullable = true;
+    } else if (cursor.acceptKeyword('DEFAULT')) {
+      const expression: Token[] = [];
+      while (!cursor.done && !isAttributeStart(cursor)) {
+        if (cursor.isPunct('(')) {
+          expression.push(...cursor.rawGroup());
+        } else {
+          expression.push(cursor.next()!);
+        }
+      }
+      if (expression.length === 0) {
+        throw new DdlParseError(`Column ${name} has an empty DEFAULT`);
+      }
+      column.defaultValue = cursor.text(expression);
+    } else if (cursor.acceptKeyword('COMMENT')) {
+      if (cursor.isPunct('=')) cursor.next();
+      const comment = cursor.next();
+      if (comment?.kind !== 'string') {
+        throw new DdlParseError(`Column ${name} has an invalid COMMENT`);
+      }
+      column.comment = comment.value;
+    } else if (cursor.acceptKeyword('COLLATE')) {
+      const collation = cursor.next();
+      if (collation?.kind !== 'string') {
+        throw new DdlParseError(`Column ${name} has an invalid COLLATE`);
+      }
+      column.collation = collation.value;
+    } else if (
+      cursor.acceptKeyword('AUTOINCREMENT') ||
+      cursor.acceptKeyword('IDENTITY')
+    ) {
+      Object.assign(column, parseIdentity(cursor));
+    } else if (cursor.isPunct('(')) {
+      // Arguments of IDENTITY, REFERENCES, TAG, AS (...) and the like
+      cursor.group();
+    } else {
+      cursor.next();
+    }
+  }
+
+  return column;
+}
+
+/**
+ * `(start, increment)` or `START n INCREMENT n` after AUTOINCREMENT or
+ * IDENTITY; both default to 1.
+ */
+function parseIdentity(
+  cursor: TokenCursor,
+): Pick<SourceColumn, 'identity' | 'identityStart' | 'identityIncrement'> {
+  let start = 1;
+  let increment = 1;
+  if (cursor.isPunct('(')) {
+    const [first, second] = splitTopLevel(cursor.group()).map((tokens) =>
+      parseNumber(cursor.text(tokens)),
+    );
+    start = first ?? start;
+    increment = second ?? increment;
+  } else {
+    if (cursor.acceptKeyword('START')) {
+      if (cursor.isPunct('=')) cursor.next();
+      start = parseNumber(cursor.text(signedNumber(cursor))) ?? start;
+    }
+    if (cursor.acceptKeyword('INCREMENT')) {
+      if (cursor.isPunct('=')) cursor.next();
+      increment = parseNumber(cursor.text(signedNumber(cursor))) ?? increment;
+    }
+  }
+  return { identity: true, identityStart: start, identityIncrement: increment };
+}
+
+function signedNumber(cursor: TokenCursor): Token[] {
+  const tokens: Token[] = [];
+  if (cursor.isPunct('-')) tokens.push(cursor.next()!);
+  if (cursor.peek()?.kind === 'number') tokens.push(cursor.next()!);
+  return tokens;
+}
+
+function parseNumber(text: string): number | undefined {
+  const number = parseInt(text.replace(/\s+/g, ''), 10);
+  return isNaN(number) ? undefined : number;
+}
+
+function isAttributeStart(cursor: TokenCursor): boolean {
+  const token = cursor.peek();
+  if (token?.kind !== 'word') return false;
+  const keyword = token.value.toUpperCase();
+  if (!COLUMN_ATTRIBUTE_KEYWORDS.has(keyword)) return false;
+  // TIMESTAMP WITH [LOCAL] TIME ZONE is a type, WITH MASKING POLICY is not
+  if (keyword === 'WITH') {
+    return !cursor.isKeyword('TIME', 1) && !cursor.isKeyword('LOCAL', 1);
+  }
+  return true;
+}
+
+function parseViewBody(cursor: TokenCursor, view: string): SourceColumn[] {
+  cursor.acceptKeyword('COPY', 'GRANTS');
+
+  let columns: SourceColumn[] | undefined;
+  if (cursor.isPunct('(')) {
+    columns = splitTopLevel(cursor.group())
+      .filter((element) => element.length > 0)
+      .map((element) => {
+        const columnCursor = cursor.sub(element);
+        const column: SourceColumn = {
+          name: columnCursor.identifier(),
+          type: UNKNOWN_COLUMN_TYPE,
+          nullable: true,
+        };
+        while (!columnCursor.done) {
+          if (columnCursor.acceptKeyword('COMMENT')) {
+            const comment = columnCursor.next();
+            if (comment?.kind === 'string') column.comment = comment.value;
+          } else if (columnCursor.isPunct('(')) {
+            columnCursor.group();
+          } else {
+            columnCursor.next();
+          }
+        }
+        return column;
+      });
+  }
+
+  // Skip view properties (COMMENT = '...', CHANGE_TRACKING = TRUE, ...) up to the query
+  while (!cursor.done && !cursor.isKeyword('AS')) {
+    if (cursor.isPunct('(')) {
+      cursor.group();
+    } else {
+      cursor.next();
+    }
+  }
+  if (!cursor.acceptKeyword('AS')) {
+    throw new DdlParseError(`View ${view} has no AS query`);
+  }
+
+  return ensureUniqueColumns(columns ?? columnsFromQuery(cursor, view), view);
+}
+
+/**
+ * Derive output column names from the select list of a query. Types are
+ * unknown without running it.
+ */
+function columnsFromQuery(cursor: TokenCursor, object: string): SourceColumn[] {
+  // Skip CTEs and set operations up to the first top-level SELECT
+  while (!cursor.done && !cursor.isKeyword('SELECT')) {
+    if (cursor.isPunct('(')) {
+      cursor.group();
+    } else {
+      cursor.next();
+    }
+  }
+  if (!cursor.acceptKeyword('SELECT')) {
+    throw new DdlParseError(`Cannot find the SELECT list of ${object}`);
+  }
+  if (!cursor.acceptKeyword('DISTINCT')) cursor.acceptKeyword('ALL');
+  if (cursor.acceptKeyword('TOP')) cursor.next();
+
+  const selectList: Token[] = [];
+  while (!cursor.done && !cursor.isKeyword('FROM')) {
+    if (cursor.isPunct('(')) {
+      selectList.push(...cursor.rawGroup());
+    } else {
+      selectList.push(cursor.next()!);
+    }
+  }
+
+  return splitTopLevel(selectList).map((item) => ({
+    name: selectItemName(cursor, item, object),
+    type: UNKNOWN_COLUMN_TYPE,
+    nullable: true,
+  }));
+}
+
+function selectItemName(
+  cursor: TokenCursor,
+  item: Token[],
+  object: string,
+): string {
+  const last = item[item.length - 1];
+  if (!last) {
+    throw new DdlParseError(`Empty select list item in ${object}`);
+  }
+  if (last.kind === 'punct' && last.value === '*') {
+    throw new DdlParseError(
+      `Cannot determine the columns of ${object}: SELECT * needs an explicit column list`,
+    );
+  }
+
+  const identifierToken = (token: Token) =>
+    token.kind === 'quoted' ? token.value : token.value.toUpperCase();
+  const previous = item[item.length - 2];
+  const isName = last.kind === 'word' || last.kind === 'quoted';
+
+  // `expr AS alias`, `expr alias` and `table.column` all end with the output name
+  if (
+    isName &&
+    (item.length === 1 ||
+      previous.kind !== 'punct' ||
+      previous.value === ')' ||
+      previous.value === '.')
+  ) {
+    return identifierToken(last);
+  }
+  // Unaliased expressions are named after their text, like Snowflake does
+  return cursor.text(item).toUpperCase();
+}
+
+function splitTopLevel(tokens: Token[]): Token[][] {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.kind === 'punct') {
+      if (token.value === '(') depth++;
+      if (token.value === ')') depth--;
+      if (token.value === ',' && depth === 0) {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1].push(token);
+  }
+  return parts;
+}
+
+function ensureUniqueColumns(
+  columns: SourceColumn[],
+  object: string,
+): SourceColumn[] {
+  const names = new Set<string>();
+  for (const column of columns) {
+    if (names.has(column.name)) {
+      throw new DdlParseError(`Duplicate column ${column.name} in ${object}`);
+    }
+    names.add(column.name);
+  }
+  if (columns.length === 0) {
+    throw new DdlParseError(`${object} has no columns`);
+  }
+  return columns;
+}
@@ -0,0 +1,368 @@
+import { SourceColumn, SourceTable } from '../connectors/source-connector';
+import { toFqn } from './table-ref';
+
+export type ExportFormat = 'json-schema' | 'avro' | 'protobuf' | 'dbt';
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  'json-schema',
+  'avro',
+  'protobuf',
+  'dbt',
+];
+
+export interface ExportDocument {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+type JsonSchema = Record<string, unknown>;
+type AvroType = string | Record<string, unknown>;
+
+/**
+ * Snowflake DATA_TYPE to JSON Schema. Types without an entry (including
+ * VARIANT and the UNKNOWN columns of imported views) accept any value.
+ */
+export const JSON_SCHEMA_TYPES: Record<string, JsonSchema> = {
+  TEXT: { type: 'string' },
+  NUMBER: { type: 'number' },
+  FLOAT: { type: 'number' },
+  BOOLEAN: { type: 'boolean' },
+  DATE: { type: 'string', format: 'date' },
+  TIME: { type: 'string', format: 'time' },
+  TIMESTAMP_NTZ: { type: 'string', format: 'date-time' },
+  TIMESTAMP_LTZ: { type: 'string', format: 'date-time' },
+  TIMESTAMP_TZ: { type: 'string', format: 'date-time' },
+  BINARY: { type: 'string', contentEncoding: 'base64' },
+  OBJECT: { type: 'object' },
+  ARRAY: { type: 'array' },
+  GEOGRAPHY: { type: 'object' },
+  GEOMETRY: { type: 'object' },
+  VECTOR: { type: 'array', items: { type: 'number' } },
+};
+
+/**
+ * Snowflake DATA_TYPE to Avro. Semi-structured and unknown types are carried
+ * as JSON text. NUMBER columns with a known scale map by `avroNumberType`;
+ * `double` is only left for those stored without one.
+ */
+export const AVRO_TYPES: Record<string, AvroType> = {
+  TEXT: 'string',
+  NUMBER: 'double',
+  FLOAT: 'double',
+  BOOLEAN: 'boolean',
+  DATE: { type: 'int', logicalType: 'date' },
+  TIME: { type: 'long', logicalType: 'time-micros' },
+  TIMESTAMP_NTZ: { type: 'long', logicalType: 'local-timestamp-micros' },
+  TIMESTAMP_LTZ: { type: 'long', logicalType: 'timestamp-micros' },
+  TIMESTAMP_TZ: { type: 'long', logicalType: 'timestamp-micros' },
+  BINARY: 'bytes',
+  VARIANT: 'string',
+  OBJECT: 'string',
+  ARRAY: 'string',
+  GEOGRAPHY: 'string',
+  GEOMETRY: 'string',
+  VECTOR: { type: 'array', items: 'double' },
+};
+const AVRO_FALLBACK_TYPE = 'string';
+// Digits a long always holds
+const MAX_LONG_PRECISION = 18;
+
+/**
+ * Snowflake DATA_TYPE to proto3. Dates and times without a well-known type
+ * are ISO 8601 strings. `repeated` types cannot be optional. NUMBER columns
+ * with a known scale are `int64` integers or decimal strings.
+ */
+export const PROTOBUF_TYPES: Record<string, string> = {
+  TEXT: 'string',
+  NUMBER: 'double',
+  FLOAT: 'double',
+  BOOLEAN: 'bool',
+  DATE: 'string',
+  TIME: 'string',
+  TIMESTAMP_NTZ: 'google.protobuf.Timestamp',
+  TIMESTAMP_LTZ: 'google.protobuf.Timestamp',
+  TIMESTAMP_TZ: 'google.protobuf.Timestamp',
+  BINARY: 'bytes',
+  VARIANT: 'google.protobuf.Value',
+  OBJECT: 'google.protobuf.Struct',
+  ARRAY: 'google.protobuf.ListValue',
+  GEOGRAPHY: 'string',
+  GEOMETRY: 'string',
+  VECTOR: 'repeated double',
+};
+const PROTOBUF_FALLBACK_TYPE = 'google.protobuf.Value';
+const PROTOBUF_IMPORTS: Record<string, string> = {
+  'google.protobuf.Timestamp': 'google/protobuf/timestamp.proto',
+  'google.protobuf.Value': 'google/protobuf/struct.proto',
+  'google.protobuf.Struct': 'google/protobuf/struct.proto',
+  'google.protobuf.ListValue': 'google/protobuf/struct.proto',
+};
+
+/**
+ * Render tables of one schema in an export format. A single table renders as
+ * a standalone document; several tables share one document (JSON Schema
+ * `$defs`, an Avro schema array, one .proto file or one dbt source).
+ */
+export function renderExport(
+  format: ExportFormat,
+  tables: SourceTable[],
+  name: string,
+): ExportDocument {
+  switch (format) {
+    case 'json-schema':
+      return {
+        fileName: `${name}.schema.json`,
+        contentType: 'application/schema+json',
+        content: toJson(renderJsonSchema(tables)),
+      };
+    case 'avro':
+      return {
+        fileName: `${name}.avsc`,
+        contentType: 'application/json',
+        content: toJson(renderAvro(tables)),
+      };
+    case 'protobuf':
+      return {
+        fileName: `${name}.proto`,
+        contentType: 'text/plain',
+        content: renderProtobuf(tables),
+      };
+    case 'dbt':
+      return {
+        fileName: `${name}.yml`,
+        contentType: 'application/yaml',
+        content: renderDbtSources(tables),
+      };
+  }
+}
+
+function renderJsonSchema(tables: SourceTable[]): JsonSchema {
+  const header = { $schema: 'https://json-schema.org/draft/2020-12/schema' };
+  if (tables.length === 1) {
+    return { ...header, ...jsonSchemaForTable(tables[0]) };
+  }
+  return {
+    ...header,
+    $defs: Object.fromEntries(
+      tables.map((table) => [table.table, jsonSchemaForTable(table)]),
+    ),
+  };
+}
+
+function jsonSchemaForTable(table: SourceTable): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const column of table.columns) {
+    const schema = { ...(JSON_SCHEMA_TYPES[column.type] ?? {}) };
+    if (column.nullable && typeof schema.type === 'string') {
+      schema.type = [schema.type, 'null'];
+    }
+    if (column.comment) schema.description = column.comment;
+    properties[column.name] = schema;
+  }
+  const required = table.columns
+    .filter((column) => !column.nullable)
+    .map((column) => column.name);
+
+  return {
+    title: toFqn(table),
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  };
+}
+
+function renderAvro(tables: SourceTable[]): unknown {
+  const records = tables.map((table) => avroRecordForTable(table));
+  return records.length === 1 ? records[0] : records;
+}
+
+function avroRecordForTable(table: SourceTable): Record<string, unknown> {
+  return {
+    type: 'record',
+    name: avroName(table.table),
+    namespace: [table.database, table.schema]
+      .map((part) => avroName(part).toLowerCase())
+      .join('.'),
+    doc: `Columns of ${toFqn(table)}`,
+    fields: table.columns.map((column) => {
+      const type = avroType(column);
+      return {
+        name: avroName(column.name),
+        type: column.nullable ? ['null', type] : type,
+        ...(column.nullable && { default: null }),
+        ...(column.comment && { doc: column.comment }),
+      };
+    }),
+  };
+}
+
+function avroType(column: SourceColumn): AvroType {
+  if (column.type === 'NUMBER' && column.scale != null) {
+    return avroNumberType(column.precision ?? 38, column.scale);
+  }
+  return AVRO_TYPES[column.type] ?? AVRO_FALLBACK_TYPE;
+}
+
+/**
+ * Integers that fit a long are `long`; wider integers and fixed-point
+ * numbers are exact `decimal`s.
+ */
+function avroNumberType(precision: number, scale: number): AvroType {
+  if (scale === 0 && precision <= MAX_LONG_PRECISION) return 'long';
+  return { type: 'bytes', logicalType: 'decimal', precision, scale };
+}
+
+/**
+ * Avro names match [A-Za-z_][A-Za-z0-9_]*.
+ */
+function avroName(name: string): string {
+  const sanitized = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(sanitized) ? sanitized : `_${sanitized}`;
+}
+
+function renderProtobuf(tables: SourceTable[]): string {
+  const messages = tables.map((table) => protobufMessageForTable(table));
+  const imports = new Set<string>();
+  for (const table of tables) {
+    for (const column of table.columns) {
+      const file = PROTOBUF_IMPORTS[protobufType(column)];
+      if (file) imports.add(file);
+    }
+  }
+  const [first] = tables;
+  const packageName = first
+    ? [first.database, first.schema].map((part) => snakeCase(part)).join('.')
+    : 'metadata';
+
+  return [
+    'syntax = "proto3";',
+    '',
+    `package ${packageName};`,
+    ...(imports.size > 0
+      ? [
+          '',
+          ...Array.from(imports)
+            .sort()
+            .map((file) => `import "${file}";`),
+        ]
+      : []),
+    '',
+    messages.join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+function protobufMessageForTable(table: SourceTable): string {
+  const lines = [`// ${toFqn(table)}`, `message ${pascalCase(table.table)} {`];
+  table.columns.forEach((column, index) => {
+    if (column.comment) {
+      column.comment
+        .split(/\r?\n/)
+        .forEach((line) => lines.push(`  // ${line}`));
+    }
+    const type = protobufType(column);
+    // Scalars need `optional` to tell NULL from a default value
+    const label =
+      column.nullable && !type.startsWith('repeated ') && !type.includes('.')
+        ? 'optional '
+        : '';
+    lines.push(`  ${label}${type} ${snakeCase(column.name)} = ${index + 1};`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// proto3 has no decimal type, so fixed-point numbers are decimal strings
+function protobufType(column: SourceColumn): string {
+  if (column.type === 'NUMBER' && column.scale != null) {
+    return column.scale === 0 ? 'int64' : 'string';
+  }
+  return PROTOBUF_TYPES[column.type] ?? PROTOBUF_FALLBACK_TYPE;
+}
+
+function snakeCase(name: string): string {
+  const snake = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+  return /^[a-z]/.test(snake) ? snake : `_${snake}`;
+}
+
+function pascalCase(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1).toLowerCase())
+    .join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `T${pascal}`;
+}
+
+/**
+ * A dbt `sources.yml` with one source per schema. Non-nullable columns get a
+ * `not_null` test.
+ */
+function renderDbtSources(tables: SourceTable[]): string {
+  const lines = ['version: 2', '', 'sources:'];
+  const schemas = new Map<string, SourceTable[]>();
+  for (const table of tables) {
+    const key = `${table.database}.${table.schema}`;
+    schemas.set(key, [...(schemas.get(key) ?? []), table]);
+  }
+
+  for (const schemaTables of schemas.values()) {
+    const { database, schema } = schemaTables[0];
+    lines.push(
+      `  - name: ${yamlString(schema.toLowerCase())}`,
+      `    database: ${yamlString(database)}`,
+      `    schema: ${yamlString(schema)}`,
+      '    tables:',
+    );
+    for (const table of schemaTables) {
+      lines.push(`      - name: ${yamlString(table.table)}`);
+      if (needsQuoting(table.table)) {
+        lines.push('        quoting:', '          identifier: true');
+      }
+      lines.push('        columns:');
+      for (const column of table.columns) {
+        lines.push(
+          `          - name: ${yamlString(column.name)}`,
+          `            data_type: ${yamlString(column.type)}`,
+        );
+        if (needsQuoting(column.name)) lines.push('            quote: true');
+        if (column.comment) {
+          lines.push(`            description: ${yamlString(column.comment)}`);
+        }
+        if (!column.nullable) {
+          lines.push('            tests:', '              - not_null');
+        }
+      }
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Names that Snowflake only resolves when quoted, e.g. lower case or spaces.
+ */
+function needsQuoting(name: string): boolean {
+  return !/^[A-Z_][A-Z0-9_$]*$/.test(name);
+}
+
+/**
+ * Plain scalars where YAML reads them back unchanged, JSON-style double
+ * quoted strings (valid YAML) otherwise.
+ */
+function yamlString(value: string): string {
+  const plain =
+    /^[A-Za-z_][A-Za-z0-9_ .-]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|y|n)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
@@ -0,0 +1,56 @@
+import { TagAssignment } from '../connectors/source-connector';
+
+// Tag lookup: `PII` matches any value, `PII=EMAIL` one value
+export interface TagFilter {
+  tag: string;
+  value?: string;
+}
+
+/**
+ * Parse `NAME` or `NAME=VALUE`. Returns null for an empty name.
+ */
+export function parseTagFilter(text: string): TagFilter | null {
+  const separator = text.indexOf('=');
+  const tag = (separator === -1 ? text : text.slice(0, separator)).trim();
+  if (!tag) return null;
+  return separator === -1 ? { tag } : { tag, value: text.slice(separator + 1) };
+}
+
+/**
+ * Tag names are matched case-insensitively. A fully-qualified name must match
+ * exactly; an unqualified one matches the tag of that name in any schema.
+ */
+export function tagNameToRegExp(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(
+    name.includes('.') ? `^${escaped}$` : `(^|\\.)${escaped}$`,
+    'i',
+  );
+}
+
+export function matchesTag(
+  assignment: TagAssignment,
+  filter: TagFilter,
+): boolean {
+  return (
+    tagNameToRegExp(filter.tag).test(assignment.tag) &&
+    (filter.value === undefined || assignment.value === filter.value)
+  );
+}
+
+/**
+ * `$elemMatch` condition on `tags` for a tag filter, optionally limited to
+ * tags set on columns.
+ */
+export function tagCondition(
+  filter: TagFilter,
+  columnsOnly = false,
+): { $elemMatch: Record<string, unknown> } {
+  return {
+    $elemMatch: {
+      tag: tagNameToRegExp(filter.tag),
+      ...(filter.value !== undefined && { value: filter.value }),
+      ...(columnsOnly && { column: { $ne: null } }),
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import { SourceColumn } from '../connectors/source-connector';
+
+export interface ColumnChange<T> {
+  column: string;
+  from: T;
+  to: T;
+}
+
+export interface SchemaDiff {
+  added: SourceColumn[];
+  removed: SourceColumn[];
+  typeChanged: ColumnChange<string>[];
+  nullabilityChanged: ColumnChange<boolean>[];
+  defaultChanged: ColumnChange<string | null>[];
+  commentChanged: ColumnChange<string | null>[];
+  // Ordinal positions of columns that moved relative to the other kept columns
+  positionChanged: ColumnChange<number>[];
+  lengthChanged: ColumnChange<number | null>[];
+  precisionChanged: ColumnChange<number | null>[];
+  scaleChanged: ColumnChange<number | null>[];
+  identityChanged: ColumnChange<boolean>[];
+  collationChanged: ColumnChange<string | null>[];
+}
+
+export function emptySchemaDiff(): SchemaDiff {
+  return {
+    added: [],
+    removed: [],
+    typeChanged: [],
+    nullabilityChanged: [],
+    defaultChanged: [],
+    commentChanged: [],
+    positionChanged: [],
+    lengthChanged: [],
+    precisionChanged: [],
+    scaleChanged: [],
+    identityChanged: [],
+    collationChanged: [],
+  };
+}
+
+export function isEmptySchemaDiff(diff: SchemaDiff): boolean {
+  return Object.values(diff).every(
+    (changes: unknown[]) => changes.length === 0,
+  );
+}
+
+/**
+ * Compare two column lists by column name. Missing optional attributes are
+ * treated as `null`, so `undefined` → `null` is not a change. Positions are
+ * only compared when both lists have them; versions stored before positions
+ * were recorded list their columns by name.
+ */
+export function diffColumns(
+  before: SourceColumn[],
+  after: SourceColumn[],
+): SchemaDiff {
+  const diff = emptySchemaDiff();
+  const beforeByName = new Map(before.map((column) => [column.name, column]));
+  const afterByName = new Map(after.map((column) => [column.name, column]));
+
+  for (const column of after) {
+    const previous = beforeByName.get(column.name);
+    if (!previous) {
+      diff.added.push(column);
+      continue;
+    }
+
+    if (previous.type !== column.type) {
+      diff.typeChanged.push({
+        column: column.name,
+        from: previous.type,
+        to: column.type,
+      });
+    }
+    if (previous.nullable !== column.nullable) {
+      diff.nullabilityChanged.push({
+        column: column.name,
+        from: previous.nullable,
+        to: column.nullable,
+      });
+    }
+    const previousDefault = previous.defaultValue ?? null;
+    const currentDefault = column.defaultValue ?? null;
+    if (previousDefault !== currentDefault) {
+      diff.defaultChanged.push({
+        column: column.name,
+        from: previousDefault,
+        to: currentDefault,
+      });
+    }
+    const previousComment = previous.comment ?? null;
+    const currentComment = column.comment ?? null;
+    if (previousComment !== currentComment) {
+      diff.commentChanged.push({
+        column: column.name,
+        from: previousComment,
+        to: currentComment,
+      });
+    }
+    pushChange(
+      diff.lengthChanged,
+      column.name,
+      previous.maxLength,
+      column.maxLength,
+    );
+    pushChange(
+      diff.precisionChanged,
+      column.name,
+      previous.precision,
+      column.precision,
+    );
+    pushChange(diff.scaleChanged, column.name, previous.scale, column.scale);
+    pushChange(
+      diff.collationChanged,
+      column.name,
+      previous.collation,
+      column.collation,
+    );
+    if ((previous.identity ?? false) !== (column.identity ?? false)) {
+      diff.identityChanged.push({
+        column: column.name,
+        from: previous.identity ?? false,
+        to: column.identity ?? false,
+      });
+    }
+  }
+
+  diff.positionChanged = diffPositions(before, after);
+
+  for (const column of before) {
+    if (!afterByName.has(column.name)) {
+      diff.removed.push(column);
+    }
+  }
+
+  return diff;
+}
+
+function pushChange<T>(
+  changes: ColumnChange<T | null>[],
+  column: string,
+  from: T | null | undefined,
+  to: T | null | undefined,
+): void {
+  if ((from ?? null) !== (to ?? null)) {
+    changes.push({ column, from: from ?? null, to: to ?? null });
+  }
+}
+
+/**
+ * Columns kept in both lists whose rank among the kept columns changed, so
+ * adding or dropping a column does not report every later column as moved.
+ */
+function diffPositions(
+  before: SourceColumn[],
+  after: SourceColumn[],
+): ColumnChange<number>[] {
+  const positioned = (columns: SourceColumn[]) =>
+    columns.every((column) => column.ordinalPosition != null);
+  if (!positioned(before) || !positioned(after)) return [];
+
+  const afterNames = new Set(after.map((column) => column.name));
+  const beforeNames = new Set(before.map((column) => column.name));
+  const kept = (columns: SourceColumn[], names: Set<string>) =>
+    columns
+      .filter((column) => names.has(column.name))
+      .sort((a, b) => a.ordinalPosition! - b.ordinalPosition!);
+  const keptBefore = kept(before, afterNames);
+  const keptAfter = kept(after, beforeNames);
+
+  const changes: ColumnChange<number>[] = [];
+  keptAfter.forEach((column, rank) => {
+    const previous = keptBefore[rank];
+    if (previous.name !== column.name) {
+      changes.push({
+        column: column.name,
+        from: keptBefore.find((c) => c.name === column.name)!.ordinalPosition!,
+        to: column.ordinalPosition!,
+      });
+    }
+  });
+  return changes;
+}
@@ -0,0 +1,47 @@
+export interface TokenSpan {
+  token: string;
+  start: number;
+  end: number;
+}
+
+// Splits CUSTOMER_EMAIL, customerEmail and HTTPStatus2 into word tokens
+const WORD_PATTERN = /\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+/gu;
+
+/**
+ * Split an identifier or free text into lowercase word tokens with their
+ * offsets in the original string.
+ */
+export function tokenizeWithSpans(
+  text: string | null | undefined,
+): TokenSpan[] {
+  if (!text) return [];
+  const spans: TokenSpan[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    spans.push({
+      token: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return spans;
+}
+
+export function tokenize(text: string | null | undefined): string[] {
+  return tokenizeWithSpans(text).map((span) => span.token);
+}
+
+/**
+ * Tokens stored on a `Metadata` document so search can use a multikey index
+ * instead of scanning the collection.
+ */
+export function buildSearchTokens(table: {
+  table: string;
+  columns: Array<{ name: string; comment?: string | null }>;
+}): string[] {
+  const tokens = new Set<string>(tokenize(table.table));
+  for (const column of table.columns ?? []) {
+    tokenize(column.name).forEach((token) => tokens.add(token));
+    tokenize(column.comment).forEach((token) => tokens.add(token));
+  }
+  return Array.from(tokens);
+}
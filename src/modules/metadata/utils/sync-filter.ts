@@ -0,0 +1,111 @@
+import { BadRequestException } from '@nestjs/common';
+import { TableRef, patternToRegExp, toFqn } from './table-ref';
+import { SyncScopeDto } from '../dto/sync-request.dto';
+import {
+  SyncRuleAction,
+  SyncRuleLevel,
+  SyncRuleSyntax,
+} from '../dto/sync-rule.dto';
+
+export interface SyncRuleDefinition {
+  action: SyncRuleAction;
+  level: SyncRuleLevel;
+  pattern: string;
+  syntax: SyncRuleSyntax;
+}
+
+interface CompiledRule extends SyncRuleDefinition {
+  regExp: RegExp;
+}
+
+/**
+ * Compile a rule pattern. Globs are anchored; regular expressions match
+ * anywhere unless they use `^`/`$`. Both are case-insensitive.
+ */
+export function compileSyncRulePattern(rule: SyncRuleDefinition): RegExp {
+  if (rule.syntax === 'glob') {
+    return patternToRegExp(rule.pattern);
+  }
+  try {
+    return new RegExp(rule.pattern, 'i');
+  } catch (error) {
+    throw new BadRequestException(
+      `Invalid regular expression "${rule.pattern}": ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Decides which databases, schemas and tables a sync covers: the objects in
+ * its scope that pass the include/exclude rules. Rules of a level are
+ * matched against the qualified name at that level (`DB`, `DB.SCHEMA` or
+ * `DB.SCHEMA.TABLE`). An exclude match always wins; once a level has any
+ * include rule, only names matching one of them pass.
+ */
+export class SyncFilter {
+  private readonly rules: CompiledRule[];
+
+  constructor(
+    readonly scope: SyncScopeDto = {},
+    rules: SyncRuleDefinition[] = [],
+  ) {
+    this.rules = rules.map((rule) => ({
+      ...rule,
+      regExp: compileSyncRulePattern(rule),
+    }));
+  }
+
+  get isScoped(): boolean {
+    return Boolean(this.scope.database);
+  }
+
+  allowsDatabase(database: string): boolean {
+    return (
+      this.inScope(this.scope.database, database) &&
+      this.passesRules('database', database)
+    );
+  }
+
+  allowsSchema(database: string, schema: string): boolean {
+    return (
+      this.allowsDatabase(database) &&
+      this.inScope(this.scope.schema, schema) &&
+      this.passesRules('schema', `${database}.${schema}`)
+    );
+  }
+
+  allowsTable(ref: TableRef): boolean {
+    return (
+      this.allowsSchema(ref.database, ref.schema) &&
+      this.inScope(this.scope.table, ref.table) &&
+      this.passesRules('table', toFqn(ref))
+    );
+  }
+
+  describeScope(): string {
+    const parts = [this.scope.database, this.scope.schema, this.scope.table];
+    return this.isScoped
+      ? parts.filter((part) => part !== undefined).join('.')
+      : 'all databases';
+  }
+
+  // Snowflake identifiers are case-insensitive unless quoted
+  private inScope(expected: string | undefined, actual: string): boolean {
+    return (
+      expected === undefined || expected.toUpperCase() === actual.toUpperCase()
+    );
+  }
+
+  private passesRules(level: SyncRuleLevel, name: string): boolean {
+    const rules = this.rules.filter((rule) => rule.level === level);
+    if (
+      rules.some((rule) => rule.action === 'exclude' && rule.regExp.test(name))
+    ) {
+      return false;
+    }
+    const includes = rules.filter((rule) => rule.action === 'include');
+    return (
+      includes.length === 0 || includes.some((rule) => rule.regExp.test(name))
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DEFAULT_OBJECT_TYPE,
+  ObjectType,
+} from '../connectors/source-connector';
+
+export interface TableRef {
+  database: string;
+  schema: string;
+  table: string;
+}
+
+/**
+ * Build the fully-qualified `DATABASE.SCHEMA.TABLE` name used as a map key
+ * throughout the sync pipeline.
+ */
+export function toFqn(ref: TableRef): string {
+  return `${ref.database}.${ref.schema}.${ref.table}`;
+}
+
+/**
+ * Parse a fully-qualified `DATABASE.SCHEMA.TABLE` name.
+ */
+export function parseFqn(fqn: string): TableRef {
+  const parts = (fqn ?? '').split('.');
+  if (parts.length !== 3 || parts.some((part) => part.trim() === '')) {
+    throw new BadRequestException(
+      `Invalid table name "${fqn}", expected DATABASE.SCHEMA.TABLE`,
+    );
+  }
+  const [database, schema, table] = parts.map((part) => part.trim());
+  return { database, schema, table };
+}
+
+/**
+ * Convert a name pattern using `*` and `?` wildcards into an anchored,
+ * case-insensitive regular expression. Patterns without wildcards match
+ * the whole name.
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Query condition for a set of object types. Tables recorded before object
+ * types existed have none and count as base tables.
+ */
+export function objectTypeCondition(objectTypes: ObjectType[]): {
+  $in: Array<ObjectType | null>;
+} {
+  return {
+    $in: objectTypes.includes(DEFAULT_OBJECT_TYPE)
+      ? [...objectTypes, null]
+      : objectTypes,
+  };
+}